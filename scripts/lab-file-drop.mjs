@@ -0,0 +1,150 @@
+#!/usr/bin/env node
+// File-drop harness for the ingest-labs edge function, standing in for a lab
+// system that writes result files to a shared folder.
+//
+//   LIS_API_KEY=... npm run lab:drop -- --seed --patient MED-2026-00012 --once
+//
+// Every *.hl7 (ORU^R01) and *.json (FHIR) file in the drop folder is sent to
+// the function. Accepted files move to processed/, anything rejected or with
+// an error moves to failed/, and the reply is saved next to the file as
+// <name>.ack or <name>.outcome.json.
+//
+// Options:
+//   --url <url>          Function URL (default: $VITE_SUPABASE_URL/functions/v1/ingest-labs)
+//   --key <key>          Lab system key (default: $LIS_API_KEY)
+//   --dir <path>         Drop folder (default: lab-drop)
+//   --seed               Copy the sample messages from scripts/fixtures/labs into the drop folder first
+//   --patient <id>       Send every message for this patient instead of the id in the file
+//   --once               Process the files already there and exit instead of watching
+//   --interval <ms>      How often to look for new files when watching (default: 2000)
+//   --dry-run            Print the messages instead of sending them; files are left in place
+
+import { copyFileSync, existsSync, mkdirSync, readdirSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import { dirname, extname, join, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const root = join(dirname(fileURLToPath(import.meta.url)), '..');
+const fixtures = join(root, 'scripts', 'fixtures', 'labs');
+const PATIENT_ID = /MED-\d{4}-\d{5}/g;
+
+function parseArgs(argv) {
+  const args = { dir: join(root, 'lab-drop'), interval: 2000, seed: false, once: false, dryRun: false };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--seed') args.seed = true;
+    else if (arg === '--once') args.once = true;
+    else if (arg === '--dry-run') args.dryRun = true;
+    else if (arg === '--url') args.url = argv[++i];
+    else if (arg === '--key') args.key = argv[++i];
+    else if (arg === '--dir') args.dir = resolve(argv[++i]);
+    else if (arg === '--patient') args.patient = argv[++i];
+    else if (arg === '--interval') args.interval = Number(argv[++i]);
+    else throw new Error(`Unknown option ${arg}`);
+  }
+  if (args.patient && !/^MED-\d{4}-\d{5}$/.test(args.patient)) throw new Error('--patient must look like MED-YYYY-NNNNN');
+  return args;
+}
+
+function loadEnvUrl() {
+  if (process.env.VITE_SUPABASE_URL) return process.env.VITE_SUPABASE_URL;
+  try {
+    const env = readFileSync(join(root, '.env'), 'utf8');
+    return env.match(/^VITE_SUPABASE_URL="?([^"\n]+)"?/m)?.[1];
+  } catch {
+    return undefined;
+  }
+}
+
+const isMessageFile = (name) => ['.hl7', '.json'].includes(extname(name).toLowerCase());
+
+function readMessage(path, patient) {
+  let text = readFileSync(path, 'utf8');
+  if (patient) text = text.replace(PATIENT_ID, patient);
+  const hl7 = extname(path).toLowerCase() === '.hl7';
+  return {
+    hl7,
+    // HL7 segments are separated by carriage returns on the wire
+    body: hl7 ? text.trim().split(/\r?\n/).join('\r') : text,
+  };
+}
+
+// The function answers 200 with AE when every result was rejected
+function accepted(status, reply, hl7) {
+  if (status < 200 || status >= 300) return false;
+  if (hl7) return /(^|\r|\n)MSA\|AA\|/.test(reply);
+  try {
+    return !JSON.parse(reply).issue?.some((issue) => ['error', 'fatal'].includes(issue.severity));
+  } catch {
+    return false;
+  }
+}
+
+async function processFile(name, args, url, key) {
+  const path = join(args.dir, name);
+  const { hl7, body } = readMessage(path, args.patient);
+  console.log(`\n--- ${name}`);
+
+  if (args.dryRun) {
+    console.log(body.replace(/\r/g, '\n'));
+    return;
+  }
+
+  let status = 0;
+  let reply;
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'x-lis-key': key,
+        'Content-Type': hl7 ? 'x-application/hl7-v2+er7' : 'application/fhir+json',
+      },
+      body,
+    });
+    status = response.status;
+    reply = await response.text();
+  } catch (error) {
+    reply = `Request failed: ${error.message}`;
+  }
+
+  const target = join(args.dir, accepted(status, reply, hl7) ? 'processed' : 'failed');
+  mkdirSync(target, { recursive: true });
+  renameSync(path, join(target, name));
+  writeFileSync(join(target, `${name}${hl7 ? '.ack' : '.outcome.json'}`), reply.replace(/\r/g, '\n'));
+  console.log(`${status || 'ERR'} -> ${target}\n${reply.replace(/\r/g, '\n')}`);
+}
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const baseUrl = loadEnvUrl();
+  const url = args.url ?? (baseUrl ? `${baseUrl}/functions/v1/ingest-labs` : undefined);
+  const key = args.key ?? process.env.LIS_API_KEY;
+
+  if (!args.dryRun && (!url || !key)) {
+    throw new Error('Set --url/VITE_SUPABASE_URL and --key/LIS_API_KEY (the LIS_API_KEY function secret)');
+  }
+
+  mkdirSync(args.dir, { recursive: true });
+  if (args.seed) {
+    readdirSync(fixtures)
+      .filter(isMessageFile)
+      .forEach((name) => copyFileSync(join(fixtures, name), join(args.dir, name)));
+  }
+
+  console.log(`Watching ${args.dir}${args.once || args.dryRun ? ' (once)' : ', Ctrl-C to stop'}`);
+  do {
+    // Sent in name order; number the files to send a correction after its original
+    const names = readdirSync(args.dir).filter(isMessageFile).sort();
+    for (const name of names) {
+      if (existsSync(join(args.dir, name))) await processFile(name, args, url, key);
+    }
+    if (args.once || args.dryRun) break;
+    await sleep(args.interval);
+  } while (true);
+}
+
+main().catch((error) => {
+  console.error(error.message);
+  process.exit(1);
+});
@@ -0,0 +1,120 @@
+#!/usr/bin/env node
+// Replays a sample bedside monitor feed against the ingest-vitals edge function.
+//
+//   DEVICE_API_KEY=mpd_... npm run simulate:device -- --format hl7 --interval 1000
+//
+// Options:
+//   --url <url>          Function URL (default: $VITE_SUPABASE_URL/functions/v1/ingest-vitals)
+//   --key <key>          Device API key (default: $DEVICE_API_KEY)
+//   --format json|hl7    Which sample feed to send (default: json)
+//   --file <path>        Send another feed file instead of the sample
+//   --interval <ms>      Pause between messages (default: 2000)
+//   --keep-timestamps    Send the feed's own timestamps, e.g. to check duplicates are ignored.
+//                        By default timestamps are shifted so the last reading is "now".
+//   --dry-run            Print the messages instead of sending them
+
+import { readFileSync } from 'node:fs';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const fixtures = join(dirname(fileURLToPath(import.meta.url)), 'fixtures');
+
+function parseArgs(argv) {
+  const args = { format: 'json', interval: 2000, keepTimestamps: false, dryRun: false };
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--keep-timestamps') args.keepTimestamps = true;
+    else if (arg === '--dry-run') args.dryRun = true;
+    else if (arg === '--url') args.url = argv[++i];
+    else if (arg === '--key') args.key = argv[++i];
+    else if (arg === '--format') args.format = argv[++i];
+    else if (arg === '--file') args.file = argv[++i];
+    else if (arg === '--interval') args.interval = Number(argv[++i]);
+    else throw new Error(`Unknown option ${arg}`);
+  }
+  if (!['json', 'hl7'].includes(args.format)) throw new Error('--format must be json or hl7');
+  return args;
+}
+
+function loadEnvUrl() {
+  if (process.env.VITE_SUPABASE_URL) return process.env.VITE_SUPABASE_URL;
+  try {
+    const env = readFileSync(join(fixtures, '..', '..', '.env'), 'utf8');
+    return env.match(/^VITE_SUPABASE_URL="?([^"\n]+)"?/m)?.[1];
+  } catch {
+    return undefined;
+  }
+}
+
+const hl7ToDate = (ts) =>
+  new Date(`${ts.slice(0, 4)}-${ts.slice(4, 6)}-${ts.slice(6, 8)}T${ts.slice(8, 10)}:${ts.slice(10, 12)}:${ts.slice(12, 14)}Z`);
+const dateToHl7 = (date) => date.toISOString().replace(/[-:T]/g, '').slice(0, 14);
+
+// Each message is sent on its own, like a monitor posting as it measures
+function jsonMessages(text, keepTimestamps) {
+  const { readings } = JSON.parse(text);
+  const last = Math.max(...readings.map((r) => new Date(r.timestamp).getTime()));
+  const shift = keepTimestamps ? 0 : Date.now() - last;
+  return readings.map((reading) =>
+    JSON.stringify({ ...reading, timestamp: new Date(new Date(reading.timestamp).getTime() + shift).toISOString() }, null, 2)
+  );
+}
+
+function hl7Messages(text, keepTimestamps) {
+  const messages = text
+    .split(/\n\s*\n/)
+    .map((m) => m.trim())
+    .filter(Boolean);
+  const stamps = messages.flatMap((m) => m.match(/\b\d{14}\b/g) ?? []);
+  const last = Math.max(...stamps.map((ts) => hl7ToDate(ts).getTime()));
+  const shift = keepTimestamps ? 0 : Date.now() - last;
+  return messages.map((m) =>
+    m
+      .replace(/\b\d{14}\b/g, (ts) => dateToHl7(new Date(hl7ToDate(ts).getTime() + shift)))
+      .split('\n')
+      .join('\r')
+  );
+}
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  const baseUrl = loadEnvUrl();
+  const url = args.url ?? (baseUrl ? `${baseUrl}/functions/v1/ingest-vitals` : undefined);
+  const key = args.key ?? process.env.DEVICE_API_KEY;
+
+  if (!args.dryRun && (!url || !key)) {
+    throw new Error('Set --url/VITE_SUPABASE_URL and --key/DEVICE_API_KEY (generate a key on the Devices page)');
+  }
+
+  const file = args.file ?? join(fixtures, `monitor-feed.${args.format}`);
+  const text = readFileSync(file, 'utf8');
+  const messages = args.format === 'hl7' ? hl7Messages(text, args.keepTimestamps) : jsonMessages(text, args.keepTimestamps);
+
+  for (const [i, message] of messages.entries()) {
+    if (i > 0) await sleep(args.interval);
+    console.log(`\n--- message ${i + 1}/${messages.length}`);
+
+    if (args.dryRun) {
+      console.log(message.replace(/\r/g, '\n'));
+      continue;
+    }
+
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'x-device-key': key,
+        'Content-Type': args.format === 'hl7' ? 'x-application/hl7-v2+er7' : 'application/json',
+      },
+      body: message,
+    });
+    const reply = await response.text();
+    console.log(`${response.status} ${reply.replace(/\r/g, '\n')}`);
+  }
+}
+
+main().catch((error) => {
+  console.error(error.message);
+  process.exit(1);
+});
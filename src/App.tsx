@@ -11,12 +11,14 @@ import Patients from "./pages/Patients";
 import PatientDetail from "./pages/PatientDetail";
 import XRayAnalysis from "./pages/XRayAnalysis";
 import VitalsMonitor from "./pages/VitalsMonitor";
+import WardBoard from "./pages/WardBoard";
 import MedicalRecords from "./pages/MedicalRecords";
 import Appointments from "./pages/Appointments";
 import LabResults from "./pages/LabResults";
 import PatientPortal from "./pages/PatientPortal";
 import Prescriptions from "./pages/Prescriptions";
 import Insurance from "./pages/Insurance";
+import Devices from "./pages/Devices";
 import NotFound from "./pages/NotFound";
 import { OfflineIndicator } from "./components/OfflineIndicator";
 import { Loader2 } from "lucide-react";
@@ -165,6 +167,14 @@ function AppRoutes() {
           </StaffRoute>
         }
       />
+      <Route
+        path="/ward"
+        element={
+          <StaffRoute>
+            <WardBoard />
+          </StaffRoute>
+        }
+      />
       <Route
         path="/records"
         element={
@@ -205,6 +215,14 @@ function AppRoutes() {
           </StaffRoute>
         }
       />
+      <Route
+        path="/devices"
+        element={
+          <StaffRoute>
+            <Devices />
+          </StaffRoute>
+        }
+      />
       
       {/* Patient Portal */}
       <Route
@@ -6,16 +6,48 @@ import { Badge } from '@/components/ui/badge';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
 import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
 import { useAuth } from '@/contexts/AuthContext';
+import { useSignedScanUrl } from '@/hooks/useSignedScanUrl';
+import { useAnnotationHistory, type AnnotationSnapshot } from '@/hooks/useAnnotationHistory';
+import { loadGrayscaleImage, type GrayscaleImage } from '@/lib/imageRegistration';
+import {
+  boundingBox,
+  moveGeometry,
+  payloadPoints,
+  resizeGeometry,
+  simplifyPath,
+  type AnnotationGeometry,
+} from '@/lib/annotationGeometry';
+import {
+  MEASUREMENT_LABELS,
+  calibrateSpacing,
+  computeMeasurement,
+  ellipseMeanIntensity,
+  formatMeasurement,
+  parseMeasurementPayload,
+  saveScanPixelSpacing,
+  type ImageSize,
+  type PixelSpacing,
+} from '@/lib/measurements';
+import type { AnnotationPoint, MeasurementKind, MeasurementPayload, ShapePayload } from '@/types/medical';
 import { toast } from 'sonner';
-import { 
-  MessageSquare, 
-  Circle, 
-  Square, 
-  Type, 
-  Trash2, 
+import {
+  MessageSquare,
+  Circle,
+  Square,
+  Type,
+  Trash2,
   Users,
-  Palette
+  Palette,
+  Ruler,
+  DraftingCompass,
+  CircleDashed,
+  Scaling,
+  PenLine,
+  Pentagon,
+  Undo2,
+  Redo2
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
@@ -26,10 +58,11 @@ interface Annotation {
   annotation_type: string;
   x_position: number;
   y_position: number;
-  width?: number;
-  height?: number;
-  content?: string;
+  width?: number | null;
+  height?: number | null;
+  content?: string | null;
   color: string;
+  payload?: Json | null;
   created_at: string;
   profiles?: { full_name: string };
 }
@@ -37,37 +70,125 @@ interface Annotation {
 interface CollaborativeAnnotationProps {
   scanId: string;
   imageUrl?: string;
+  // Spacing from a freshly parsed DICOM; stored calibration on the scan takes precedence
+  pixelSpacing?: PixelSpacing | null;
   onAnnotationChange?: (count: number) => void;
 }
 
 const COLORS = ['#ef4444', '#f97316', '#eab308', '#22c55e', '#3b82f6', '#8b5cf6'];
 
-type Tool = 'select' | 'marker' | 'region' | 'text';
+type Tool = 'select' | 'marker' | 'region' | 'text' | 'freehand' | 'polygon' | MeasurementKind | 'calibrate';
 
-export function CollaborativeAnnotation({ scanId, imageUrl, onAnnotationChange }: CollaborativeAnnotationProps) {
+// Tools that are drawn by dragging
+const DRAG_TOOLS: Tool[] = ['region', 'freehand', 'ruler', 'ellipse', 'calibrate'];
+
+// Clicking within this distance (percent) of the first vertex closes a polygon
+const POLYGON_CLOSE_DISTANCE = 2;
+
+interface EditState {
+  id: string;
+  mode: 'move' | 'resize';
+  start: AnnotationPoint;
+  original: AnnotationGeometry;
+  preview: AnnotationGeometry;
+}
+
+const TOOL_BUTTONS: { tool: Exclude<Tool, 'select'>; icon: typeof Circle; label: string }[] = [
+  { tool: 'marker', icon: Circle, label: 'Marker' },
+  { tool: 'region', icon: Square, label: 'Region' },
+  { tool: 'text', icon: Type, label: 'Text' },
+  { tool: 'freehand', icon: PenLine, label: 'Freehand' },
+  { tool: 'polygon', icon: Pentagon, label: 'Polygon' },
+  { tool: 'ruler', icon: Ruler, label: 'Ruler' },
+  { tool: 'angle', icon: DraftingCompass, label: 'Angle' },
+  { tool: 'ellipse', icon: CircleDashed, label: 'Ellipse ROI' },
+  { tool: 'calibrate', icon: Scaling, label: 'Calibrate' },
+];
+
+function isPixelSpacing(value: unknown): value is PixelSpacing {
+  return Array.isArray(value) && value.length === 2 && value.every((v) => typeof v === 'number' && v > 0);
+}
+
+function geometryOf(annotation: Annotation): AnnotationGeometry {
+  return {
+    x_position: annotation.x_position,
+    y_position: annotation.y_position,
+    width: annotation.width ?? null,
+    height: annotation.height ?? null,
+    color: annotation.color,
+    content: annotation.content ?? null,
+    payload: annotation.payload ?? null,
+  };
+}
+
+function snapshotOf(annotation: Annotation): AnnotationSnapshot {
+  return {
+    id: annotation.id,
+    scan_id: annotation.scan_id,
+    user_id: annotation.user_id,
+    annotation_type: annotation.annotation_type,
+    created_at: annotation.created_at,
+    ...geometryOf(annotation),
+  };
+}
+
+// Markers and text have no size; measurements are redrawn rather than stretched
+const isResizable = (annotation: Annotation) => ['region', 'freehand', 'polygon'].includes(annotation.annotation_type);
+
+export function CollaborativeAnnotation({ scanId, imageUrl, pixelSpacing, onAnnotationChange }: CollaborativeAnnotationProps) {
   const { user, profile } = useAuth();
   const [annotations, setAnnotations] = useState<Annotation[]>([]);
   const [selectedTool, setSelectedTool] = useState<Tool>('select');
   const [selectedColor, setSelectedColor] = useState(COLORS[0]);
   const [isDrawing, setIsDrawing] = useState(false);
-  const [drawStart, setDrawStart] = useState<{ x: number; y: number } | null>(null);
+  const [drawStart, setDrawStart] = useState<AnnotationPoint | null>(null);
+  const [drawCurrent, setDrawCurrent] = useState<AnnotationPoint | null>(null);
+  const [anglePoints, setAnglePoints] = useState<AnnotationPoint[]>([]);
+  const [pathPoints, setPathPoints] = useState<AnnotationPoint[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [edit, setEdit] = useState<EditState | null>(null);
   const [textInput, setTextInput] = useState('');
-  const [textPosition, setTextPosition] = useState<{ x: number; y: number } | null>(null);
+  const [textPosition, setTextPosition] = useState<AnnotationPoint | null>(null);
+  const [calibrationLine, setCalibrationLine] = useState<[AnnotationPoint, AnnotationPoint] | null>(null);
+  const [calibrationLength, setCalibrationLength] = useState('');
   const [activeUsers, setActiveUsers] = useState<string[]>([]);
+  const [scanImagePath, setScanImagePath] = useState<string | null>(null);
+  const [storedSpacing, setStoredSpacing] = useState<PixelSpacing | null>(null);
+  const [imageSize, setImageSize] = useState<ImageSize | null>(null);
   const containerRef = useRef<HTMLDivElement>(null);
+  const grayscaleRef = useRef<{ url: string; image: GrayscaleImage } | null>(null);
+  const { url: storedImageUrl } = useSignedScanUrl(imageUrl ? null : scanImagePath);
+  const displayImageUrl = imageUrl || storedImageUrl;
+  const spacing = storedSpacing || pixelSpacing || null;
+  const imageAspect = imageSize ? imageSize.width / imageSize.height : 1;
+  const history = useAnnotationHistory(scanId);
 
   useEffect(() => {
     fetchAnnotations();
     subscribeToChanges();
   }, [scanId]);
 
+  // Load the stored calibration, and the stored image when the caller has no local preview
+  useEffect(() => {
+    if (!scanId) return;
+    supabase
+      .from('medical_scans')
+      .select('image_url, pixel_spacing')
+      .eq('id', scanId)
+      .maybeSingle()
+      .then(({ data }) => {
+        setScanImagePath(data?.image_url ?? null);
+        setStoredSpacing(isPixelSpacing(data?.pixel_spacing) ? data.pixel_spacing : null);
+      });
+  }, [scanId]);
+
   const fetchAnnotations = async () => {
     const { data } = await supabase
       .from('scan_annotations')
       .select('*')
       .eq('scan_id', scanId)
       .order('created_at', { ascending: true });
-    
+
     // Fetch user profiles separately
     if (data && data.length > 0) {
       const userIds = [...new Set(data.map(a => a.user_id))];
@@ -75,17 +196,17 @@ export function CollaborativeAnnotation({ scanId, imageUrl, onAnnotationChange }
         .from('profiles')
         .select('user_id, full_name')
         .in('user_id', userIds);
-      
+
       const profileMap = (profiles || []).reduce((acc, p) => {
         acc[p.user_id] = p;
         return acc;
       }, {} as Record<string, { user_id: string; full_name: string }>);
-      
+
       const annotationsWithProfiles = data.map(a => ({
         ...a,
         profiles: profileMap[a.user_id]
       }));
-      
+
       setAnnotations(annotationsWithProfiles as Annotation[]);
       onAnnotationChange?.(annotationsWithProfiles.length);
     } else {
@@ -133,78 +254,445 @@ export function CollaborativeAnnotation({ scanId, imageUrl, onAnnotationChange }
     };
   };
 
-  const getRelativePosition = (e: React.MouseEvent) => {
+  // Positions are percentages of the displayed image, so they survive resizing
+  const getRelativePosition = (e: React.MouseEvent): AnnotationPoint => {
     if (!containerRef.current) return { x: 0, y: 0 };
     const rect = containerRef.current.getBoundingClientRect();
     return {
-      x: ((e.clientX - rect.left) / rect.width) * 100,
-      y: ((e.clientY - rect.top) / rect.height) * 100
+      x: Math.min(100, Math.max(0, ((e.clientX - rect.left) / rect.width) * 100)),
+      y: Math.min(100, Math.max(0, ((e.clientY - rect.top) / rect.height) * 100))
     };
   };
 
+  const selectTool = (tool: Tool) => {
+    setSelectedTool(tool);
+    setAnglePoints([]);
+    setPathPoints([]);
+    setCalibrationLine(null);
+    setSelectedId(null);
+  };
+
   const handleMouseDown = (e: React.MouseEvent) => {
-    if (selectedTool === 'select') return;
-    
+    if (selectedTool === 'select') {
+      setSelectedId(null);
+      return;
+    }
+
     const pos = getRelativePosition(e);
-    
-    if (selectedTool === 'marker') {
+
+    if (selectedTool === 'polygon') {
+      const first = pathPoints[0];
+      if (pathPoints.length >= 3 && Math.hypot(pos.x - first.x, pos.y - first.y) <= POLYGON_CLOSE_DISTANCE) {
+        finishPolygon();
+      } else {
+        setPathPoints([...pathPoints, pos]);
+      }
+    } else if (selectedTool === 'marker') {
       addAnnotation('marker', pos.x, pos.y);
     } else if (selectedTool === 'text') {
       setTextPosition(pos);
-    } else if (selectedTool === 'region') {
+    } else if (selectedTool === 'angle') {
+      const points = [...anglePoints, pos];
+      if (points.length === 3) {
+        addMeasurement('angle', points);
+        setAnglePoints([]);
+      } else {
+        setAnglePoints(points);
+      }
+    } else if (DRAG_TOOLS.includes(selectedTool)) {
       setIsDrawing(true);
       setDrawStart(pos);
+      setDrawCurrent(pos);
+      if (selectedTool === 'freehand') setPathPoints([pos]);
+    }
+  };
+
+  const handleMouseMove = (e: React.MouseEvent) => {
+    const pos = getRelativePosition(e);
+
+    if (edit) {
+      const dx = pos.x - edit.start.x;
+      const dy = pos.y - edit.start.y;
+      const preview = edit.mode === 'move'
+        ? moveGeometry(edit.original, dx, dy)
+        : resizeGeometry(edit.original, (edit.original.width ?? 0) + dx, (edit.original.height ?? 0) + dy);
+      setEdit({ ...edit, preview });
+      return;
+    }
+
+    if (isDrawing && selectedTool === 'freehand') {
+      setPathPoints(prev => [...prev, pos]);
+    }
+    if (isDrawing || anglePoints.length > 0 || pathPoints.length > 0) {
+      setDrawCurrent(pos);
     }
   };
 
   const handleMouseUp = async (e: React.MouseEvent) => {
+    if (edit) {
+      await commitEdit(edit);
+      return;
+    }
     if (!isDrawing || !drawStart) return;
-    
+
     const pos = getRelativePosition(e);
     const width = Math.abs(pos.x - drawStart.x);
     const height = Math.abs(pos.y - drawStart.y);
-    
-    if (width > 2 && height > 2) {
-      await addAnnotation('region', Math.min(pos.x, drawStart.x), Math.min(pos.y, drawStart.y), width, height);
-    }
-    
+
     setIsDrawing(false);
     setDrawStart(null);
+    setDrawCurrent(null);
+
+    if (selectedTool === 'freehand') {
+      const points = simplifyPath([...pathPoints, pos]);
+      setPathPoints([]);
+      if (points.length >= 2) await addShape('freehand', points);
+    } else if (selectedTool === 'region' && width > 2 && height > 2) {
+      await addAnnotation('region', Math.min(pos.x, drawStart.x), Math.min(pos.y, drawStart.y), width, height);
+    } else if (selectedTool === 'ellipse' && width > 1 && height > 1) {
+      await addMeasurement('ellipse', [drawStart, pos]);
+    } else if (selectedTool === 'ruler' && Math.hypot(width, height) > 1) {
+      await addMeasurement('ruler', [drawStart, pos]);
+    } else if (selectedTool === 'calibrate' && Math.hypot(width, height) > 1) {
+      setCalibrationLine([drawStart, pos]);
+    }
   };
 
-  const addAnnotation = async (type: string, x: number, y: number, width?: number, height?: number, content?: string) => {
+  const addAnnotation = async (
+    type: string,
+    x: number,
+    y: number,
+    width?: number,
+    height?: number,
+    content?: string,
+    payload?: Json
+  ) => {
     if (!user) return;
 
-    const { error } = await supabase.from('scan_annotations').insert({
-      scan_id: scanId,
-      user_id: user.id,
-      annotation_type: type,
-      x_position: x,
-      y_position: y,
-      width,
-      height,
-      content,
-      color: selectedColor
-    });
+    const { data, error } = await supabase
+      .from('scan_annotations')
+      .insert({
+        scan_id: scanId,
+        user_id: user.id,
+        annotation_type: type,
+        x_position: x,
+        y_position: y,
+        width,
+        height,
+        content,
+        color: selectedColor,
+        payload
+      })
+      .select()
+      .single();
 
     if (error) {
       toast.error('Failed to add annotation');
+      return;
+    }
+    history.record({ kind: 'create', annotation: snapshotOf(data as Annotation) });
+  };
+
+  const addShape = async (type: 'freehand' | 'polygon', points: AnnotationPoint[]) => {
+    const box = boundingBox(points);
+    const payload: ShapePayload = { points };
+    await addAnnotation(type, box.x, box.y, box.width, box.height, undefined, payload as unknown as Json);
+  };
+
+  const finishPolygon = () => {
+    // A double-click also lands two clicks on the last vertex
+    const points = simplifyPath(pathPoints);
+    if (points.length >= 3) addShape('polygon', points);
+    setPathPoints([]);
+    setDrawCurrent(null);
+  };
+
+  const getGrayscaleImage = useCallback(async () => {
+    if (!displayImageUrl) return null;
+    if (grayscaleRef.current?.url !== displayImageUrl) {
+      grayscaleRef.current = { url: displayImageUrl, image: await loadGrayscaleImage(displayImageUrl, Number.POSITIVE_INFINITY) };
+    }
+    return grayscaleRef.current.image;
+  }, [displayImageUrl]);
+
+  const addMeasurement = async (kind: MeasurementKind, points: AnnotationPoint[]) => {
+    if (!imageSize) return;
+
+    const payload: MeasurementPayload = {
+      kind,
+      points,
+      ...computeMeasurement({ kind, points, value: 0, unit: 'px' }, imageSize, spacing),
+    };
+
+    if (kind === 'ellipse') {
+      try {
+        const image = await getGrayscaleImage();
+        const mean = image ? ellipseMeanIntensity(image, points[0], points[1]) : null;
+        if (mean !== null) payload.meanIntensity = mean;
+      } catch (error) {
+        console.error('Error reading ROI intensity:', error);
+      }
+    }
+
+    const xs = points.map((p) => p.x);
+    const ys = points.map((p) => p.y);
+    await addAnnotation(
+      'measurement',
+      Math.min(...xs),
+      Math.min(...ys),
+      Math.max(...xs) - Math.min(...xs),
+      Math.max(...ys) - Math.min(...ys),
+      formatMeasurement(payload),
+      payload as unknown as Json
+    );
+  };
+
+  // Measurement values follow the geometry, so a moved ROI is measured again
+  const remeasure = async (geometry: AnnotationGeometry): Promise<AnnotationGeometry> => {
+    const payload = parseMeasurementPayload(geometry.payload);
+    if (!payload) return geometry;
+
+    const updated: MeasurementPayload = { ...payload, ...computeMeasurement(payload, imageSize, spacing) };
+    if (payload.kind === 'ellipse') {
+      try {
+        const image = await getGrayscaleImage();
+        const mean = image ? ellipseMeanIntensity(image, payload.points[0], payload.points[1]) : null;
+        if (mean !== null) updated.meanIntensity = mean;
+      } catch (error) {
+        console.error('Error reading ROI intensity:', error);
+      }
+    }
+    return { ...geometry, content: formatMeasurement(updated), payload: updated as unknown as Json };
+  };
+
+  const updateAnnotation = async (id: string, before: AnnotationGeometry, after: AnnotationGeometry) => {
+    setAnnotations(prev => prev.map(a => a.id === id ? { ...a, ...after } : a));
+    const { error } = await supabase.from('scan_annotations').update(after).eq('id', id);
+    if (error) {
+      setAnnotations(prev => prev.map(a => a.id === id ? { ...a, ...before } : a));
+      toast.error('Failed to update annotation');
+      return;
+    }
+    history.record({ kind: 'update', id, before, after });
+  };
+
+  const startEdit = (e: React.MouseEvent, annotation: Annotation, mode: EditState['mode']) => {
+    if (selectedTool !== 'select') return;
+    e.stopPropagation();
+    setSelectedId(annotation.id);
+    if (annotation.user_id !== user?.id) return;
+    const original = geometryOf(annotation);
+    setEdit({ id: annotation.id, mode, start: getRelativePosition(e), original, preview: original });
+  };
+
+  const commitEdit = async ({ id, original, preview }: EditState) => {
+    setEdit(null);
+    if (preview.x_position === original.x_position && preview.y_position === original.y_position
+      && preview.width === original.width && preview.height === original.height) return;
+
+    const annotation = annotations.find(a => a.id === id);
+    const after = annotation?.annotation_type === 'measurement' ? await remeasure(preview) : preview;
+    await updateAnnotation(id, original, after);
+  };
+
+  const recolor = (color: string) => {
+    setSelectedColor(color);
+    const annotation = annotations.find(a => a.id === selectedId);
+    if (!annotation || annotation.user_id !== user?.id || annotation.color === color) return;
+    const before = geometryOf(annotation);
+    updateAnnotation(annotation.id, before, { ...before, color });
+  };
+
+  const handleUndo = async () => {
+    if (!(await history.undo())) toast.error('Could not undo');
+  };
+
+  const handleRedo = async () => {
+    if (!(await history.redo())) toast.error('Could not redo');
+  };
+
+  const handleCalibrationSubmit = async () => {
+    const length = parseFloat(calibrationLength);
+    if (!calibrationLine || !imageSize || !(length > 0)) return;
+
+    const calibrated = calibrateSpacing(calibrationLine[0], calibrationLine[1], imageSize, length);
+    if (!calibrated) return;
+
+    setStoredSpacing(calibrated);
+    setCalibrationLine(null);
+    setCalibrationLength('');
+    setSelectedTool('select');
+
+    if (!scanId) return;
+    try {
+      await saveScanPixelSpacing(scanId, calibrated);
+      toast.success(`Calibrated to ${calibrated[0].toFixed(3)} mm/pixel`);
+    } catch (error) {
+      console.error('Error saving calibration:', error);
+      toast.error('Calibration applied locally but could not be saved');
     }
   };
 
   const handleTextSubmit = async () => {
     if (!textPosition || !textInput.trim()) return;
-    
+
     await addAnnotation('text', textPosition.x, textPosition.y, undefined, undefined, textInput);
     setTextInput('');
     setTextPosition(null);
   };
 
   const deleteAnnotation = async (id: string) => {
+    const annotation = annotations.find(a => a.id === id);
     const { error } = await supabase.from('scan_annotations').delete().eq('id', id);
-    if (error) toast.error('Failed to delete annotation');
+    if (error) {
+      toast.error('Failed to delete annotation');
+      return;
+    }
+    if (selectedId === id) setSelectedId(null);
+    if (annotation) history.record({ kind: 'delete', annotation: snapshotOf(annotation) });
   };
 
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+      const modifier = e.ctrlKey || e.metaKey;
+
+      if (modifier && e.key.toLowerCase() === 'z') {
+        e.preventDefault();
+        if (e.shiftKey) handleRedo();
+        else handleUndo();
+      } else if (modifier && e.key.toLowerCase() === 'y') {
+        e.preventDefault();
+        handleRedo();
+      } else if (e.key === 'Escape') {
+        setPathPoints([]);
+        setAnglePoints([]);
+        setSelectedId(null);
+      } else if (e.key === 'Enter' && selectedTool === 'polygon') {
+        finishPolygon();
+      } else if ((e.key === 'Delete' || e.key === 'Backspace') && selectedId) {
+        const annotation = annotations.find(a => a.id === selectedId);
+        if (annotation?.user_id === user?.id) deleteAnnotation(selectedId);
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const renderDeleteButton = (annotation: Annotation) =>
+    annotation.user_id === user?.id && (
+      <button
+        className="absolute -top-2 -right-2 w-5 h-5 bg-destructive text-destructive-foreground rounded-full opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center pointer-events-auto"
+        onMouseDown={(e) => e.stopPropagation()}
+        onClick={(e) => {
+          e.stopPropagation();
+          deleteAnnotation(annotation.id);
+        }}
+      >
+        <Trash2 className="w-3 h-3" />
+      </button>
+    );
+
+  const strokePropsFor = (color: string, dashed: boolean, onMouseDown?: (e: React.MouseEvent) => void) => ({
+    stroke: color,
+    strokeWidth: 2,
+    fill: 'none',
+    vectorEffect: 'non-scaling-stroke' as const,
+    strokeDasharray: dashed ? '4 3' : undefined,
+    // The overlay ignores the pointer; existing shapes opt back in so they can be selected and dragged
+    style: onMouseDown ? { pointerEvents: 'visiblePainted' as const, cursor: 'move' } : undefined,
+    onMouseDown,
+  });
+
+  const renderMeasurementShape = (
+    payload: MeasurementPayload,
+    color: string,
+    key: string,
+    dashed = false,
+    onMouseDown?: (e: React.MouseEvent) => void
+  ) => {
+    const [a, b, c] = payload.points;
+    const strokeProps = strokePropsFor(color, dashed, onMouseDown);
+
+    if (payload.kind === 'ellipse' && b) {
+      return (
+        <ellipse
+          key={key}
+          cx={(a.x + b.x) / 2}
+          cy={(a.y + b.y) / 2}
+          rx={Math.abs(b.x - a.x) / 2}
+          ry={Math.abs(b.y - a.y) / 2}
+          {...strokeProps}
+          fill={`${color}20`}
+        />
+      );
+    }
+    if (payload.kind === 'angle') {
+      return <polyline key={key} points={[a, b, c].filter(Boolean).map((p) => `${p.x},${p.y}`).join(' ')} {...strokeProps} />;
+    }
+    return b ? <line key={key} x1={a.x} y1={a.y} x2={b.x} y2={b.y} {...strokeProps} /> : null;
+  };
+
+  const measurementLabelPosition = (payload: MeasurementPayload): AnnotationPoint => {
+    const [a, b] = payload.points;
+    if (payload.kind === 'angle') return b;
+    return { x: Math.max(a.x, b.x), y: Math.max(a.y, b.y) };
+  };
+
+  const describeMeasurement = (payload: MeasurementPayload) => {
+    const text = formatMeasurement(computeMeasurement(payload, imageSize, spacing));
+    return payload.meanIntensity !== undefined ? `${text} • mean ${payload.meanIntensity.toFixed(0)}` : text;
+  };
+
+  const renderPointShape = (
+    type: string,
+    points: AnnotationPoint[],
+    color: string,
+    key: string,
+    dashed = false,
+    onMouseDown?: (e: React.MouseEvent) => void
+  ) => {
+    const strokeProps = strokePropsFor(color, dashed, onMouseDown);
+    const pointList = points.map((p) => `${p.x},${p.y}`).join(' ');
+    return type === 'polygon'
+      ? <polygon key={key} points={pointList} {...strokeProps} fill={`${color}20`} />
+      : <polyline key={key} points={pointList} {...strokeProps} strokeLinejoin="round" strokeLinecap="round" />;
+  };
+
+  // Annotations being dragged or resized are drawn from the local preview until saved
+  const displayedAnnotations = annotations.map(a => (edit?.id === a.id ? { ...a, ...edit.preview } : a));
+  const selectedAnnotation = displayedAnnotations.find(a => a.id === selectedId);
+
+  const shapes = displayedAnnotations
+    .filter(a => a.annotation_type === 'freehand' || a.annotation_type === 'polygon')
+    .map(annotation => ({ annotation, points: payloadPoints(annotation.payload) || [] }));
+
+  const measurements = displayedAnnotations
+    .filter(a => a.annotation_type === 'measurement')
+    .map(annotation => ({ annotation, payload: parseMeasurementPayload(annotation.payload) }))
+    .filter((m): m is { annotation: Annotation; payload: MeasurementPayload } => m.payload !== null);
+
+  // In-progress geometry for the active tool
+  const previewPayload: MeasurementPayload | null = (() => {
+    if (selectedTool === 'angle' && anglePoints.length > 0) {
+      return { kind: 'angle', points: drawCurrent ? [...anglePoints, drawCurrent] : anglePoints, value: 0, unit: '°' };
+    }
+    if (isDrawing && drawStart && drawCurrent && (selectedTool === 'ruler' || selectedTool === 'calibrate')) {
+      return { kind: 'ruler', points: [drawStart, drawCurrent], value: 0, unit: 'px' };
+    }
+    if (isDrawing && drawStart && drawCurrent && selectedTool === 'ellipse') {
+      return { kind: 'ellipse', points: [drawStart, drawCurrent], value: 0, unit: 'px' };
+    }
+    if (calibrationLine) {
+      return { kind: 'ruler', points: calibrationLine, value: 0, unit: 'px' };
+    }
+    return null;
+  })();
+
+  const previewPath = selectedTool === 'polygon' && pathPoints.length > 0 && drawCurrent
+    ? [...pathPoints, drawCurrent]
+    : pathPoints;
+
   return (
     <Card>
       <CardHeader className="pb-3">
@@ -241,37 +729,25 @@ export function CollaborativeAnnotation({ scanId, imageUrl, onAnnotationChange }
             <Button
               variant={selectedTool === 'select' ? 'secondary' : 'ghost'}
               size="sm"
-              onClick={() => setSelectedTool('select')}
+              onClick={() => selectTool('select')}
               className="h-8 px-2"
             >
               Select
             </Button>
-            <Button
-              variant={selectedTool === 'marker' ? 'secondary' : 'ghost'}
-              size="sm"
-              onClick={() => setSelectedTool('marker')}
-              className="h-8 px-2"
-            >
-              <Circle className="w-4 h-4" />
-            </Button>
-            <Button
-              variant={selectedTool === 'region' ? 'secondary' : 'ghost'}
-              size="sm"
-              onClick={() => setSelectedTool('region')}
-              className="h-8 px-2"
-            >
-              <Square className="w-4 h-4" />
-            </Button>
-            <Button
-              variant={selectedTool === 'text' ? 'secondary' : 'ghost'}
-              size="sm"
-              onClick={() => setSelectedTool('text')}
-              className="h-8 px-2"
-            >
-              <Type className="w-4 h-4" />
-            </Button>
+            {TOOL_BUTTONS.map(({ tool, icon: Icon, label }) => (
+              <Button
+                key={tool}
+                variant={selectedTool === tool ? 'secondary' : 'ghost'}
+                size="sm"
+                onClick={() => selectTool(tool)}
+                className="h-8 px-2"
+                title={label}
+              >
+                <Icon className="w-4 h-4" />
+              </Button>
+            ))}
           </div>
-          
+
           <Popover>
             <PopoverTrigger asChild>
               <Button variant="outline" size="sm" className="h-8 gap-2">
@@ -289,97 +765,232 @@ export function CollaborativeAnnotation({ scanId, imageUrl, onAnnotationChange }
                       selectedColor === color && "ring-2 ring-offset-2 ring-primary"
                     )}
                     style={{ backgroundColor: color }}
-                    onClick={() => setSelectedColor(color)}
+                    onClick={() => recolor(color)}
                   />
                 ))}
               </div>
             </PopoverContent>
           </Popover>
 
+          <div className="flex items-center gap-1">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleUndo}
+              disabled={!history.canUndo}
+              className="h-8 px-2"
+              title="Undo (Ctrl+Z)"
+            >
+              <Undo2 className="w-4 h-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleRedo}
+              disabled={!history.canRedo}
+              className="h-8 px-2"
+              title="Redo (Ctrl+Shift+Z)"
+            >
+              <Redo2 className="w-4 h-4" />
+            </Button>
+          </div>
+
+          <Badge variant={spacing ? 'secondary' : 'outline'} className="font-mono text-xs">
+            {spacing ? `${spacing[1].toFixed(3)} × ${spacing[0].toFixed(3)} mm/px` : 'Uncalibrated (px)'}
+          </Badge>
+
           <Badge variant="outline" className="ml-auto">
             {annotations.length} annotation{annotations.length !== 1 ? 's' : ''}
           </Badge>
         </div>
 
         {/* Image with Annotations */}
-        <div
-          ref={containerRef}
-          className={cn(
-            "relative aspect-square bg-muted rounded-lg overflow-hidden border",
-            selectedTool !== 'select' && "cursor-crosshair"
-          )}
-          onMouseDown={handleMouseDown}
-          onMouseUp={handleMouseUp}
-        >
-          {imageUrl ? (
-            <img src={imageUrl} alt="Scan" className="w-full h-full object-contain pointer-events-none" />
-          ) : (
-            <div className="w-full h-full flex items-center justify-center text-muted-foreground">
-              Upload a scan to annotate
-            </div>
-          )}
-
-          {/* Render Annotations */}
-          {annotations.map(annotation => (
+        <div className="relative aspect-square bg-muted rounded-lg overflow-hidden border flex items-center justify-center">
+          {displayImageUrl ? (
             <div
-              key={annotation.id}
-              className="absolute group"
+              ref={containerRef}
+              className={cn("relative", selectedTool !== 'select' && "cursor-crosshair")}
               style={{
-                left: `${annotation.x_position}%`,
-                top: `${annotation.y_position}%`,
-                width: annotation.width ? `${annotation.width}%` : undefined,
-                height: annotation.height ? `${annotation.height}%` : undefined,
+                aspectRatio: imageAspect,
+                width: imageAspect >= 1 ? '100%' : 'auto',
+                height: imageAspect >= 1 ? 'auto' : '100%',
               }}
+              onMouseDown={handleMouseDown}
+              onMouseMove={handleMouseMove}
+              onMouseUp={handleMouseUp}
+              onMouseLeave={() => edit && commitEdit(edit)}
+              onDoubleClick={() => selectedTool === 'polygon' && finishPolygon()}
             >
-              {annotation.annotation_type === 'marker' && (
+              <img
+                src={displayImageUrl}
+                alt="Scan"
+                className="w-full h-full pointer-events-none"
+                onLoad={(e) => setImageSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+              />
+
+              {/* Measurement geometry */}
+              <svg className="absolute inset-0 w-full h-full pointer-events-none" viewBox="0 0 100 100" preserveAspectRatio="none">
+                {shapes.map(({ annotation, points }) =>
+                  renderPointShape(annotation.annotation_type, points, annotation.color, annotation.id, false, (e) => startEdit(e, annotation, 'move'))
+                )}
+                {measurements.map(({ annotation, payload }) =>
+                  renderMeasurementShape(payload, annotation.color, annotation.id, false, (e) => startEdit(e, annotation, 'move'))
+                )}
+                {previewPayload && renderMeasurementShape(previewPayload, selectedColor, 'preview', true)}
+                {previewPath.length > 1 && renderPointShape('freehand', previewPath, selectedColor, 'path-preview', true)}
+              </svg>
+
+              {measurements.map(({ annotation, payload }) => {
+                const position = measurementLabelPosition(payload);
+                return (
+                  <div
+                    key={annotation.id}
+                    className="absolute group"
+                    style={{ left: `${position.x}%`, top: `${position.y}%` }}
+                  >
+                    <div
+                      className="ml-1 mt-1 px-1.5 py-0.5 rounded text-xs text-white shadow-lg whitespace-nowrap"
+                      style={{ backgroundColor: annotation.color }}
+                    >
+                      {describeMeasurement(payload)}
+                    </div>
+                    {renderDeleteButton(annotation)}
+                  </div>
+                );
+              })}
+
+              {/* Render Annotations */}
+              {displayedAnnotations.filter(a => ['marker', 'region', 'text'].includes(a.annotation_type)).map(annotation => (
                 <div
-                  className="w-4 h-4 rounded-full -translate-x-1/2 -translate-y-1/2 border-2 border-white shadow-lg"
-                  style={{ backgroundColor: annotation.color }}
-                />
-              )}
-              {annotation.annotation_type === 'region' && (
+                  key={annotation.id}
+                  className={cn("absolute group", selectedTool === 'select' && "cursor-move")}
+                  onMouseDown={(e) => startEdit(e, annotation, 'move')}
+                  style={{
+                    left: `${annotation.x_position}%`,
+                    top: `${annotation.y_position}%`,
+                    width: annotation.width ? `${annotation.width}%` : undefined,
+                    height: annotation.height ? `${annotation.height}%` : undefined,
+                  }}
+                >
+                  {annotation.annotation_type === 'marker' && (
+                    <div
+                      className="w-4 h-4 rounded-full -translate-x-1/2 -translate-y-1/2 border-2 border-white shadow-lg"
+                      style={{ backgroundColor: annotation.color }}
+                    />
+                  )}
+                  {annotation.annotation_type === 'region' && (
+                    <div
+                      className="w-full h-full border-2 rounded"
+                      style={{ borderColor: annotation.color, backgroundColor: `${annotation.color}20` }}
+                    />
+                  )}
+                  {annotation.annotation_type === 'text' && (
+                    <div
+                      className="px-2 py-1 rounded text-xs text-white shadow-lg whitespace-nowrap"
+                      style={{ backgroundColor: annotation.color }}
+                    >
+                      {annotation.content}
+                    </div>
+                  )}
+
+                  {/* Delete button on hover */}
+                  {renderDeleteButton(annotation)}
+                </div>
+              ))}
+
+              {/* Drawing preview */}
+              {isDrawing && drawStart && drawCurrent && selectedTool === 'region' && (
                 <div
-                  className="w-full h-full border-2 rounded"
-                  style={{ borderColor: annotation.color, backgroundColor: `${annotation.color}20` }}
+                  className="absolute border-2 border-dashed rounded pointer-events-none"
+                  style={{
+                    left: `${Math.min(drawStart.x, drawCurrent.x)}%`,
+                    top: `${Math.min(drawStart.y, drawCurrent.y)}%`,
+                    width: `${Math.abs(drawCurrent.x - drawStart.x)}%`,
+                    height: `${Math.abs(drawCurrent.y - drawStart.y)}%`,
+                    borderColor: selectedColor
+                  }}
                 />
               )}
-              {annotation.annotation_type === 'text' && (
+
+              {/* Selection outline */}
+              {selectedAnnotation && selectedAnnotation.width != null && selectedAnnotation.height != null && (
                 <div
-                  className="px-2 py-1 rounded text-xs text-white shadow-lg whitespace-nowrap"
-                  style={{ backgroundColor: annotation.color }}
-                >
-                  {annotation.content}
-                </div>
-              )}
-              
-              {/* Delete button on hover */}
-              {annotation.user_id === user?.id && (
-                <button
-                  className="absolute -top-2 -right-2 w-5 h-5 bg-destructive text-destructive-foreground rounded-full opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center"
-                  onClick={(e) => {
-                    e.stopPropagation();
-                    deleteAnnotation(annotation.id);
+                  className="absolute border border-dashed border-primary pointer-events-none"
+                  style={{
+                    left: `${selectedAnnotation.x_position}%`,
+                    top: `${selectedAnnotation.y_position}%`,
+                    width: `${selectedAnnotation.width}%`,
+                    height: `${selectedAnnotation.height}%`,
                   }}
                 >
-                  <Trash2 className="w-3 h-3" />
-                </button>
+                  {selectedAnnotation.user_id === user?.id && (
+                    <>
+                      <button
+                        className="absolute -top-2 -right-2 w-5 h-5 bg-destructive text-destructive-foreground rounded-full flex items-center justify-center pointer-events-auto"
+                        onMouseDown={(e) => e.stopPropagation()}
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          deleteAnnotation(selectedAnnotation.id);
+                        }}
+                      >
+                        <Trash2 className="w-3 h-3" />
+                      </button>
+                      {isResizable(selectedAnnotation) && (
+                        <div
+                          className="absolute -bottom-1.5 -right-1.5 w-3 h-3 bg-primary border border-background rounded-sm cursor-nwse-resize pointer-events-auto"
+                          onMouseDown={(e) => startEdit(e, selectedAnnotation, 'resize')}
+                        />
+                      )}
+                    </>
+                  )}
+                </div>
               )}
             </div>
-          ))}
-
-          {/* Drawing preview */}
-          {isDrawing && drawStart && (
-            <div
-              className="absolute border-2 border-dashed rounded pointer-events-none"
-              style={{
-                left: `${drawStart.x}%`,
-                top: `${drawStart.y}%`,
-                borderColor: selectedColor
-              }}
-            />
+          ) : (
+            <div className="w-full h-full flex items-center justify-center text-muted-foreground">
+              Upload a scan to annotate
+            </div>
           )}
         </div>
 
+        {selectedTool === 'angle' && (
+          <p className="text-xs text-muted-foreground">
+            Click the first arm, the vertex, then the second arm ({anglePoints.length}/3).
+          </p>
+        )}
+        {selectedTool === 'polygon' && (
+          <p className="text-xs text-muted-foreground">
+            Click to add vertices; click the first vertex, double-click or press Enter to close. Esc cancels.
+          </p>
+        )}
+        {selectedTool === 'select' && annotations.length > 0 && (
+          <p className="text-xs text-muted-foreground">
+            Click your annotations to select, drag to move, pick a colour to recolour. Ctrl+Z / Ctrl+Shift+Z undo and redo.
+          </p>
+        )}
+
+        {/* Calibration Input */}
+        {calibrationLine && (
+          <div className="flex gap-2">
+            <Input
+              type="number"
+              min="0"
+              step="0.1"
+              value={calibrationLength}
+              onChange={(e) => setCalibrationLength(e.target.value)}
+              placeholder="Known length of the drawn line (mm)"
+              onKeyDown={(e) => e.key === 'Enter' && handleCalibrationSubmit()}
+              autoFocus
+            />
+            <Button onClick={handleCalibrationSubmit} disabled={!(parseFloat(calibrationLength) > 0)}>
+              Calibrate
+            </Button>
+            <Button variant="outline" onClick={() => setCalibrationLine(null)}>
+              Cancel
+            </Button>
+          </div>
+        )}
+
         {/* Text Input Dialog */}
         {textPosition && (
           <div className="flex gap-2">
@@ -402,14 +1013,26 @@ export function CollaborativeAnnotation({ scanId, imageUrl, onAnnotationChange }
         {/* Annotation List */}
         {annotations.length > 0 && (
           <div className="space-y-2 max-h-32 overflow-y-auto">
-            {annotations.map(annotation => (
-              <div key={annotation.id} className="flex items-center gap-2 text-sm">
-                <div className="w-3 h-3 rounded-full" style={{ backgroundColor: annotation.color }} />
-                <span className="text-muted-foreground">{annotation.profiles?.full_name || 'Unknown'}:</span>
-                <span className="capitalize">{annotation.annotation_type}</span>
-                {annotation.content && <span className="text-muted-foreground">- {annotation.content}</span>}
-              </div>
-            ))}
+            {annotations.map(annotation => {
+              const measurement = annotation.annotation_type === 'measurement' ? parseMeasurementPayload(annotation.payload) : null;
+              return (
+                <div key={annotation.id} className="flex items-center gap-2 text-sm">
+                  <div className="w-3 h-3 rounded-full" style={{ backgroundColor: annotation.color }} />
+                  <span className="text-muted-foreground">{annotation.profiles?.full_name || 'Unknown'}:</span>
+                  {measurement ? (
+                    <>
+                      <span>{MEASUREMENT_LABELS[measurement.kind]}</span>
+                      <span className="text-muted-foreground font-mono">- {describeMeasurement(measurement)}</span>
+                    </>
+                  ) : (
+                    <>
+                      <span className="capitalize">{annotation.annotation_type}</span>
+                      {annotation.content && <span className="text-muted-foreground">- {annotation.content}</span>}
+                    </>
+                  )}
+                </div>
+              );
+            })}
           </div>
         )}
       </CardContent>
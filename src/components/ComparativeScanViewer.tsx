@@ -1,13 +1,42 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Slider } from '@/components/ui/slider';
+import { Switch } from '@/components/ui/switch';
 import { supabase } from '@/integrations/supabase/client';
 import { format } from 'date-fns';
-import { ArrowLeftRight, Calendar, TrendingUp, TrendingDown, Minus, ZoomIn, ZoomOut } from 'lucide-react';
+import {
+  ArrowLeftRight,
+  Calendar,
+  TrendingUp,
+  TrendingDown,
+  Minus,
+  ZoomIn,
+  ZoomOut,
+  RotateCcw,
+  Columns2,
+  SquareSplitHorizontal,
+  Layers,
+  Diff,
+  Crosshair,
+  Loader2
+} from 'lucide-react';
+import { toast } from 'sonner';
 import { cn } from '@/lib/utils';
 import { RiskBadge } from '@/components/RiskBadge';
+import { getSignedScanUrls } from '@/lib/scanStorage';
+import {
+  grayscaleToDataUrl,
+  loadGrayscaleImage,
+  registerImages,
+  renderDifferenceImage,
+  resampleImage,
+  transformImage,
+  type GrayscaleImage,
+  type RegistrationResult,
+} from '@/lib/imageRegistration';
 
 interface Scan {
   id: string;
@@ -22,6 +51,35 @@ interface Scan {
   ai_explanation: string | null;
 }
 
+type CompareMode = 'side-by-side' | 'swipe' | 'onion' | 'difference';
+
+const COMPARE_MODES: { value: CompareMode; label: string; icon: typeof Columns2 }[] = [
+  { value: 'side-by-side', label: 'Side by side', icon: Columns2 },
+  { value: 'swipe', label: 'Swipe', icon: SquareSplitHorizontal },
+  { value: 'onion', label: 'Onion skin', icon: Layers },
+  { value: 'difference', label: 'Difference', icon: Diff },
+];
+
+interface ViewState {
+  zoom: number;
+  x: number;
+  y: number;
+}
+
+const DEFAULT_VIEW: ViewState = { zoom: 1, x: 0, y: 0 };
+
+interface PairPixels {
+  key: string;
+  current: GrayscaleImage;
+  previous: GrayscaleImage;
+}
+
+// The current scan is the reference; the previous scan is resampled onto its grid
+async function loadPairPixels(key: string, currentUrl: string, previousUrl: string): Promise<PairPixels> {
+  const [current, previous] = await Promise.all([loadGrayscaleImage(currentUrl), loadGrayscaleImage(previousUrl)]);
+  return { key, current, previous: resampleImage(previous, current.width, current.height) };
+}
+
 interface ComparativeScanViewerProps {
   patientId: string;
   currentScanId?: string;
@@ -32,8 +90,18 @@ export function ComparativeScanViewer({ patientId, currentScanId, onClose }: Com
   const [scans, setScans] = useState<Scan[]>([]);
   const [leftScanId, setLeftScanId] = useState<string>('');
   const [rightScanId, setRightScanId] = useState<string>('');
-  const [zoom, setZoom] = useState(1);
+  const [view, setView] = useState<ViewState>(DEFAULT_VIEW);
+  const [mode, setMode] = useState<CompareMode>('side-by-side');
+  const [imageUrls, setImageUrls] = useState<Record<string, string>>({});
   const [isLoading, setIsLoading] = useState(true);
+  // Pixel data for the selected pair, loaded on demand for overlay modes and alignment
+  const [pixels, setPixels] = useState<PairPixels | null>(null);
+  const [isPreparing, setIsPreparing] = useState(false);
+  const [registration, setRegistration] = useState<RegistrationResult | null>(null);
+  const [showAligned, setShowAligned] = useState(true);
+  const [swipePosition, setSwipePosition] = useState(50);
+  const [onionOpacity, setOnionOpacity] = useState(50);
+  const dragRef = useRef<{ x: number; y: number } | null>(null);
 
   useEffect(() => {
     fetchScans();
@@ -61,11 +129,118 @@ export function ComparativeScanViewer({ patientId, currentScanId, onClose }: Com
       .order('created_at', { ascending: false });
     
     setScans(data || []);
+    setImageUrls(await getSignedScanUrls((data || []).map(s => s.image_url)));
     setIsLoading(false);
   };
 
+  const getImageUrl = (scan: Scan) => (scan.image_url ? imageUrls[scan.image_url] : undefined);
+
   const leftScan = scans.find(s => s.id === leftScanId);
   const rightScan = scans.find(s => s.id === rightScanId);
+  const pairKey = `${leftScanId}:${rightScanId}`;
+  const pairPixels = pixels?.key === pairKey ? pixels : null;
+
+  useEffect(() => {
+    setRegistration(null);
+  }, [pairKey]);
+
+  const currentUrl = rightScan ? getImageUrl(rightScan) : undefined;
+  const previousUrl = leftScan ? getImageUrl(leftScan) : undefined;
+
+  useEffect(() => {
+    if (mode === 'side-by-side' || pairPixels || !currentUrl || !previousUrl) return;
+    setIsPreparing(true);
+    loadPairPixels(pairKey, currentUrl, previousUrl)
+      .then(setPixels)
+      .catch((error) => {
+        console.error('Error loading scan pixels:', error);
+        toast.error('Could not read scan images for comparison');
+        setMode('side-by-side');
+      })
+      .finally(() => setIsPreparing(false));
+  }, [mode, pairKey, pairPixels, currentUrl, previousUrl]);
+
+  const handleAlign = async () => {
+    if (!currentUrl || !previousUrl) {
+      toast.error('Both scans need an image to align');
+      return;
+    }
+    setIsPreparing(true);
+    try {
+      const loaded = pairPixels || (await loadPairPixels(pairKey, currentUrl, previousUrl));
+      setPixels(loaded);
+      const result = registerImages(loaded.current, loaded.previous);
+      setRegistration(result);
+      setShowAligned(true);
+      toast.success(`Aligned (correlation ${result.correlation.toFixed(2)})`);
+    } catch (error) {
+      console.error('Error aligning scans:', error);
+      toast.error('Could not align scans');
+    } finally {
+      setIsPreparing(false);
+    }
+  };
+
+  const alignedPrevious = useMemo(() => {
+    if (!pairPixels) return null;
+    return registration && showAligned
+      ? transformImage(pairPixels.previous, registration.transform)
+      : pairPixels.previous;
+  }, [pairPixels, registration, showAligned]);
+
+  const alignedPreviousUrl = useMemo(
+    () => (alignedPrevious ? grayscaleToDataUrl(alignedPrevious) : null),
+    [alignedPrevious]
+  );
+
+  const difference = useMemo(() => {
+    if (mode !== 'difference' || !pairPixels || !alignedPrevious) return null;
+    return renderDifferenceImage(pairPixels.current, alignedPrevious);
+  }, [mode, pairPixels, alignedPrevious]);
+
+  const isAligned = Boolean(registration && showAligned);
+  const previousDisplayUrl = (isAligned && alignedPreviousUrl) || previousUrl;
+
+  // Pan and zoom are shared by every pane so both studies stay in register
+  const handlePointerDown = (e: React.PointerEvent) => {
+    dragRef.current = { x: e.clientX, y: e.clientY };
+    e.currentTarget.setPointerCapture(e.pointerId);
+  };
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!dragRef.current) return;
+    const dx = e.clientX - dragRef.current.x;
+    const dy = e.clientY - dragRef.current.y;
+    dragRef.current = { x: e.clientX, y: e.clientY };
+    setView(v => ({ ...v, x: v.x + dx, y: v.y + dy }));
+  };
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+  const handleWheel = (e: React.WheelEvent) => {
+    setView(v => ({ ...v, zoom: Math.min(4, Math.max(0.5, v.zoom - e.deltaY * 0.001)) }));
+  };
+
+  const paneProps = {
+    className: "relative aspect-square bg-muted rounded-lg overflow-hidden border cursor-grab active:cursor-grabbing touch-none",
+    onPointerDown: handlePointerDown,
+    onPointerMove: handlePointerMove,
+    onPointerUp: handlePointerUp,
+    onPointerLeave: handlePointerUp,
+    onWheel: handleWheel,
+  };
+  const layerStyle = {
+    transform: `translate(${view.x}px, ${view.y}px) scale(${view.zoom})`,
+    transformOrigin: 'center',
+  };
+
+  const renderScanImage = (url: string | undefined, alt: string) =>
+    url ? (
+      <img src={url} alt={alt} className="w-full h-full object-contain" draggable={false} />
+    ) : (
+      <div className="w-full h-full flex items-center justify-center text-muted-foreground">
+        No image available
+      </div>
+    );
 
   const getChangeIndicator = (left: number | null, right: number | null) => {
     if (left === null || right === null) return null;
@@ -105,13 +280,16 @@ export function ComparativeScanViewer({ patientId, currentScanId, onClose }: Com
             Comparative Analysis
           </CardTitle>
           <div className="flex items-center gap-2">
-            <Button variant="outline" size="sm" onClick={() => setZoom(z => Math.max(0.5, z - 0.25))}>
+            <Button variant="outline" size="sm" onClick={() => setView(v => ({ ...v, zoom: Math.max(0.5, v.zoom - 0.25) }))}>
               <ZoomOut className="w-4 h-4" />
             </Button>
-            <span className="text-sm text-muted-foreground w-12 text-center">{Math.round(zoom * 100)}%</span>
-            <Button variant="outline" size="sm" onClick={() => setZoom(z => Math.min(2, z + 0.25))}>
+            <span className="text-sm text-muted-foreground w-12 text-center">{Math.round(view.zoom * 100)}%</span>
+            <Button variant="outline" size="sm" onClick={() => setView(v => ({ ...v, zoom: Math.min(4, v.zoom + 0.25) }))}>
               <ZoomIn className="w-4 h-4" />
             </Button>
+            <Button variant="outline" size="sm" onClick={() => setView(DEFAULT_VIEW)}>
+              <RotateCcw className="w-4 h-4" />
+            </Button>
           </div>
         </div>
       </CardHeader>
@@ -150,68 +328,158 @@ export function ComparativeScanViewer({ patientId, currentScanId, onClose }: Com
           </div>
         </div>
 
-        {/* Side by Side Comparison */}
+        {/* Comparison */}
         {leftScan && rightScan && (
           <>
-            <div className="grid grid-cols-2 gap-4">
-              {/* Left Scan */}
-              <div className="space-y-3">
-                <div className="flex items-center justify-between">
-                  <Badge variant="outline" className="gap-1">
-                    <Calendar className="w-3 h-3" />
-                    {format(new Date(leftScan.created_at), 'MMM d, yyyy')}
-                  </Badge>
-                  {leftScan.risk_level && (
-                    <RiskBadge level={leftScan.risk_level as 'low' | 'medium' | 'high'} />
-                  )}
+            {/* Mode and alignment controls */}
+            <div className="flex items-center justify-between gap-2 flex-wrap">
+              <div className="flex items-center gap-1 bg-muted rounded-lg p-1">
+                {COMPARE_MODES.map(({ value, label, icon: Icon }) => (
+                  <Button
+                    key={value}
+                    variant={mode === value ? 'secondary' : 'ghost'}
+                    size="sm"
+                    onClick={() => setMode(value)}
+                    className="h-7 px-2 text-xs"
+                  >
+                    <Icon className="w-3 h-3 mr-1" />
+                    {label}
+                  </Button>
+                ))}
+              </div>
+              <div className="flex items-center gap-3">
+                {registration && (
+                  <label className="flex items-center gap-2 text-sm">
+                    <Switch checked={showAligned} onCheckedChange={setShowAligned} />
+                    Aligned
+                  </label>
+                )}
+                <Button variant="outline" size="sm" onClick={handleAlign} disabled={isPreparing}>
+                  {isPreparing ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <Crosshair className="w-4 h-4 mr-1" />}
+                  {registration ? 'Re-align' : 'Align'}
+                </Button>
+              </div>
+            </div>
+
+            {registration && (
+              <p className="text-xs text-muted-foreground">
+                Historical scan shifted {(registration.transform.dx * 100).toFixed(1)}% horizontally,{' '}
+                {(registration.transform.dy * 100).toFixed(1)}% vertically and rotated{' '}
+                {registration.transform.rotation.toFixed(1)}° • correlation {registration.correlation.toFixed(2)}
+              </p>
+            )}
+
+            {mode === 'side-by-side' ? (
+              <div className="grid grid-cols-2 gap-4">
+                {/* Left Scan */}
+                <div className="space-y-3">
+                  <div className="flex items-center justify-between">
+                    <Badge variant="outline" className="gap-1">
+                      <Calendar className="w-3 h-3" />
+                      {format(new Date(leftScan.created_at), 'MMM d, yyyy')}
+                    </Badge>
+                    {leftScan.risk_level && (
+                      <RiskBadge level={leftScan.risk_level as 'low' | 'medium' | 'high'} />
+                    )}
+                  </div>
+                  <div {...paneProps}>
+                    <div className="w-full h-full" style={layerStyle}>
+                      {renderScanImage(previousDisplayUrl, 'Historical scan')}
+                    </div>
+                  </div>
                 </div>
-                <div 
-                  className="aspect-square bg-muted rounded-lg overflow-hidden border"
-                  style={{ transform: `scale(${zoom})`, transformOrigin: 'center' }}
-                >
-                  {leftScan.image_url ? (
-                    <img 
-                      src={leftScan.image_url} 
-                      alt="Historical scan" 
-                      className="w-full h-full object-contain"
-                    />
-                  ) : (
-                    <div className="w-full h-full flex items-center justify-center text-muted-foreground">
-                      No image available
+
+                {/* Right Scan */}
+                <div className="space-y-3">
+                  <div className="flex items-center justify-between">
+                    <Badge variant="outline" className="gap-1">
+                      <Calendar className="w-3 h-3" />
+                      {format(new Date(rightScan.created_at), 'MMM d, yyyy')}
+                    </Badge>
+                    {rightScan.risk_level && (
+                      <RiskBadge level={rightScan.risk_level as 'low' | 'medium' | 'high'} />
+                    )}
+                  </div>
+                  <div {...paneProps}>
+                    <div className="w-full h-full" style={layerStyle}>
+                      {renderScanImage(currentUrl, 'Current scan')}
                     </div>
-                  )}
+                  </div>
                 </div>
               </div>
-
-              {/* Right Scan */}
-              <div className="space-y-3">
-                <div className="flex items-center justify-between">
-                  <Badge variant="outline" className="gap-1">
-                    <Calendar className="w-3 h-3" />
-                    {format(new Date(rightScan.created_at), 'MMM d, yyyy')}
-                  </Badge>
-                  {rightScan.risk_level && (
-                    <RiskBadge level={rightScan.risk_level as 'low' | 'medium' | 'high'} />
-                  )}
+            ) : (
+              <div className="space-y-3 max-w-xl mx-auto">
+                <div className="flex items-center justify-between text-xs text-muted-foreground">
+                  <span>{format(new Date(leftScan.created_at), 'MMM d, yyyy')}</span>
+                  <span>{format(new Date(rightScan.created_at), 'MMM d, yyyy')}</span>
                 </div>
-                <div 
-                  className="aspect-square bg-muted rounded-lg overflow-hidden border"
-                  style={{ transform: `scale(${zoom})`, transformOrigin: 'center' }}
-                >
-                  {rightScan.image_url ? (
-                    <img 
-                      src={rightScan.image_url} 
-                      alt="Current scan" 
-                      className="w-full h-full object-contain"
-                    />
+                <div {...paneProps}>
+                  {!pairPixels ? (
+                    <div className="w-full h-full flex items-center justify-center text-muted-foreground gap-2">
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                      Preparing images...
+                    </div>
+                  ) : mode === 'difference' ? (
+                    <div className="w-full h-full" style={layerStyle}>
+                      {renderScanImage(difference?.dataUrl, 'Difference image')}
+                    </div>
                   ) : (
-                    <div className="w-full h-full flex items-center justify-center text-muted-foreground">
-                      No image available
+                    <div className="relative w-full h-full" style={layerStyle}>
+                      <div className="absolute inset-0">
+                        {renderScanImage(alignedPreviousUrl || undefined, 'Historical scan')}
+                      </div>
+                      <div
+                        className="absolute inset-0"
+                        style={
+                          mode === 'swipe'
+                            ? { clipPath: `inset(0 0 0 ${swipePosition}%)` }
+                            : { opacity: onionOpacity / 100 }
+                        }
+                      >
+                        {renderScanImage(currentUrl, 'Current scan')}
+                      </div>
+                      {mode === 'swipe' && (
+                        <div
+                          className="absolute inset-y-0 w-0.5 bg-primary"
+                          style={{ left: `${swipePosition}%` }}
+                        />
+                      )}
                     </div>
                   )}
                 </div>
+
+                {mode === 'swipe' && (
+                  <Slider value={[swipePosition]} onValueChange={([v]) => setSwipePosition(v)} min={0} max={100} step={1} />
+                )}
+                {mode === 'onion' && (
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between text-sm">
+                      <span className="text-muted-foreground">Current scan opacity</span>
+                      <span className="font-mono">{onionOpacity}%</span>
+                    </div>
+                    <Slider value={[onionOpacity]} onValueChange={([v]) => setOnionOpacity(v)} min={0} max={100} step={1} />
+                  </div>
+                )}
+                {mode === 'difference' && difference && (
+                  <div className="flex items-center justify-between text-xs text-muted-foreground flex-wrap gap-2">
+                    <div className="flex items-center gap-3">
+                      <span className="flex items-center gap-1">
+                        <span className="w-3 h-3 rounded-sm bg-red-500" />
+                        Brighter now
+                      </span>
+                      <span className="flex items-center gap-1">
+                        <span className="w-3 h-3 rounded-sm bg-blue-500" />
+                        Darker now
+                      </span>
+                    </div>
+                    <span>
+                      {(difference.changedFraction * 100).toFixed(1)}% of pixels changed
+                      {!isAligned && ' • align first to reduce positioning artefacts'}
+                    </span>
+                  </div>
+                )}
               </div>
-            </div>
+            )}
 
             {/* Metrics Comparison */}
             <div className="bg-muted/50 rounded-lg p-4 space-y-3">
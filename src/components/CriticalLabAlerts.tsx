@@ -0,0 +1,319 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { format } from 'date-fns';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Textarea } from '@/components/ui/textarea';
+import { supabase } from '@/integrations/supabase/client';
+import { useCareStaff } from '@/hooks/useCareStaff';
+import { downloadCsv, type CsvColumn } from '@/lib/chartExport';
+import {
+  CRITICAL_ESCALATION_MINUTES,
+  minutesBetween,
+  summarizeCriticalAlerts,
+  type CriticalLabAlert,
+} from '@/lib/labAlerts';
+import { formatElapsed } from '@/lib/observationSchedule';
+import { cn } from '@/lib/utils';
+import { AlertOctagon, CheckCircle2, Download, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+type AlertView = 'open' | '7' | '30' | '90';
+
+interface AuditRow {
+  notifiedAt: string;
+  patient: string;
+  test: string;
+  value: string;
+  notifiedTo: string;
+  escalatedAt: string;
+  acknowledgedBy: string;
+  acknowledgedAt: string;
+  minutesToAcknowledge: number | null;
+  comment: string;
+}
+
+const AUDIT_COLUMNS: CsvColumn<AuditRow>[] = [
+  { key: 'notifiedAt', label: 'Notified at' },
+  { key: 'patient', label: 'Patient' },
+  { key: 'test', label: 'Test' },
+  { key: 'value', label: 'Value' },
+  { key: 'notifiedTo', label: 'Notified' },
+  { key: 'escalatedAt', label: 'Escalated at' },
+  { key: 'acknowledgedBy', label: 'Acknowledged by' },
+  { key: 'acknowledgedAt', label: 'Acknowledged at' },
+  { key: 'minutesToAcknowledge', label: 'Minutes to acknowledge' },
+  { key: 'comment', label: 'Comment' },
+];
+
+interface CriticalLabAlertsProps {
+  // Limit to one patient
+  patientId?: string;
+}
+
+export function CriticalLabAlerts({ patientId }: CriticalLabAlertsProps) {
+  const { staff } = useCareStaff();
+  const [alerts, setAlerts] = useState<CriticalLabAlert[]>([]);
+  const [view, setView] = useState<AlertView>('open');
+  const [loading, setLoading] = useState(true);
+  const [now, setNow] = useState(Date.now());
+  const [acknowledging, setAcknowledging] = useState<CriticalLabAlert | null>(null);
+  const [readBack, setReadBack] = useState('');
+  const [comment, setComment] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const fetchAlerts = useCallback(async () => {
+    let query = supabase
+      .from('lab_critical_alerts')
+      .select('*, lab_results(value, unit, status, collected_at, lab_test_types(name, code)), patients(name, patient_id)')
+      .order('notified_at', { ascending: false })
+      .limit(500);
+    if (patientId) query = query.eq('patient_id', patientId);
+    query =
+      view === 'open'
+        ? query.is('acknowledged_at', null)
+        : query.gte('notified_at', new Date(Date.now() - Number(view) * 24 * 60 * 60 * 1000).toISOString());
+
+    const { data, error } = await query;
+    if (error) console.error('Error fetching critical lab alerts:', error);
+    setAlerts(data || []);
+    setNow(Date.now());
+    setLoading(false);
+  }, [patientId, view]);
+
+  useEffect(() => {
+    fetchAlerts();
+
+    const channel = supabase
+      .channel(`critical-lab-alerts-${patientId ?? 'all'}`)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'lab_critical_alerts' }, () => fetchAlerts())
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [fetchAlerts, patientId]);
+
+  // Keeps the waiting times current
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 60 * 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const staffName = (userId: string | null) => staff.find((s) => s.user_id === userId)?.full_name ?? 'Unknown';
+  const notifiedTo = (alert: CriticalLabAlert) =>
+    alert.notified_user_id ? staffName(alert.notified_user_id) : 'All doctors';
+
+  const closeDialog = () => {
+    setAcknowledging(null);
+    setReadBack('');
+    setComment('');
+  };
+
+  const handleAcknowledge = async () => {
+    if (!acknowledging || readBack.trim() === '') return;
+
+    setSaving(true);
+    try {
+      const { error } = await supabase.rpc('acknowledge_critical_lab', {
+        _alert_id: acknowledging.id,
+        _read_back_value: parseFloat(readBack),
+        _comment: comment.trim() || undefined,
+      });
+      if (error) throw error;
+      toast.success('Critical value acknowledged');
+      closeDialog();
+      await fetchAlerts();
+    } catch (error) {
+      console.error('Error acknowledging critical lab value:', error);
+      toast.error('Could not acknowledge', { description: error instanceof Error ? error.message : undefined });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleExport = () => {
+    const rows: AuditRow[] = alerts.map((alert) => ({
+      notifiedAt: alert.notified_at,
+      patient: alert.patients ? `${alert.patients.name} (${alert.patients.patient_id ?? ''})` : '',
+      test: alert.lab_results?.lab_test_types?.name ?? '',
+      value: alert.lab_results ? `${alert.lab_results.value} ${alert.lab_results.unit}` : '',
+      notifiedTo: notifiedTo(alert),
+      escalatedAt: alert.escalated_at ?? '',
+      acknowledgedBy: alert.acknowledged_by ? staffName(alert.acknowledged_by) : '',
+      acknowledgedAt: alert.acknowledged_at ?? '',
+      minutesToAcknowledge: alert.acknowledged_at ? minutesBetween(alert.notified_at, alert.acknowledged_at) : null,
+      comment: alert.comment ?? '',
+    }));
+    downloadCsv(AUDIT_COLUMNS, rows, `critical-lab-audit-${view}d.csv`);
+  };
+
+  const summary = summarizeCriticalAlerts(alerts);
+
+  return (
+    <div className="bg-card rounded-xl border border-border p-5 shadow-soft">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+        <h3 className="font-semibold text-foreground flex items-center gap-2">
+          <AlertOctagon className="w-5 h-5 text-destructive" />
+          Critical Lab Values
+          {view === 'open' && <span className="text-sm font-normal text-muted-foreground">({alerts.length} unacknowledged)</span>}
+        </h3>
+        <div className="flex items-center gap-2">
+          <Select value={view} onValueChange={(value) => setView(value as AlertView)}>
+            <SelectTrigger className="w-[170px] h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="open">Unacknowledged</SelectItem>
+              <SelectItem value="7">Audit: last 7 days</SelectItem>
+              <SelectItem value="30">Audit: last 30 days</SelectItem>
+              <SelectItem value="90">Audit: last 90 days</SelectItem>
+            </SelectContent>
+          </Select>
+          {view !== 'open' && (
+            <Button variant="outline" size="sm" className="h-8 gap-1" onClick={handleExport} disabled={alerts.length === 0}>
+              <Download className="h-3.5 w-3.5" />
+              CSV
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {view !== 'open' && (
+        <p className="text-sm text-muted-foreground mb-3">
+          {summary.total} critical value{summary.total === 1 ? '' : 's'} · {summary.open} unacknowledged ·{' '}
+          {summary.escalated} escalated
+          {summary.medianMinutesToAcknowledge !== null &&
+            ` · median ${formatElapsed(summary.medianMinutesToAcknowledge)} to acknowledge`}
+        </p>
+      )}
+
+      {loading ? (
+        <p className="text-sm text-muted-foreground py-4 text-center">Loading critical values...</p>
+      ) : alerts.length === 0 ? (
+        <p className="text-sm text-muted-foreground py-4 text-center">
+          {view === 'open' ? 'No unacknowledged critical values' : 'No critical values in this period'}
+        </p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Notified</TableHead>
+              {!patientId && <TableHead>Patient</TableHead>}
+              <TableHead>Test</TableHead>
+              <TableHead>Notified to</TableHead>
+              <TableHead>Acknowledgment</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {alerts.map((alert) => {
+              const waiting = minutesBetween(alert.notified_at, now);
+              const result = alert.lab_results;
+
+              return (
+                <TableRow key={alert.id}>
+                  <TableCell className="whitespace-nowrap text-xs">
+                    {format(new Date(alert.notified_at), 'MMM d, HH:mm')}
+                  </TableCell>
+                  {!patientId && (
+                    <TableCell className="text-sm">
+                      {alert.patients && (
+                        <Link to={`/patients/${alert.patient_id}`} className="text-primary hover:underline">
+                          {alert.patients.name}
+                        </Link>
+                      )}
+                    </TableCell>
+                  )}
+                  <TableCell>
+                    <span className="text-sm font-medium">{result?.lab_test_types?.name}</span>
+                    {result && (
+                      <Badge className="ml-2 bg-destructive text-destructive-foreground font-mono">
+                        {result.value} {result.unit}
+                      </Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm">{notifiedTo(alert)}</TableCell>
+                  <TableCell className="text-xs">
+                    {alert.acknowledged_at ? (
+                      <div className="space-y-0.5">
+                        <p className="flex items-center gap-1 text-foreground">
+                          <CheckCircle2 className="h-3.5 w-3.5 text-risk-low" />
+                          {staffName(alert.acknowledged_by)} · {format(new Date(alert.acknowledged_at), 'MMM d, HH:mm')} (
+                          {formatElapsed(minutesBetween(alert.notified_at, alert.acknowledged_at))})
+                        </p>
+                        {alert.comment && <p className="text-muted-foreground">“{alert.comment}”</p>}
+                        {alert.escalated_at && <p className="text-risk-high">Escalated before acknowledgment</p>}
+                      </div>
+                    ) : (
+                      <span
+                        className={cn(
+                          'font-medium',
+                          alert.escalated_at || waiting >= CRITICAL_ESCALATION_MINUTES ? 'text-risk-high' : 'text-risk-medium'
+                        )}
+                      >
+                        Waiting {formatElapsed(waiting)}
+                        {alert.escalated_at && ' · escalated to care team'}
+                      </span>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {!alert.acknowledged_at && (
+                      <Button size="sm" variant="destructive" className="h-7 text-xs" onClick={() => setAcknowledging(alert)}>
+                        Acknowledge
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      )}
+
+      <Dialog open={acknowledging !== null} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent className="sm:max-w-[420px]">
+          <DialogHeader>
+            <DialogTitle>Acknowledge critical value</DialogTitle>
+            <DialogDescription>
+              Read back the {acknowledging?.lab_results?.lab_test_types?.name} value for {acknowledging?.patients?.name} as
+              it was given to you. It must match the result.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <Label htmlFor="read-back">Read-back value ({acknowledging?.lab_results?.unit})</Label>
+              <Input
+                id="read-back"
+                type="number"
+                step="any"
+                value={readBack}
+                onChange={(e) => setReadBack(e.target.value)}
+                autoFocus
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="ack-comment">Comment (optional)</Label>
+              <Textarea
+                id="ack-comment"
+                value={comment}
+                onChange={(e) => setComment(e.target.value)}
+                placeholder="Action taken, who was informed..."
+                rows={2}
+              />
+            </div>
+            <Button className="w-full" onClick={handleAcknowledge} disabled={saving || readBack.trim() === ''}>
+              {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Acknowledge
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,12 +1,13 @@
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
 import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
 import { toast } from 'sonner';
 import { 
-  RefreshCw, 
+  Upload, 
   AlertTriangle, 
   CheckCircle, 
   Clock,
@@ -16,6 +17,10 @@ import {
   Activity
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { importLabFile } from '@/lib/labImport';
+import { calculationLabel, describeCalculationInputs, isCalculatedResult } from '@/lib/labCalculations';
+import { describeDelta } from '@/lib/labAlerts';
+import { selectLabRange, type LabPatient, type LabReferenceRangeRow } from '@/lib/labRanges';
 import {
   LineChart,
   Line,
@@ -38,6 +43,8 @@ interface LabTestType {
   max_normal: number | null;
   critical_low: number | null;
   critical_high: number | null;
+  calculation: string | null;
+  lab_reference_ranges?: LabReferenceRangeRow[] | null;
 }
 
 interface LabResult {
@@ -48,6 +55,9 @@ interface LabResult {
   unit: string;
   status: string;
   collected_at: string;
+  calculation_inputs: Json | null;
+  previous_value: number | null;
+  delta_flag: boolean;
   lab_test_types?: LabTestType;
 }
 
@@ -59,13 +69,32 @@ interface EnhancedLabPanelProps {
 export function EnhancedLabPanel({ patientId, onAbnormalDetected }: EnhancedLabPanelProps) {
   const [results, setResults] = useState<LabResult[]>([]);
   const [testTypes, setTestTypes] = useState<LabTestType[]>([]);
+  const [patient, setPatient] = useState<LabPatient | null>(null);
   const [isLoading, setIsLoading] = useState(true);
-  const [isSyncing, setIsSyncing] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [refreshKey, setRefreshKey] = useState(0);
+  const fileInputRef = useRef<HTMLInputElement>(null);
   const [selectedTest, setSelectedTest] = useState<string | null>(null);
   const [trendData, setTrendData] = useState<LabResult[]>([]);
 
   useEffect(() => {
     fetchData();
+  }, [patientId, refreshKey]);
+
+  // Results arrive from the lab interface at any time
+  useEffect(() => {
+    const channel = supabase
+      .channel(`lab-results-${patientId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'lab_results', filter: `patient_id=eq.${patientId}` },
+        () => setRefreshKey((key) => key + 1)
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
   }, [patientId]);
 
   useEffect(() => {
@@ -77,16 +106,18 @@ export function EnhancedLabPanel({ patientId, onAbnormalDetected }: EnhancedLabP
 
   const fetchData = async () => {
     setIsLoading(true);
-    const [typesRes, resultsRes] = await Promise.all([
-      supabase.from('lab_test_types').select('*'),
+    const [typesRes, resultsRes, patientRes] = await Promise.all([
+      supabase.from('lab_test_types').select('*, lab_reference_ranges(*)'),
       supabase
         .from('lab_results')
-        .select('*, lab_test_types(*)')
+        .select('*, lab_test_types(*, lab_reference_ranges(*))')
         .eq('patient_id', patientId)
-        .order('collected_at', { ascending: false })
+        .order('collected_at', { ascending: false }),
+      supabase.from('patients').select('gender, age').eq('id', patientId).maybeSingle()
     ]);
 
     setTestTypes(typesRes.data || []);
+    setPatient(patientRes.data);
     setResults(resultsRes.data || []);
     
     const abnormalCount = (resultsRes.data || []).filter(r => r.status !== 'normal').length;
@@ -95,44 +126,31 @@ export function EnhancedLabPanel({ patientId, onAbnormalDetected }: EnhancedLabP
     setIsLoading(false);
   };
 
-  const simulateLISSync = useCallback(async () => {
-    setIsSyncing(true);
-    
-    // Simulate incoming LIS data
-    await new Promise(resolve => setTimeout(resolve, 2000));
-    
-    // Generate mock new results
-    const randomTestType = testTypes[Math.floor(Math.random() * testTypes.length)];
-    if (randomTestType) {
-      const baseValue = (randomTestType.min_normal || 0) + (randomTestType.max_normal || 100) / 2;
-      const variation = Math.random() * 0.4 - 0.2; // ±20% variation
-      const newValue = baseValue * (1 + variation);
-      
-      let status = 'normal';
-      if (randomTestType.critical_low && newValue < randomTestType.critical_low) status = 'critical_low';
-      else if (randomTestType.critical_high && newValue > randomTestType.critical_high) status = 'critical_high';
-      else if (randomTestType.min_normal && newValue < randomTestType.min_normal) status = 'low';
-      else if (randomTestType.max_normal && newValue > randomTestType.max_normal) status = 'high';
-
-      const { error } = await supabase.from('lab_results').insert({
-        patient_id: patientId,
-        test_type_id: randomTestType.id,
-        value: Math.round(newValue * 100) / 100,
-        unit: randomTestType.unit,
-        status,
-        resulted_at: new Date().toISOString()
-      });
+  const handleImportFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
 
-      if (!error) {
-        toast.success('LIS Sync Complete', {
-          description: `New ${randomTestType.name} result received${status !== 'normal' ? ' - ABNORMAL VALUE' : ''}`
-        });
-        await fetchData();
+    setIsImporting(true);
+    try {
+      const { accepted, messages } = await importLabFile(file);
+      const [summary, ...details] = messages;
+      const description = details.slice(0, 4).join('\n') || undefined;
+      if (!accepted) {
+        toast.error('Lab file rejected', { description: messages.join('\n') });
+      } else if (/\b0 rejected/.test(summary ?? '')) {
+        toast.success(`Lab results imported: ${summary}`, { description });
+      } else {
+        toast.warning(`Lab results imported: ${summary}`, { description });
       }
+      setRefreshKey((key) => key + 1);
+    } catch (error) {
+      console.error('Error importing lab file:', error);
+      toast.error('Failed to import lab file', { description: error instanceof Error ? error.message : undefined });
+    } finally {
+      setIsImporting(false);
     }
-    
-    setIsSyncing(false);
-  }, [patientId, testTypes]);
+  };
 
   const getStatusIcon = (status: string) => {
     switch (status) {
@@ -172,23 +190,31 @@ export function EnhancedLabPanel({ patientId, onAbnormalDetected }: EnhancedLabP
   const criticalResults = abnormalResults.filter(r => r.status.includes('critical'));
 
   const selectedTestType = selectedTest ? testTypes.find(t => t.id === selectedTest) : null;
+  const selectedRange = selectedTestType ? selectLabRange(selectedTestType, patient) : null;
 
   return (
     <div className="space-y-4">
-      {/* Header with Sync Button */}
+      {/* Header with Import Button */}
       <div className="flex items-center justify-between">
         <div>
           <h3 className="font-semibold">Lab Results Integration</h3>
-          <p className="text-sm text-muted-foreground">Auto-sync with Laboratory Information System</p>
+          <p className="text-sm text-muted-foreground">Results arrive live from the Laboratory Information System</p>
         </div>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".hl7,.json,.txt"
+          className="hidden"
+          onChange={handleImportFile}
+        />
         <Button 
           variant="outline" 
-          onClick={simulateLISSync} 
-          disabled={isSyncing}
+          onClick={() => fileInputRef.current?.click()} 
+          disabled={isImporting}
           className="gap-2"
         >
-          <RefreshCw className={cn("w-4 h-4", isSyncing && "animate-spin")} />
-          {isSyncing ? 'Syncing...' : 'Sync LIS'}
+          <Upload className={cn("w-4 h-4", isImporting && "animate-pulse")} />
+          {isImporting ? 'Importing...' : 'Import HL7/FHIR'}
         </Button>
       </div>
 
@@ -227,11 +253,13 @@ export function EnhancedLabPanel({ patientId, onAbnormalDetected }: EnhancedLabP
             if (!testType) return null;
             
             const isSelected = selectedTest === result.test_type_id;
-            const normalRange = testType.max_normal && testType.min_normal 
-              ? testType.max_normal - testType.min_normal 
-              : 100;
-            const valuePosition = testType.min_normal !== null && testType.max_normal !== null
-              ? Math.min(100, Math.max(0, ((result.value - testType.min_normal) / normalRange) * 100))
+            // The bar shows the patient's normal range across its middle 60%
+            const range = selectLabRange(testType, patient);
+            const normalRange = range.max_normal !== null && range.min_normal !== null
+              ? range.max_normal - range.min_normal
+              : 0;
+            const valuePosition = range.min_normal !== null && normalRange > 0
+              ? Math.min(100, Math.max(0, 20 + ((result.value - range.min_normal) / normalRange) * 60))
               : 50;
 
             return (
@@ -259,6 +287,17 @@ export function EnhancedLabPanel({ patientId, onAbnormalDetected }: EnhancedLabP
                     <span className="text-2xl font-bold font-mono">{result.value}</span>
                     <span className="text-sm text-muted-foreground">{result.unit}</span>
                   </div>
+                  {result.delta_flag && (
+                    <p className="text-xs font-medium text-risk-medium">Delta check: {describeDelta(result)}</p>
+                  )}
+                  {isCalculatedResult(result) && (
+                    <p className="text-xs text-muted-foreground" title={calculationLabel(testType.calculation)?.formula}>
+                      Calculated from {describeCalculationInputs(result.calculation_inputs)}
+                    </p>
+                  )}
+                  {isCalculatedResult(result) && calculationLabel(testType.calculation)?.caveat && (
+                    <p className="text-xs text-risk-medium">{calculationLabel(testType.calculation)?.caveat}</p>
+                  )}
                   
                   {/* Visual Range Indicator */}
                   <div className="space-y-1">
@@ -279,8 +318,8 @@ export function EnhancedLabPanel({ patientId, onAbnormalDetected }: EnhancedLabP
                       />
                     </div>
                     <div className="flex justify-between text-xs text-muted-foreground">
-                      <span>{testType.min_normal ?? 'Low'}</span>
-                      <span>{testType.max_normal ?? 'High'}</span>
+                      <span>{range.min_normal ?? 'Low'}</span>
+                      <span>{range.max_normal ?? 'High'}</span>
                     </div>
                   </div>
                   
@@ -322,25 +361,25 @@ export function EnhancedLabPanel({ patientId, onAbnormalDetected }: EnhancedLabP
                     labelFormatter={(v) => format(new Date(v), 'MMM d, yyyy')}
                     formatter={(value: number) => [`${value} ${selectedTestType.unit}`, selectedTestType.name]}
                   />
-                  {selectedTestType.min_normal !== null && selectedTestType.max_normal !== null && (
+                  {selectedRange && selectedRange.min_normal !== null && selectedRange.max_normal !== null && (
                     <ReferenceArea 
-                      y1={selectedTestType.min_normal} 
-                      y2={selectedTestType.max_normal} 
+                      y1={selectedRange.min_normal} 
+                      y2={selectedRange.max_normal} 
                       fill="hsl(var(--chart-2))" 
                       fillOpacity={0.1}
                     />
                   )}
-                  {selectedTestType.min_normal !== null && (
+                  {selectedRange && selectedRange.min_normal !== null && (
                     <ReferenceLine 
-                      y={selectedTestType.min_normal} 
+                      y={selectedRange.min_normal} 
                       stroke="hsl(var(--chart-2))" 
                       strokeDasharray="5 5"
                       label={{ value: 'Low', position: 'insideLeft', fontSize: 10 }}
                     />
                   )}
-                  {selectedTestType.max_normal !== null && (
+                  {selectedRange && selectedRange.max_normal !== null && (
                     <ReferenceLine 
-                      y={selectedTestType.max_normal} 
+                      y={selectedRange.max_normal} 
                       stroke="hsl(var(--chart-2))" 
                       strokeDasharray="5 5"
                       label={{ value: 'High', position: 'insideLeft', fontSize: 10 }}
@@ -0,0 +1,414 @@
+import { useState, useEffect, useMemo, useCallback } from 'react';
+import {
+  ComposedChart,
+  Line,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+  ReferenceLine,
+  type TooltipProps,
+} from 'recharts';
+import { format } from 'date-fns';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  BALANCE_WINDOW_HOURS,
+  FLUID_CATEGORIES,
+  OLIGURIA_ML_PER_KG_PER_HOUR,
+  URINE_WINDOW_HOURS,
+  fluidTotals,
+  hourlyFluidSeries,
+  urineOutputRate,
+  type FluidCategory,
+} from '@/lib/fluidBalance';
+import { toast } from 'sonner';
+import { AlertTriangle, Droplet, Loader2, Plus, Trash2, Waves } from 'lucide-react';
+
+interface FluidBalancePanelProps {
+  patientId: string;
+  patientName: string;
+  weightKg: number | null;
+}
+
+type FluidEntryRow = Tables<'fluid_entries'>;
+type ChartWindow = '24' | '72';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// datetime-local wants local time without a zone
+const toLocalInput = (date: Date) => format(date, "yyyy-MM-dd'T'HH:mm");
+
+const formatMl = (ml: number) => `${Math.round(ml).toLocaleString()} mL`;
+
+const emptyForm = () => ({
+  category: 'oral' as FluidCategory,
+  volume: '',
+  recordedAt: toLocalInput(new Date()),
+  notes: '',
+});
+
+export function FluidBalancePanel({ patientId, patientName, weightKg }: FluidBalancePanelProps) {
+  const { user } = useAuth();
+  const [entries, setEntries] = useState<FluidEntryRow[]>([]);
+  const [form, setForm] = useState(emptyForm);
+  const [chartWindow, setChartWindow] = useState<ChartWindow>('24');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const fetchEntries = useCallback(async () => {
+    const { data, error } = await supabase
+      .from('fluid_entries')
+      .select('*')
+      .eq('patient_id', patientId)
+      .gte('recorded_at', new Date(Date.now() - 72 * HOUR_MS).toISOString())
+      .order('recorded_at', { ascending: false });
+
+    if (error) console.error('Error fetching fluid entries:', error);
+    setEntries(data || []);
+    return data || [];
+  }, [patientId]);
+
+  useEffect(() => {
+    setIsLoading(true);
+    fetchEntries().finally(() => setIsLoading(false));
+  }, [fetchEntries]);
+
+  const now = Date.now();
+  const totals = fluidTotals(entries, now - BALANCE_WINDOW_HOURS * HOUR_MS, now);
+  const urineRate = urineOutputRate(entries, weightKg, now);
+  const series = useMemo(() => hourlyFluidSeries(entries, Number(chartWindow)), [entries, chartWindow]);
+  // Output is drawn below the axis so intake and output read against each other
+  const chartData = series.map((point) => ({ ...point, output: -point.output }));
+  const hourlyRows = hourlyFluidSeries(entries, BALANCE_WINDOW_HOURS)
+    .filter((point) => point.intake > 0 || point.output > 0)
+    .reverse();
+
+  const handleAdd = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!user) return;
+
+    const volume = parseFloat(form.volume);
+    if (!Number.isFinite(volume) || volume <= 0 || volume > 5000) {
+      toast.error('Enter a volume between 1 and 5000 mL');
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const { error } = await supabase.from('fluid_entries').insert({
+        patient_id: patientId,
+        category: form.category,
+        volume_ml: volume,
+        recorded_at: new Date(form.recordedAt).toISOString(),
+        notes: form.notes || null,
+        recorded_by: user.id,
+      });
+
+      if (error) throw error;
+      toast.success(`${FLUID_CATEGORIES[form.category].label} ${formatMl(volume)} recorded`);
+      setForm({ ...emptyForm(), category: form.category });
+
+      const updated = await fetchEntries();
+      const rate = urineOutputRate(updated, weightKg);
+      if (form.category === 'urine' && rate?.low) {
+        await supabase.rpc('raise_care_team_alert', {
+          _patient_id: patientId,
+          _title: `Low urine output - ${patientName}`,
+          _message: `Urine output ${rate.mlPerKgPerHour.toFixed(2)} mL/kg/h over the last ${rate.windowHours} hours (${Math.round(rate.totalMl)} mL). Below ${OLIGURIA_ML_PER_KG_PER_HOUR} mL/kg/h: review fluid status and renal function.`,
+        });
+        toast.warning('Low urine output: care team alerted', {
+          description: `${rate.mlPerKgPerHour.toFixed(2)} mL/kg/h over ${rate.windowHours}h`,
+        });
+      }
+    } catch (error) {
+      console.error('Error recording fluid entry:', error);
+      toast.error('Failed to record entry', { description: error instanceof Error ? error.message : undefined });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (entry: FluidEntryRow) => {
+    const { error } = await supabase.from('fluid_entries').delete().eq('id', entry.id);
+    if (error) {
+      toast.error('Failed to delete entry', { description: error.message });
+      return;
+    }
+    setEntries((prev) => prev.filter((e) => e.id !== entry.id));
+  };
+
+  const ChartTooltip = ({ active, payload, label }: TooltipProps<number, string>) => {
+    if (!active || !payload?.length) return null;
+    return (
+      <div className="bg-card border border-border rounded-lg p-3 shadow-lg">
+        <p className="text-sm font-medium text-foreground mb-2">{format(new Date(label), 'MMM d, HH:00')}</p>
+        {payload.map((entry) => (
+          <p key={entry.name} className="text-sm" style={{ color: entry.color }}>
+            {entry.name}: <span className="font-semibold">{formatMl(Math.abs(Number(entry.value)))}</span>
+          </p>
+        ))}
+      </div>
+    );
+  };
+
+  const summary = [
+    { label: `Intake (${BALANCE_WINDOW_HOURS}h)`, value: formatMl(totals.intake), className: 'text-primary' },
+    { label: `Output (${BALANCE_WINDOW_HOURS}h)`, value: formatMl(totals.output), className: 'text-secondary' },
+    {
+      label: `Balance (${BALANCE_WINDOW_HOURS}h)`,
+      value: `${totals.net > 0 ? '+' : ''}${formatMl(totals.net)}`,
+      className: 'text-foreground',
+    },
+    {
+      label: `Urine (${URINE_WINDOW_HOURS}h)`,
+      value: urineRate ? `${urineRate.mlPerKgPerHour.toFixed(2)} mL/kg/h` : '–',
+      className: urineRate?.low ? 'text-risk-high' : 'text-foreground',
+    },
+  ];
+
+  return (
+    <div className="space-y-4">
+      {urineRate?.low && (
+        <div className="flex items-start gap-3 p-4 rounded-lg bg-risk-high/10 border border-risk-high/20">
+          <AlertTriangle className="w-5 h-5 text-risk-high shrink-0 mt-0.5" />
+          <div>
+            <p className="font-medium text-risk-high">Low urine output</p>
+            <p className="text-sm text-muted-foreground">
+              {formatMl(urineRate.totalMl)} over the last {urineRate.windowHours} hours is{' '}
+              {urineRate.mlPerKgPerHour.toFixed(2)} mL/kg/h, below {OLIGURIA_ML_PER_KG_PER_HOUR} mL/kg/h. Review fluid status and
+              renal function.
+            </p>
+          </div>
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+        {summary.map((item) => (
+          <div key={item.label} className="bg-card rounded-xl border border-border p-4 shadow-soft">
+            <p className="text-xs text-muted-foreground">{item.label}</p>
+            <p className={`text-xl font-bold mt-1 ${item.className}`}>{item.value}</p>
+          </div>
+        ))}
+      </div>
+      {!weightKg && (
+        <p className="text-xs text-muted-foreground">Add the patient's weight under Edit to monitor urine output per kilogram.</p>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-base">
+            <Plus className="w-5 h-5 text-primary" />
+            Record Intake / Output
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleAdd} className="grid sm:grid-cols-2 lg:grid-cols-5 gap-4 items-end">
+            <div className="space-y-2">
+              <Label>Type</Label>
+              <Select value={form.category} onValueChange={(v) => setForm({ ...form, category: v as FluidCategory })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(FLUID_CATEGORIES) as FluidCategory[]).map((category) => (
+                    <SelectItem key={category} value={category}>
+                      {FLUID_CATEGORIES[category].label} ({FLUID_CATEGORIES[category].direction})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="fluid-volume">Volume (mL)</Label>
+              <Input
+                id="fluid-volume"
+                type="number"
+                min={1}
+                max={5000}
+                value={form.volume}
+                onChange={(e) => setForm({ ...form, volume: e.target.value })}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="fluid-time">Time</Label>
+              <Input
+                id="fluid-time"
+                type="datetime-local"
+                value={form.recordedAt}
+                max={toLocalInput(new Date())}
+                onChange={(e) => setForm({ ...form, recordedAt: e.target.value })}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="fluid-notes">Notes</Label>
+              <Input
+                id="fluid-notes"
+                placeholder="e.g. 0.9% saline"
+                value={form.notes}
+                onChange={(e) => setForm({ ...form, notes: e.target.value })}
+              />
+            </div>
+            <Button type="submit" disabled={isSaving}>
+              {isSaving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Plus className="w-4 h-4 mr-2" />}
+              Add
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle className="flex items-center gap-2 text-base">
+            <Waves className="w-5 h-5 text-primary" />
+            Hourly Fluid Balance
+          </CardTitle>
+          <ToggleGroup
+            type="single"
+            size="sm"
+            value={chartWindow}
+            onValueChange={(v) => v && setChartWindow(v as ChartWindow)}
+          >
+            <ToggleGroupItem value="24">24h</ToggleGroupItem>
+            <ToggleGroupItem value="72">72h</ToggleGroupItem>
+          </ToggleGroup>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="h-72 flex items-center justify-center">
+              <Loader2 className="w-6 h-6 animate-spin text-primary" />
+            </div>
+          ) : (
+            <div className="h-72">
+              <ResponsiveContainer width="100%" height="100%">
+                <ComposedChart data={chartData}>
+                  <CartesianGrid strokeDasharray="3 3" className="stroke-border" />
+                  <XAxis
+                    dataKey="time"
+                    type="number"
+                    scale="time"
+                    domain={['dataMin', 'dataMax']}
+                    tickFormatter={(time) => format(new Date(time), chartWindow === '24' ? 'HH:mm' : 'MMM d HH:mm')}
+                    className="text-xs fill-muted-foreground"
+                  />
+                  <YAxis className="text-xs fill-muted-foreground" />
+                  <Tooltip content={<ChartTooltip />} />
+                  <Legend />
+                  <ReferenceLine y={0} className="stroke-border" />
+                  <Bar dataKey="intake" name="Intake" fill="hsl(var(--primary))" barSize={8} />
+                  <Bar dataKey="output" name="Output" fill="hsl(var(--secondary))" barSize={8} />
+                  <Line
+                    type="stepAfter"
+                    dataKey="balance"
+                    name="Running balance"
+                    stroke="hsl(var(--chart-1))"
+                    strokeWidth={2}
+                    dot={false}
+                  />
+                </ComposedChart>
+              </ResponsiveContainer>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2 text-base">
+            <Droplet className="w-5 h-5 text-primary" />
+            Last {BALANCE_WINDOW_HOURS} Hours
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {hourlyRows.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">No intake or output charted in the last {BALANCE_WINDOW_HOURS} hours</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Hour</TableHead>
+                  <TableHead>Entries</TableHead>
+                  <TableHead className="text-right">In</TableHead>
+                  <TableHead className="text-right">Out</TableHead>
+                  <TableHead className="text-right">Running balance</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {hourlyRows.map((row) => {
+                  const hourEntries = entries.filter((entry) => {
+                    const time = new Date(entry.recorded_at).getTime();
+                    return time >= row.time && time < row.time + HOUR_MS;
+                  });
+                  return (
+                    <TableRow key={row.time}>
+                      <TableCell className="whitespace-nowrap font-medium">{format(new Date(row.time), 'HH:00')}</TableCell>
+                      <TableCell>
+                        <div className="flex flex-wrap gap-1.5">
+                          {hourEntries.map((entry) => {
+                            const category = FLUID_CATEGORIES[entry.category as FluidCategory];
+                            return (
+                              <span
+                                key={entry.id}
+                                title={entry.notes || undefined}
+                                className={`inline-flex items-center gap-1 px-2 py-0.5 rounded-md text-xs ${
+                                  category?.direction === 'intake' ? 'bg-primary/10 text-primary' : 'bg-secondary/10 text-secondary'
+                                }`}
+                              >
+                                {format(new Date(entry.recorded_at), 'HH:mm')} {category?.label ?? entry.category}{' '}
+                                {formatMl(Number(entry.volume_ml))}
+                                <button
+                                  type="button"
+                                  onClick={() => handleDelete(entry)}
+                                  className="hover:text-risk-high"
+                                  aria-label="Delete entry"
+                                >
+                                  <Trash2 className="w-3 h-3" />
+                                </button>
+                              </span>
+                            );
+                          })}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right">{formatMl(row.intake)}</TableCell>
+                      <TableCell className="text-right">{formatMl(row.output)}</TableCell>
+                      <TableCell className="text-right font-medium">
+                        {row.balance > 0 ? '+' : ''}
+                        {formatMl(row.balance)}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
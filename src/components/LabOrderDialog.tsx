@@ -0,0 +1,186 @@
+import { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { useAuth } from '@/contexts/AuthContext';
+import { groupPanels, LAB_ORDER_PRIORITIES, LAB_TURNAROUND_MINUTES, type LabOrderPriority } from '@/lib/labOrders';
+import { formatElapsed } from '@/lib/observationSchedule';
+import { ClipboardList, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+
+type TestType = Pick<Tables<'lab_test_types'>, 'id' | 'name' | 'code' | 'category'>;
+
+interface LabOrderDialogProps {
+  // Order for this patient; otherwise the dialog asks which one
+  patientId?: string;
+  patients?: { id: string; name: string }[];
+  onOrdered?: () => void;
+}
+
+export function LabOrderDialog({ patientId, patients = [], onOrdered }: LabOrderDialogProps) {
+  const { user } = useAuth();
+  const [open, setOpen] = useState(false);
+  const [testTypes, setTestTypes] = useState<TestType[]>([]);
+  const [selectedPatient, setSelectedPatient] = useState(patientId ?? '');
+  const [panels, setPanels] = useState<string[]>([]);
+  const [priority, setPriority] = useState<LabOrderPriority>('routine');
+  const [notes, setNotes] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!open || testTypes.length > 0) return;
+
+    const fetchTestTypes = async () => {
+      const { data } = await supabase.from('lab_test_types').select('id, name, code, category').order('category, name');
+      setTestTypes(data || []);
+    };
+
+    fetchTestTypes();
+  }, [open, testTypes.length]);
+
+  const panelTests = groupPanels(testTypes);
+
+  const reset = () => {
+    setSelectedPatient(patientId ?? '');
+    setPanels([]);
+    setPriority('routine');
+    setNotes('');
+  };
+
+  const togglePanel = (panel: string, checked: boolean) =>
+    setPanels((prev) => (checked ? [...prev, panel] : prev.filter((p) => p !== panel)));
+
+  const handleSubmit = async () => {
+    if (!user) return;
+    if (!selectedPatient || panels.length === 0) {
+      toast.error('Choose a patient and at least one panel');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { data, error } = await supabase
+        .from('lab_orders')
+        .insert(
+          panels.map((panel) => ({
+            patient_id: selectedPatient,
+            panel,
+            priority,
+            notes: notes.trim() || null,
+            ordered_by: user.id,
+          }))
+        )
+        .select('accession_number');
+
+      if (error) throw error;
+
+      toast.success(`${panels.length} lab order${panels.length === 1 ? '' : 's'} placed`, {
+        description: (data || []).map((order) => order.accession_number).join(', '),
+      });
+      setOpen(false);
+      reset();
+      onOrdered?.();
+    } catch (error) {
+      console.error('Error placing lab order:', error);
+      toast.error('Failed to place lab order', { description: error instanceof Error ? error.message : undefined });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next);
+        if (!next) reset();
+      }}
+    >
+      <DialogTrigger asChild>
+        <Button variant="outline" className="gap-2">
+          <ClipboardList className="h-4 w-4" />
+          Order Tests
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-[520px]">
+        <DialogHeader>
+          <DialogTitle>Order Lab Tests</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4 py-2">
+          {!patientId && (
+            <div className="space-y-2">
+              <Label>Patient</Label>
+              <Select value={selectedPatient} onValueChange={setSelectedPatient}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select patient" />
+                </SelectTrigger>
+                <SelectContent>
+                  {patients.map((patient) => (
+                    <SelectItem key={patient.id} value={patient.id}>
+                      {patient.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>Panels</Label>
+            <div className="space-y-2 max-h-64 overflow-y-auto rounded-lg border border-border p-3">
+              {Object.entries(panelTests).map(([panel, tests]) => (
+                <label key={panel} className="flex items-start gap-3 cursor-pointer">
+                  <Checkbox
+                    checked={panels.includes(panel)}
+                    onCheckedChange={(checked) => togglePanel(panel, checked === true)}
+                    className="mt-0.5"
+                  />
+                  <span className="text-sm">
+                    <span className="font-medium text-foreground">{panel}</span>
+                    <span className="block text-xs text-muted-foreground">{tests.map((t) => t.code).join(', ')}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Priority</Label>
+            <Select value={priority} onValueChange={(value) => setPriority(value as LabOrderPriority)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {LAB_ORDER_PRIORITIES.map(({ value, label }) => (
+                  <SelectItem key={value} value={value}>
+                    {label} (result within {formatElapsed(LAB_TURNAROUND_MINUTES[value])})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Notes (optional)</Label>
+            <Textarea
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              placeholder="Clinical details for the lab..."
+              rows={2}
+            />
+          </div>
+
+          <Button className="w-full" onClick={handleSubmit} disabled={saving}>
+            {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Place Order{panels.length > 1 ? 's' : ''}
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
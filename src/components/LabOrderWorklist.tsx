@@ -0,0 +1,230 @@
+import { useCallback, useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { LabOrderDialog } from '@/components/LabOrderDialog';
+import { supabase } from '@/integrations/supabase/client';
+import {
+  LAB_ORDER_STEPS,
+  labOrderStatusLabel,
+  labOrderTurnaround,
+  nextLabOrderStatus,
+  OPEN_LAB_ORDER_STATUSES,
+  type LabOrder,
+} from '@/lib/labOrders';
+import { formatElapsed } from '@/lib/observationSchedule';
+import { cn } from '@/lib/utils';
+import { AlertTriangle, ClipboardList, X } from 'lucide-react';
+import { toast } from 'sonner';
+
+type WorklistOrder = LabOrder & { patients: { name: string; patient_id: string } | null };
+
+interface LabOrderWorklistProps {
+  // Limit the worklist to one patient
+  patientId?: string;
+  // Patients offered when ordering from the full worklist
+  patients?: { id: string; name: string }[];
+}
+
+const PRIORITY_RANK: Record<string, number> = { stat: 0, urgent: 1, routine: 2 };
+
+const ADVANCE_LABELS: Record<string, string> = {
+  collected: 'Collected',
+  in_lab: 'Received in lab',
+  resulted: 'Resulted',
+  reviewed: 'Reviewed',
+};
+
+export function LabOrderWorklist({ patientId, patients }: LabOrderWorklistProps) {
+  const [orders, setOrders] = useState<WorklistOrder[]>([]);
+  // Results received per order and tests per panel, for "2/4 resulted"
+  const [resultCounts, setResultCounts] = useState<Record<string, number>>({});
+  const [panelSizes, setPanelSizes] = useState<Record<string, number>>({});
+  const [loading, setLoading] = useState(true);
+  const [updating, setUpdating] = useState<string | null>(null);
+  const [now, setNow] = useState(Date.now());
+
+  const fetchOrders = useCallback(async () => {
+    let query = supabase
+      .from('lab_orders')
+      .select('*, patients(name, patient_id)')
+      .in('status', OPEN_LAB_ORDER_STATUSES)
+      .order('ordered_at');
+    if (patientId) query = query.eq('patient_id', patientId);
+
+    const [ordersRes, typesRes] = await Promise.all([query, supabase.from('lab_test_types').select('category, calculation')]);
+    const open = ordersRes.data || [];
+
+    const { data: results } = open.length
+      ? await supabase.from('lab_results').select('order_id, test_type_id, calculation_inputs').in('order_id', open.map((o) => o.id))
+      : { data: [] };
+
+    // Distinct measured tests, so a resent result is not counted twice and
+    // calculated ones (which follow from the measured) are left out
+    const seen = new Set<string>();
+    const counts: Record<string, number> = {};
+    (results || []).forEach((r) => {
+      if (!r.order_id || r.calculation_inputs !== null || seen.has(`${r.order_id}:${r.test_type_id}`)) return;
+      seen.add(`${r.order_id}:${r.test_type_id}`);
+      counts[r.order_id] = (counts[r.order_id] ?? 0) + 1;
+    });
+
+    const sizes: Record<string, number> = {};
+    (typesRes.data || []).filter((t) => !t.calculation).forEach((t) => {
+      sizes[t.category] = (sizes[t.category] ?? 0) + 1;
+    });
+
+    setOrders(open);
+    setResultCounts(counts);
+    setPanelSizes(sizes);
+    setNow(Date.now());
+    setLoading(false);
+  }, [patientId]);
+
+  useEffect(() => {
+    fetchOrders();
+
+    const channel = supabase
+      .channel(`lab-orders-${patientId ?? 'all'}`)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'lab_orders' }, () => fetchOrders())
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'lab_results' }, () => fetchOrders())
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [fetchOrders, patientId]);
+
+  // Keeps ages and turnaround flags current
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 60 * 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const updateStatus = async (order: WorklistOrder, status: string) => {
+    setUpdating(order.id);
+    try {
+      const { error } = await supabase.from('lab_orders').update({ status }).eq('id', order.id);
+      if (error) throw error;
+      toast.success(`${order.accession_number}: ${labOrderStatusLabel(status).toLowerCase()}`);
+      await fetchOrders();
+    } catch (error) {
+      console.error('Error updating lab order:', error);
+      toast.error('Failed to update lab order', { description: error instanceof Error ? error.message : undefined });
+    } finally {
+      setUpdating(null);
+    }
+  };
+
+  const rows = orders
+    .map((order) => ({ order, turnaround: labOrderTurnaround(order, now) }))
+    .sort(
+      (a, b) =>
+        Number(b.turnaround.overdue) - Number(a.turnaround.overdue) ||
+        (PRIORITY_RANK[a.order.priority] ?? 2) - (PRIORITY_RANK[b.order.priority] ?? 2) ||
+        new Date(a.order.ordered_at).getTime() - new Date(b.order.ordered_at).getTime()
+    );
+  const overdueCount = rows.filter((row) => row.turnaround.overdue).length;
+
+  return (
+    <div className="bg-card rounded-xl border border-border p-5 shadow-soft">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+        <h3 className="font-semibold text-foreground flex items-center gap-2">
+          <ClipboardList className="w-5 h-5 text-primary" />
+          Pending Lab Orders
+          <span className="text-sm font-normal text-muted-foreground">({rows.length})</span>
+          {overdueCount > 0 && (
+            <Badge variant="destructive" className="gap-1">
+              <AlertTriangle className="w-3 h-3" />
+              {overdueCount} overdue
+            </Badge>
+          )}
+        </h3>
+        <LabOrderDialog patientId={patientId} patients={patients} onOrdered={fetchOrders} />
+      </div>
+
+      {loading ? (
+        <p className="text-sm text-muted-foreground py-4 text-center">Loading orders...</p>
+      ) : rows.length === 0 ? (
+        <p className="text-sm text-muted-foreground py-4 text-center">No pending lab orders</p>
+      ) : (
+        <div className="divide-y divide-border">
+          {rows.map(({ order, turnaround }) => {
+            const next = nextLabOrderStatus(order.status);
+            const step = LAB_ORDER_STEPS.findIndex((s) => s.status === order.status);
+            const panelSize = panelSizes[order.panel] ?? 0;
+
+            return (
+              <div key={order.id} className="flex flex-wrap items-center justify-between gap-3 py-3">
+                <div className="min-w-0 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm font-medium text-foreground">{order.panel}</span>
+                    <span className="text-xs font-mono text-muted-foreground">{order.accession_number}</span>
+                    {order.priority !== 'routine' && (
+                      <Badge variant={order.priority === 'stat' ? 'destructive' : 'secondary'} className="text-[10px] uppercase">
+                        {order.priority}
+                      </Badge>
+                    )}
+                  </div>
+                  {!patientId && order.patients && (
+                    <Link to={`/patients/${order.patient_id}`} className="text-xs text-primary hover:underline">
+                      {order.patients.name} · {order.patients.patient_id}
+                    </Link>
+                  )}
+                  <div className="flex items-center gap-1" title={labOrderStatusLabel(order.status)}>
+                    {LAB_ORDER_STEPS.map((s, i) => (
+                      <span
+                        key={s.status}
+                        className={cn('h-1.5 w-6 rounded-full', i <= step ? 'bg-primary' : 'bg-muted')}
+                      />
+                    ))}
+                    <span className="ml-2 text-xs text-muted-foreground">{labOrderStatusLabel(order.status)}</span>
+                  </div>
+                </div>
+
+                <div className="flex items-center gap-3 text-xs">
+                  {panelSize > 0 && (
+                    <span className="text-muted-foreground">
+                      {resultCounts[order.id] ?? 0}/{panelSize} resulted
+                    </span>
+                  )}
+                  <span
+                    className={cn('flex items-center gap-1', turnaround.overdue ? 'font-medium text-risk-high' : 'text-muted-foreground')}
+                  >
+                    {turnaround.overdue && <AlertTriangle className="w-3 h-3" />}
+                    {turnaround.overdue
+                      ? `${formatElapsed(turnaround.ageMinutes - turnaround.thresholdMinutes)} past turnaround`
+                      : `${formatElapsed(turnaround.ageMinutes)} ago`}
+                  </span>
+                  {next && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="h-7 text-xs"
+                      disabled={updating === order.id}
+                      onClick={() => updateStatus(order, next)}
+                    >
+                      {ADVANCE_LABELS[next]}
+                    </Button>
+                  )}
+                  {order.status !== 'resulted' && (
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      className="h-7 w-7"
+                      title="Cancel order"
+                      disabled={updating === order.id}
+                      onClick={() => updateStatus(order, 'cancelled')}
+                    >
+                      <X className="h-3.5 w-3.5" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,51 @@
+import { cn } from '@/lib/utils';
+import { NEWS2_MIN_AGE, type News2Risk } from '@/lib/news2';
+
+interface News2BadgeProps {
+  score: number;
+  risk: News2Risk;
+  size?: 'sm' | 'md' | 'lg';
+  // False for patients too young to score; shows N/A instead of the score
+  applicable?: boolean;
+}
+
+export function News2Badge({ score, risk, size = 'md', applicable = true }: News2BadgeProps) {
+  const config: Record<News2Risk, { title: string; className: string }> = {
+    low: {
+      title: 'Low clinical risk',
+      className: 'bg-risk-low/10 text-risk-low border-risk-low/20',
+    },
+    'low-medium': {
+      title: 'Low-medium clinical risk: a single parameter scored 3',
+      className: 'bg-risk-medium/10 text-risk-medium border-risk-medium/20',
+    },
+    medium: {
+      title: 'Medium clinical risk',
+      className: 'bg-risk-medium/10 text-risk-medium border-risk-medium/40',
+    },
+    high: {
+      title: 'High clinical risk',
+      className: 'bg-risk-high/10 text-risk-high border-risk-high/20',
+    },
+  };
+
+  const sizeClasses = {
+    sm: 'px-2 py-0.5 text-xs gap-1',
+    md: 'px-2.5 py-1 text-sm gap-1.5',
+    lg: 'px-3 py-1.5 text-base gap-2',
+  };
+
+  const { title, className } = applicable
+    ? config[risk]
+    : { title: `NEWS2 is not validated under ${NEWS2_MIN_AGE}`, className: 'bg-muted text-muted-foreground border-border' };
+
+  return (
+    <span
+      title={title}
+      className={cn('inline-flex items-center font-medium rounded-full border', className, sizeClasses[size])}
+    >
+      NEWS2
+      <span className="font-bold">{applicable ? score : 'N/A'}</span>
+    </span>
+  );
+}
@@ -1,4 +1,4 @@
-import { Bell, AlertTriangle, Calendar, TestTube, Info, Check } from 'lucide-react';
+import { Bell, AlertTriangle, Calendar, TestTube, Info, Check, Clock } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import {
   DropdownMenu,
@@ -16,11 +16,14 @@ import { cn } from '@/lib/utils';
 const getNotificationIcon = (type: string) => {
   switch (type) {
     case 'high_risk_alert':
+    case 'critical_lab':
       return <AlertTriangle className="h-4 w-4 text-destructive" />;
     case 'appointment_reminder':
       return <Calendar className="h-4 w-4 text-primary" />;
     case 'test_result':
       return <TestTube className="h-4 w-4 text-chart-2" />;
+    case 'observation_overdue':
+      return <Clock className="h-4 w-4 text-risk-medium" />;
     default:
       return <Info className="h-4 w-4 text-muted-foreground" />;
   }
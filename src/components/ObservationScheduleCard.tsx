@@ -0,0 +1,236 @@
+import { useState, useEffect } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { useAuth } from '@/contexts/AuthContext';
+import { useCareStaff } from '@/hooks/useCareStaff';
+import type { News2Result } from '@/lib/news2';
+import {
+  OBSERVATION_FREQUENCIES,
+  formatElapsed,
+  formatInterval,
+  observationStatus,
+  scheduledIntervalMinutes,
+} from '@/lib/observationSchedule';
+import { toast } from 'sonner';
+import { AlertTriangle, CalendarClock, Loader2, Save, Trash2 } from 'lucide-react';
+
+interface ObservationScheduleCardProps {
+  patientId: string;
+  lastRecordedAt: string | null;
+  news2: News2Result | null;
+}
+
+type Schedule = Tables<'observation_schedules'>;
+
+// Select values cannot be empty strings
+const NEWS2_DRIVEN = 'news2';
+const UNASSIGNED = 'unassigned';
+
+export function ObservationScheduleCard({ patientId, lastRecordedAt, news2 }: ObservationScheduleCardProps) {
+  const { user } = useAuth();
+  const { nurses, doctors } = useCareStaff();
+  const [schedule, setSchedule] = useState<Schedule | null>(null);
+  const [form, setForm] = useState({
+    frequency: NEWS2_DRIVEN,
+    nurseId: UNASSIGNED,
+    doctorId: UNASSIGNED,
+    graceMinutes: '30',
+  });
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    const fetchSchedule = async () => {
+      setIsLoading(true);
+      const { data, error } = await supabase
+        .from('observation_schedules')
+        .select('*')
+        .eq('patient_id', patientId)
+        .maybeSingle();
+
+      if (error) console.error('Error fetching observation schedule:', error);
+      setSchedule(data);
+      if (data) {
+        setForm({
+          frequency: data.interval_minutes ? String(data.interval_minutes) : NEWS2_DRIVEN,
+          nurseId: data.assigned_nurse_id || UNASSIGNED,
+          doctorId: data.responsible_doctor_id || UNASSIGNED,
+          graceMinutes: String(data.escalation_grace_minutes),
+        });
+      }
+      setIsLoading(false);
+    };
+
+    fetchSchedule();
+  }, [patientId]);
+
+  const handleSave = async () => {
+    if (!user) return;
+    setIsSaving(true);
+    try {
+      const values = {
+        interval_minutes: form.frequency === NEWS2_DRIVEN ? null : Number(form.frequency),
+        assigned_nurse_id: form.nurseId === UNASSIGNED ? null : form.nurseId,
+        responsible_doctor_id: form.doctorId === UNASSIGNED ? null : form.doctorId,
+        escalation_grace_minutes: Math.min(720, Math.max(0, parseInt(form.graceMinutes) || 0)),
+      };
+
+      const { data, error } = schedule
+        ? await supabase.from('observation_schedules').update(values).eq('id', schedule.id).select().single()
+        : await supabase
+            .from('observation_schedules')
+            .insert({ ...values, patient_id: patientId, created_by: user.id })
+            .select()
+            .single();
+
+      if (error) throw error;
+      setSchedule(data);
+      toast.success('Observation schedule saved');
+    } catch (error) {
+      console.error('Error saving observation schedule:', error);
+      toast.error('Failed to save schedule', { description: error instanceof Error ? error.message : undefined });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    if (!schedule) return;
+    const { error } = await supabase.from('observation_schedules').delete().eq('id', schedule.id);
+    if (error) {
+      toast.error('Failed to remove schedule', { description: error.message });
+      return;
+    }
+    setSchedule(null);
+    setForm({ frequency: NEWS2_DRIVEN, nurseId: UNASSIGNED, doctorId: UNASSIGNED, graceMinutes: '30' });
+    toast.success('Observation reminders stopped');
+  };
+
+  const intervalMinutes = scheduledIntervalMinutes(schedule, news2);
+  const status = observationStatus(lastRecordedAt, intervalMinutes);
+
+  return (
+    <div className="bg-card rounded-xl border border-border p-5 shadow-soft">
+      <div className="flex items-start justify-between gap-4 mb-4">
+        <div>
+          <h3 className="font-semibold text-foreground flex items-center gap-2">
+            <CalendarClock className="w-5 h-5 text-primary" />
+            Observation Schedule
+          </h3>
+          <p className="text-xs text-muted-foreground mt-1">
+            {schedule ? 'Reminders on' : 'No reminders set'} · due {formatInterval(intervalMinutes)}
+            {!schedule?.interval_minutes && (news2?.applicable === false ? ' (routine, NEWS2 not applicable)' : ' (per NEWS2)')}
+          </p>
+        </div>
+        {status.overdue ? (
+          <span className="flex items-center gap-1 text-sm font-medium text-risk-high">
+            <AlertTriangle className="w-4 h-4" />
+            {status.minutesSince === null ? 'No observations' : `Overdue by ${formatElapsed(status.overdueMinutes)}`}
+          </span>
+        ) : (
+          status.dueAt && (
+            <span className="text-sm text-muted-foreground">
+              Next due {new Date(status.dueAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+            </span>
+          )
+        )}
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="w-5 h-5 animate-spin text-primary" />
+        </div>
+      ) : (
+        <>
+          <div className="grid sm:grid-cols-2 lg:grid-cols-4 gap-4">
+            <div className="space-y-2">
+              <Label>Frequency</Label>
+              <Select value={form.frequency} onValueChange={(v) => setForm({ ...form, frequency: v })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NEWS2_DRIVEN}>Per NEWS2 score</SelectItem>
+                  {OBSERVATION_FREQUENCIES.map((f) => (
+                    <SelectItem key={f.minutes} value={String(f.minutes)}>
+                      {f.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Assigned nurse</Label>
+              <Select value={form.nurseId} onValueChange={(v) => setForm({ ...form, nurseId: v })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={UNASSIGNED}>All nurses</SelectItem>
+                  {nurses.map((n) => (
+                    <SelectItem key={n.user_id} value={n.user_id}>
+                      {n.full_name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Escalate to</Label>
+              <Select value={form.doctorId} onValueChange={(v) => setForm({ ...form, doctorId: v })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={UNASSIGNED}>All doctors</SelectItem>
+                  {doctors.map((d) => (
+                    <SelectItem key={d.user_id} value={d.user_id}>
+                      Dr. {d.full_name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="grace-minutes">Escalate after (min late)</Label>
+              <Input
+                id="grace-minutes"
+                type="number"
+                min={0}
+                max={720}
+                value={form.graceMinutes}
+                onChange={(e) => setForm({ ...form, graceMinutes: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-2 mt-4">
+            {schedule && (
+              <Button variant="outline" onClick={handleRemove}>
+                <Trash2 className="w-4 h-4 mr-2" />
+                Stop reminders
+              </Button>
+            )}
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Save className="w-4 h-4 mr-2" />}
+              {schedule ? 'Save Schedule' : 'Start Reminders'}
+            </Button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+import { Link } from 'react-router-dom';
+import type { Tables } from '@/integrations/supabase/types';
+import { formatElapsed, formatInterval, type ObservationStatus } from '@/lib/observationSchedule';
+import { BellRing, Clock, UserRound } from 'lucide-react';
+
+interface OverdueObservation {
+  patient: Pick<Tables<'patients'>, 'id' | 'name' | 'department' | 'bed'>;
+  status: ObservationStatus;
+  schedule: Tables<'observation_schedules'> | null;
+}
+
+interface OverdueObservationQueueProps {
+  items: OverdueObservation[];
+  // Staff user id to display name
+  staffNames: Record<string, string>;
+}
+
+// Reminder state only counts if it was sent after the latest observation
+const sentThisEpisode = (sentAt: string | null, status: ObservationStatus, now: number) =>
+  sentAt !== null && (status.minutesSince === null || new Date(sentAt).getTime() > now - status.minutesSince * 60 * 1000);
+
+export function OverdueObservationQueue({ items, staffNames }: OverdueObservationQueueProps) {
+  if (items.length === 0) return null;
+
+  const now = Date.now();
+  const queue = [...items].sort((a, b) => {
+    const lateA = a.status.minutesSince === null ? Infinity : a.status.overdueMinutes;
+    const lateB = b.status.minutesSince === null ? Infinity : b.status.overdueMinutes;
+    return lateB - lateA;
+  });
+
+  return (
+    <div className="bg-card rounded-xl border border-risk-medium/40 p-5 shadow-soft">
+      <h3 className="font-semibold text-foreground mb-3 flex items-center gap-2">
+        <Clock className="w-5 h-5 text-risk-medium" />
+        Overdue Observations
+        <span className="text-sm font-normal text-muted-foreground">({queue.length})</span>
+      </h3>
+      <div className="divide-y divide-border">
+        {queue.map(({ patient, status, schedule }) => {
+          const escalated = sentThisEpisode(schedule?.escalated_at ?? null, status, now);
+          const reminded = sentThisEpisode(schedule?.reminded_at ?? null, status, now);
+          const nurse = schedule?.assigned_nurse_id ? staffNames[schedule.assigned_nurse_id] : null;
+
+          return (
+            <Link
+              key={patient.id}
+              to={`/patients/${patient.id}`}
+              className="flex flex-wrap items-center justify-between gap-2 py-2.5 hover:bg-muted/50 rounded-md px-2 -mx-2"
+            >
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-foreground truncate">{patient.name}</p>
+                <p className="text-xs text-muted-foreground">
+                  {patient.department || 'Unassigned'}
+                  {patient.bed && ` · Bed ${patient.bed}`} · due {formatInterval(status.intervalMinutes)}
+                </p>
+              </div>
+              <div className="flex items-center gap-3 text-xs">
+                {schedule && (
+                  <span className="flex items-center gap-1 text-muted-foreground">
+                    <UserRound className="w-3 h-3" />
+                    {nurse || 'All nurses'}
+                  </span>
+                )}
+                {(escalated || reminded) && (
+                  <span className={`flex items-center gap-1 ${escalated ? 'text-risk-high' : 'text-risk-medium'}`}>
+                    <BellRing className="w-3 h-3" />
+                    {escalated ? 'Escalated to doctor' : 'Nurse reminded'}
+                  </span>
+                )}
+                <span className="font-medium text-risk-high">
+                  {status.minutesSince === null ? 'Never observed' : `${formatElapsed(status.overdueMinutes)} late`}
+                </span>
+              </div>
+            </Link>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,186 @@
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import {
+  FLACC_CATEGORIES,
+  GCS_COMPONENTS,
+  PAIN_SCALE_LABELS,
+  gcsSeverity,
+  gcsTotal,
+  painScoreFromState,
+  painSeverity,
+  validateGcs,
+  validatePain,
+  type FlaccCategory,
+  type GcsComponent,
+  type PainNeuroState,
+  type PainScale,
+} from '@/lib/neuroObservations';
+import { AlertTriangle, Brain, Frown } from 'lucide-react';
+
+interface PainNeuroInputsProps {
+  value: PainNeuroState;
+  onChange: (value: PainNeuroState) => void;
+  // ACVPU recorded as Alert alongside a reduced GCS is worth a second look
+  acvpuAlert: boolean;
+}
+
+const NOT_SCORED = 'none';
+
+export function PainNeuroInputs({ value, onChange, acvpuAlert }: PainNeuroInputsProps) {
+  const painScore = painScoreFromState(value);
+  const painError = validatePain(value.painScale, value.nrs, value.flacc);
+  const gcs = gcsTotal(value.gcs);
+  const gcsError = validateGcs(value.gcs);
+  const severity = gcs === null ? null : gcsSeverity(gcs);
+
+  const setFlacc = (category: FlaccCategory, score: string) =>
+    onChange({ ...value, flacc: { ...value.flacc, [category]: score === NOT_SCORED ? null : Number(score) } });
+  const setGcs = (component: GcsComponent, score: string) =>
+    onChange({ ...value, gcs: { ...value.gcs, [component]: score === NOT_SCORED ? null : Number(score) } });
+
+  return (
+    <div className="bg-card rounded-xl border border-border p-5 shadow-soft mt-4">
+      <h3 className="font-display font-semibold text-foreground mb-4 flex items-center gap-2">
+        <Brain className="w-5 h-5 text-primary" />
+        Pain & Neurological
+      </h3>
+
+      {/* Pain */}
+      <div className="space-y-3">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <Label className="text-sm font-medium text-foreground flex items-center gap-2">
+            <Frown className="w-4 h-4 text-muted-foreground" />
+            Pain
+          </Label>
+          <ToggleGroup
+            type="single"
+            size="sm"
+            value={value.painScale}
+            onValueChange={(scale) => scale && onChange({ ...value, painScale: scale as PainScale })}
+          >
+            {(Object.keys(PAIN_SCALE_LABELS) as PainScale[]).map((scale) => (
+              <ToggleGroupItem key={scale} value={scale} className="text-xs">
+                {PAIN_SCALE_LABELS[scale]}
+              </ToggleGroupItem>
+            ))}
+          </ToggleGroup>
+        </div>
+
+        {value.painScale === 'nrs' ? (
+          <div className="relative w-32">
+            <Input
+              type="number"
+              placeholder="0-10"
+              min={0}
+              max={10}
+              step={1}
+              value={value.nrs}
+              onChange={(e) => onChange({ ...value, nrs: e.target.value })}
+            />
+            <span className="absolute right-3 top-1/2 -translate-y-1/2 text-sm text-muted-foreground">/10</span>
+          </div>
+        ) : (
+          <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-3">
+            {(Object.keys(FLACC_CATEGORIES) as FlaccCategory[]).map((category) => (
+              <div key={category} className="space-y-1">
+                <Label className="text-xs text-muted-foreground">{FLACC_CATEGORIES[category].label}</Label>
+                <Select
+                  value={value.flacc[category] === null ? NOT_SCORED : String(value.flacc[category])}
+                  onValueChange={(score) => setFlacc(category, score)}
+                >
+                  <SelectTrigger className="h-9">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NOT_SCORED}>Not scored</SelectItem>
+                    {FLACC_CATEGORIES[category].descriptors.map((descriptor, score) => (
+                      <SelectItem key={score} value={String(score)}>
+                        {score} - {descriptor}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {painError ? (
+          <p className="text-xs flex items-center gap-1 text-risk-high">
+            <AlertTriangle className="w-3 h-3" />
+            {painError}
+          </p>
+        ) : (
+          painScore !== null &&
+          painSeverity(painScore) !== 'none' && (
+            <p className={`text-xs ${painScore >= 7 ? 'text-risk-high' : painScore >= 4 ? 'text-risk-medium' : 'text-muted-foreground'}`}>
+              {value.painScale === 'flacc' ? `FLACC ${painScore}/10` : `${painScore}/10`}: {painSeverity(painScore)} pain
+            </p>
+          )
+        )}
+      </div>
+
+      {/* Glasgow Coma Scale */}
+      <div className="space-y-3 mt-5">
+        <Label className="text-sm font-medium text-foreground flex items-center gap-2">
+          <Brain className="w-4 h-4 text-muted-foreground" />
+          Glasgow Coma Scale
+          {gcs !== null && <span className="font-semibold">{gcs}/15</span>}
+        </Label>
+        <div className="grid sm:grid-cols-3 gap-3">
+          {(Object.keys(GCS_COMPONENTS) as GcsComponent[]).map((component) => {
+            const { label, prefix, descriptors } = GCS_COMPONENTS[component];
+            return (
+              <div key={component} className="space-y-1">
+                <Label className="text-xs text-muted-foreground">{label}</Label>
+                <Select
+                  value={value.gcs[component] === null ? NOT_SCORED : String(value.gcs[component])}
+                  onValueChange={(score) => setGcs(component, score)}
+                >
+                  <SelectTrigger className="h-9">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NOT_SCORED}>Not scored</SelectItem>
+                    {descriptors
+                      .map((descriptor, i) => ({ descriptor, score: i + 1 }))
+                      .reverse()
+                      .map(({ descriptor, score }) => (
+                        <SelectItem key={score} value={String(score)}>
+                          {prefix}
+                          {score} - {descriptor}
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            );
+          })}
+        </div>
+        {gcsError ? (
+          <p className="text-xs flex items-center gap-1 text-risk-high">
+            <AlertTriangle className="w-3 h-3" />
+            {gcsError}
+          </p>
+        ) : (
+          severity &&
+          severity !== 'normal' && (
+            <p className={`text-xs flex items-center gap-1 ${severity === 'mild' ? 'text-risk-medium' : 'text-risk-high'}`}>
+              <AlertTriangle className="w-3 h-3" />
+              GCS {gcs}: {severity} impairment
+              {acvpuAlert && ' · ACVPU is recorded as Alert, check consciousness'}
+            </p>
+          )
+        )}
+      </div>
+    </div>
+  );
+}
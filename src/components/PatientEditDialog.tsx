@@ -5,6 +5,7 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { supabase } from '@/integrations/supabase/client';
+import { DEPARTMENTS } from '@/lib/observationSchedule';
 import { toast } from 'sonner';
 import { Loader2, X, Plus } from 'lucide-react';
 import type { Database } from '@/integrations/supabase/types';
@@ -23,6 +24,9 @@ interface Patient {
   email: string | null;
   phone: string | null;
   address: string | null;
+  department: string | null;
+  bed: string | null;
+  weight_kg: number | null;
 }
 
 interface PatientEditDialogProps {
@@ -43,6 +47,9 @@ export function PatientEditDialog({ open, onOpenChange, patient, onSuccess }: Pa
     email: '',
     phone: '',
     address: '',
+    department: '',
+    bed: '',
+    weight_kg: '',
     allergies: [] as string[],
     chronic_conditions: [] as string[],
   });
@@ -60,6 +67,9 @@ export function PatientEditDialog({ open, onOpenChange, patient, onSuccess }: Pa
         email: patient.email || '',
         phone: patient.phone || '',
         address: patient.address || '',
+        department: patient.department || '',
+        bed: patient.bed || '',
+        weight_kg: patient.weight_kg ? String(patient.weight_kg) : '',
         allergies: patient.allergies || [],
         chronic_conditions: patient.chronic_conditions || [],
       });
@@ -83,6 +93,9 @@ export function PatientEditDialog({ open, onOpenChange, patient, onSuccess }: Pa
           email: formData.email || null,
           phone: formData.phone || null,
           address: formData.address || null,
+          department: formData.department || null,
+          bed: formData.bed || null,
+          weight_kg: formData.weight_kg ? parseFloat(formData.weight_kg) : null,
           allergies: formData.allergies,
           chronic_conditions: formData.chronic_conditions,
         })
@@ -153,6 +166,19 @@ export function PatientEditDialog({ open, onOpenChange, patient, onSuccess }: Pa
               />
             </div>
 
+            <div className="space-y-2">
+              <Label htmlFor="weight_kg">Weight (kg)</Label>
+              <Input
+                id="weight_kg"
+                type="number"
+                min={0.5}
+                max={499}
+                step={0.1}
+                value={formData.weight_kg}
+                onChange={(e) => setFormData({ ...formData, weight_kg: e.target.value })}
+              />
+            </div>
+
             <div className="space-y-2">
               <Label htmlFor="gender">Gender</Label>
               <Select value={formData.gender} onValueChange={(v) => setFormData({ ...formData, gender: v as GenderType })}>
@@ -218,6 +244,34 @@ export function PatientEditDialog({ open, onOpenChange, patient, onSuccess }: Pa
                 onChange={(e) => setFormData({ ...formData, address: e.target.value })}
               />
             </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="department">Department</Label>
+              <Select
+                value={formData.department || 'unassigned'}
+                onValueChange={(v) => setFormData({ ...formData, department: v === 'unassigned' ? '' : v })}
+              >
+                <SelectTrigger id="department">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="unassigned">Unassigned</SelectItem>
+                  {DEPARTMENTS.map((d) => (
+                    <SelectItem key={d} value={d}>{d}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="bed">Bed</Label>
+              <Input
+                id="bed"
+                placeholder="e.g. 12A"
+                value={formData.bed}
+                onChange={(e) => setFormData({ ...formData, bed: e.target.value })}
+              />
+            </div>
           </div>
 
           {/* Allergies */}
@@ -18,6 +18,8 @@ export interface PatientFilters {
   searchQuery: string;
   bloodGroup: string;
   riskLevel: string;
+  findingSeverity: string;
+  findingArea: string;
 }
 
 const BLOOD_GROUPS = ['A+', 'A-', 'B+', 'B-', 'AB+', 'AB-', 'O+', 'O-'];
@@ -27,6 +29,8 @@ export function PatientSearchFilters({ onFiltersChange }: PatientSearchFiltersPr
     searchQuery: '',
     bloodGroup: 'all',
     riskLevel: 'all',
+    findingSeverity: 'all',
+    findingArea: '',
   });
 
   const updateFilter = (key: keyof PatientFilters, value: string) => {
@@ -40,12 +44,18 @@ export function PatientSearchFilters({ onFiltersChange }: PatientSearchFiltersPr
       searchQuery: '',
       bloodGroup: 'all',
       riskLevel: 'all',
+      findingSeverity: 'all',
+      findingArea: '',
     };
     setFilters(clearedFilters);
     onFiltersChange(clearedFilters);
   };
 
-  const hasActiveFilters = filters.bloodGroup !== 'all' || filters.riskLevel !== 'all' || filters.searchQuery !== '';
+  const hasActiveFilters =
+    filters.bloodGroup !== 'all' ||
+    filters.riskLevel !== 'all' ||
+    filters.searchQuery !== '' ||
+    filters.findingSeverity !== 'all';
 
   return (
     <div className="space-y-4">
@@ -89,6 +99,28 @@ export function PatientSearchFilters({ onFiltersChange }: PatientSearchFiltersPr
           </SelectContent>
         </Select>
 
+        {/* Scan finding filter */}
+        <Select value={filters.findingSeverity} onValueChange={(value) => updateFilter('findingSeverity', value)}>
+          <SelectTrigger className="w-full sm:w-[170px]">
+            <SelectValue placeholder="Scan Findings" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Any Scan Findings</SelectItem>
+            <SelectItem value="mild">Mild+ Findings</SelectItem>
+            <SelectItem value="moderate">Moderate+ Findings</SelectItem>
+            <SelectItem value="severe">Severe Findings</SelectItem>
+          </SelectContent>
+        </Select>
+
+        {filters.findingSeverity !== 'all' && (
+          <Input
+            placeholder="Area, e.g. lower lobe"
+            value={filters.findingArea}
+            onChange={(e) => updateFilter('findingArea', e.target.value)}
+            className="w-full sm:w-[180px]"
+          />
+        )}
+
         {/* Clear filters */}
         {hasActiveFilters && (
           <Button variant="ghost" size="icon" onClick={clearFilters} className="shrink-0">
@@ -112,6 +144,11 @@ export function PatientSearchFilters({ onFiltersChange }: PatientSearchFiltersPr
               {filters.riskLevel} Risk
             </span>
           )}
+          {filters.findingSeverity !== 'all' && (
+            <span className="px-2 py-0.5 rounded-full bg-primary/10 text-primary text-xs capitalize">
+              {filters.findingSeverity}+ findings{filters.findingArea && ` in ${filters.findingArea}`}
+            </span>
+          )}
         </div>
       )}
     </div>
@@ -0,0 +1,51 @@
+import { cn } from '@/lib/utils';
+import { RISK_DOMAIN_LABELS } from '@/lib/riskEngine';
+import type { RiskAssessment } from '@/types/medical';
+
+interface RiskFactorBreakdownProps {
+  risk: RiskAssessment;
+  className?: string;
+}
+
+export function RiskFactorBreakdown({ risk, className }: RiskFactorBreakdownProps) {
+  const domainScores = [
+    { label: 'Vitals', value: risk.vitalsRiskScore },
+    { label: 'Imaging', value: risk.imageRiskScore },
+    { label: 'Labs', value: risk.labRiskScore },
+  ];
+
+  return (
+    <div className={cn('space-y-3', className)}>
+      <div className="grid grid-cols-3 gap-2 text-center">
+        {domainScores.map((domain) => (
+          <div key={domain.label} className="rounded-lg bg-muted/50 px-2 py-1.5">
+            <p className="text-sm font-semibold text-foreground">{domain.value}%</p>
+            <p className="text-[11px] text-muted-foreground">{domain.label}</p>
+          </div>
+        ))}
+      </div>
+
+      {risk.contributions.length > 0 && (
+        <ul className="space-y-1.5">
+          {risk.contributions.map((contribution) => (
+            <li key={contribution.id} className="text-xs">
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-muted-foreground truncate">
+                  <span className="font-medium text-foreground">{RISK_DOMAIN_LABELS[contribution.domain]}</span>
+                  {' · '}
+                  {contribution.label}
+                </span>
+                <span className="font-medium text-foreground">+{contribution.points}</span>
+              </div>
+              <div className="h-1 bg-muted rounded-full overflow-hidden mt-1">
+                <div className="h-full rounded-full bg-primary/60" style={{ width: `${contribution.points}%` }} />
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <p className="text-[11px] text-muted-foreground text-right">Risk engine v{risk.engineVersion}</p>
+    </div>
+  );
+}
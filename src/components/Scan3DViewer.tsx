@@ -4,102 +4,227 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Slider } from '@/components/ui/slider';
 import { Badge } from '@/components/ui/badge';
-import { 
-  RotateCcw, 
-  ZoomIn, 
-  ZoomOut, 
-  Layers, 
-  Play, 
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  RotateCcw,
+  ZoomIn,
+  ZoomOut,
+  Layers,
+  Play,
   Pause,
   Box,
-  Eye
+  Upload,
+  Loader2,
+  AlertTriangle
 } from 'lucide-react';
+import { toast } from 'sonner';
 import { cn } from '@/lib/utils';
+import {
+  TRANSFER_PRESETS,
+  buildTransferFunction,
+  drawVolumeSlice,
+  getSliceCount,
+  getSliceWindow,
+  loadVolumeFromFiles,
+  type ScanVolume,
+  type TransferPreset,
+  type VolumeOrientation,
+} from '@/lib/volume';
 
 interface Scan3DViewerProps {
   scanType: 'ct' | 'mri';
-  sliceCount?: number;
   className?: string;
 }
 
-export function Scan3DViewer({ scanType, sliceCount = 64, className }: Scan3DViewerProps) {
+type ViewMode = 'volume' | VolumeOrientation;
+
+const VIEW_MODES: { value: ViewMode; label: string }[] = [
+  { value: 'volume', label: 'Volume' },
+  { value: 'axial', label: 'Axial' },
+  { value: 'coronal', label: 'Coronal' },
+  { value: 'sagittal', label: 'Sagittal' },
+];
+
+const DEFAULT_ZOOM = 2;
+const CINE_INTERVAL_MS = 80;
+
+const volumeVertexShader = `
+  varying vec3 vPosition;
+
+  void main() {
+    vPosition = position;
+    gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+  }
+`;
+
+// Front-to-back ray marching through the unit cube in the mesh's local space
+const volumeFragmentShader = `
+  uniform sampler3D uVolume;
+  uniform sampler2D uTransfer;
+  uniform vec3 uCameraPosition;
+  uniform float uSteps;
+  varying vec3 vPosition;
+
+  vec2 intersectBox(vec3 origin, vec3 direction) {
+    vec3 inverse = 1.0 / direction;
+    vec3 t0 = (vec3(-0.5) - origin) * inverse;
+    vec3 t1 = (vec3(0.5) - origin) * inverse;
+    vec3 tMin = min(t0, t1);
+    vec3 tMax = max(t0, t1);
+    return vec2(max(max(tMin.x, tMin.y), tMin.z), min(min(tMax.x, tMax.y), tMax.z));
+  }
+
+  void main() {
+    vec3 direction = normalize(vPosition - uCameraPosition);
+    vec2 bounds = intersectBox(uCameraPosition, direction);
+    if (bounds.x > bounds.y) discard;
+    bounds.x = max(bounds.x, 0.0);
+
+    float stepSize = 1.732 / uSteps;
+    vec4 color = vec4(0.0);
+    for (int i = 0; i < 512; i++) {
+      float t = bounds.x + (float(i) + 0.5) * stepSize;
+      if (t > bounds.y || color.a > 0.95) break;
+      vec3 point = uCameraPosition + direction * t + 0.5;
+      float intensity = texture(uVolume, point).r;
+      vec4 voxel = texture(uTransfer, vec2(intensity, 0.5));
+      color.rgb += (1.0 - color.a) * voxel.a * voxel.rgb;
+      color.a += (1.0 - color.a) * voxel.a;
+    }
+
+    if (color.a < 0.01) discard;
+    gl_FragColor = color;
+  }
+`;
+
+export function Scan3DViewer({ scanType, className }: Scan3DViewerProps) {
   const containerRef = useRef<HTMLDivElement>(null);
-  const rendererRef = useRef<THREE.WebGLRenderer | null>(null);
-  const sceneRef = useRef<THREE.Scene | null>(null);
-  const cameraRef = useRef<THREE.PerspectiveCamera | null>(null);
-  const meshRef = useRef<THREE.Mesh | null>(null);
-  const animationRef = useRef<number | null>(null);
-  
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const transferTextureRef = useRef<THREE.DataTexture | null>(null);
+  const rotationRef = useRef({ x: 0, y: 0 });
+  const zoomRef = useRef(DEFAULT_ZOOM);
+  const isPlayingRef = useRef(false);
+  const isDraggingRef = useRef(false);
+  // Read when the scene is built; later changes only swap the transfer texture
+  const presetRef = useRef<TransferPreset>(scanType === 'ct' ? 'bone' : 'soft-tissue');
+
+  const [volume, setVolume] = useState<ScanVolume | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [viewMode, setViewMode] = useState<ViewMode>('volume');
+  const [preset, setPreset] = useState<TransferPreset>(presetRef.current);
+  const [currentSlice, setCurrentSlice] = useState(0);
+  const [sliceAspect, setSliceAspect] = useState(1);
   const [isPlaying, setIsPlaying] = useState(false);
-  const [currentSlice, setCurrentSlice] = useState(32);
-  const [viewMode, setViewMode] = useState<'volume' | 'slice'>('volume');
-  const [isDragging, setIsDragging] = useState(false);
-  const [rotation, setRotation] = useState({ x: 0, y: 0 });
-  const [zoom, setZoom] = useState(3);
+
+  const sliceCount = volume && viewMode !== 'volume' ? getSliceCount(volume, viewMode) : 0;
 
   useEffect(() => {
-    if (!containerRef.current) return;
+    isPlayingRef.current = isPlaying;
+  }, [isPlaying]);
+
+  // Volume rendering
+  useEffect(() => {
+    if (!containerRef.current || !volume || viewMode !== 'volume') return;
 
-    // Initialize Three.js scene
     const container = containerRef.current;
     const width = container.clientWidth;
     const height = container.clientHeight;
 
-    // Scene
+    let renderer: THREE.WebGLRenderer;
+    try {
+      renderer = new THREE.WebGLRenderer({ antialias: true });
+    } catch (err) {
+      console.error('WebGL initialisation failed:', err);
+      setError('Volume rendering needs WebGL 2, which this browser does not provide');
+      return;
+    }
+    renderer.setSize(width, height);
+    renderer.setPixelRatio(window.devicePixelRatio);
+    container.appendChild(renderer.domElement);
+
     const scene = new THREE.Scene();
     scene.background = new THREE.Color(0x1a1a2e);
-    sceneRef.current = scene;
 
-    // Camera
-    const camera = new THREE.PerspectiveCamera(75, width / height, 0.1, 1000);
-    camera.position.z = zoom;
-    cameraRef.current = camera;
+    const camera = new THREE.PerspectiveCamera(45, width / height, 0.01, 100);
+    camera.position.z = zoomRef.current;
 
-    // Renderer
-    const renderer = new THREE.WebGLRenderer({ antialias: true });
-    renderer.setSize(width, height);
-    renderer.setPixelRatio(window.devicePixelRatio);
-    container.appendChild(renderer.domElement);
-    rendererRef.current = renderer;
+    const volumeTexture = new THREE.Data3DTexture(volume.data, volume.width, volume.height, volume.depth);
+    volumeTexture.format = THREE.RedFormat;
+    volumeTexture.type = THREE.UnsignedByteType;
+    volumeTexture.minFilter = THREE.LinearFilter;
+    volumeTexture.magFilter = THREE.LinearFilter;
+    volumeTexture.unpackAlignment = 1;
+    volumeTexture.needsUpdate = true;
 
-    // Lighting
-    const ambientLight = new THREE.AmbientLight(0x404040, 2);
-    scene.add(ambientLight);
+    const transferTexture = new THREE.DataTexture(buildTransferFunction(volume, presetRef.current), 256, 1, THREE.RGBAFormat);
+    transferTexture.minFilter = THREE.LinearFilter;
+    transferTexture.magFilter = THREE.LinearFilter;
+    transferTexture.needsUpdate = true;
+    transferTextureRef.current = transferTexture;
 
-    const directionalLight = new THREE.DirectionalLight(0xffffff, 1);
-    directionalLight.position.set(1, 1, 1);
-    scene.add(directionalLight);
+    const material = new THREE.ShaderMaterial({
+      uniforms: {
+        uVolume: { value: volumeTexture },
+        uTransfer: { value: transferTexture },
+        uCameraPosition: { value: new THREE.Vector3() },
+        uSteps: { value: 256 },
+      },
+      vertexShader: volumeVertexShader,
+      fragmentShader: volumeFragmentShader,
+      side: THREE.BackSide,
+      transparent: true,
+      depthWrite: false,
+    });
 
-    const backLight = new THREE.DirectionalLight(0x4080ff, 0.5);
-    backLight.position.set(-1, -1, -1);
-    scene.add(backLight);
+    // Scale the unit cube to the physical extent so anisotropic voxels are not stretched
+    const extent = [
+      volume.width * volume.spacing[0],
+      volume.height * volume.spacing[1],
+      volume.depth * volume.spacing[2],
+    ];
+    const largest = Math.max(...extent);
+    const geometry = new THREE.BoxGeometry(1, 1, 1);
+    const mesh = new THREE.Mesh(geometry, material);
+    mesh.scale.set(extent[0] / largest, extent[1] / largest, extent[2] / largest);
+    // Slices stack along z; stand the volume up so the last slice is at the top
+    mesh.rotation.x = -Math.PI / 2;
 
-    // Create volumetric representation
-    createVolume(scene, scanType);
+    const group = new THREE.Group();
+    group.add(mesh);
+    scene.add(group);
 
-    // Animation loop
+    const localCamera = new THREE.Vector3();
+    let animationId = 0;
     const animate = () => {
-      animationRef.current = requestAnimationFrame(animate);
-      
-      if (meshRef.current) {
-        if (isPlaying) {
-          meshRef.current.rotation.y += 0.01;
-          setRotation(prev => ({ ...prev, y: meshRef.current!.rotation.y }));
-        } else {
-          meshRef.current.rotation.x = rotation.x;
-          meshRef.current.rotation.y = rotation.y;
-        }
+      animationId = requestAnimationFrame(animate);
+
+      if (isPlayingRef.current) {
+        rotationRef.current.y += 0.01;
       }
-      
+      group.rotation.x = rotationRef.current.x;
+      group.rotation.y = rotationRef.current.y;
+      camera.position.z = zoomRef.current;
+
+      scene.updateMatrixWorld();
+      localCamera.copy(camera.position);
+      mesh.worldToLocal(localCamera);
+      material.uniforms.uCameraPosition.value.copy(localCamera);
+
       renderer.render(scene, camera);
     };
     animate();
 
-    // Handle resize
     const handleResize = () => {
-      if (!containerRef.current) return;
-      const w = containerRef.current.clientWidth;
-      const h = containerRef.current.clientHeight;
+      const w = container.clientWidth;
+      const h = container.clientHeight;
       camera.aspect = w / h;
       camera.updateProjectionMatrix();
       renderer.setSize(w, h);
@@ -108,234 +233,273 @@ export function Scan3DViewer({ scanType, sliceCount = 64, className }: Scan3DVie
 
     return () => {
       window.removeEventListener('resize', handleResize);
-      if (animationRef.current) cancelAnimationFrame(animationRef.current);
+      cancelAnimationFrame(animationId);
+      transferTextureRef.current = null;
+      geometry.dispose();
+      material.dispose();
+      volumeTexture.dispose();
+      transferTexture.dispose();
       renderer.dispose();
       container.removeChild(renderer.domElement);
     };
-  }, []);
+  }, [volume, viewMode]);
 
   useEffect(() => {
-    if (cameraRef.current) {
-      cameraRef.current.position.z = zoom;
-    }
-  }, [zoom]);
+    presetRef.current = preset;
+    const texture = transferTextureRef.current;
+    if (!texture || !volume) return;
+    texture.image.data = buildTransferFunction(volume, preset);
+    texture.needsUpdate = true;
+  }, [preset, volume]);
+
+  // Multiplanar slices
+  useEffect(() => {
+    if (!canvasRef.current || !volume || viewMode === 'volume') return;
+    setSliceAspect(drawVolumeSlice(canvasRef.current, volume, viewMode, currentSlice, getSliceWindow(volume, preset)));
+  }, [volume, viewMode, currentSlice, preset]);
 
+  // Cine through slices, or rotate the volume (handled in the render loop)
   useEffect(() => {
-    if (meshRef.current && !isPlaying) {
-      meshRef.current.rotation.x = rotation.x;
-      meshRef.current.rotation.y = rotation.y;
+    if (!isPlaying || viewMode === 'volume' || sliceCount === 0) return;
+    const interval = setInterval(() => {
+      setCurrentSlice((slice) => (slice + 1) % sliceCount);
+    }, CINE_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [isPlaying, viewMode, sliceCount]);
+
+  const changeViewMode = (mode: ViewMode) => {
+    setViewMode(mode);
+    if (volume && mode !== 'volume') {
+      setCurrentSlice(Math.floor(getSliceCount(volume, mode) / 2));
     }
-  }, [rotation, isPlaying]);
+  };
 
-  const createVolume = (scene: THREE.Scene, type: 'ct' | 'mri') => {
-    // Create a group to hold all elements
-    const group = new THREE.Group();
-    
-    if (viewMode === 'volume') {
-      // Create volumetric cube representation
-      const geometry = new THREE.BoxGeometry(1.5, 1.5, 1.5);
-      
-      // Create custom shader material for volumetric effect
-      const material = new THREE.MeshPhongMaterial({
-        color: type === 'ct' ? 0x4080ff : 0x80ff40,
-        transparent: true,
-        opacity: 0.8,
-        side: THREE.DoubleSide,
-      });
-      
-      const cube = new THREE.Mesh(geometry, material);
-      group.add(cube);
-      
-      // Add wireframe for structure
-      const wireframe = new THREE.LineSegments(
-        new THREE.EdgesGeometry(geometry),
-        new THREE.LineBasicMaterial({ color: 0xffffff, opacity: 0.3, transparent: true })
-      );
-      group.add(wireframe);
-      
-      // Add slice planes
-      for (let i = 0; i < 8; i++) {
-        const slicePlane = new THREE.Mesh(
-          new THREE.PlaneGeometry(1.4, 1.4),
-          new THREE.MeshBasicMaterial({
-            color: type === 'ct' ? 0x2060aa : 0x60aa20,
-            transparent: true,
-            opacity: 0.15,
-            side: THREE.DoubleSide,
-          })
-        );
-        slicePlane.position.z = -0.7 + (i * 0.2);
-        group.add(slicePlane);
-      }
-      
-      // Add simulated organ shapes
-      const organGeometry = new THREE.SphereGeometry(0.3, 32, 32);
-      const organMaterial = new THREE.MeshPhongMaterial({
-        color: type === 'ct' ? 0xff4040 : 0xff8040,
-        transparent: true,
-        opacity: 0.6,
-      });
-      
-      const organ1 = new THREE.Mesh(organGeometry, organMaterial);
-      organ1.position.set(-0.3, 0.2, 0);
-      organ1.scale.set(1, 0.8, 0.6);
-      group.add(organ1);
-      
-      const organ2 = new THREE.Mesh(organGeometry, organMaterial.clone());
-      organ2.material.color.setHex(type === 'ct' ? 0x40ff40 : 0x40ffff);
-      organ2.position.set(0.3, -0.1, 0.1);
-      organ2.scale.set(0.7, 1.2, 0.5);
-      group.add(organ2);
-    } else {
-      // Slice view - single plane
-      const sliceGeometry = new THREE.PlaneGeometry(2, 2);
-      const sliceMaterial = new THREE.MeshBasicMaterial({
-        color: type === 'ct' ? 0x3070cc : 0x70cc30,
-        side: THREE.DoubleSide,
-      });
-      const slice = new THREE.Mesh(sliceGeometry, sliceMaterial);
-      
-      // Add cross-section visualization
-      const crossSection = new THREE.RingGeometry(0.3, 0.5, 32);
-      const crossMaterial = new THREE.MeshBasicMaterial({
-        color: 0xffffff,
-        transparent: true,
-        opacity: 0.3,
-        side: THREE.DoubleSide,
-      });
-      const crossMesh = new THREE.Mesh(crossSection, crossMaterial);
-      crossMesh.position.set(-0.3, 0.2, 0.01);
-      slice.add(crossMesh);
-      
-      group.add(slice);
+  const handleFilesSelected = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length === 0) return;
+
+    setLoading(true);
+    setError(null);
+    setIsPlaying(false);
+    try {
+      const loaded = await loadVolumeFromFiles(files);
+      setVolume(loaded);
+      setViewMode('volume');
+      setCurrentSlice(Math.floor(loaded.depth / 2));
+      rotationRef.current = { x: 0, y: 0 };
+      zoomRef.current = DEFAULT_ZOOM;
+      toast.success(`Loaded ${loaded.depth} slices (${loaded.width}x${loaded.height})`);
+    } catch (err) {
+      console.error('Error loading series:', err);
+      const message = err instanceof Error ? err.message : 'Could not read the selected files';
+      setError(message);
+      toast.error(message);
+    } finally {
+      setLoading(false);
     }
-    
-    scene.add(group);
-    meshRef.current = group as unknown as THREE.Mesh;
   };
 
-  const handleMouseDown = () => setIsDragging(true);
-  const handleMouseUp = () => setIsDragging(false);
+  const handleMouseDown = () => {
+    isDraggingRef.current = true;
+  };
+  const handleMouseUp = () => {
+    isDraggingRef.current = false;
+  };
   const handleMouseMove = (e: React.MouseEvent) => {
-    if (!isDragging || isPlaying) return;
-    setRotation(prev => ({
-      x: prev.x + e.movementY * 0.01,
-      y: prev.y + e.movementX * 0.01,
-    }));
+    if (!isDraggingRef.current || isPlaying) return;
+    rotationRef.current = {
+      x: rotationRef.current.x + e.movementY * 0.01,
+      y: rotationRef.current.y + e.movementX * 0.01,
+    };
+  };
+  const handleWheel = (e: React.WheelEvent) => {
+    zoomRef.current = Math.min(4, Math.max(0.8, zoomRef.current + e.deltaY * 0.001));
+  };
+
+  const changeZoom = (delta: number) => {
+    zoomRef.current = Math.min(4, Math.max(0.8, zoomRef.current + delta));
   };
 
   const resetView = () => {
-    setRotation({ x: 0, y: 0 });
-    setZoom(3);
+    rotationRef.current = { x: 0, y: 0 };
+    zoomRef.current = DEFAULT_ZOOM;
     setIsPlaying(false);
   };
 
   return (
     <Card className={cn("overflow-hidden", className)}>
       <CardHeader className="pb-3">
-        <div className="flex items-center justify-between">
+        <div className="flex items-center justify-between gap-2">
           <CardTitle className="flex items-center gap-2 text-base">
             <Box className="w-4 h-4" />
             3D {scanType.toUpperCase()} Reconstruction
           </CardTitle>
-          <Badge variant="outline" className="gap-1">
-            <Layers className="w-3 h-3" />
-            {sliceCount} slices
-          </Badge>
-        </div>
-      </CardHeader>
-      <CardContent className="space-y-4">
-        {/* Controls */}
-        <div className="flex items-center gap-2 flex-wrap">
-          <div className="flex items-center gap-1 bg-muted rounded-lg p-1">
-            <Button
-              variant={viewMode === 'volume' ? 'secondary' : 'ghost'}
-              size="sm"
-              onClick={() => setViewMode('volume')}
-              className="h-7 px-2 text-xs"
-            >
-              <Box className="w-3 h-3 mr-1" />
-              Volume
-            </Button>
+          <div className="flex items-center gap-2">
+            {volume && (
+              <Badge variant="outline" className="gap-1">
+                <Layers className="w-3 h-3" />
+                {volume.depth} slices
+              </Badge>
+            )}
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple
+              accept=".dcm,.dicom,application/dicom,image/*"
+              className="hidden"
+              onChange={handleFilesSelected}
+            />
             <Button
-              variant={viewMode === 'slice' ? 'secondary' : 'ghost'}
+              variant="outline"
               size="sm"
-              onClick={() => setViewMode('slice')}
+              onClick={() => fileInputRef.current?.click()}
+              disabled={loading}
               className="h-7 px-2 text-xs"
             >
-              <Eye className="w-3 h-3 mr-1" />
-              Slice
+              {loading ? <Loader2 className="w-3 h-3 mr-1 animate-spin" /> : <Upload className="w-3 h-3 mr-1" />}
+              Load series
             </Button>
           </div>
-          
-          <Button
-            variant="outline"
-            size="sm"
-            onClick={() => setIsPlaying(!isPlaying)}
-            className="h-7 px-2"
-          >
-            {isPlaying ? <Pause className="w-3 h-3" /> : <Play className="w-3 h-3" />}
-          </Button>
-          
-          <Button
-            variant="outline"
-            size="sm"
-            onClick={() => setZoom(z => Math.max(1.5, z - 0.5))}
-            className="h-7 px-2"
-          >
-            <ZoomIn className="w-3 h-3" />
-          </Button>
-          
-          <Button
-            variant="outline"
-            size="sm"
-            onClick={() => setZoom(z => Math.min(6, z + 0.5))}
-            className="h-7 px-2"
-          >
-            <ZoomOut className="w-3 h-3" />
-          </Button>
-          
-          <Button
-            variant="outline"
-            size="sm"
-            onClick={resetView}
-            className="h-7 px-2"
-          >
-            <RotateCcw className="w-3 h-3" />
-          </Button>
         </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {volume ? (
+          <>
+            {/* Controls */}
+            <div className="flex items-center gap-2 flex-wrap">
+              <div className="flex items-center gap-1 bg-muted rounded-lg p-1">
+                {VIEW_MODES.map((mode) => (
+                  <Button
+                    key={mode.value}
+                    variant={viewMode === mode.value ? 'secondary' : 'ghost'}
+                    size="sm"
+                    onClick={() => changeViewMode(mode.value)}
+                    className="h-7 px-2 text-xs"
+                  >
+                    {mode.label}
+                  </Button>
+                ))}
+              </div>
+
+              <Select value={preset} onValueChange={(value) => setPreset(value as TransferPreset)}>
+                <SelectTrigger className="h-7 w-32 text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(TRANSFER_PRESETS) as TransferPreset[]).map((key) => (
+                    <SelectItem key={key} value={key}>
+                      {TRANSFER_PRESETS[key].label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setIsPlaying(!isPlaying)}
+                className="h-7 px-2"
+              >
+                {isPlaying ? <Pause className="w-3 h-3" /> : <Play className="w-3 h-3" />}
+              </Button>
+
+              {viewMode === 'volume' && (
+                <>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => changeZoom(-0.25)}
+                    className="h-7 px-2"
+                  >
+                    <ZoomIn className="w-3 h-3" />
+                  </Button>
+
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => changeZoom(0.25)}
+                    className="h-7 px-2"
+                  >
+                    <ZoomOut className="w-3 h-3" />
+                  </Button>
 
-        {/* 3D Viewer */}
-        <div
-          ref={containerRef}
-          className="aspect-square bg-[#1a1a2e] rounded-lg cursor-grab active:cursor-grabbing"
-          onMouseDown={handleMouseDown}
-          onMouseUp={handleMouseUp}
-          onMouseLeave={handleMouseUp}
-          onMouseMove={handleMouseMove}
-        />
-
-        {/* Slice Slider */}
-        {viewMode === 'slice' && (
-          <div className="space-y-2">
-            <div className="flex items-center justify-between text-sm">
-              <span className="text-muted-foreground">Slice Position</span>
-              <span className="font-mono">{currentSlice} / {sliceCount}</span>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={resetView}
+                    className="h-7 px-2"
+                  >
+                    <RotateCcw className="w-3 h-3" />
+                  </Button>
+                </>
+              )}
             </div>
-            <Slider
-              value={[currentSlice]}
-              onValueChange={([v]) => setCurrentSlice(v)}
-              min={1}
-              max={sliceCount}
-              step={1}
-            />
+
+            {/* Viewer */}
+            {viewMode === 'volume' ? (
+              <div
+                ref={containerRef}
+                className="aspect-square bg-[#1a1a2e] rounded-lg cursor-grab active:cursor-grabbing overflow-hidden"
+                onMouseDown={handleMouseDown}
+                onMouseUp={handleMouseUp}
+                onMouseLeave={handleMouseUp}
+                onMouseMove={handleMouseMove}
+                onWheel={handleWheel}
+              />
+            ) : (
+              <div className="aspect-square bg-black rounded-lg flex items-center justify-center overflow-hidden">
+                <canvas
+                  ref={canvasRef}
+                  className="max-w-full max-h-full"
+                  style={{
+                    aspectRatio: sliceAspect,
+                    width: sliceAspect >= 1 ? '100%' : 'auto',
+                    height: sliceAspect >= 1 ? 'auto' : '100%',
+                  }}
+                />
+              </div>
+            )}
+
+            {/* Slice Slider */}
+            {viewMode !== 'volume' && (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between text-sm">
+                  <span className="text-muted-foreground">Slice Position</span>
+                  <span className="font-mono">{currentSlice + 1} / {sliceCount}</span>
+                </div>
+                <Slider
+                  value={[currentSlice]}
+                  onValueChange={([v]) => setCurrentSlice(v)}
+                  min={0}
+                  max={sliceCount - 1}
+                  step={1}
+                />
+              </div>
+            )}
+
+            {/* Info */}
+            <div className="text-xs text-muted-foreground text-center">
+              {viewMode === 'volume'
+                ? `${isPlaying ? 'Auto-rotating' : 'Click and drag to rotate'} • Scroll to zoom`
+                : `${volume.width}x${volume.height}x${volume.depth} • ${volume.spacing.map((s) => s.toFixed(2)).join(' x ')} mm`}
+            </div>
+          </>
+        ) : (
+          <div className="aspect-square bg-[#1a1a2e] rounded-lg flex flex-col items-center justify-center gap-3 p-6 text-center">
+            <Layers className="w-10 h-10 text-muted-foreground" />
+            <p className="text-sm text-muted-foreground">
+              Load a {scanType.toUpperCase()} series to reconstruct it in 3D: select all DICOM slices of one series, or a numbered stack of PNG/JPEG slices.
+            </p>
           </div>
         )}
 
-        {/* Info */}
-        <div className="text-xs text-muted-foreground text-center">
-          {isPlaying ? 'Auto-rotating' : 'Click and drag to rotate'} • Scroll to zoom
-        </div>
+        {error && (
+          <div className="flex items-start gap-2 text-sm text-destructive">
+            <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+            <span>{error}</span>
+          </div>
+        )}
       </CardContent>
     </Card>
   );
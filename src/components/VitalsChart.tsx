@@ -1,7 +1,33 @@
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { useRef, useState } from 'react';
+import {
+  ComposedChart,
+  Line,
+  Bar,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+  ReferenceArea,
+  ReferenceLine,
+} from 'recharts';
+import { format } from 'date-fns';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Activity, Heart, Thermometer, Wind } from 'lucide-react';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { Activity, Heart, Thermometer, Wind, Siren, Gauge, TrendingDown, Download, Brain } from 'lucide-react';
+import { toast } from 'sonner';
+import { formatVitalRange, getAgeBand } from '@/lib/vitalRanges';
+import {
+  analyzeVitalTrends,
+  meanArterialPressure,
+  rollingBaseline,
+  sampleValue,
+  TREND_WINDOW_HOURS,
+} from '@/lib/vitalTrends';
+import { downloadCsv, downloadSvgAsPng, type CsvColumn } from '@/lib/chartExport';
 
 interface VitalRecord {
   id: string;
@@ -10,38 +36,218 @@ interface VitalRecord {
   temperature: number | null;
   heart_rate: number | null;
   respiratory_rate: number | null;
+  blood_pressure_systolic: number | null;
+  blood_pressure_diastolic: number | null;
+  // Computed by the database when the observation is saved
+  news2_score?: number | null;
+  pain_score?: number | null;
+  gcs_total?: number | null;
 }
 
 interface VitalsChartProps {
   vitals: VitalRecord[];
+  // Reference lines follow the patient's age band; adult ranges when omitted
+  age?: number | null;
 }
 
-export function VitalsChart({ vitals }: VitalsChartProps) {
-  // Format data for charts
-  const chartData = vitals
+type TimeWindow = '24h' | '7d' | '30d' | 'all';
+type ChartTab = 'overview' | 'spo2' | 'heart' | 'bp' | 'temp' | 'resp' | 'shock' | 'news2' | 'neuro';
+type OverviewSeries = 'spO2' | 'heartRate' | 'respiratoryRate' | 'bloodPressure' | 'temperature';
+
+interface ChartPoint {
+  time: number;
+  recordedAt: string;
+  spO2: number | null;
+  temperature: number | null;
+  heartRate: number | null;
+  respiratoryRate: number | null;
+  systolic: number | null;
+  diastolic: number | null;
+  // [diastolic, systolic] for the range bars
+  bpRange: [number, number] | null;
+  map: number | null;
+  news2: number | null;
+  pain: number | null;
+  gcs: number | null;
+  shockIndex: number | null;
+  spO2Baseline: number | null;
+  heartRateBaseline: number | null;
+  temperatureBaseline: number | null;
+  respiratoryRateBaseline: number | null;
+  shockIndexBaseline: number | null;
+}
+
+const HOUR = 60 * 60 * 1000;
+
+const TIME_WINDOWS: { value: TimeWindow; label: string; hours: number | null }[] = [
+  { value: '24h', label: '24h', hours: 24 },
+  { value: '7d', label: '7d', hours: 24 * 7 },
+  { value: '30d', label: '30d', hours: 24 * 30 },
+  { value: 'all', label: 'All', hours: null },
+];
+
+const OVERVIEW_SERIES: { value: OverviewSeries; label: string }[] = [
+  { value: 'spO2', label: 'SpO₂' },
+  { value: 'heartRate', label: 'HR' },
+  { value: 'respiratoryRate', label: 'RR' },
+  { value: 'bloodPressure', label: 'BP' },
+  { value: 'temperature', label: 'Temp' },
+];
+
+// Adult perfusion target; paediatric MAP targets vary too much by age for a single line
+const MAP_MIN = 65;
+
+const CSV_COLUMNS: Record<ChartTab, CsvColumn<ChartPoint>[]> = {
+  overview: [
+    { key: 'recordedAt', label: 'Recorded at' },
+    { key: 'spO2', label: 'SpO2 (%)' },
+    { key: 'heartRate', label: 'Heart rate (bpm)' },
+    { key: 'respiratoryRate', label: 'Respiratory rate (/min)' },
+    { key: 'systolic', label: 'Systolic (mmHg)' },
+    { key: 'diastolic', label: 'Diastolic (mmHg)' },
+    { key: 'temperature', label: 'Temperature (C)' },
+  ],
+  spo2: [
+    { key: 'recordedAt', label: 'Recorded at' },
+    { key: 'spO2', label: 'SpO2 (%)' },
+    { key: 'spO2Baseline', label: 'Baseline (%)' },
+  ],
+  heart: [
+    { key: 'recordedAt', label: 'Recorded at' },
+    { key: 'heartRate', label: 'Heart rate (bpm)' },
+    { key: 'heartRateBaseline', label: 'Baseline (bpm)' },
+  ],
+  bp: [
+    { key: 'recordedAt', label: 'Recorded at' },
+    { key: 'systolic', label: 'Systolic (mmHg)' },
+    { key: 'diastolic', label: 'Diastolic (mmHg)' },
+    { key: 'map', label: 'MAP (mmHg)' },
+  ],
+  temp: [
+    { key: 'recordedAt', label: 'Recorded at' },
+    { key: 'temperature', label: 'Temperature (C)' },
+    { key: 'temperatureBaseline', label: 'Baseline (C)' },
+  ],
+  resp: [
+    { key: 'recordedAt', label: 'Recorded at' },
+    { key: 'respiratoryRate', label: 'Respiratory rate (/min)' },
+    { key: 'respiratoryRateBaseline', label: 'Baseline (/min)' },
+  ],
+  shock: [
+    { key: 'recordedAt', label: 'Recorded at' },
+    { key: 'shockIndex', label: 'Shock index' },
+    { key: 'shockIndexBaseline', label: 'Baseline' },
+  ],
+  news2: [
+    { key: 'recordedAt', label: 'Recorded at' },
+    { key: 'news2', label: 'NEWS2' },
+  ],
+  neuro: [
+    { key: 'recordedAt', label: 'Recorded at' },
+    { key: 'pain', label: 'Pain (0-10)' },
+    { key: 'gcs', label: 'GCS (3-15)' },
+  ],
+};
+
+export function VitalsChart({ vitals, age }: VitalsChartProps) {
+  const [timeWindow, setTimeWindow] = useState<TimeWindow>('all');
+  const [activeTab, setActiveTab] = useState<ChartTab>('overview');
+  const [overviewSeries, setOverviewSeries] = useState<OverviewSeries[]>(['spO2', 'heartRate']);
+  const chartRef = useRef<HTMLDivElement>(null);
+
+  const band = getAgeBand(age);
+  const { ranges } = band;
+
+  const chronological = vitals
     .slice()
-    .reverse()
-    .map((v) => ({
-      date: new Date(v.recorded_at).toLocaleDateString('en-US', { 
-        month: 'short', 
-        day: 'numeric',
-        hour: '2-digit',
-        minute: '2-digit'
-      }),
+    .sort((a, b) => new Date(a.recorded_at).getTime() - new Date(b.recorded_at).getTime());
+  const trendAnalysis = analyzeVitalTrends(vitals, age);
+  // Baselines use the full history so the first readings in a window still have one
+  const baselines = {
+    spO2: rollingBaseline(chronological, 'spo2'),
+    heartRate: rollingBaseline(chronological, 'heartRate'),
+    temperature: rollingBaseline(chronological, 'temperature'),
+    respiratoryRate: rollingBaseline(chronological, 'respiratoryRate'),
+    shockIndex: rollingBaseline(chronological, 'shockIndex'),
+  };
+
+  const allData: ChartPoint[] = chronological.map((v, i) => {
+    const systolic = v.blood_pressure_systolic;
+    const diastolic = v.blood_pressure_diastolic;
+    return {
+      time: new Date(v.recorded_at).getTime(),
+      recordedAt: v.recorded_at,
       spO2: v.spo2,
       temperature: v.temperature,
       heartRate: v.heart_rate,
       respiratoryRate: v.respiratory_rate,
-    }));
+      systolic,
+      diastolic,
+      bpRange: systolic && diastolic ? [diastolic, systolic] : null,
+      map: meanArterialPressure(systolic, diastolic),
+      news2: v.news2_score ?? null,
+      pain: v.pain_score ?? null,
+      gcs: v.gcs_total ?? null,
+      shockIndex: sampleValue(v, 'shockIndex'),
+      spO2Baseline: baselines.spO2[i],
+      heartRateBaseline: baselines.heartRate[i],
+      temperatureBaseline: baselines.temperature[i],
+      respiratoryRateBaseline: baselines.respiratoryRate[i],
+      shockIndexBaseline: baselines.shockIndex[i],
+    };
+  });
+
+  const windowHours = TIME_WINDOWS.find((w) => w.value === timeWindow)?.hours ?? null;
+  const now = Date.now();
+  const windowStart = windowHours === null ? null : now - windowHours * HOUR;
+  const chartData = windowStart === null ? allData : allData.filter((d) => d.time >= windowStart);
+
+  const hasNews2 = allData.some((d) => d.news2 !== null);
+  const hasNeuro = allData.some((d) => d.pain !== null || d.gcs !== null);
+  const hasShockIndex = allData.some((d) => d.shockIndex !== null);
+  const hasBloodPressure = allData.some((d) => d.bpRange !== null);
+
+  // Real time scale: readings are spaced by when they were taken, not evenly
+  const span = chartData.length > 1 ? chartData[chartData.length - 1].time - chartData[0].time : 0;
+  const tickFormat = (windowHours ?? span / HOUR) <= 48 ? 'HH:mm' : 'MMM d';
+  const timeAxis = {
+    dataKey: 'time',
+    type: 'number' as const,
+    scale: 'time' as const,
+    domain: windowStart === null ? ['dataMin', 'dataMax'] : [windowStart, now],
+    tickFormatter: (value: number) => format(new Date(value), tickFormat),
+    tick: { fontSize: 10 },
+  };
+
+  const handleExportPng = async () => {
+    const svg = chartRef.current?.querySelector<SVGSVGElement>('.recharts-wrapper > svg');
+    if (!svg) {
+      toast.error('Nothing to export');
+      return;
+    }
+    try {
+      await downloadSvgAsPng(svg, `vitals-${activeTab}-${timeWindow}.png`);
+    } catch (error) {
+      console.error('Error exporting chart:', error);
+      toast.error('Failed to export chart', { description: error instanceof Error ? error.message : undefined });
+    }
+  };
+
+  const handleExportCsv = () => {
+    downloadCsv(CSV_COLUMNS[activeTab], chartData, `vitals-${activeTab}-${timeWindow}.csv`);
+  };
 
   const CustomTooltip = ({ active, payload, label }: any) => {
     if (active && payload && payload.length) {
       return (
         <div className="bg-card border border-border rounded-lg p-3 shadow-lg">
-          <p className="text-sm font-medium text-foreground mb-2">{label}</p>
+          <p className="text-sm font-medium text-foreground mb-2">{format(new Date(label), 'MMM d, HH:mm')}</p>
           {payload.map((entry: any, index: number) => (
             <p key={index} className="text-sm" style={{ color: entry.color }}>
-              {entry.name}: <span className="font-semibold">{entry.value}</span>
+              {entry.name}:{' '}
+              <span className="font-semibold">
+                {Array.isArray(entry.value) ? `${entry.value[1]}/${entry.value[0]}` : entry.value}
+              </span>
             </p>
           ))}
         </div>
@@ -68,181 +274,623 @@ export function VitalsChart({ vitals }: VitalsChartProps) {
     );
   }
 
+  const showSeries = (series: OverviewSeries) => overviewSeries.includes(series);
+  const emptyWindow = chartData.length === 0 && (
+    <div className="h-full flex items-center justify-center text-sm text-muted-foreground">
+      No readings in the selected time window
+    </div>
+  );
+
   return (
     <Card>
       <CardHeader>
-        <CardTitle className="flex items-center gap-2">
-          <Activity className="w-5 h-5 text-primary" />
-          Vitals History
-        </CardTitle>
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <CardTitle className="flex items-center gap-2">
+            <Activity className="w-5 h-5 text-primary" />
+            Vitals History
+          </CardTitle>
+          <div className="flex flex-wrap items-center gap-2">
+            <ToggleGroup
+              type="single"
+              size="sm"
+              variant="outline"
+              value={timeWindow}
+              onValueChange={(value) => value && setTimeWindow(value as TimeWindow)}
+            >
+              {TIME_WINDOWS.map((w) => (
+                <ToggleGroupItem key={w.value} value={w.value} className="text-xs">
+                  {w.label}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+            <Button variant="outline" size="sm" onClick={handleExportPng} disabled={chartData.length === 0}>
+              <Download className="w-4 h-4 mr-1" />
+              PNG
+            </Button>
+            <Button variant="outline" size="sm" onClick={handleExportCsv} disabled={chartData.length === 0}>
+              <Download className="w-4 h-4 mr-1" />
+              CSV
+            </Button>
+          </div>
+        </div>
       </CardHeader>
       <CardContent>
-        <Tabs defaultValue="overview" className="space-y-4">
-          <TabsList className="bg-muted/50">
+        {trendAnalysis.deteriorating && (
+          <div className="mb-4 p-3 rounded-lg border border-risk-high/30 bg-risk-high/5">
+            <p className="text-sm font-semibold text-risk-high flex items-center gap-2">
+              <TrendingDown className="w-4 h-4" />
+              Deteriorating
+            </p>
+            <ul className="mt-1 space-y-0.5">
+              {trendAnalysis.alerts.map((alert) => (
+                <li key={alert.parameter + alert.message} className="text-xs text-muted-foreground">
+                  {alert.message}
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+        <Tabs value={activeTab} onValueChange={(value) => setActiveTab(value as ChartTab)} className="space-y-4">
+          <TabsList className="bg-muted/50 flex-wrap h-auto">
             <TabsTrigger value="overview">Overview</TabsTrigger>
             <TabsTrigger value="spo2">SpO₂</TabsTrigger>
             <TabsTrigger value="heart">Heart Rate</TabsTrigger>
+            {hasBloodPressure && <TabsTrigger value="bp">Blood Pressure</TabsTrigger>}
             <TabsTrigger value="temp">Temperature</TabsTrigger>
             <TabsTrigger value="resp">Respiratory</TabsTrigger>
+            {hasShockIndex && <TabsTrigger value="shock">Shock Index</TabsTrigger>}
+            {hasNews2 && <TabsTrigger value="news2">NEWS2</TabsTrigger>}
+            {hasNeuro && <TabsTrigger value="neuro">Pain & GCS</TabsTrigger>}
           </TabsList>
 
-          <TabsContent value="overview" className="h-80">
-            <ResponsiveContainer width="100%" height="100%">
-              <LineChart data={chartData}>
-                <CartesianGrid strokeDasharray="3 3" className="stroke-border" />
-                <XAxis 
-                  dataKey="date" 
-                  className="text-xs fill-muted-foreground"
-                  tick={{ fontSize: 10 }}
-                />
-                <YAxis className="text-xs fill-muted-foreground" />
-                <Tooltip content={<CustomTooltip />} />
-                <Legend />
-                <Line
-                  type="monotone"
-                  dataKey="spO2"
-                  name="SpO₂ (%)"
-                  stroke="hsl(var(--primary))"
-                  strokeWidth={2}
-                  dot={{ r: 4 }}
-                  activeDot={{ r: 6 }}
-                />
-                <Line
-                  type="monotone"
-                  dataKey="heartRate"
-                  name="Heart Rate (bpm)"
-                  stroke="hsl(var(--chart-5))"
-                  strokeWidth={2}
-                  dot={{ r: 4 }}
-                  activeDot={{ r: 6 }}
-                />
-              </LineChart>
-            </ResponsiveContainer>
-          </TabsContent>
-
-          <TabsContent value="spo2" className="h-80">
-            <ResponsiveContainer width="100%" height="100%">
-              <LineChart data={chartData}>
-                <CartesianGrid strokeDasharray="3 3" className="stroke-border" />
-                <XAxis dataKey="date" tick={{ fontSize: 10 }} />
-                <YAxis domain={[85, 100]} tick={{ fontSize: 10 }} />
-                <Tooltip content={<CustomTooltip />} />
-                <Line
-                  type="monotone"
-                  dataKey="spO2"
-                  name="SpO₂ (%)"
-                  stroke="hsl(var(--primary))"
-                  strokeWidth={3}
-                  dot={{ r: 5, fill: 'hsl(var(--primary))' }}
-                  activeDot={{ r: 8 }}
-                />
-                {/* Reference line for normal range */}
-                <Line
-                  type="monotone"
-                  dataKey={() => 94}
-                  stroke="hsl(var(--risk-medium))"
-                  strokeDasharray="5 5"
-                  strokeWidth={1}
-                  name="Low Threshold"
-                  dot={false}
-                />
-              </LineChart>
-            </ResponsiveContainer>
-            <p className="text-xs text-muted-foreground mt-2 flex items-center gap-2">
-              <Activity className="w-3 h-3" />
-              Normal SpO₂: 95-100% | Dashed line indicates low threshold (94%)
-            </p>
-          </TabsContent>
-
-          <TabsContent value="heart" className="h-80">
-            <ResponsiveContainer width="100%" height="100%">
-              <LineChart data={chartData}>
-                <CartesianGrid strokeDasharray="3 3" className="stroke-border" />
-                <XAxis dataKey="date" tick={{ fontSize: 10 }} />
-                <YAxis domain={[40, 140]} tick={{ fontSize: 10 }} />
-                <Tooltip content={<CustomTooltip />} />
-                <Line
-                  type="monotone"
-                  dataKey="heartRate"
-                  name="Heart Rate (bpm)"
-                  stroke="hsl(var(--chart-5))"
-                  strokeWidth={3}
-                  dot={{ r: 5, fill: 'hsl(var(--chart-5))' }}
-                  activeDot={{ r: 8 }}
-                />
-              </LineChart>
-            </ResponsiveContainer>
-            <p className="text-xs text-muted-foreground mt-2 flex items-center gap-2">
-              <Heart className="w-3 h-3" />
-              Normal Heart Rate: 60-100 bpm
-            </p>
-          </TabsContent>
-
-          <TabsContent value="temp" className="h-80">
-            <ResponsiveContainer width="100%" height="100%">
-              <LineChart data={chartData}>
-                <CartesianGrid strokeDasharray="3 3" className="stroke-border" />
-                <XAxis dataKey="date" tick={{ fontSize: 10 }} />
-                <YAxis domain={[35, 40]} tick={{ fontSize: 10 }} />
-                <Tooltip content={<CustomTooltip />} />
-                <Line
-                  type="monotone"
-                  dataKey="temperature"
-                  name="Temperature (°C)"
-                  stroke="hsl(var(--chart-4))"
-                  strokeWidth={3}
-                  dot={{ r: 5, fill: 'hsl(var(--chart-4))' }}
-                  activeDot={{ r: 8 }}
-                />
-                <Line
-                  type="monotone"
-                  dataKey={() => 38}
-                  stroke="hsl(var(--risk-high))"
-                  strokeDasharray="5 5"
-                  strokeWidth={1}
-                  name="Fever Threshold"
-                  dot={false}
-                />
-              </LineChart>
-            </ResponsiveContainer>
-            <p className="text-xs text-muted-foreground mt-2 flex items-center gap-2">
-              <Thermometer className="w-3 h-3" />
-              Normal Temperature: 36.1-37.2°C | Dashed line indicates fever threshold (38°C)
-            </p>
-          </TabsContent>
-
-          <TabsContent value="resp" className="h-80">
-            <ResponsiveContainer width="100%" height="100%">
-              <LineChart data={chartData}>
-                <CartesianGrid strokeDasharray="3 3" className="stroke-border" />
-                <XAxis dataKey="date" tick={{ fontSize: 10 }} />
-                <YAxis domain={[8, 30]} tick={{ fontSize: 10 }} />
-                <Tooltip content={<CustomTooltip />} />
-                <Line
-                  type="monotone"
-                  dataKey="respiratoryRate"
-                  name="Respiratory Rate (/min)"
-                  stroke="hsl(var(--secondary))"
-                  strokeWidth={3}
-                  dot={{ r: 5, fill: 'hsl(var(--secondary))' }}
-                  activeDot={{ r: 8 }}
-                />
-                <Line
-                  type="monotone"
-                  dataKey={() => 20}
-                  stroke="hsl(var(--risk-medium))"
-                  strokeDasharray="5 5"
-                  strokeWidth={1}
-                  name="High Threshold"
-                  dot={false}
-                />
-              </LineChart>
-            </ResponsiveContainer>
-            <p className="text-xs text-muted-foreground mt-2 flex items-center gap-2">
-              <Wind className="w-3 h-3" />
-              Normal Respiratory Rate: 12-20 /min
-            </p>
-          </TabsContent>
+          <div ref={chartRef}>
+            <TabsContent value="overview" className="h-80 mt-0">
+              <ToggleGroup
+                type="multiple"
+                size="sm"
+                variant="outline"
+                value={overviewSeries}
+                onValueChange={(value) => setOverviewSeries(value as OverviewSeries[])}
+                className="justify-start mb-2"
+              >
+                {OVERVIEW_SERIES.map((s) => (
+                  <ToggleGroupItem key={s.value} value={s.value} className="text-xs h-7">
+                    {s.label}
+                  </ToggleGroupItem>
+                ))}
+              </ToggleGroup>
+              {emptyWindow || (
+                <ResponsiveContainer width="100%" height="88%">
+                  <ComposedChart data={chartData}>
+                    <CartesianGrid strokeDasharray="3 3" className="stroke-border" />
+                    <XAxis {...timeAxis} className="text-xs fill-muted-foreground" />
+                    <YAxis yAxisId="left" className="text-xs fill-muted-foreground" />
+                    {showSeries('temperature') && (
+                      <YAxis yAxisId="temp" orientation="right" domain={[35, 41]} tick={{ fontSize: 10 }} />
+                    )}
+                    <Tooltip content={<CustomTooltip />} />
+                    <Legend />
+                    {showSeries('spO2') && (
+                      <Line
+                        yAxisId="left"
+                        type="monotone"
+                        dataKey="spO2"
+                        name="SpO₂ (%)"
+                        stroke="hsl(var(--primary))"
+                        strokeWidth={2}
+                        dot={{ r: 4 }}
+                        activeDot={{ r: 6 }}
+                        connectNulls
+                      />
+                    )}
+                    {showSeries('heartRate') && (
+                      <Line
+                        yAxisId="left"
+                        type="monotone"
+                        dataKey="heartRate"
+                        name="Heart Rate (bpm)"
+                        stroke="hsl(var(--chart-5))"
+                        strokeWidth={2}
+                        dot={{ r: 4 }}
+                        activeDot={{ r: 6 }}
+                        connectNulls
+                      />
+                    )}
+                    {showSeries('respiratoryRate') && (
+                      <Line
+                        yAxisId="left"
+                        type="monotone"
+                        dataKey="respiratoryRate"
+                        name="Respiratory Rate (/min)"
+                        stroke="hsl(var(--secondary))"
+                        strokeWidth={2}
+                        dot={{ r: 4 }}
+                        activeDot={{ r: 6 }}
+                        connectNulls
+                      />
+                    )}
+                    {showSeries('bloodPressure') && (
+                      <Line
+                        yAxisId="left"
+                        type="monotone"
+                        dataKey="systolic"
+                        name="Systolic (mmHg)"
+                        stroke="hsl(var(--chart-1))"
+                        strokeWidth={2}
+                        dot={{ r: 4 }}
+                        activeDot={{ r: 6 }}
+                        connectNulls
+                      />
+                    )}
+                    {showSeries('bloodPressure') && (
+                      <Line
+                        yAxisId="left"
+                        type="monotone"
+                        dataKey="diastolic"
+                        name="Diastolic (mmHg)"
+                        stroke="hsl(var(--chart-1))"
+                        strokeDasharray="4 2"
+                        strokeWidth={2}
+                        dot={{ r: 3 }}
+                        activeDot={{ r: 5 }}
+                        connectNulls
+                      />
+                    )}
+                    {showSeries('temperature') && (
+                      <Line
+                        yAxisId="temp"
+                        type="monotone"
+                        dataKey="temperature"
+                        name="Temperature (°C)"
+                        stroke="hsl(var(--chart-4))"
+                        strokeWidth={2}
+                        dot={{ r: 4 }}
+                        activeDot={{ r: 6 }}
+                        connectNulls
+                      />
+                    )}
+                  </ComposedChart>
+                </ResponsiveContainer>
+              )}
+            </TabsContent>
+
+            <TabsContent value="spo2" className="h-80 mt-0">
+              {emptyWindow || (
+                <ResponsiveContainer width="100%" height="100%">
+                  <ComposedChart data={chartData}>
+                    <CartesianGrid strokeDasharray="3 3" className="stroke-border" />
+                    <XAxis {...timeAxis} />
+                    <YAxis domain={[80, 100]} tick={{ fontSize: 10 }} />
+                    <Tooltip content={<CustomTooltip />} />
+                    <ReferenceArea
+                      y1={ranges.spo2.min}
+                      y2={ranges.spo2.max}
+                      fill="hsl(var(--risk-low))"
+                      fillOpacity={0.08}
+                    />
+                    <ReferenceLine
+                      y={ranges.spo2.min}
+                      stroke="hsl(var(--risk-medium))"
+                      strokeDasharray="5 5"
+                      label={{ value: 'Low', position: 'insideLeft', fontSize: 10 }}
+                    />
+                    <ReferenceLine
+                      y={ranges.spo2.criticalMin}
+                      stroke="hsl(var(--risk-high))"
+                      strokeDasharray="5 5"
+                      label={{ value: 'Critical', position: 'insideLeft', fontSize: 10 }}
+                    />
+                    <Line
+                      type="monotone"
+                      dataKey="spO2Baseline"
+                      name={`${TREND_WINDOW_HOURS}h Baseline`}
+                      stroke="hsl(var(--muted-foreground))"
+                      strokeDasharray="3 3"
+                      strokeWidth={1}
+                      dot={false}
+                      connectNulls
+                    />
+                    <Line
+                      type="monotone"
+                      dataKey="spO2"
+                      name="SpO₂ (%)"
+                      stroke="hsl(var(--primary))"
+                      strokeWidth={3}
+                      dot={{ r: 5, fill: 'hsl(var(--primary))' }}
+                      activeDot={{ r: 8 }}
+                      connectNulls
+                    />
+                  </ComposedChart>
+                </ResponsiveContainer>
+              )}
+              <p className="text-xs text-muted-foreground mt-2 flex items-center gap-2">
+                <Activity className="w-3 h-3" />
+                {band.label} SpO₂: {formatVitalRange('spo2', band)} (shaded) | Critical below {ranges.spo2.criticalMin}% | Grey line is the {TREND_WINDOW_HOURS}h baseline
+              </p>
+            </TabsContent>
+
+            <TabsContent value="heart" className="h-80 mt-0">
+              {emptyWindow || (
+                <ResponsiveContainer width="100%" height="100%">
+                  <ComposedChart data={chartData}>
+                    <CartesianGrid strokeDasharray="3 3" className="stroke-border" />
+                    <XAxis {...timeAxis} />
+                    <YAxis domain={[Math.min(40, ranges.heartRate.min - 20), Math.max(140, ranges.heartRate.max + 20)]} tick={{ fontSize: 10 }} />
+                    <Tooltip content={<CustomTooltip />} />
+                    <ReferenceArea
+                      y1={ranges.heartRate.min}
+                      y2={ranges.heartRate.max}
+                      fill="hsl(var(--risk-low))"
+                      fillOpacity={0.08}
+                    />
+                    <ReferenceLine
+                      y={ranges.heartRate.max}
+                      stroke="hsl(var(--risk-medium))"
+                      strokeDasharray="5 5"
+                      label={{ value: 'High', position: 'insideLeft', fontSize: 10 }}
+                    />
+                    <ReferenceLine
+                      y={ranges.heartRate.min}
+                      stroke="hsl(var(--risk-medium))"
+                      strokeDasharray="5 5"
+                      label={{ value: 'Low', position: 'insideLeft', fontSize: 10 }}
+                    />
+                    <ReferenceLine
+                      y={ranges.heartRate.criticalMax}
+                      stroke="hsl(var(--risk-high))"
+                      strokeDasharray="5 5"
+                      label={{ value: 'Critical', position: 'insideLeft', fontSize: 10 }}
+                    />
+                    <Line
+                      type="monotone"
+                      dataKey="heartRateBaseline"
+                      name={`${TREND_WINDOW_HOURS}h Baseline`}
+                      stroke="hsl(var(--muted-foreground))"
+                      strokeDasharray="3 3"
+                      strokeWidth={1}
+                      dot={false}
+                      connectNulls
+                    />
+                    <Line
+                      type="monotone"
+                      dataKey="heartRate"
+                      name="Heart Rate (bpm)"
+                      stroke="hsl(var(--chart-5))"
+                      strokeWidth={3}
+                      dot={{ r: 5, fill: 'hsl(var(--chart-5))' }}
+                      activeDot={{ r: 8 }}
+                      connectNulls
+                    />
+                  </ComposedChart>
+                </ResponsiveContainer>
+              )}
+              <p className="text-xs text-muted-foreground mt-2 flex items-center gap-2">
+                <Heart className="w-3 h-3" />
+                {band.label} Heart Rate: {formatVitalRange('heartRate', band)} (shaded) | Critical above {ranges.heartRate.criticalMax} bpm | Grey line is the {TREND_WINDOW_HOURS}h baseline
+              </p>
+            </TabsContent>
+
+            {hasBloodPressure && (
+              <TabsContent value="bp" className="h-80 mt-0">
+                {emptyWindow || (
+                  <ResponsiveContainer width="100%" height="100%">
+                    <ComposedChart data={chartData}>
+                      <CartesianGrid strokeDasharray="3 3" className="stroke-border" />
+                      <XAxis {...timeAxis} />
+                      <YAxis
+                        domain={[Math.min(40, ranges.diastolic.min - 20), Math.max(180, ranges.systolic.max + 30)]}
+                        tick={{ fontSize: 10 }}
+                      />
+                      <Tooltip content={<CustomTooltip />} />
+                      <Legend />
+                      <ReferenceLine
+                        y={ranges.systolic.max}
+                        stroke="hsl(var(--risk-medium))"
+                        strokeDasharray="5 5"
+                        label={{ value: 'SBP high', position: 'insideLeft', fontSize: 10 }}
+                      />
+                      <ReferenceLine
+                        y={ranges.systolic.min}
+                        stroke="hsl(var(--risk-medium))"
+                        strokeDasharray="5 5"
+                        label={{ value: 'SBP low', position: 'insideLeft', fontSize: 10 }}
+                      />
+                      <ReferenceLine
+                        y={ranges.diastolic.max}
+                        stroke="hsl(var(--muted-foreground))"
+                        strokeDasharray="5 5"
+                        label={{ value: 'DBP high', position: 'insideLeft', fontSize: 10 }}
+                      />
+                      {band.minAge >= 18 && (
+                        <ReferenceLine
+                          y={MAP_MIN}
+                          stroke="hsl(var(--risk-high))"
+                          strokeDasharray="5 5"
+                          label={{ value: `MAP ${MAP_MIN}`, position: 'insideLeft', fontSize: 10 }}
+                        />
+                      )}
+                      <Bar
+                        dataKey="bpRange"
+                        name="BP (sys/dia)"
+                        fill="hsl(var(--chart-1))"
+                        fillOpacity={0.6}
+                        barSize={8}
+                        radius={4}
+                      />
+                      <Line
+                        type="monotone"
+                        dataKey="map"
+                        name="MAP (mmHg)"
+                        stroke="hsl(var(--chart-4))"
+                        strokeWidth={2}
+                        dot={{ r: 4, fill: 'hsl(var(--chart-4))' }}
+                        activeDot={{ r: 6 }}
+                        connectNulls
+                      />
+                    </ComposedChart>
+                  </ResponsiveContainer>
+                )}
+                <p className="text-xs text-muted-foreground mt-2 flex items-center gap-2">
+                  <Heart className="w-3 h-3" />
+                  Bars span diastolic to systolic | {band.label} systolic: {formatVitalRange('systolic', band)}, diastolic: {formatVitalRange('diastolic', band)} | MAP = diastolic + pulse pressure / 3
+                </p>
+              </TabsContent>
+            )}
+
+            <TabsContent value="temp" className="h-80 mt-0">
+              {emptyWindow || (
+                <ResponsiveContainer width="100%" height="100%">
+                  <ComposedChart data={chartData}>
+                    <CartesianGrid strokeDasharray="3 3" className="stroke-border" />
+                    <XAxis {...timeAxis} />
+                    <YAxis domain={[35, 40]} tick={{ fontSize: 10 }} />
+                    <Tooltip content={<CustomTooltip />} />
+                    <ReferenceArea
+                      y1={ranges.temperature.min}
+                      y2={ranges.temperature.max}
+                      fill="hsl(var(--risk-low))"
+                      fillOpacity={0.08}
+                    />
+                    <ReferenceLine
+                      y={ranges.temperature.max}
+                      stroke="hsl(var(--risk-high))"
+                      strokeDasharray="5 5"
+                      label={{ value: 'Fever', position: 'insideLeft', fontSize: 10 }}
+                    />
+                    <Line
+                      type="monotone"
+                      dataKey="temperatureBaseline"
+                      name={`${TREND_WINDOW_HOURS}h Baseline`}
+                      stroke="hsl(var(--muted-foreground))"
+                      strokeDasharray="3 3"
+                      strokeWidth={1}
+                      dot={false}
+                      connectNulls
+                    />
+                    <Line
+                      type="monotone"
+                      dataKey="temperature"
+                      name="Temperature (°C)"
+                      stroke="hsl(var(--chart-4))"
+                      strokeWidth={3}
+                      dot={{ r: 5, fill: 'hsl(var(--chart-4))' }}
+                      activeDot={{ r: 8 }}
+                      connectNulls
+                    />
+                  </ComposedChart>
+                </ResponsiveContainer>
+              )}
+              <p className="text-xs text-muted-foreground mt-2 flex items-center gap-2">
+                <Thermometer className="w-3 h-3" />
+                {band.label} Temperature: {formatVitalRange('temperature', band)} (shaded) | Fever above {ranges.temperature.max}°C | Grey line is the {TREND_WINDOW_HOURS}h baseline
+              </p>
+            </TabsContent>
+
+            <TabsContent value="resp" className="h-80 mt-0">
+              {emptyWindow || (
+                <ResponsiveContainer width="100%" height="100%">
+                  <ComposedChart data={chartData}>
+                    <CartesianGrid strokeDasharray="3 3" className="stroke-border" />
+                    <XAxis {...timeAxis} />
+                    <YAxis domain={[Math.min(8, ranges.respiratoryRate.min - 5), Math.max(30, ranges.respiratoryRate.max + 10)]} tick={{ fontSize: 10 }} />
+                    <Tooltip content={<CustomTooltip />} />
+                    <ReferenceArea
+                      y1={ranges.respiratoryRate.min}
+                      y2={ranges.respiratoryRate.max}
+                      fill="hsl(var(--risk-low))"
+                      fillOpacity={0.08}
+                    />
+                    <ReferenceLine
+                      y={ranges.respiratoryRate.max}
+                      stroke="hsl(var(--risk-medium))"
+                      strokeDasharray="5 5"
+                      label={{ value: 'High', position: 'insideLeft', fontSize: 10 }}
+                    />
+                    <Line
+                      type="monotone"
+                      dataKey="respiratoryRateBaseline"
+                      name={`${TREND_WINDOW_HOURS}h Baseline`}
+                      stroke="hsl(var(--muted-foreground))"
+                      strokeDasharray="3 3"
+                      strokeWidth={1}
+                      dot={false}
+                      connectNulls
+                    />
+                    <Line
+                      type="monotone"
+                      dataKey="respiratoryRate"
+                      name="Respiratory Rate (/min)"
+                      stroke="hsl(var(--secondary))"
+                      strokeWidth={3}
+                      dot={{ r: 5, fill: 'hsl(var(--secondary))' }}
+                      activeDot={{ r: 8 }}
+                      connectNulls
+                    />
+                  </ComposedChart>
+                </ResponsiveContainer>
+              )}
+              <p className="text-xs text-muted-foreground mt-2 flex items-center gap-2">
+                <Wind className="w-3 h-3" />
+                {band.label} Respiratory Rate: {formatVitalRange('respiratoryRate', band)} (shaded) | Grey line is the {TREND_WINDOW_HOURS}h baseline
+              </p>
+            </TabsContent>
+
+            {hasShockIndex && (
+              <TabsContent value="shock" className="h-80 mt-0">
+                {emptyWindow || (
+                  <ResponsiveContainer width="100%" height="100%">
+                    <ComposedChart data={chartData}>
+                      <CartesianGrid strokeDasharray="3 3" className="stroke-border" />
+                      <XAxis {...timeAxis} />
+                      <YAxis domain={[0, 'dataMax + 0.3']} tick={{ fontSize: 10 }} />
+                      <Tooltip content={<CustomTooltip />} />
+                      {band.shockIndexMax !== null && (
+                        <ReferenceArea
+                          y1={0}
+                          y2={band.shockIndexMax}
+                          fill="hsl(var(--risk-low))"
+                          fillOpacity={0.08}
+                        />
+                      )}
+                      {band.shockIndexMax !== null && (
+                        <ReferenceLine
+                          y={band.shockIndexMax}
+                          stroke="hsl(var(--risk-high))"
+                          strokeDasharray="5 5"
+                          label={{ value: 'Shock', position: 'insideLeft', fontSize: 10 }}
+                        />
+                      )}
+                      <Line
+                        type="monotone"
+                        dataKey="shockIndexBaseline"
+                        name={`${TREND_WINDOW_HOURS}h Baseline`}
+                        stroke="hsl(var(--muted-foreground))"
+                        strokeDasharray="3 3"
+                        strokeWidth={1}
+                        dot={false}
+                        connectNulls
+                      />
+                      <Line
+                        type="monotone"
+                        dataKey="shockIndex"
+                        name="Shock Index"
+                        stroke="hsl(var(--chart-1))"
+                        strokeWidth={3}
+                        dot={{ r: 5, fill: 'hsl(var(--chart-1))' }}
+                        activeDot={{ r: 8 }}
+                        connectNulls
+                      />
+                    </ComposedChart>
+                  </ResponsiveContainer>
+                )}
+                <p className="text-xs text-muted-foreground mt-2 flex items-center gap-2">
+                  <Gauge className="w-3 h-3" />
+                  Shock index = heart rate / systolic BP |{' '}
+                  {band.shockIndexMax !== null
+                    ? `${band.label} cut-off: ${band.shockIndexMax}`
+                    : `No validated cut-off for ${band.label.toLowerCase()}s`}
+                </p>
+              </TabsContent>
+            )}
+
+            {hasNews2 && (
+              <TabsContent value="news2" className="h-80 mt-0">
+                {emptyWindow || (
+                  <ResponsiveContainer width="100%" height="100%">
+                    <ComposedChart data={chartData}>
+                      <CartesianGrid strokeDasharray="3 3" className="stroke-border" />
+                      <XAxis {...timeAxis} />
+                      <YAxis domain={[0, 'dataMax + 2']} allowDecimals={false} tick={{ fontSize: 10 }} />
+                      <Tooltip content={<CustomTooltip />} />
+                      <ReferenceArea y1={0} y2={4} fill="hsl(var(--risk-low))" fillOpacity={0.08} />
+                      <ReferenceLine
+                        y={5}
+                        stroke="hsl(var(--risk-medium))"
+                        strokeDasharray="5 5"
+                        label={{ value: 'Urgent', position: 'insideLeft', fontSize: 10 }}
+                      />
+                      <ReferenceLine
+                        y={7}
+                        stroke="hsl(var(--risk-high))"
+                        strokeDasharray="5 5"
+                        label={{ value: 'Emergency', position: 'insideLeft', fontSize: 10 }}
+                      />
+                      <Line
+                        type="stepAfter"
+                        dataKey="news2"
+                        name="NEWS2"
+                        stroke="hsl(var(--primary))"
+                        strokeWidth={3}
+                        dot={{ r: 5, fill: 'hsl(var(--primary))' }}
+                        activeDot={{ r: 8 }}
+                        connectNulls
+                      />
+                    </ComposedChart>
+                  </ResponsiveContainer>
+                )}
+                <p className="text-xs text-muted-foreground mt-2 flex items-center gap-2">
+                  <Siren className="w-3 h-3" />
+                  NEWS2 0-4: low | 5-6: medium, urgent review | 7+: high, emergency assessment
+                </p>
+              </TabsContent>
+            )}
+
+            {hasNeuro && (
+              <TabsContent value="neuro" className="h-80 mt-0">
+                {emptyWindow || (
+                  <ResponsiveContainer width="100%" height="100%">
+                    <ComposedChart data={chartData}>
+                      <CartesianGrid strokeDasharray="3 3" className="stroke-border" />
+                      <XAxis {...timeAxis} />
+                      <YAxis yAxisId="gcs" domain={[3, 15]} ticks={[3, 8, 13, 15]} tick={{ fontSize: 10 }} />
+                      <YAxis yAxisId="pain" orientation="right" domain={[0, 10]} allowDecimals={false} tick={{ fontSize: 10 }} />
+                      <Tooltip content={<CustomTooltip />} />
+                      <Legend />
+                      <ReferenceLine
+                        yAxisId="gcs"
+                        y={8}
+                        stroke="hsl(var(--risk-high))"
+                        strokeDasharray="5 5"
+                        label={{ value: 'GCS 8', position: 'insideLeft', fontSize: 10 }}
+                      />
+                      <ReferenceLine
+                        yAxisId="pain"
+                        y={7}
+                        stroke="hsl(var(--risk-medium))"
+                        strokeDasharray="5 5"
+                        label={{ value: 'Severe pain', position: 'insideRight', fontSize: 10 }}
+                      />
+                      <Line
+                        yAxisId="gcs"
+                        type="stepAfter"
+                        dataKey="gcs"
+                        name="GCS"
+                        stroke="hsl(var(--primary))"
+                        strokeWidth={3}
+                        dot={{ r: 5, fill: 'hsl(var(--primary))' }}
+                        activeDot={{ r: 8 }}
+                        connectNulls
+                      />
+                      <Line
+                        yAxisId="pain"
+                        type="monotone"
+                        dataKey="pain"
+                        name="Pain"
+                        stroke="hsl(var(--risk-medium))"
+                        strokeWidth={2}
+                        dot={{ r: 4, fill: 'hsl(var(--risk-medium))' }}
+                        connectNulls
+                      />
+                    </ComposedChart>
+                  </ResponsiveContainer>
+                )}
+                <p className="text-xs text-muted-foreground mt-2 flex items-center gap-2">
+                  <Brain className="w-3 h-3" />
+                  GCS 15: normal | 13-14: mild | 9-12: moderate | 8 or below: severe. Pain 7+ is severe
+                </p>
+              </TabsContent>
+            )}
+          </div>
         </Tabs>
       </CardContent>
     </Card>
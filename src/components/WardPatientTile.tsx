@@ -0,0 +1,107 @@
+import { Link } from 'react-router-dom';
+import { cn } from '@/lib/utils';
+import { News2Badge } from '@/components/News2Badge';
+import { RiskBadge } from '@/components/RiskBadge';
+import { classifyVital, getAgeBand, isAbnormalFlag, type VitalParameter } from '@/lib/vitalRanges';
+import { formatElapsed, formatInterval, type ObservationStatus } from '@/lib/observationSchedule';
+import type { News2Result } from '@/lib/news2';
+import type { Tables } from '@/integrations/supabase/types';
+import type { RiskAssessment } from '@/types/medical';
+import { AlertTriangle, Clock, MonitorSmartphone } from 'lucide-react';
+
+interface WardPatientTileProps {
+  patient: Pick<Tables<'patients'>, 'id' | 'name' | 'age' | 'department' | 'bed'>;
+  vitals: Tables<'vitals'> | null;
+  news2: News2Result | null;
+  risk: RiskAssessment | null;
+  status: ObservationStatus;
+  // Flashes the tile when a new observation arrives
+  highlighted?: boolean;
+}
+
+const toValue = (value: number | null | undefined) => (value === null || value === undefined ? null : Number(value));
+
+export function WardPatientTile({ patient, vitals, news2, risk, status, highlighted = false }: WardPatientTileProps) {
+  const ageBand = getAgeBand(patient.age);
+
+  const readings: { parameter: VitalParameter; label: string; value: number | null; display?: string }[] = [
+    { parameter: 'spo2', label: 'SpO₂', value: toValue(vitals?.spo2) },
+    { parameter: 'heartRate', label: 'HR', value: toValue(vitals?.heart_rate) },
+    { parameter: 'respiratoryRate', label: 'RR', value: toValue(vitals?.respiratory_rate) },
+    { parameter: 'temperature', label: 'Temp', value: toValue(vitals?.temperature) },
+    {
+      parameter: 'systolic',
+      label: 'BP',
+      value: toValue(vitals?.blood_pressure_systolic),
+      display:
+        vitals?.blood_pressure_systolic != null
+          ? `${vitals.blood_pressure_systolic}/${vitals.blood_pressure_diastolic ?? '–'}`
+          : undefined,
+    },
+  ];
+
+  const borderClass =
+    news2?.risk === 'high'
+      ? 'border-risk-high/60'
+      : news2?.risk === 'medium' || news2?.risk === 'low-medium'
+      ? 'border-risk-medium/60'
+      : 'border-border';
+
+  return (
+    <Link
+      to={`/patients/${patient.id}`}
+      className={cn(
+        'block bg-card rounded-xl border p-4 shadow-soft transition-all hover:shadow-md',
+        borderClass,
+        highlighted && 'ring-2 ring-primary ring-offset-2 ring-offset-background'
+      )}
+    >
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0">
+          <p className="font-medium text-foreground truncate">{patient.name}</p>
+          <p className="text-xs text-muted-foreground truncate">
+            {patient.age}y · {patient.department || 'Unassigned'}
+            {patient.bed && ` · Bed ${patient.bed}`}
+          </p>
+        </div>
+        {news2 && <News2Badge score={news2.total} risk={news2.risk} applicable={news2.applicable} size="sm" />}
+      </div>
+
+      <div className="grid grid-cols-5 gap-1 mt-3">
+        {readings.map((reading) => {
+          const flag = classifyVital(reading.parameter, reading.value, ageBand);
+          const isCritical = flag === 'critical_low' || flag === 'critical_high';
+          return (
+            <div key={reading.parameter} className="text-center rounded-md bg-muted/50 py-1.5">
+              <p className="text-[10px] uppercase text-muted-foreground">{reading.label}</p>
+              <p
+                className={cn(
+                  'text-sm font-semibold',
+                  isCritical ? 'text-risk-high' : isAbnormalFlag(flag) ? 'text-risk-medium' : 'text-foreground'
+                )}
+              >
+                {reading.value === null ? '–' : reading.display ?? reading.value}
+              </p>
+            </div>
+          );
+        })}
+      </div>
+
+      <div className="flex items-center justify-between gap-2 mt-3 text-xs">
+        <span
+          className={cn('flex items-center gap-1', status.overdue ? 'text-risk-high font-medium' : 'text-muted-foreground')}
+          title={`Observations due ${formatInterval(status.intervalMinutes)}`}
+        >
+          {status.overdue ? <AlertTriangle className="w-3 h-3" /> : <Clock className="w-3 h-3" />}
+          {status.minutesSince === null
+            ? 'No observations recorded'
+            : status.overdue
+            ? `Overdue by ${formatElapsed(status.overdueMinutes)}`
+            : `${formatElapsed(status.minutesSince)} ago`}
+          {vitals?.device_id && <MonitorSmartphone className="w-3 h-3" />}
+        </span>
+        {risk && <RiskBadge level={risk.overallRisk} size="sm" showIcon={false} />}
+      </div>
+    </Link>
+  );
+}
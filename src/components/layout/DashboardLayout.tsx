@@ -23,6 +23,8 @@ import {
   UserCog,
   Pill,
   Shield,
+  MonitorSmartphone,
+  LayoutGrid,
 } from 'lucide-react';
 
 interface DashboardLayoutProps {
@@ -53,11 +55,13 @@ export function DashboardLayout({ children }: DashboardLayoutProps) {
     { name: 'Patients', href: '/patients', icon: Users, roles: ['doctor', 'nurse'] },
     { name: 'Scan Analysis', href: '/analysis', icon: Scan, roles: ['doctor', 'nurse'] },
     { name: 'Vitals Monitor', href: '/vitals', icon: Activity, roles: ['doctor', 'nurse'] },
+    { name: 'Ward Board', href: '/ward', icon: LayoutGrid, roles: ['doctor', 'nurse'] },
     { name: 'Lab Results', href: '/lab-results', icon: TestTube, roles: ['doctor', 'nurse'] },
     { name: 'Prescriptions', href: '/prescriptions', icon: Pill, roles: ['doctor'] },
     { name: 'Insurance', href: '/insurance', icon: Shield, roles: ['doctor', 'nurse'] },
     { name: 'Appointments', href: '/appointments', icon: Calendar, roles: ['doctor', 'nurse'] },
     { name: 'Records', href: '/records', icon: FileText, roles: ['doctor', 'nurse'] },
+    { name: 'Devices', href: '/devices', icon: MonitorSmartphone, roles: ['doctor', 'nurse'] },
   ];
 
   // Filter navigation based on user role
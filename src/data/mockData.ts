@@ -1,4 +1,5 @@
 import { Patient, Vitals, XRayAnalysis, MedicalRecord, RiskAssessment } from '@/types/medical';
+import { assessRisk } from '@/lib/riskEngine';
 
 export const mockPatients: Patient[] = [
   {
@@ -167,82 +168,20 @@ export function calculateRiskAssessment(
   vitals: Vitals | undefined,
   xrayAnalysis: XRayAnalysis | undefined
 ): RiskAssessment {
-  let imageRiskScore = 0;
-  let vitalsRiskScore = 0;
-  const factors: string[] = [];
-
-  // Calculate image risk score
-  if (xrayAnalysis) {
-    imageRiskScore = (xrayAnalysis.pneumoniaProbability + xrayAnalysis.lungAbnormalityScore) / 2;
-    if (xrayAnalysis.pneumoniaProbability > 0.7) {
-      factors.push('High pneumonia probability detected');
-    }
-    if (xrayAnalysis.lungAbnormalityScore > 0.6) {
-      factors.push('Significant lung abnormality observed');
-    }
-  }
-
-  // Calculate vitals risk score
-  if (vitals) {
-    let vitalFactors = 0;
-    
-    if (vitals.spO2 < 94) {
-      vitalFactors += 0.3;
-      factors.push('Low oxygen saturation (SpO2 < 94%)');
-    }
-    if (vitals.temperature > 38) {
-      vitalFactors += 0.2;
-      factors.push('Elevated temperature (fever)');
-    }
-    if (vitals.heartRate > 100 || vitals.heartRate < 60) {
-      vitalFactors += 0.15;
-      factors.push('Abnormal heart rate');
-    }
-    if (vitals.respiratoryRate > 20) {
-      vitalFactors += 0.2;
-      factors.push('Elevated respiratory rate');
-    }
-    if (vitals.smokingHistory) {
-      vitalFactors += 0.15;
-      factors.push('Smoking history increases risk');
-    }
-    
-    vitalsRiskScore = Math.min(vitalFactors, 1);
-  }
-
-  // Fuse scores
-  const fusedScore = xrayAnalysis && vitals
-    ? imageRiskScore * 0.6 + vitalsRiskScore * 0.4
-    : xrayAnalysis
-    ? imageRiskScore
-    : vitalsRiskScore;
-
-  // Determine risk level
-  let overallRisk: 'low' | 'medium' | 'high';
-  if (fusedScore >= 0.7) {
-    overallRisk = 'high';
-  } else if (fusedScore >= 0.4) {
-    overallRisk = 'medium';
-  } else {
-    overallRisk = 'low';
-  }
-
-  // Generate explanation
-  let explanation = '';
-  if (overallRisk === 'high') {
-    explanation = `High risk due to ${factors.slice(0, 2).join(' and ').toLowerCase()}. Immediate clinical attention recommended.`;
-  } else if (overallRisk === 'medium') {
-    explanation = `Moderate risk detected. ${factors[0] || 'Some indicators require monitoring'}. Follow-up assessment advised.`;
-  } else {
-    explanation = 'Low risk profile. Continue standard monitoring protocols.';
-  }
-
-  return {
-    overallRisk,
-    imageRiskScore: Math.round(imageRiskScore * 100),
-    vitalsRiskScore: Math.round(vitalsRiskScore * 100),
-    fusedScore: Math.round(fusedScore * 100),
-    explanation,
-    factors,
-  };
+  return assessRisk({
+    smokingHistory: vitals?.smokingHistory,
+    vitals: vitals
+      ? {
+          spo2: vitals.spO2,
+          temperature: vitals.temperature,
+          heartRate: vitals.heartRate,
+          respiratoryRate: vitals.respiratoryRate,
+          bloodPressureSystolic: vitals.bloodPressureSystolic,
+          bloodPressureDiastolic: vitals.bloodPressureDiastolic,
+        }
+      : null,
+    scan: xrayAnalysis
+      ? { diagnosisProbability: xrayAnalysis.pneumoniaProbability, abnormalityScore: xrayAnalysis.lungAbnormalityScore }
+      : null,
+  });
 }
@@ -0,0 +1,83 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+import type { AnnotationGeometry } from '@/lib/annotationGeometry';
+
+export type AnnotationSnapshot = Database['public']['Tables']['scan_annotations']['Insert'] & { id: string };
+
+export type AnnotationOperation =
+  | { kind: 'create'; annotation: AnnotationSnapshot }
+  | { kind: 'delete'; annotation: AnnotationSnapshot }
+  | { kind: 'update'; id: string; before: AnnotationGeometry; after: AnnotationGeometry };
+
+// Each step is replayed against the database, so collaborators see undo/redo through realtime
+async function apply(operation: AnnotationOperation, direction: 'undo' | 'redo') {
+  const recreate = (operation.kind === 'create') === (direction === 'redo');
+
+  if (operation.kind === 'update') {
+    const { error } = await supabase
+      .from('scan_annotations')
+      .update(direction === 'undo' ? operation.before : operation.after)
+      .eq('id', operation.id);
+    return error;
+  }
+  if (recreate) {
+    const { error } = await supabase.from('scan_annotations').insert(operation.annotation);
+    return error;
+  }
+  const { error } = await supabase.from('scan_annotations').delete().eq('id', operation.annotation.id);
+  return error;
+}
+
+/**
+ * Undo/redo stack for the current user's own annotation changes on one scan.
+ * History is local to the session and cleared when the scan changes.
+ */
+export const useAnnotationHistory = (scanId: string) => {
+  const [past, setPast] = useState<AnnotationOperation[]>([]);
+  const [future, setFuture] = useState<AnnotationOperation[]>([]);
+
+  useEffect(() => {
+    setPast([]);
+    setFuture([]);
+  }, [scanId]);
+
+  const record = useCallback((operation: AnnotationOperation) => {
+    setPast(prev => [...prev, operation]);
+    setFuture([]);
+  }, []);
+
+  const undo = useCallback(async () => {
+    const operation = past[past.length - 1];
+    if (!operation) return true;
+    const error = await apply(operation, 'undo');
+    if (error) {
+      console.error('Error undoing annotation change:', error);
+      return false;
+    }
+    setPast(prev => prev.slice(0, -1));
+    setFuture(prev => [...prev, operation]);
+    return true;
+  }, [past]);
+
+  const redo = useCallback(async () => {
+    const operation = future[future.length - 1];
+    if (!operation) return true;
+    const error = await apply(operation, 'redo');
+    if (error) {
+      console.error('Error redoing annotation change:', error);
+      return false;
+    }
+    setFuture(prev => prev.slice(0, -1));
+    setPast(prev => [...prev, operation]);
+    return true;
+  }, [future]);
+
+  return {
+    record,
+    undo,
+    redo,
+    canUndo: past.length > 0,
+    canRedo: future.length > 0,
+  };
+};
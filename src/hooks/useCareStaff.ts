@@ -0,0 +1,32 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Database } from '@/integrations/supabase/types';
+
+export type CareStaffMember = Database['public']['Functions']['list_care_staff']['Returns'][number];
+
+export const useCareStaff = () => {
+  const [staff, setStaff] = useState<CareStaffMember[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    supabase.rpc('list_care_staff').then(({ data, error }) => {
+      if (cancelled) return;
+      if (error) console.error('Error fetching care staff:', error);
+      setStaff(data || []);
+      setLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return {
+    staff,
+    nurses: staff.filter((s) => s.role === 'nurse'),
+    doctors: staff.filter((s) => s.role === 'doctor'),
+    loading,
+  };
+};
@@ -0,0 +1,13 @@
+import { useEffect, useState } from 'react';
+
+// The value once it has stopped changing for `delayMs`; for inputs that drive queries
+export const useDebouncedValue = <T>(value: T, delayMs = 300): T => {
+  const [debounced, setDebounced] = useState(value);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebounced(value), delayMs);
+    return () => clearTimeout(timeout);
+  }, [value, delayMs]);
+
+  return debounced;
+};
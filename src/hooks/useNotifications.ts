@@ -3,7 +3,7 @@ import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { useToast } from '@/hooks/use-toast';
 
-type NotificationType = 'high_risk_alert' | 'appointment_reminder' | 'test_result' | 'system';
+type NotificationType = 'high_risk_alert' | 'appointment_reminder' | 'test_result' | 'system' | 'observation_overdue' | 'critical_lab';
 
 interface Notification {
   id: string;
@@ -85,7 +85,7 @@ export const useNotifications = () => {
           toast({
             title: newNotification.title,
             description: newNotification.message,
-            variant: newNotification.type === 'high_risk_alert' ? 'destructive' : 'default',
+            variant: newNotification.type === 'high_risk_alert' || newNotification.type === 'critical_lab' ? 'destructive' : 'default',
           });
         }
       )
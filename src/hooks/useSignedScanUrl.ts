@@ -0,0 +1,29 @@
+import { useState, useEffect } from 'react';
+import { getSignedScanUrl } from '@/lib/scanStorage';
+
+export const useSignedScanUrl = (path: string | null | undefined) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    if (!path) {
+      setUrl(null);
+      return;
+    }
+
+    setLoading(true);
+    getSignedScanUrl(path).then((signedUrl) => {
+      if (cancelled) return;
+      setUrl(signedUrl);
+      setLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [path]);
+
+  return { url, loading };
+};
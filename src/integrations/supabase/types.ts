@@ -109,14 +109,297 @@ export type Database = {
           },
         ]
       }
+      devices: {
+        Row: {
+          active: boolean
+          api_key_hash: string
+          api_key_prefix: string
+          bed: string | null
+          created_at: string
+          created_by: string | null
+          device_type: string
+          id: string
+          last_seen_at: string | null
+          name: string
+          patient_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          active?: boolean
+          api_key_hash: string
+          api_key_prefix: string
+          bed?: string | null
+          created_at?: string
+          created_by?: string | null
+          device_type?: string
+          id?: string
+          last_seen_at?: string | null
+          name: string
+          patient_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          active?: boolean
+          api_key_hash?: string
+          api_key_prefix?: string
+          bed?: string | null
+          created_at?: string
+          created_by?: string | null
+          device_type?: string
+          id?: string
+          last_seen_at?: string | null
+          name?: string
+          patient_id?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "devices_patient_id_fkey"
+            columns: ["patient_id"]
+            isOneToOne: false
+            referencedRelation: "patients"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      fluid_entries: {
+        Row: {
+          category: string
+          created_at: string
+          direction: string | null
+          id: string
+          notes: string | null
+          patient_id: string
+          recorded_at: string
+          recorded_by: string | null
+          updated_at: string
+          volume_ml: number
+        }
+        Insert: {
+          category: string
+          created_at?: string
+          direction?: string | null
+          id?: string
+          notes?: string | null
+          patient_id: string
+          recorded_at?: string
+          recorded_by?: string | null
+          updated_at?: string
+          volume_ml: number
+        }
+        Update: {
+          category?: string
+          created_at?: string
+          direction?: string | null
+          id?: string
+          notes?: string | null
+          patient_id?: string
+          recorded_at?: string
+          recorded_by?: string | null
+          updated_at?: string
+          volume_ml?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fluid_entries_patient_id_fkey"
+            columns: ["patient_id"]
+            isOneToOne: false
+            referencedRelation: "patients"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      lab_critical_alerts: {
+        Row: {
+          acknowledged_at: string | null
+          acknowledged_by: string | null
+          comment: string | null
+          created_at: string
+          escalated_at: string | null
+          id: string
+          lab_result_id: string
+          notified_at: string
+          notified_user_id: string | null
+          patient_id: string
+          read_back_value: number | null
+        }
+        Insert: {
+          acknowledged_at?: string | null
+          acknowledged_by?: string | null
+          comment?: string | null
+          created_at?: string
+          escalated_at?: string | null
+          id?: string
+          lab_result_id: string
+          notified_at?: string
+          notified_user_id?: string | null
+          patient_id: string
+          read_back_value?: number | null
+        }
+        Update: {
+          acknowledged_at?: string | null
+          acknowledged_by?: string | null
+          comment?: string | null
+          created_at?: string
+          escalated_at?: string | null
+          id?: string
+          lab_result_id?: string
+          notified_at?: string
+          notified_user_id?: string | null
+          patient_id?: string
+          read_back_value?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lab_critical_alerts_lab_result_id_fkey"
+            columns: ["lab_result_id"]
+            isOneToOne: true
+            referencedRelation: "lab_results"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lab_critical_alerts_patient_id_fkey"
+            columns: ["patient_id"]
+            isOneToOne: false
+            referencedRelation: "patients"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      lab_orders: {
+        Row: {
+          accession_number: string
+          cancelled_at: string | null
+          collected_at: string | null
+          collected_by: string | null
+          created_at: string
+          id: string
+          notes: string | null
+          ordered_at: string
+          ordered_by: string | null
+          panel: string
+          patient_id: string
+          priority: string
+          received_at: string | null
+          resulted_at: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          accession_number?: string
+          cancelled_at?: string | null
+          collected_at?: string | null
+          collected_by?: string | null
+          created_at?: string
+          id?: string
+          notes?: string | null
+          ordered_at?: string
+          ordered_by?: string | null
+          panel: string
+          patient_id: string
+          priority?: string
+          received_at?: string | null
+          resulted_at?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Update: {
+          accession_number?: string
+          cancelled_at?: string | null
+          collected_at?: string | null
+          collected_by?: string | null
+          created_at?: string
+          id?: string
+          notes?: string | null
+          ordered_at?: string
+          ordered_by?: string | null
+          panel?: string
+          patient_id?: string
+          priority?: string
+          received_at?: string | null
+          resulted_at?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lab_orders_patient_id_fkey"
+            columns: ["patient_id"]
+            isOneToOne: false
+            referencedRelation: "patients"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      lab_reference_ranges: {
+        Row: {
+          created_at: string
+          critical_high: number | null
+          critical_low: number | null
+          id: string
+          max_age_years: number | null
+          max_normal: number | null
+          min_age_years: number
+          min_normal: number | null
+          sex: string
+          test_type_id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          critical_high?: number | null
+          critical_low?: number | null
+          id?: string
+          max_age_years?: number | null
+          max_normal?: number | null
+          min_age_years?: number
+          min_normal?: number | null
+          sex?: string
+          test_type_id: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          critical_high?: number | null
+          critical_low?: number | null
+          id?: string
+          max_age_years?: number | null
+          max_normal?: number | null
+          min_age_years?: number
+          min_normal?: number | null
+          sex?: string
+          test_type_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lab_reference_ranges_test_type_id_fkey"
+            columns: ["test_type_id"]
+            isOneToOne: false
+            referencedRelation: "lab_test_types"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       lab_results: {
         Row: {
+          calculation_inputs: Json | null
           collected_at: string
           created_at: string
+          delta_flag: boolean
+          external_id: string | null
           id: string
           notes: string | null
+          order_id: string | null
           ordered_by: string | null
           patient_id: string
+          previous_value: number | null
           resulted_at: string | null
           status: string
           test_type_id: string
@@ -124,12 +407,17 @@ export type Database = {
           value: number
         }
         Insert: {
+          calculation_inputs?: Json | null
           collected_at?: string
           created_at?: string
+          delta_flag?: boolean
+          external_id?: string | null
           id?: string
           notes?: string | null
+          order_id?: string | null
           ordered_by?: string | null
           patient_id: string
+          previous_value?: number | null
           resulted_at?: string | null
           status?: string
           test_type_id: string
@@ -137,12 +425,17 @@ export type Database = {
           value: number
         }
         Update: {
+          calculation_inputs?: Json | null
           collected_at?: string
           created_at?: string
+          delta_flag?: boolean
+          external_id?: string | null
           id?: string
           notes?: string | null
+          order_id?: string | null
           ordered_by?: string | null
           patient_id?: string
+          previous_value?: number | null
           resulted_at?: string | null
           status?: string
           test_type_id?: string
@@ -150,6 +443,13 @@ export type Database = {
           value?: number
         }
         Relationships: [
+          {
+            foreignKeyName: "lab_results_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "lab_orders"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "lab_results_patient_id_fkey"
             columns: ["patient_id"]
@@ -168,36 +468,48 @@ export type Database = {
       }
       lab_test_types: {
         Row: {
+          calculation: string | null
           category: string
           code: string
           critical_high: number | null
           critical_low: number | null
+          delta_absolute: number | null
+          delta_percent: number | null
           description: string | null
           id: string
+          loinc_codes: string[]
           max_normal: number | null
           min_normal: number | null
           name: string
           unit: string
         }
         Insert: {
+          calculation?: string | null
           category: string
           code: string
           critical_high?: number | null
           critical_low?: number | null
+          delta_absolute?: number | null
+          delta_percent?: number | null
           description?: string | null
           id?: string
+          loinc_codes?: string[]
           max_normal?: number | null
           min_normal?: number | null
           name: string
           unit: string
         }
         Update: {
+          calculation?: string | null
           category?: string
           code?: string
           critical_high?: number | null
           critical_low?: number | null
+          delta_absolute?: number | null
+          delta_percent?: number | null
           description?: string | null
           id?: string
+          loinc_codes?: string[]
           max_normal?: number | null
           min_normal?: number | null
           name?: string
@@ -257,16 +569,21 @@ export type Database = {
           abnormality_score: number | null
           ai_explanation: string | null
           ai_factors: string[] | null
+          analysis_status: string
           analyzed_by: string | null
           confidence_score: number | null
           created_at: string
           diagnosis_probability: number | null
+          differential_diagnoses: string[] | null
           heatmap_url: string | null
           id: string
           image_url: string | null
           inference_time: number | null
           notes: string | null
           patient_id: string
+          pixel_spacing: number[] | null
+          primary_diagnosis: string | null
+          recommendations: string[] | null
           risk_level: string | null
           scan_type: string
         }
@@ -274,16 +591,21 @@ export type Database = {
           abnormality_score?: number | null
           ai_explanation?: string | null
           ai_factors?: string[] | null
+          analysis_status?: string
           analyzed_by?: string | null
           confidence_score?: number | null
           created_at?: string
           diagnosis_probability?: number | null
+          differential_diagnoses?: string[] | null
           heatmap_url?: string | null
           id?: string
           image_url?: string | null
           inference_time?: number | null
           notes?: string | null
           patient_id: string
+          pixel_spacing?: number[] | null
+          primary_diagnosis?: string | null
+          recommendations?: string[] | null
           risk_level?: string | null
           scan_type?: string
         }
@@ -291,16 +613,21 @@ export type Database = {
           abnormality_score?: number | null
           ai_explanation?: string | null
           ai_factors?: string[] | null
+          analysis_status?: string
           analyzed_by?: string | null
           confidence_score?: number | null
           created_at?: string
           diagnosis_probability?: number | null
+          differential_diagnoses?: string[] | null
           heatmap_url?: string | null
           id?: string
           image_url?: string | null
           inference_time?: number | null
           notes?: string | null
           patient_id?: string
+          pixel_spacing?: number[] | null
+          primary_diagnosis?: string | null
+          recommendations?: string[] | null
           risk_level?: string | null
           scan_type?: string
         }
@@ -355,6 +682,56 @@ export type Database = {
           },
         ]
       }
+      observation_schedules: {
+        Row: {
+          assigned_nurse_id: string | null
+          created_at: string
+          created_by: string | null
+          escalated_at: string | null
+          escalation_grace_minutes: number
+          id: string
+          interval_minutes: number | null
+          patient_id: string
+          reminded_at: string | null
+          responsible_doctor_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          assigned_nurse_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          escalated_at?: string | null
+          escalation_grace_minutes?: number
+          id?: string
+          interval_minutes?: number | null
+          patient_id: string
+          reminded_at?: string | null
+          responsible_doctor_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          assigned_nurse_id?: string | null
+          created_at?: string
+          created_by?: string | null
+          escalated_at?: string | null
+          escalation_grace_minutes?: number
+          id?: string
+          interval_minutes?: number | null
+          patient_id?: string
+          reminded_at?: string | null
+          responsible_doctor_id?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "observation_schedules_patient_id_fkey"
+            columns: ["patient_id"]
+            isOneToOne: true
+            referencedRelation: "patients"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       patients: {
         Row: {
           address: string | null
@@ -362,11 +739,13 @@ export type Database = {
           allergies: string[] | null
           approval_status: string
           avatar_url: string | null
+          bed: string | null
           blood_group: string
           chronic_conditions: string[] | null
           created_at: string
           created_by: string | null
           date_of_birth: string | null
+          department: string | null
           email: string | null
           emergency_contact: string
           gender: Database["public"]["Enums"]["gender_type"]
@@ -375,6 +754,7 @@ export type Database = {
           patient_id: string | null
           phone: string | null
           updated_at: string
+          weight_kg: number | null
         }
         Insert: {
           address?: string | null
@@ -382,11 +762,13 @@ export type Database = {
           allergies?: string[] | null
           approval_status?: string
           avatar_url?: string | null
+          bed?: string | null
           blood_group: string
           chronic_conditions?: string[] | null
           created_at?: string
           created_by?: string | null
           date_of_birth?: string | null
+          department?: string | null
           email?: string | null
           emergency_contact: string
           gender: Database["public"]["Enums"]["gender_type"]
@@ -395,6 +777,7 @@ export type Database = {
           patient_id?: string | null
           phone?: string | null
           updated_at?: string
+          weight_kg?: number | null
         }
         Update: {
           address?: string | null
@@ -402,11 +785,13 @@ export type Database = {
           allergies?: string[] | null
           approval_status?: string
           avatar_url?: string | null
+          bed?: string | null
           blood_group?: string
           chronic_conditions?: string[] | null
           created_at?: string
           created_by?: string | null
           date_of_birth?: string | null
+          department?: string | null
           email?: string | null
           emergency_contact?: string
           gender?: Database["public"]["Enums"]["gender_type"]
@@ -415,6 +800,7 @@ export type Database = {
           patient_id?: string | null
           phone?: string | null
           updated_at?: string
+          weight_kg?: number | null
         }
         Relationships: []
       }
@@ -459,6 +845,7 @@ export type Database = {
           created_at: string
           height: number | null
           id: string
+          payload: Json | null
           scan_id: string
           updated_at: string
           user_id: string
@@ -473,6 +860,7 @@ export type Database = {
           created_at?: string
           height?: number | null
           id?: string
+          payload?: Json | null
           scan_id: string
           updated_at?: string
           user_id: string
@@ -487,6 +875,7 @@ export type Database = {
           created_at?: string
           height?: number | null
           id?: string
+          payload?: Json | null
           scan_id?: string
           updated_at?: string
           user_id?: string
@@ -504,6 +893,54 @@ export type Database = {
           },
         ]
       }
+      scan_findings: {
+        Row: {
+          area: string
+          created_at: string
+          id: string
+          observation: string
+          patient_id: string
+          position: number
+          scan_id: string
+          severity: string
+        }
+        Insert: {
+          area: string
+          created_at?: string
+          id?: string
+          observation: string
+          patient_id: string
+          position?: number
+          scan_id: string
+          severity?: string
+        }
+        Update: {
+          area?: string
+          created_at?: string
+          id?: string
+          observation?: string
+          patient_id?: string
+          position?: number
+          scan_id?: string
+          severity?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "scan_findings_patient_id_fkey"
+            columns: ["patient_id"]
+            isOneToOne: false
+            referencedRelation: "patients"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "scan_findings_scan_id_fkey"
+            columns: ["scan_id"]
+            isOneToOne: false
+            referencedRelation: "medical_scans"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       user_roles: {
         Row: {
           id: string
@@ -526,43 +963,97 @@ export type Database = {
         Row: {
           blood_pressure_diastolic: number | null
           blood_pressure_systolic: number | null
+          consciousness: string
+          device_id: string | null
+          device_timestamp: string | null
+          flacc_activity: number | null
+          flacc_consolability: number | null
+          flacc_cry: number | null
+          flacc_face: number | null
+          flacc_legs: number | null
+          gcs_eye: number | null
+          gcs_motor: number | null
+          gcs_total: number | null
+          gcs_verbal: number | null
           heart_rate: number | null
           id: string
+          news2_red_flag: boolean
+          news2_score: number | null
           notes: string | null
+          on_oxygen: boolean
+          pain_scale: string | null
+          pain_score: number | null
           patient_id: string
           recorded_at: string
           recorded_by: string | null
           respiratory_rate: number | null
           smoking_history: boolean | null
           spo2: number | null
+          spo2_scale: number
           temperature: number | null
         }
         Insert: {
           blood_pressure_diastolic?: number | null
           blood_pressure_systolic?: number | null
+          consciousness?: string
+          device_id?: string | null
+          device_timestamp?: string | null
+          flacc_activity?: number | null
+          flacc_consolability?: number | null
+          flacc_cry?: number | null
+          flacc_face?: number | null
+          flacc_legs?: number | null
+          gcs_eye?: number | null
+          gcs_motor?: number | null
+          gcs_total?: number | null
+          gcs_verbal?: number | null
           heart_rate?: number | null
           id?: string
+          news2_red_flag?: boolean
+          news2_score?: number | null
           notes?: string | null
+          on_oxygen?: boolean
+          pain_scale?: string | null
+          pain_score?: number | null
           patient_id: string
           recorded_at?: string
           recorded_by?: string | null
           respiratory_rate?: number | null
           smoking_history?: boolean | null
           spo2?: number | null
+          spo2_scale?: number
           temperature?: number | null
         }
         Update: {
           blood_pressure_diastolic?: number | null
           blood_pressure_systolic?: number | null
+          consciousness?: string
+          device_id?: string | null
+          device_timestamp?: string | null
+          flacc_activity?: number | null
+          flacc_consolability?: number | null
+          flacc_cry?: number | null
+          flacc_face?: number | null
+          flacc_legs?: number | null
+          gcs_eye?: number | null
+          gcs_motor?: number | null
+          gcs_total?: number | null
+          gcs_verbal?: number | null
           heart_rate?: number | null
           id?: string
+          news2_red_flag?: boolean
+          news2_score?: number | null
           notes?: string | null
+          on_oxygen?: boolean
+          pain_scale?: string | null
+          pain_score?: number | null
           patient_id?: string
           recorded_at?: string
           recorded_by?: string | null
           respiratory_rate?: number | null
           smoking_history?: boolean | null
           spo2?: number | null
+          spo2_scale?: number
           temperature?: number | null
         }
         Relationships: [
@@ -573,6 +1064,13 @@ export type Database = {
             referencedRelation: "patients"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "vitals_device_id_fkey"
+            columns: ["device_id"]
+            isOneToOne: false
+            referencedRelation: "devices"
+            referencedColumns: ["id"]
+          },
         ]
       }
     }
@@ -580,6 +1078,29 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      acknowledge_critical_lab: {
+        Args: {
+          _alert_id: string
+          _comment?: string
+          _read_back_value: number
+        }
+        Returns: undefined
+      }
+      check_urine_output: {
+        Args: never
+        Returns: number
+      }
+      derive_lab_results: {
+        Args: {
+          _collected_at: string
+          _patient_id: string
+        }
+        Returns: undefined
+      }
+      escalate_critical_lab_alerts: {
+        Args: never
+        Returns: number
+      }
       get_user_role: {
         Args: { _user_id: string }
         Returns: Database["public"]["Enums"]["app_role"]
@@ -591,6 +1112,183 @@ export type Database = {
         }
         Returns: boolean
       }
+      lab_delta: {
+        Args: {
+          _collected_at: string
+          _patient_id: string
+          _result_id: string
+          _test_type_id: string
+          _value: number
+        }
+        Returns: {
+          delta_flag: boolean
+          previous_value: number
+        }[]
+      }
+      lab_result_status: {
+        Args: {
+          _patient_id: string
+          _test_type_id: string
+          _value: number
+        }
+        Returns: string
+      }
+      latest_lab_results: {
+        Args: { _patient_ids: string[] }
+        Returns: {
+            calculation_inputs: Json | null
+            collected_at: string
+            created_at: string
+            delta_flag: boolean
+            external_id: string | null
+            id: string
+            notes: string | null
+            order_id: string | null
+            ordered_by: string | null
+            patient_id: string
+            previous_value: number | null
+            resulted_at: string | null
+            status: string
+            test_type_id: string
+            unit: string
+            value: number
+        }[]
+        SetofOptions: {
+          from: "*"
+          to: "lab_results"
+          isOneToOne: false
+          isSetofReturn: true
+        }
+      }
+      latest_medical_scans: {
+        Args: { _patient_ids: string[] }
+        Returns: {
+            abnormality_score: number | null
+            ai_explanation: string | null
+            ai_factors: string[] | null
+            analysis_status: string
+            analyzed_by: string | null
+            confidence_score: number | null
+            created_at: string
+            diagnosis_probability: number | null
+            differential_diagnoses: string[] | null
+            heatmap_url: string | null
+            id: string
+            image_url: string | null
+            inference_time: number | null
+            notes: string | null
+            patient_id: string
+            pixel_spacing: number[] | null
+            primary_diagnosis: string | null
+            recommendations: string[] | null
+            risk_level: string | null
+            scan_type: string
+        }[]
+        SetofOptions: {
+          from: "*"
+          to: "medical_scans"
+          isOneToOne: false
+          isSetofReturn: true
+        }
+      }
+      latest_vitals: {
+        Args: { _patient_ids: string[] }
+        Returns: {
+            blood_pressure_diastolic: number | null
+            blood_pressure_systolic: number | null
+            consciousness: string
+            device_id: string | null
+            device_timestamp: string | null
+            flacc_activity: number | null
+            flacc_consolability: number | null
+            flacc_cry: number | null
+            flacc_face: number | null
+            flacc_legs: number | null
+            gcs_eye: number | null
+            gcs_motor: number | null
+            gcs_total: number | null
+            gcs_verbal: number | null
+            heart_rate: number | null
+            id: string
+            news2_red_flag: boolean
+            news2_score: number | null
+            notes: string | null
+            on_oxygen: boolean
+            pain_scale: string | null
+            pain_score: number | null
+            patient_id: string
+            recorded_at: string
+            recorded_by: string | null
+            respiratory_rate: number | null
+            smoking_history: boolean | null
+            spo2: number | null
+            spo2_scale: number
+            temperature: number | null
+        }[]
+        SetofOptions: {
+          from: "*"
+          to: "vitals"
+          isOneToOne: false
+          isSetofReturn: true
+        }
+      }
+      list_care_staff: {
+        Args: never
+        Returns: {
+          department: string
+          full_name: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }[]
+      }
+      news2_observation_interval: {
+        Args: {
+          _red_flag: boolean
+          _score: number
+        }
+        Returns: number
+      }
+      notify_care_team: {
+        Args: {
+          _dedupe_window?: unknown
+          _message: string
+          _patient_id: string
+          _title: string
+          _type?: string
+        }
+        Returns: number
+      }
+      raise_care_team_alert: {
+        Args: {
+          _message: string
+          _patient_id: string
+          _title: string
+        }
+        Returns: number
+      }
+      refresh_lab_delta_after: {
+        Args: {
+          _after: string
+          _changed_id: string
+          _patient_id: string
+          _test_type_id: string
+        }
+        Returns: undefined
+      }
+      send_observation_reminders: {
+        Args: never
+        Returns: number
+      }
+      store_calculated_lab_result: {
+        Args: {
+          _code: string
+          _collected_at: string
+          _inputs: Json
+          _patient_id: string
+          _value: number
+        }
+        Returns: undefined
+      }
     }
     Enums: {
       app_role: "doctor" | "nurse" | "patient"
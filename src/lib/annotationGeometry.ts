@@ -0,0 +1,95 @@
+import type { Json } from '@/integrations/supabase/types';
+import type { AnnotationPoint } from '@/types/medical';
+
+// The parts of a scan annotation that can be edited after it is created
+export interface AnnotationGeometry {
+  x_position: number;
+  y_position: number;
+  width: number | null;
+  height: number | null;
+  color: string;
+  content: string | null;
+  payload: Json | null;
+}
+
+export function payloadPoints(payload: Json | null | undefined): AnnotationPoint[] | null {
+  if (!payload || typeof payload !== 'object' || Array.isArray(payload)) return null;
+  const points = (payload as { points?: unknown }).points;
+  if (!Array.isArray(points)) return null;
+  return points.filter(
+    (p): p is AnnotationPoint => !!p && typeof p === 'object' && typeof (p as AnnotationPoint).x === 'number' && typeof (p as AnnotationPoint).y === 'number'
+  );
+}
+
+export function boundingBox(points: AnnotationPoint[]) {
+  const xs = points.map((p) => p.x);
+  const ys = points.map((p) => p.y);
+  const x = Math.min(...xs);
+  const y = Math.min(...ys);
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y };
+}
+
+// Drops points closer than `tolerance` (percent of the image) to the previous kept point,
+// while always ending on the final point
+export function simplifyPath(points: AnnotationPoint[], tolerance = 0.5): AnnotationPoint[] {
+  return points.reduce<AnnotationPoint[]>((kept, point, index) => {
+    const last = kept[kept.length - 1];
+    if (!last || Math.hypot(point.x - last.x, point.y - last.y) >= tolerance) {
+      kept.push(point);
+    } else if (index === points.length - 1 && kept.length > 1) {
+      kept[kept.length - 1] = point;
+    }
+    return kept;
+  }, []);
+}
+
+const clampPercent = (value: number) => Math.min(100, Math.max(0, value));
+
+function withPoints(payload: Json | null, points: AnnotationPoint[]): Json {
+  return { ...(payload as Record<string, Json>), points: points as unknown as Json };
+}
+
+/**
+ * Moves an annotation by dx/dy percent, keeping it on the image. Point lists
+ * in the payload move with the anchor.
+ */
+export function moveGeometry(geometry: AnnotationGeometry, dx: number, dy: number): AnnotationGeometry {
+  const width = geometry.width ?? 0;
+  const height = geometry.height ?? 0;
+  const x = Math.min(100 - width, Math.max(0, geometry.x_position + dx));
+  const y = Math.min(100 - height, Math.max(0, geometry.y_position + dy));
+  const points = payloadPoints(geometry.payload);
+
+  return {
+    ...geometry,
+    x_position: x,
+    y_position: y,
+    payload: points
+      ? withPoints(geometry.payload, points.map((p) => ({ x: p.x + x - geometry.x_position, y: p.y + y - geometry.y_position })))
+      : geometry.payload,
+  };
+}
+
+// Resizes from the top-left anchor, scaling any point list to the new box
+export function resizeGeometry(geometry: AnnotationGeometry, width: number, height: number): AnnotationGeometry {
+  const newWidth = Math.max(1, Math.min(100 - geometry.x_position, width));
+  const newHeight = Math.max(1, Math.min(100 - geometry.y_position, height));
+  const points = payloadPoints(geometry.payload);
+  const scaleX = geometry.width ? newWidth / geometry.width : 1;
+  const scaleY = geometry.height ? newHeight / geometry.height : 1;
+
+  return {
+    ...geometry,
+    width: newWidth,
+    height: newHeight,
+    payload: points
+      ? withPoints(
+          geometry.payload,
+          points.map((p) => ({
+            x: clampPercent(geometry.x_position + (p.x - geometry.x_position) * scaleX),
+            y: clampPercent(geometry.y_position + (p.y - geometry.y_position) * scaleY),
+          }))
+        )
+      : geometry.payload,
+  };
+}
@@ -0,0 +1,85 @@
+export interface CsvColumn<T> {
+  key: keyof T;
+  label: string;
+}
+
+// Paint properties that charts set through CSS variables or classes
+const INLINED_STYLES = ['fill', 'fill-opacity', 'stroke', 'stroke-opacity', 'stroke-width', 'stroke-dasharray', 'opacity', 'font-family', 'font-size'];
+
+function downloadUrl(href: string, filename: string) {
+  const link = document.createElement('a');
+  link.href = href;
+  link.download = filename;
+  link.click();
+}
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Could not render chart image'));
+    image.src = src;
+  });
+}
+
+// The serialized SVG is rendered outside the page, so computed styles have to travel with it
+function inlineStyles(source: Element, target: Element) {
+  const computed = window.getComputedStyle(source);
+  INLINED_STYLES.forEach((property) => {
+    (target as SVGElement).style.setProperty(property, computed.getPropertyValue(property));
+  });
+  Array.from(source.children).forEach((child, i) => inlineStyles(child, target.children[i]));
+}
+
+/**
+ * Saves a rendered chart SVG as a PNG at twice its on-screen size, over the
+ * page background so light text stays readable in dark mode.
+ */
+export async function downloadSvgAsPng(svg: SVGSVGElement, filename: string): Promise<void> {
+  const { width, height } = svg.getBoundingClientRect();
+  const clone = svg.cloneNode(true) as SVGSVGElement;
+  inlineStyles(svg, clone);
+  clone.setAttribute('xmlns', 'http://www.w3.org/2000/svg');
+  clone.setAttribute('width', String(width));
+  clone.setAttribute('height', String(height));
+
+  const svgUrl = URL.createObjectURL(
+    new Blob([new XMLSerializer().serializeToString(clone)], { type: 'image/svg+xml;charset=utf-8' })
+  );
+
+  try {
+    const image = await loadImage(svgUrl);
+    const scale = 2;
+    const canvas = document.createElement('canvas');
+    canvas.width = width * scale;
+    canvas.height = height * scale;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas is not supported');
+
+    ctx.fillStyle = window.getComputedStyle(document.body).backgroundColor || '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+    downloadUrl(canvas.toDataURL('image/png'), filename);
+  } finally {
+    URL.revokeObjectURL(svgUrl);
+  }
+}
+
+const csvCell = (value: unknown) => {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export function toCsv<T>(columns: CsvColumn<T>[], rows: T[]): string {
+  const header = columns.map((c) => csvCell(c.label)).join(',');
+  const lines = rows.map((row) => columns.map((c) => csvCell(row[c.key])).join(','));
+  return [header, ...lines].join('\n');
+}
+
+export function downloadCsv<T>(columns: CsvColumn<T>[], rows: T[], filename: string) {
+  const url = URL.createObjectURL(new Blob([toCsv(columns, rows)], { type: 'text/csv;charset=utf-8' }));
+  downloadUrl(url, filename);
+  // Give the browser a tick to start the download before the URL goes away
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -0,0 +1,23 @@
+export interface GeneratedDeviceKey {
+  // Shown to the user once; only the hash is stored
+  key: string;
+  hash: string;
+  prefix: string;
+}
+
+const KEY_PREFIX = 'mpd_';
+
+const toHex = (bytes: Uint8Array) => Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+
+// Must match how the ingest-vitals function hashes the key it receives
+export async function hashDeviceKey(key: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(key));
+  return toHex(new Uint8Array(digest));
+}
+
+export async function generateDeviceKey(): Promise<GeneratedDeviceKey> {
+  const key = `${KEY_PREFIX}${toHex(crypto.getRandomValues(new Uint8Array(24)))}`;
+  return { key, hash: await hashDeviceKey(key), prefix: key.slice(0, KEY_PREFIX.length + 6) };
+}
+
+export const DEVICE_INGEST_URL = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/ingest-vitals`;
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { dicomPatientMatches, type DicomMetadata } from '@/lib/dicom';
+
+const metadata = (identity: Pick<DicomMetadata, 'patientId' | 'patientName'>): DicomMetadata => ({
+  modality: 'CR',
+  studyDate: null,
+  bodyPartExamined: null,
+  studyDescription: null,
+  seriesDescription: null,
+  seriesInstanceUid: null,
+  instanceNumber: null,
+  pixelSpacing: null,
+  sliceThickness: null,
+  imagePositionPatient: null,
+  ...identity,
+});
+
+const patient = { name: 'Jane Smith', patient_id: 'MED-2026-00042' };
+
+describe('dicomPatientMatches', () => {
+  it('matches on the MRN', () => {
+    expect(dicomPatientMatches(metadata({ patientId: 'MED-2026-00042', patientName: 'SMITH^JANE' }), patient)).toBe(true);
+  });
+
+  it('rejects a different ID even when the names match', () => {
+    expect(dicomPatientMatches(metadata({ patientId: 'MED-2026-00077', patientName: 'SMITH^JANE' }), patient)).toBe(false);
+  });
+
+  it('rejects a file ID when the patient has no MRN', () => {
+    expect(dicomPatientMatches(metadata({ patientId: 'MED-2026-00042', patientName: null }), { name: 'Jane Smith' })).toBe(false);
+  });
+
+  it('falls back to the name when the file has no ID', () => {
+    expect(dicomPatientMatches(metadata({ patientId: null, patientName: 'SMITH^JANE' }), patient)).toBe(true);
+    expect(dicomPatientMatches(metadata({ patientId: null, patientName: 'DOE^JOHN' }), patient)).toBe(false);
+  });
+
+  it('returns null when the file carries no identity', () => {
+    expect(dicomPatientMatches(metadata({ patientId: null, patientName: null }), patient)).toBeNull();
+  });
+});
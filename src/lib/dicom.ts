@@ -0,0 +1,236 @@
+import { parseDicom, type DataSet } from 'dicom-parser';
+
+export type DicomScanType = 'xray' | 'ct' | 'mri' | 'ecg' | 'ultrasound';
+
+export interface DicomMetadata {
+  modality: string | null;
+  studyDate: string | null;
+  bodyPartExamined: string | null;
+  studyDescription: string | null;
+  seriesDescription: string | null;
+  patientName: string | null;
+  patientId: string | null;
+  seriesInstanceUid: string | null;
+  instanceNumber: number | null;
+  // Row spacing, column spacing in mm
+  pixelSpacing: [number, number] | null;
+  sliceThickness: number | null;
+  // Position of the first voxel in patient coordinates (mm), used to order slices
+  imagePositionPatient: [number, number, number] | null;
+}
+
+export interface DicomImage {
+  metadata: DicomMetadata;
+  width: number;
+  height: number;
+  // Modality values (rescale slope/intercept applied); RGB images keep raw channel data
+  pixels: Float32Array;
+  samplesPerPixel: number;
+  invert: boolean;
+  windowCenter: number;
+  windowWidth: number;
+}
+
+// Native (uncompressed) transfer syntaxes that can be decoded without a codec
+const UNCOMPRESSED_SYNTAXES = ['1.2.840.10008.1.2', '1.2.840.10008.1.2.1', '1.2.840.10008.1.2.2'];
+
+const MODALITY_SCAN_TYPES: Record<string, DicomScanType> = {
+  CR: 'xray',
+  DX: 'xray',
+  DR: 'xray',
+  RF: 'xray',
+  MG: 'xray',
+  CT: 'ct',
+  MR: 'mri',
+  US: 'ultrasound',
+  ECG: 'ecg',
+  HD: 'ecg',
+};
+
+export function isDicomFile(file: File): boolean {
+  return file.type === 'application/dicom' || /\.(dcm|dicom)$/i.test(file.name);
+}
+
+export function scanTypeForModality(modality: string | null): DicomScanType | null {
+  if (!modality) return null;
+  return MODALITY_SCAN_TYPES[modality.toUpperCase()] || null;
+}
+
+// DICOM dates are YYYYMMDD
+function formatDicomDate(value: string | undefined): string | null {
+  if (!value || !/^\d{8}$/.test(value)) return null;
+  return `${value.slice(0, 4)}-${value.slice(4, 6)}-${value.slice(6, 8)}`;
+}
+
+// Person names are Family^Given^Middle^Prefix^Suffix
+export function formatDicomPersonName(value: string | null): string | null {
+  if (!value) return null;
+  const [family, given, middle] = value.split('^').map((part) => part?.trim());
+  return [given, middle, family].filter(Boolean).join(' ') || null;
+}
+
+function readString(dataSet: DataSet, tag: string): string | null {
+  const value = dataSet.string(tag);
+  return value ? value.trim() : null;
+}
+
+function readMetadata(dataSet: DataSet): DicomMetadata {
+  const spacing = readString(dataSet, 'x00280030') || readString(dataSet, 'x00181164');
+  const spacingParts = spacing?.split('\\').map(parseFloat);
+  const position = readString(dataSet, 'x00200032')?.split('\\').map(parseFloat);
+
+  return {
+    modality: readString(dataSet, 'x00080060'),
+    studyDate: formatDicomDate(dataSet.string('x00080020')),
+    bodyPartExamined: readString(dataSet, 'x00180015'),
+    studyDescription: readString(dataSet, 'x00081030'),
+    seriesDescription: readString(dataSet, 'x0008103e'),
+    patientName: formatDicomPersonName(readString(dataSet, 'x00100010')),
+    patientId: readString(dataSet, 'x00100020'),
+    seriesInstanceUid: readString(dataSet, 'x0020000e'),
+    instanceNumber: dataSet.intString('x00200013') ?? null,
+    pixelSpacing:
+      spacingParts && spacingParts.length === 2 && spacingParts.every((v) => Number.isFinite(v) && v > 0)
+        ? [spacingParts[0], spacingParts[1]]
+        : null,
+    sliceThickness: dataSet.floatString('x00180050') ?? null,
+    imagePositionPatient:
+      position && position.length === 3 && position.every(Number.isFinite)
+        ? [position[0], position[1], position[2]]
+        : null,
+  };
+}
+
+function readPixels(dataSet: DataSet, count: number): Float32Array {
+  const element = dataSet.elements.x7fe00010;
+  const bitsAllocated = dataSet.uint16('x00280100') || 16;
+  const signed = dataSet.uint16('x00280103') === 1;
+  const slope = dataSet.floatString('x00281053') ?? 1;
+  const intercept = dataSet.floatString('x00281052') ?? 0;
+  const { buffer, byteOffset } = dataSet.byteArray;
+  const offset = byteOffset + element.dataOffset;
+  const bigEndian = dataSet.string('x00020010') === '1.2.840.10008.1.2.2';
+
+  const pixels = new Float32Array(count);
+  if (bitsAllocated === 8) {
+    const raw = new Uint8Array(buffer, offset, count);
+    for (let i = 0; i < count; i++) pixels[i] = raw[i] * slope + intercept;
+  } else if (bitsAllocated === 16) {
+    const view = new DataView(buffer, offset, count * 2);
+    for (let i = 0; i < count; i++) {
+      const raw = signed ? view.getInt16(i * 2, !bigEndian) : view.getUint16(i * 2, !bigEndian);
+      pixels[i] = raw * slope + intercept;
+    }
+  } else {
+    throw new Error(`Unsupported DICOM bit depth: ${bitsAllocated}`);
+  }
+  return pixels;
+}
+
+function defaultWindow(pixels: Float32Array, dataSet: DataSet): { center: number; width: number } {
+  const center = dataSet.floatString('x00281050');
+  const width = dataSet.floatString('x00281051');
+  if (center !== undefined && width !== undefined && width > 0) return { center, width };
+
+  let min = Infinity;
+  let max = -Infinity;
+  for (let i = 0; i < pixels.length; i++) {
+    if (pixels[i] < min) min = pixels[i];
+    if (pixels[i] > max) max = pixels[i];
+  }
+  return { center: (min + max) / 2, width: Math.max(1, max - min) };
+}
+
+export function parseDicomBuffer(arrayBuffer: ArrayBuffer): DicomImage {
+  const dataSet = parseDicom(new Uint8Array(arrayBuffer));
+
+  const transferSyntax = dataSet.string('x00020010');
+  if (transferSyntax && !UNCOMPRESSED_SYNTAXES.includes(transferSyntax)) {
+    throw new Error(`Compressed DICOM (transfer syntax ${transferSyntax}) is not supported. Export as uncompressed DICOM.`);
+  }
+  if (!dataSet.elements.x7fe00010) {
+    throw new Error('DICOM file contains no pixel data');
+  }
+
+  const width = dataSet.uint16('x00280011');
+  const height = dataSet.uint16('x00280010');
+  const samplesPerPixel = dataSet.uint16('x00280002') || 1;
+  if (!width || !height) throw new Error('DICOM file is missing image dimensions');
+  if (samplesPerPixel !== 1 && samplesPerPixel !== 3) {
+    throw new Error(`Unsupported samples per pixel: ${samplesPerPixel}`);
+  }
+  if (samplesPerPixel === 3 && dataSet.uint16('x00280006') === 1) {
+    throw new Error('Planar RGB DICOM is not supported');
+  }
+
+  // Only the first frame is read for multi-frame files
+  const pixels = readPixels(dataSet, width * height * samplesPerPixel);
+  const { center, width: windowWidth } = defaultWindow(pixels, dataSet);
+
+  return {
+    metadata: readMetadata(dataSet),
+    width,
+    height,
+    pixels,
+    samplesPerPixel,
+    invert: readString(dataSet, 'x00280004') === 'MONOCHROME1',
+    windowCenter: center,
+    windowWidth,
+  };
+}
+
+export async function parseDicomFile(file: File): Promise<DicomImage> {
+  return parseDicomBuffer(await file.arrayBuffer());
+}
+
+/**
+ * Applies window/level to the modality values and draws the frame to a PNG
+ * data URL the rest of the app can treat like any uploaded image.
+ */
+export function renderDicomImage(image: DicomImage, windowCenter = image.windowCenter, windowWidth = image.windowWidth): string {
+  const canvas = document.createElement('canvas');
+  canvas.width = image.width;
+  canvas.height = image.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not available');
+
+  const output = ctx.createImageData(image.width, image.height);
+  const lower = windowCenter - windowWidth / 2;
+  const pixelCount = image.width * image.height;
+
+  for (let i = 0; i < pixelCount; i++) {
+    if (image.samplesPerPixel === 3) {
+      output.data[i * 4] = image.pixels[i * 3];
+      output.data[i * 4 + 1] = image.pixels[i * 3 + 1];
+      output.data[i * 4 + 2] = image.pixels[i * 3 + 2];
+    } else {
+      let value = Math.round(((image.pixels[i] - lower) / windowWidth) * 255);
+      value = Math.min(255, Math.max(0, value));
+      if (image.invert) value = 255 - value;
+      output.data[i * 4] = value;
+      output.data[i * 4 + 1] = value;
+      output.data[i * 4 + 2] = value;
+    }
+    output.data[i * 4 + 3] = 255;
+  }
+
+  ctx.putImageData(output, 0, 0);
+  return canvas.toDataURL('image/png');
+}
+
+const normalizeName = (name: string) => name.toLowerCase().replace(/[^a-z]/g, ' ').split(/\s+/).filter(Boolean).sort().join(' ');
+
+/**
+ * Compares the DICOM patient with the patient selected in the app. A file
+ * with a PatientID must carry the patient's MRN; the name is only compared
+ * when the file has no ID, since two patients can share a name. Returns null
+ * when the file carries no patient identity to compare against.
+ */
+export function dicomPatientMatches(
+  metadata: DicomMetadata,
+  patient: { name: string; patient_id?: string | null }
+): boolean | null {
+  if (metadata.patientId) return metadata.patientId === patient.patient_id?.trim();
+  if (metadata.patientName) return normalizeName(metadata.patientName) === normalizeName(patient.name);
+  return null;
+}
@@ -0,0 +1,111 @@
+export type FluidCategory = 'oral' | 'iv' | 'urine' | 'drain' | 'emesis';
+export type FluidDirection = 'intake' | 'output';
+
+export interface FluidEntry {
+  recorded_at: string;
+  category: string;
+  volume_ml: number;
+}
+
+export interface FluidTotals {
+  intake: number;
+  output: number;
+  // Intake minus output; positive means the patient is retaining fluid
+  net: number;
+  byCategory: Record<FluidCategory, number>;
+}
+
+export interface HourlyFluidPoint {
+  // Start of the hour, epoch ms
+  time: number;
+  intake: number;
+  output: number;
+  urine: number;
+  // Net balance from the start of the series to the end of this hour
+  balance: number;
+}
+
+export interface UrineOutputRate {
+  mlPerKgPerHour: number;
+  totalMl: number;
+  windowHours: number;
+  low: boolean;
+}
+
+export const FLUID_CATEGORIES: Record<FluidCategory, { label: string; direction: FluidDirection }> = {
+  oral: { label: 'Oral', direction: 'intake' },
+  iv: { label: 'IV', direction: 'intake' },
+  urine: { label: 'Urine', direction: 'output' },
+  drain: { label: 'Drain', direction: 'output' },
+  emesis: { label: 'Emesis', direction: 'output' },
+};
+
+export const BALANCE_WINDOW_HOURS = 24;
+// KDIGO oliguria: below 0.5 mL/kg/h for 6 hours; the database checks the same (see check_urine_output)
+export const OLIGURIA_ML_PER_KG_PER_HOUR = 0.5;
+export const URINE_WINDOW_HOURS = 6;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const isCategory = (category: string): category is FluidCategory => category in FLUID_CATEGORIES;
+
+const inWindow = (entry: FluidEntry, since: number, until: number) => {
+  const time = new Date(entry.recorded_at).getTime();
+  return time > since && time <= until;
+};
+
+export function fluidTotals(entries: FluidEntry[], since: number, until: number = Date.now()): FluidTotals {
+  const byCategory: Record<FluidCategory, number> = { oral: 0, iv: 0, urine: 0, drain: 0, emesis: 0 };
+  entries.forEach((entry) => {
+    if (isCategory(entry.category) && inWindow(entry, since, until)) byCategory[entry.category] += Number(entry.volume_ml);
+  });
+
+  const sum = (direction: FluidDirection) =>
+    (Object.keys(byCategory) as FluidCategory[])
+      .filter((category) => FLUID_CATEGORIES[category].direction === direction)
+      .reduce((total, category) => total + byCategory[category], 0);
+
+  const intake = sum('intake');
+  const output = sum('output');
+  return { intake, output, net: intake - output, byCategory };
+}
+
+// One point per clock hour ending with the current hour, with the running balance
+export function hourlyFluidSeries(entries: FluidEntry[], hours: number, now: number = Date.now()): HourlyFluidPoint[] {
+  const currentHour = Math.floor(now / HOUR_MS) * HOUR_MS;
+  const firstHour = currentHour - (hours - 1) * HOUR_MS;
+
+  let balance = 0;
+  return Array.from({ length: hours }, (_, i) => {
+    const time = firstHour + i * HOUR_MS;
+    const totals = fluidTotals(entries, time - 1, time + HOUR_MS - 1);
+    balance += totals.net;
+    return { time, intake: totals.intake, output: totals.output, urine: totals.byCategory.urine, balance };
+  });
+}
+
+/**
+ * Urine output over the trailing window, per kilogram of body weight. Returns
+ * null without a weight, when urine charting started inside the window so
+ * missing hours would read as no output, or when nothing was charted in the
+ * last day.
+ */
+export function urineOutputRate(
+  entries: FluidEntry[],
+  weightKg: number | null | undefined,
+  now: number = Date.now(),
+  windowHours: number = URINE_WINDOW_HOURS
+): UrineOutputRate | null {
+  if (!weightKg || weightKg <= 0) return null;
+
+  const urine = entries.filter((entry) => entry.category === 'urine');
+  const since = now - windowHours * HOUR_MS;
+  const times = urine.map((entry) => new Date(entry.recorded_at).getTime());
+  if (!times.some((time) => time <= since)) return null;
+  // Charting that stopped a day ago is no longer monitoring
+  if (!times.some((time) => time > now - BALANCE_WINDOW_HOURS * HOUR_MS)) return null;
+
+  const totalMl = urine.filter((entry) => inWindow(entry, since, now)).reduce((sum, entry) => sum + Number(entry.volume_ml), 0);
+  const mlPerKgPerHour = totalMl / weightKg / windowHours;
+  return { mlPerKgPerHour, totalMl, windowHours, low: mlPerKgPerHour < OLIGURIA_ML_PER_KG_PER_HOUR };
+}
@@ -0,0 +1,96 @@
+import type { ScanRegion } from '@/types/medical';
+
+// Longest edge of the rendered overlay; it is scaled to the scan with object-contain
+const MAX_HEATMAP_SIZE = 512;
+
+// Colour stops from cool (low saliency) to hot (high saliency)
+const COLOR_STOPS: [number, [number, number, number]][] = [
+  [0, [0, 0, 255]],
+  [0.35, [0, 255, 255]],
+  [0.6, [0, 255, 0]],
+  [0.8, [255, 255, 0]],
+  [1, [255, 0, 0]],
+];
+
+function colorFor(value: number): [number, number, number] {
+  for (let i = 1; i < COLOR_STOPS.length; i++) {
+    const [stop, color] = COLOR_STOPS[i];
+    if (value <= stop) {
+      const [prevStop, prevColor] = COLOR_STOPS[i - 1];
+      const t = (value - prevStop) / (stop - prevStop);
+      return [0, 1, 2].map((c) => Math.round(prevColor[c] + (color[c] - prevColor[c]) * t)) as [number, number, number];
+    }
+  }
+  return COLOR_STOPS[COLOR_STOPS.length - 1][1];
+}
+
+export function loadImageDimensions(src: string): Promise<{ width: number; height: number }> {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve({ width: img.naturalWidth, height: img.naturalHeight });
+    img.onerror = () => reject(new Error('Could not load image'));
+    img.src = src;
+  });
+}
+
+/**
+ * Renders localized regions of concern as a colour-mapped PNG with the same
+ * aspect ratio as the source image. Each region contributes an elliptical
+ * falloff weighted by its score; overlapping regions accumulate.
+ */
+export function renderHeatmap(
+  regions: ScanRegion[],
+  imageWidth: number,
+  imageHeight: number
+): Promise<Blob | null> {
+  if (regions.length === 0 || !imageWidth || !imageHeight) return Promise.resolve(null);
+
+  const scale = Math.min(1, MAX_HEATMAP_SIZE / Math.max(imageWidth, imageHeight));
+  const width = Math.max(1, Math.round(imageWidth * scale));
+  const height = Math.max(1, Math.round(imageHeight * scale));
+
+  const saliency = new Float32Array(width * height);
+  regions.forEach((region) => {
+    const cx = (region.x + region.width / 2) * width;
+    const cy = (region.y + region.height / 2) * height;
+    // Let the glow extend slightly past the box edges
+    const rx = Math.max(1, (region.width * width) / 2) * 1.3;
+    const ry = Math.max(1, (region.height * height) / 2) * 1.3;
+
+    const minX = Math.max(0, Math.floor(cx - rx));
+    const maxX = Math.min(width - 1, Math.ceil(cx + rx));
+    const minY = Math.max(0, Math.floor(cy - ry));
+    const maxY = Math.min(height - 1, Math.ceil(cy + ry));
+
+    for (let py = minY; py <= maxY; py++) {
+      for (let px = minX; px <= maxX; px++) {
+        const dx = (px - cx) / rx;
+        const dy = (py - cy) / ry;
+        const distance = dx * dx + dy * dy;
+        if (distance < 1) {
+          saliency[py * width + px] += region.score * Math.exp(-3 * distance);
+        }
+      }
+    }
+  });
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return Promise.resolve(null);
+
+  const imageData = ctx.createImageData(width, height);
+  for (let i = 0; i < saliency.length; i++) {
+    const value = Math.min(1, saliency[i]);
+    if (value < 0.02) continue;
+    const [r, g, b] = colorFor(value);
+    imageData.data[i * 4] = r;
+    imageData.data[i * 4 + 1] = g;
+    imageData.data[i * 4 + 2] = b;
+    imageData.data[i * 4 + 3] = Math.round(Math.min(1, value * 1.5) * 255);
+  }
+  ctx.putImageData(imageData, 0, 0);
+
+  return new Promise((resolve) => canvas.toBlob((blob) => resolve(blob), 'image/png'));
+}
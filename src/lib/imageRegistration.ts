@@ -0,0 +1,294 @@
+export interface GrayscaleImage {
+  width: number;
+  height: number;
+  // Luminance 0-255; NaN marks pixels outside the image after a transform
+  pixels: Float32Array;
+}
+
+export interface RigidTransform {
+  // Translation as a fraction of the image width/height
+  dx: number;
+  dy: number;
+  // Rotation about the image centre in degrees
+  rotation: number;
+}
+
+export interface RegistrationResult {
+  transform: RigidTransform;
+  // Normalized cross-correlation of the overlapping pixels after alignment (-1..1)
+  correlation: number;
+}
+
+export const IDENTITY_TRANSFORM: RigidTransform = { dx: 0, dy: 0, rotation: 0 };
+
+// Large enough to show detail, small enough to resample interactively
+const DISPLAY_SIZE = 512;
+const COARSE_SIZE = 64;
+const FINE_SIZE = 128;
+
+export async function loadGrayscaleImage(url: string, maxSize = DISPLAY_SIZE): Promise<GrayscaleImage> {
+  const image = await new Promise<HTMLImageElement>((resolve, reject) => {
+    const img = new Image();
+    // Signed storage URLs are served with CORS headers, so the canvas stays readable
+    img.crossOrigin = 'anonymous';
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Could not load scan image'));
+    img.src = url;
+  });
+
+  const scale = Math.min(1, maxSize / Math.max(image.naturalWidth, image.naturalHeight));
+  const width = Math.max(1, Math.round(image.naturalWidth * scale));
+  const height = Math.max(1, Math.round(image.naturalHeight * scale));
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not available');
+  ctx.drawImage(image, 0, 0, width, height);
+
+  const { data } = ctx.getImageData(0, 0, width, height);
+  const pixels = new Float32Array(width * height);
+  for (let i = 0; i < pixels.length; i++) {
+    pixels[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  return { width, height, pixels };
+}
+
+function sampleBilinear(image: GrayscaleImage, x: number, y: number): number {
+  if (x < 0 || y < 0 || x > image.width - 1 || y > image.height - 1) return Number.NaN;
+  const x0 = Math.floor(x);
+  const y0 = Math.floor(y);
+  const x1 = Math.min(image.width - 1, x0 + 1);
+  const y1 = Math.min(image.height - 1, y0 + 1);
+  const fx = x - x0;
+  const fy = y - y0;
+  const { pixels, width } = image;
+  const top = pixels[y0 * width + x0] * (1 - fx) + pixels[y0 * width + x1] * fx;
+  const bottom = pixels[y1 * width + x0] * (1 - fx) + pixels[y1 * width + x1] * fx;
+  return top * (1 - fy) + bottom * fy;
+}
+
+// Stretches an image onto a width x height grid
+export function resampleImage(image: GrayscaleImage, width: number, height: number): GrayscaleImage {
+  if (image.width === width && image.height === height) return image;
+  const pixels = new Float32Array(width * height);
+  const scaleX = (image.width - 1) / Math.max(1, width - 1);
+  const scaleY = (image.height - 1) / Math.max(1, height - 1);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      pixels[y * width + x] = sampleBilinear(image, x * scaleX, y * scaleY);
+    }
+  }
+  return { width, height, pixels };
+}
+
+function downsample(image: GrayscaleImage, maxSize: number): GrayscaleImage {
+  const scale = Math.min(1, maxSize / Math.max(image.width, image.height));
+  return resampleImage(image, Math.max(1, Math.round(image.width * scale)), Math.max(1, Math.round(image.height * scale)));
+}
+
+/**
+ * Rotates the image about its centre, then translates it. Pixels that fall
+ * outside the source become NaN so they are ignored by comparisons.
+ */
+export function transformImage(image: GrayscaleImage, transform: RigidTransform): GrayscaleImage {
+  const { width, height } = image;
+  const pixels = new Float32Array(width * height);
+  const angle = (-transform.rotation * Math.PI) / 180;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const cx = (width - 1) / 2;
+  const cy = (height - 1) / 2;
+  const tx = transform.dx * width;
+  const ty = transform.dy * height;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const px = x - cx - tx;
+      const py = y - cy - ty;
+      pixels[y * width + x] = sampleBilinear(image, cos * px - sin * py + cx, sin * px + cos * py + cy);
+    }
+  }
+  return { width, height, pixels };
+}
+
+function correlation(reference: GrayscaleImage, moving: GrayscaleImage): number {
+  let n = 0;
+  let sumA = 0;
+  let sumB = 0;
+  let sumAA = 0;
+  let sumBB = 0;
+  let sumAB = 0;
+  for (let i = 0; i < reference.pixels.length; i++) {
+    const a = reference.pixels[i];
+    const b = moving.pixels[i];
+    if (Number.isNaN(a) || Number.isNaN(b)) continue;
+    n++;
+    sumA += a;
+    sumB += b;
+    sumAA += a * a;
+    sumBB += b * b;
+    sumAB += a * b;
+  }
+  // Require most of the image to overlap so the search cannot slide the images apart
+  if (n < reference.pixels.length * 0.5) return -1;
+  const covariance = sumAB - (sumA * sumB) / n;
+  const varianceA = sumAA - (sumA * sumA) / n;
+  const varianceB = sumBB - (sumB * sumB) / n;
+  if (varianceA <= 0 || varianceB <= 0) return 0;
+  return covariance / Math.sqrt(varianceA * varianceB);
+}
+
+/**
+ * Intensity-based rigid registration of `moving` onto `reference`: an
+ * exhaustive coarse search over small shifts and rotations, followed by
+ * hill-climbing refinement at a finer resolution. Both images are compared on
+ * the reference image's grid.
+ */
+export function registerImages(reference: GrayscaleImage, moving: GrayscaleImage): RegistrationResult {
+  const coarseReference = downsample(reference, COARSE_SIZE);
+  const coarseMoving = resampleImage(moving, coarseReference.width, coarseReference.height);
+  const score = (ref: GrayscaleImage, mov: GrayscaleImage, t: RigidTransform) => correlation(ref, transformImage(mov, t));
+
+  let best = { ...IDENTITY_TRANSFORM };
+  let bestScore = score(coarseReference, coarseMoving, best);
+  for (let rotation = -10; rotation <= 10; rotation += 2) {
+    for (let dx = -0.1; dx <= 0.1001; dx += 0.02) {
+      for (let dy = -0.1; dy <= 0.1001; dy += 0.02) {
+        const candidate = { dx, dy, rotation };
+        const candidateScore = score(coarseReference, coarseMoving, candidate);
+        if (candidateScore > bestScore) {
+          best = candidate;
+          bestScore = candidateScore;
+        }
+      }
+    }
+  }
+
+  const fineReference = downsample(reference, FINE_SIZE);
+  const fineMoving = resampleImage(moving, fineReference.width, fineReference.height);
+  bestScore = score(fineReference, fineMoving, best);
+  let shiftStep = 0.01;
+  let rotationStep = 1;
+  while (shiftStep >= 0.001) {
+    let improved = false;
+    const neighbours: RigidTransform[] = [
+      { ...best, dx: best.dx + shiftStep },
+      { ...best, dx: best.dx - shiftStep },
+      { ...best, dy: best.dy + shiftStep },
+      { ...best, dy: best.dy - shiftStep },
+      { ...best, rotation: best.rotation + rotationStep },
+      { ...best, rotation: best.rotation - rotationStep },
+    ];
+    neighbours.forEach((candidate) => {
+      const candidateScore = score(fineReference, fineMoving, candidate);
+      if (candidateScore > bestScore) {
+        best = candidate;
+        bestScore = candidateScore;
+        improved = true;
+      }
+    });
+    if (!improved) {
+      shiftStep /= 2;
+      rotationStep /= 2;
+    }
+  }
+
+  return { transform: best, correlation: bestScore };
+}
+
+export function grayscaleToDataUrl(image: GrayscaleImage): string {
+  const canvas = document.createElement('canvas');
+  canvas.width = image.width;
+  canvas.height = image.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not available');
+  const output = ctx.createImageData(image.width, image.height);
+  for (let i = 0; i < image.pixels.length; i++) {
+    const value = image.pixels[i];
+    const outside = Number.isNaN(value);
+    output.data[i * 4] = outside ? 0 : value;
+    output.data[i * 4 + 1] = outside ? 0 : value;
+    output.data[i * 4 + 2] = outside ? 0 : value;
+    output.data[i * 4 + 3] = outside ? 0 : 255;
+  }
+  ctx.putImageData(output, 0, 0);
+  return canvas.toDataURL('image/png');
+}
+
+export interface DifferenceImage {
+  dataUrl: string;
+  // Share of overlapping pixels whose intensity changed beyond the threshold
+  changedFraction: number;
+}
+
+/**
+ * Renders current minus previous over a dimmed copy of the current image:
+ * red where the current study is brighter, blue where it is darker. The
+ * previous image is first matched to the current one's mean and contrast so
+ * exposure differences between studies do not show up as change.
+ */
+export function renderDifferenceImage(current: GrayscaleImage, previous: GrayscaleImage, threshold = 30): DifferenceImage {
+  const { width, height } = current;
+  const aligned = resampleImage(previous, width, height);
+
+  let n = 0;
+  let sumA = 0;
+  let sumB = 0;
+  let sumAA = 0;
+  let sumBB = 0;
+  for (let i = 0; i < current.pixels.length; i++) {
+    const a = current.pixels[i];
+    const b = aligned.pixels[i];
+    if (Number.isNaN(a) || Number.isNaN(b)) continue;
+    n++;
+    sumA += a;
+    sumB += b;
+    sumAA += a * a;
+    sumBB += b * b;
+  }
+  const meanA = n ? sumA / n : 0;
+  const meanB = n ? sumB / n : 0;
+  const stdA = n ? Math.sqrt(Math.max(0, sumAA / n - meanA * meanA)) : 1;
+  const stdB = n ? Math.sqrt(Math.max(0, sumBB / n - meanB * meanB)) : 1;
+  const gain = stdB > 0 ? stdA / stdB : 1;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not available');
+  const output = ctx.createImageData(width, height);
+
+  let changed = 0;
+  for (let i = 0; i < current.pixels.length; i++) {
+    const a = current.pixels[i];
+    const b = aligned.pixels[i];
+    const base = Number.isNaN(a) ? 0 : a * 0.4;
+    let r = base;
+    let g = base;
+    let bl = base;
+
+    if (!Number.isNaN(a) && !Number.isNaN(b)) {
+      const diff = a - (meanA + (b - meanB) * gain);
+      if (Math.abs(diff) > threshold) {
+        changed++;
+        const strength = Math.min(1, (Math.abs(diff) - threshold) / 80 + 0.35);
+        if (diff > 0) {
+          r = base + (255 - base) * strength;
+        } else {
+          bl = base + (255 - base) * strength;
+          g = base + (120 - base) * strength * 0.5;
+        }
+      }
+    }
+
+    output.data[i * 4] = r;
+    output.data[i * 4 + 1] = g;
+    output.data[i * 4 + 2] = bl;
+    output.data[i * 4 + 3] = 255;
+  }
+  ctx.putImageData(output, 0, 0);
+
+  return { dataUrl: canvas.toDataURL('image/png'), changedFraction: n ? changed / n : 0 };
+}
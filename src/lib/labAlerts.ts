@@ -0,0 +1,55 @@
+import type { Tables } from '@/integrations/supabase/types';
+
+export type CriticalLabAlert = Tables<'lab_critical_alerts'> & {
+  lab_results: {
+    value: number;
+    unit: string;
+    status: string;
+    collected_at: string;
+    lab_test_types: { name: string; code: string } | null;
+  } | null;
+  patients: { name: string; patient_id: string | null } | null;
+};
+
+// Window of escalate_critical_lab_alerts(); the cron job runs every five minutes
+export const CRITICAL_ESCALATION_MINUTES = 30;
+
+const MINUTE_MS = 60 * 1000;
+
+export const minutesBetween = (from: string, to: string | number) =>
+  Math.max(0, Math.round((new Date(to).getTime() - new Date(from).getTime()) / MINUTE_MS));
+
+/** "+2.1 (was 10.2)" for a result flagged by the delta check. */
+export function describeDelta(result: { value: number; previous_value: number | null }): string | null {
+  if (result.previous_value === null) return null;
+  const change = Math.round((result.value - result.previous_value) * 100) / 100;
+  return `${change > 0 ? '+' : ''}${change} (was ${result.previous_value})`;
+}
+
+export interface CriticalAlertSummary {
+  total: number;
+  open: number;
+  escalated: number;
+  // Over acknowledged alerts only; null when there are none
+  medianMinutesToAcknowledge: number | null;
+}
+
+export function summarizeCriticalAlerts(alerts: CriticalLabAlert[]): CriticalAlertSummary {
+  const ackMinutes = alerts
+    .filter((a) => a.acknowledged_at)
+    .map((a) => minutesBetween(a.notified_at, a.acknowledged_at as string))
+    .sort((a, b) => a - b);
+  const mid = Math.floor(ackMinutes.length / 2);
+
+  return {
+    total: alerts.length,
+    open: alerts.filter((a) => !a.acknowledged_at).length,
+    escalated: alerts.filter((a) => a.escalated_at).length,
+    medianMinutesToAcknowledge:
+      ackMinutes.length === 0
+        ? null
+        : ackMinutes.length % 2
+          ? ackMinutes[mid]
+          : Math.round((ackMinutes[mid - 1] + ackMinutes[mid]) / 2),
+  };
+}
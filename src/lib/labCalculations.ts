@@ -0,0 +1,34 @@
+import type { Json } from '@/integrations/supabase/types';
+
+// lab_test_types.calculation; the database derives these in derive_lab_results()
+export type LabCalculation = 'ckd_epi_2021' | 'anion_gap' | 'friedewald_ldl' | 'corrected_calcium';
+
+export const LAB_CALCULATIONS: Record<LabCalculation, { label: string; formula: string; caveat?: string }> = {
+  ckd_epi_2021: { label: 'CKD-EPI 2021', formula: 'Creatinine, age and sex (race-free)' },
+  anion_gap: { label: 'Anion gap', formula: 'Na − (Cl + HCO₃)' },
+  // Martin/Hopkins is not derived: it needs the published 180-cell factor table
+  friedewald_ldl: {
+    label: 'Friedewald',
+    formula: 'Total cholesterol − HDL − triglycerides / 5',
+    caveat: 'Friedewald estimate only; unreliable with high triglycerides or LDL below 70 mg/dL. Request a direct LDL.',
+  },
+  corrected_calcium: { label: 'Corrected calcium', formula: 'Ca + 0.8 × (4.0 − albumin)' },
+};
+
+export const isCalculatedResult = (result: { calculation_inputs?: Json | null }) =>
+  result.calculation_inputs !== null && result.calculation_inputs !== undefined;
+
+/** "CREAT 1.1 · age 54 · female" from a result's calculation_inputs. */
+export function describeCalculationInputs(inputs: Json | null | undefined): string {
+  if (!inputs || typeof inputs !== 'object' || Array.isArray(inputs)) return '';
+  return Object.entries(inputs)
+    .map(([key, value]) => {
+      if (key === 'sex') return String(value);
+      if (key === 'age') return `age ${value}`;
+      return `${key} ${value}`;
+    })
+    .join(' · ');
+}
+
+export const calculationLabel = (calculation: string | null | undefined) =>
+  calculation && calculation in LAB_CALCULATIONS ? LAB_CALCULATIONS[calculation as LabCalculation] : null;
@@ -0,0 +1,56 @@
+import { FunctionsHttpError } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+
+export interface LabImportResult {
+  // False when the lab interface stored nothing (HL7 AE/AR, or an error in the OperationOutcome)
+  accepted: boolean;
+  // First line is "<n> stored, <n> rejected", then per-patient counts and rejection reasons
+  messages: string[];
+}
+
+interface OperationOutcome {
+  resourceType: 'OperationOutcome';
+  issue: { severity: string; diagnostics?: string }[];
+}
+
+const isOperationOutcome = (reply: unknown): reply is OperationOutcome =>
+  typeof reply === 'object' && reply !== null && (reply as { resourceType?: unknown }).resourceType === 'OperationOutcome';
+
+// Reads the HL7 ACK or FHIR OperationOutcome returned by the ingest-labs function
+export function summarizeLabImport(reply: unknown): LabImportResult {
+  if (isOperationOutcome(reply)) {
+    return {
+      accepted: !reply.issue.some((issue) => issue.severity === 'error' || issue.severity === 'fatal'),
+      messages: reply.issue.map((issue) => issue.diagnostics ?? issue.severity),
+    };
+  }
+
+  const msa = String(reply ?? '')
+    .split(/\r\n|\r|\n/)
+    .find((segment) => segment.startsWith('MSA'));
+  if (!msa) return { accepted: false, messages: ['Unexpected reply from the lab interface'] };
+
+  const [, code, , text = ''] = msa.split(msa[3]);
+  return { accepted: code === 'AA', messages: text.split('; ').filter(Boolean) };
+}
+
+/**
+ * Sends an HL7 v2 ORU^R01 or FHIR file to the ingest-labs function as the
+ * signed-in user. Patients are matched by the patient id in the file, which
+ * may not be the patient on screen.
+ */
+export async function importLabFile(file: File): Promise<LabImportResult> {
+  const text = await file.text();
+  const hl7 = file.name.toLowerCase().endsWith('.hl7') || text.trimStart().startsWith('MSH');
+
+  const { data, error } = await supabase.functions.invoke('ingest-labs', {
+    body: text,
+    headers: { 'Content-Type': hl7 ? 'x-application/hl7-v2+er7' : 'application/fhir+json' },
+  });
+  if (error && !(error instanceof FunctionsHttpError)) throw error;
+
+  // Rejected messages still carry an ACK or OperationOutcome explaining why.
+  // application/fhir+json comes back as text, so FHIR replies are parsed here.
+  const reply: unknown = error ? await error.context.text() : data;
+  return summarizeLabImport(!hl7 && typeof reply === 'string' ? JSON.parse(reply) : reply);
+}
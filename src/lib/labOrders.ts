@@ -0,0 +1,66 @@
+import type { Tables } from '@/integrations/supabase/types';
+
+export type LabOrder = Tables<'lab_orders'>;
+export type LabOrderStatus = 'ordered' | 'collected' | 'in_lab' | 'resulted' | 'reviewed' | 'cancelled';
+export type LabOrderPriority = 'routine' | 'urgent' | 'stat';
+
+export interface LabOrderTurnaround {
+  ageMinutes: number;
+  thresholdMinutes: number;
+  overdue: boolean;
+}
+
+// The lifecycle in order; cancelled sits outside it
+export const LAB_ORDER_STEPS: { status: LabOrderStatus; label: string }[] = [
+  { status: 'ordered', label: 'Ordered' },
+  { status: 'collected', label: 'Collected' },
+  { status: 'in_lab', label: 'In lab' },
+  { status: 'resulted', label: 'Resulted' },
+  { status: 'reviewed', label: 'Reviewed' },
+];
+
+export const LAB_ORDER_PRIORITIES: { value: LabOrderPriority; label: string }[] = [
+  { value: 'routine', label: 'Routine' },
+  { value: 'urgent', label: 'Urgent' },
+  { value: 'stat', label: 'STAT' },
+];
+
+// Expected time from order to result; older outstanding orders are flagged
+export const LAB_TURNAROUND_MINUTES: Record<LabOrderPriority, number> = {
+  stat: 60,
+  urgent: 4 * 60,
+  routine: 24 * 60,
+};
+
+// Orders still waiting on the specimen, the lab or a clinician
+export const OPEN_LAB_ORDER_STATUSES: LabOrderStatus[] = ['ordered', 'collected', 'in_lab', 'resulted'];
+
+const MINUTE_MS = 60 * 1000;
+
+export const labOrderStatusLabel = (status: string) =>
+  status === 'cancelled' ? 'Cancelled' : LAB_ORDER_STEPS.find((step) => step.status === status)?.label ?? status;
+
+/** The next step in the lifecycle, or null once reviewed or cancelled. The database enforces the same order. */
+export function nextLabOrderStatus(status: string): LabOrderStatus | null {
+  const index = LAB_ORDER_STEPS.findIndex((step) => step.status === status);
+  return index === -1 || index === LAB_ORDER_STEPS.length - 1 ? null : LAB_ORDER_STEPS[index + 1].status;
+}
+
+// Only orders still waiting on results count against the turnaround time
+export function labOrderTurnaround(
+  order: Pick<LabOrder, 'ordered_at' | 'priority' | 'status'>,
+  now: number = Date.now()
+): LabOrderTurnaround {
+  const thresholdMinutes = LAB_TURNAROUND_MINUTES[order.priority as LabOrderPriority] ?? LAB_TURNAROUND_MINUTES.routine;
+  const ageMinutes = Math.max(0, Math.round((now - new Date(order.ordered_at).getTime()) / MINUTE_MS));
+  const awaitingResults = ['ordered', 'collected', 'in_lab'].includes(order.status);
+  return { ageMinutes, thresholdMinutes, overdue: awaitingResults && ageMinutes > thresholdMinutes };
+}
+
+// Panels are the lab_test_types categories; each order covers every test in one
+export function groupPanels<T extends { category: string }>(testTypes: T[]): Record<string, T[]> {
+  return testTypes.reduce<Record<string, T[]>>((panels, test) => {
+    panels[test.category] = [...(panels[test.category] ?? []), test];
+    return panels;
+  }, {});
+}
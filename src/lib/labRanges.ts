@@ -0,0 +1,70 @@
+import type { Tables } from '@/integrations/supabase/types';
+
+// Same vocabulary as lab_results.status
+export type LabFlag = 'normal' | 'low' | 'high' | 'critical_low' | 'critical_high';
+
+export type LabReferenceRangeRow = Pick<
+  Tables<'lab_reference_ranges'>,
+  'sex' | 'min_age_years' | 'max_age_years' | 'min_normal' | 'max_normal' | 'critical_low' | 'critical_high'
+>;
+
+export interface LabRange {
+  min_normal: number | null;
+  max_normal: number | null;
+  critical_low: number | null;
+  critical_high: number | null;
+}
+
+// A test type as selected with lab_test_types(*, lab_reference_ranges(*))
+export type LabTestTypeWithRanges = LabRange & { lab_reference_ranges?: LabReferenceRangeRow[] | null };
+
+export interface LabPatient {
+  gender?: string | null;
+  age?: number | null;
+}
+
+// Narrower bands first: the later start, then the earlier end
+const byBand = (a: LabReferenceRangeRow, b: LabReferenceRangeRow) =>
+  b.min_age_years - a.min_age_years || (a.max_age_years ?? Infinity) - (b.max_age_years ?? Infinity);
+
+/**
+ * The reference range for this patient: a sex-specific range before an 'all'
+ * one, then the narrowest age band. Patients of unknown age only match ranges
+ * covering every age. Falls back to the test type's own limits when no range
+ * matches.
+ */
+export function selectLabRange(testType: LabTestTypeWithRanges, patient?: LabPatient | null): LabRange {
+  const sex = patient?.gender === 'male' || patient?.gender === 'female' ? patient.gender : null;
+  const age = patient?.age ?? null;
+
+  const match = (testType.lab_reference_ranges ?? [])
+    .filter((row) => row.sex === 'all' || row.sex === sex)
+    .filter((row) =>
+      age === null
+        ? row.min_age_years === 0 && row.max_age_years === null
+        : age >= row.min_age_years && (row.max_age_years === null || age < row.max_age_years)
+    )
+    .sort((a, b) => Number(a.sex === 'all') - Number(b.sex === 'all') || byBand(a, b))[0];
+
+  const source = match ?? testType;
+  return {
+    min_normal: source.min_normal,
+    max_normal: source.max_normal,
+    critical_low: source.critical_low,
+    critical_high: source.critical_high,
+  };
+}
+
+// Critical limits win over the normal range; a missing limit is not checked
+export function labFlag(value: number, range: LabRange): LabFlag {
+  if (range.critical_low !== null && value < range.critical_low) return 'critical_low';
+  if (range.critical_high !== null && value > range.critical_high) return 'critical_high';
+  if (range.min_normal !== null && value < range.min_normal) return 'low';
+  if (range.max_normal !== null && value > range.max_normal) return 'high';
+  return 'normal';
+}
+
+export const formatLabRange = (range: LabRange) =>
+  range.min_normal === null && range.max_normal === null
+    ? 'No range'
+    : `${range.min_normal ?? ''}-${range.max_normal ?? ''}`;
@@ -0,0 +1,139 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { GrayscaleImage } from '@/lib/imageRegistration';
+import type { AnnotationPoint, MeasurementKind, MeasurementPayload } from '@/types/medical';
+
+// Row spacing, column spacing in mm (DICOM PixelSpacing order)
+export type PixelSpacing = [number, number];
+
+export interface ImageSize {
+  width: number;
+  height: number;
+}
+
+export const MEASUREMENT_LABELS: Record<MeasurementKind, string> = {
+  ruler: 'Distance',
+  angle: 'Angle',
+  ellipse: 'Ellipse ROI',
+};
+
+// Without spacing, measurements fall back to image pixels
+function toPhysical(point: AnnotationPoint, size: ImageSize, spacing: PixelSpacing | null) {
+  return {
+    x: (point.x / 100) * size.width * (spacing ? spacing[1] : 1),
+    y: (point.y / 100) * size.height * (spacing ? spacing[0] : 1),
+  };
+}
+
+export function measureDistance(
+  a: AnnotationPoint,
+  b: AnnotationPoint,
+  size: ImageSize,
+  spacing: PixelSpacing | null
+): Pick<MeasurementPayload, 'value' | 'unit'> {
+  const p = toPhysical(a, size, spacing);
+  const q = toPhysical(b, size, spacing);
+  return { value: Math.hypot(q.x - p.x, q.y - p.y), unit: spacing ? 'mm' : 'px' };
+}
+
+// Angle at the vertex between the two arms, in degrees
+export function measureAngle(
+  arm1: AnnotationPoint,
+  vertex: AnnotationPoint,
+  arm2: AnnotationPoint,
+  size: ImageSize,
+  spacing: PixelSpacing | null
+): Pick<MeasurementPayload, 'value' | 'unit'> {
+  const v = toPhysical(vertex, size, spacing);
+  const p = toPhysical(arm1, size, spacing);
+  const q = toPhysical(arm2, size, spacing);
+  const a = Math.atan2(p.y - v.y, p.x - v.x);
+  const b = Math.atan2(q.y - v.y, q.x - v.x);
+  let degrees = Math.abs(((a - b) * 180) / Math.PI);
+  if (degrees > 180) degrees = 360 - degrees;
+  return { value: degrees, unit: '°' };
+}
+
+export function measureEllipseArea(
+  corner1: AnnotationPoint,
+  corner2: AnnotationPoint,
+  size: ImageSize,
+  spacing: PixelSpacing | null
+): Pick<MeasurementPayload, 'value' | 'unit'> {
+  const p = toPhysical(corner1, size, spacing);
+  const q = toPhysical(corner2, size, spacing);
+  const area = Math.PI * (Math.abs(q.x - p.x) / 2) * (Math.abs(q.y - p.y) / 2);
+  return { value: area, unit: spacing ? 'mm²' : 'px²' };
+}
+
+// Averages the grey values of the pixels whose centres fall inside the ellipse
+export function ellipseMeanIntensity(image: GrayscaleImage, corner1: AnnotationPoint, corner2: AnnotationPoint): number | null {
+  const left = (Math.min(corner1.x, corner2.x) / 100) * image.width;
+  const right = (Math.max(corner1.x, corner2.x) / 100) * image.width;
+  const top = (Math.min(corner1.y, corner2.y) / 100) * image.height;
+  const bottom = (Math.max(corner1.y, corner2.y) / 100) * image.height;
+  const cx = (left + right) / 2;
+  const cy = (top + bottom) / 2;
+  const rx = (right - left) / 2;
+  const ry = (bottom - top) / 2;
+  if (rx <= 0 || ry <= 0) return null;
+
+  let sum = 0;
+  let count = 0;
+  for (let y = Math.max(0, Math.floor(top)); y < Math.min(image.height, Math.ceil(bottom)); y++) {
+    for (let x = Math.max(0, Math.floor(left)); x < Math.min(image.width, Math.ceil(right)); x++) {
+      const nx = (x + 0.5 - cx) / rx;
+      const ny = (y + 0.5 - cy) / ry;
+      if (nx * nx + ny * ny > 1) continue;
+      const value = image.pixels[y * image.width + x];
+      if (Number.isNaN(value)) continue;
+      sum += value;
+      count++;
+    }
+  }
+  return count > 0 ? sum / count : null;
+}
+
+/**
+ * Recomputes a stored measurement with the current calibration, so a scan
+ * calibrated after measuring still reports millimetres.
+ */
+export function computeMeasurement(
+  payload: MeasurementPayload,
+  size: ImageSize | null,
+  spacing: PixelSpacing | null
+): Pick<MeasurementPayload, 'value' | 'unit'> {
+  if (!size) return { value: payload.value, unit: payload.unit };
+  const [a, b, c] = payload.points;
+  if (payload.kind === 'ruler') return measureDistance(a, b, size, spacing);
+  if (payload.kind === 'angle') return measureAngle(a, b, c, size, spacing);
+  return measureEllipseArea(a, b, size, spacing);
+}
+
+export function formatMeasurement({ value, unit }: Pick<MeasurementPayload, 'value' | 'unit'>): string {
+  if (unit === '°') return `${value.toFixed(1)}°`;
+  return `${value.toFixed(unit === 'px' || unit === 'px²' ? 0 : 1)} ${unit}`;
+}
+
+export function parseMeasurementPayload(raw: unknown): MeasurementPayload | null {
+  if (!raw || typeof raw !== 'object') return null;
+  const payload = raw as Partial<MeasurementPayload>;
+  if (!payload.kind || !(payload.kind in MEASUREMENT_LABELS) || !Array.isArray(payload.points)) return null;
+  return payload as MeasurementPayload;
+}
+
+// Manual calibration assumes square pixels
+export function calibrateSpacing(a: AnnotationPoint, b: AnnotationPoint, size: ImageSize, lengthMm: number): PixelSpacing | null {
+  const pixels = measureDistance(a, b, size, null).value;
+  if (pixels <= 0 || lengthMm <= 0) return null;
+  const spacing = lengthMm / pixels;
+  return [spacing, spacing];
+}
+
+export async function saveScanPixelSpacing(scanId: string, spacing: PixelSpacing) {
+  const { error } = await supabase
+    .from('medical_scans')
+    .update({ pixel_spacing: spacing })
+    .eq('id', scanId);
+
+  if (error) throw error;
+}
@@ -0,0 +1,168 @@
+import type { Tables } from '@/integrations/supabase/types';
+
+// 0-10 numeric rating scale, or FLACC for children who cannot self-report
+export type PainScale = 'nrs' | 'flacc';
+export type FlaccCategory = 'face' | 'legs' | 'activity' | 'cry' | 'consolability';
+export type GcsComponent = 'eye' | 'verbal' | 'motor';
+export type PainSeverity = 'none' | 'mild' | 'moderate' | 'severe';
+export type GcsSeverity = 'normal' | 'mild' | 'moderate' | 'severe';
+
+export type FlaccScores = Record<FlaccCategory, number | null>;
+export type GcsScores = Record<GcsComponent, number | null>;
+
+export interface PainObservation {
+  scale: PainScale;
+  score: number;
+}
+
+export const PAIN_SCALE_LABELS: Record<PainScale, string> = {
+  nrs: 'Numeric rating (0-10)',
+  flacc: 'FLACC (behavioural)',
+};
+
+// Descriptors for scores 0, 1 and 2
+export const FLACC_CATEGORIES: Record<FlaccCategory, { label: string; descriptors: [string, string, string] }> = {
+  face: {
+    label: 'Face',
+    descriptors: ['No expression or smile', 'Occasional grimace, withdrawn', 'Frequent frown, clenched jaw'],
+  },
+  legs: {
+    label: 'Legs',
+    descriptors: ['Normal position or relaxed', 'Uneasy, restless, tense', 'Kicking or legs drawn up'],
+  },
+  activity: {
+    label: 'Activity',
+    descriptors: ['Lying quietly, moves easily', 'Squirming, shifting, tense', 'Arched, rigid or jerking'],
+  },
+  cry: {
+    label: 'Cry',
+    descriptors: ['No cry', 'Moans or whimpers', 'Crying steadily, screams, sobs'],
+  },
+  consolability: {
+    label: 'Consolability',
+    descriptors: ['Content, relaxed', 'Reassured by touch or talking', 'Difficult to console'],
+  },
+};
+
+// Descriptors indexed by score - 1
+export const GCS_COMPONENTS: Record<GcsComponent, { label: string; prefix: string; descriptors: string[] }> = {
+  eye: {
+    label: 'Eye opening',
+    prefix: 'E',
+    descriptors: ['None', 'To pressure', 'To sound', 'Spontaneous'],
+  },
+  verbal: {
+    label: 'Verbal response',
+    prefix: 'V',
+    descriptors: ['None', 'Sounds', 'Words', 'Confused', 'Orientated'],
+  },
+  motor: {
+    label: 'Motor response',
+    prefix: 'M',
+    descriptors: ['None', 'Extension', 'Abnormal flexion', 'Normal flexion', 'Localising', 'Obeys commands'],
+  },
+};
+
+export const EMPTY_FLACC: FlaccScores = { face: null, legs: null, activity: null, cry: null, consolability: null };
+export const EMPTY_GCS: GcsScores = { eye: null, verbal: null, motor: null };
+
+// FLACC is validated up to seven years; older children can usually use the numeric scale
+export function defaultPainScale(age: number | null | undefined): PainScale {
+  return age !== null && age !== undefined && age < 8 ? 'flacc' : 'nrs';
+}
+
+export function flaccTotal(scores: FlaccScores): number | null {
+  const values = Object.values(scores);
+  if (values.some((v) => v === null)) return null;
+  return values.reduce<number>((sum, v) => sum + (v ?? 0), 0);
+}
+
+export function gcsTotal(scores: GcsScores): number | null {
+  if (scores.eye === null || scores.verbal === null || scores.motor === null) return null;
+  return scores.eye + scores.verbal + scores.motor;
+}
+
+export function painSeverity(score: number): PainSeverity {
+  if (score >= 7) return 'severe';
+  if (score >= 4) return 'moderate';
+  if (score >= 1) return 'mild';
+  return 'none';
+}
+
+// Conventional head injury bands: 13-14 mild, 9-12 moderate, 8 or below severe
+export function gcsSeverity(total: number): GcsSeverity {
+  if (total <= 8) return 'severe';
+  if (total <= 12) return 'moderate';
+  if (total <= 14) return 'mild';
+  return 'normal';
+}
+
+export function formatGcs(scores: GcsScores): string {
+  const total = gcsTotal(scores);
+  if (total === null) return '-';
+  return `${total} (E${scores.eye} V${scores.verbal} M${scores.motor})`;
+}
+
+export function formatPain(pain: PainObservation | null): string {
+  if (!pain) return '-';
+  return `${pain.score}/10 ${pain.scale === 'flacc' ? 'FLACC' : 'NRS'}`;
+}
+
+/**
+ * Checks a pain entry before saving. Partly completed FLACC or GCS
+ * assessments are rejected rather than saved with missing components.
+ */
+export function validatePain(scale: PainScale, nrs: string, flacc: FlaccScores): string | null {
+  if (scale === 'nrs') {
+    if (nrs === '') return null;
+    const score = Number(nrs);
+    return Number.isInteger(score) && score >= 0 && score <= 10 ? null : 'Pain score must be a whole number from 0 to 10';
+  }
+  const filled = Object.values(flacc).filter((v) => v !== null).length;
+  return filled === 0 || filled === 5 ? null : 'Score all five FLACC categories';
+}
+
+export function validateGcs(scores: GcsScores): string | null {
+  const filled = Object.values(scores).filter((v) => v !== null).length;
+  return filled === 0 || filled === 3 ? null : 'Score eye, verbal and motor responses together';
+}
+
+// Form state for the pain and GCS inputs
+export interface PainNeuroState {
+  painScale: PainScale;
+  // Numeric rating as typed
+  nrs: string;
+  flacc: FlaccScores;
+  gcs: GcsScores;
+}
+
+export const emptyPainNeuro = (age?: number | null): PainNeuroState => ({
+  painScale: defaultPainScale(age),
+  nrs: '',
+  flacc: { ...EMPTY_FLACC },
+  gcs: { ...EMPTY_GCS },
+});
+
+// The pain score to save; null when pain was not assessed
+export function painScoreFromState(state: PainNeuroState): number | null {
+  if (state.painScale === 'flacc') return flaccTotal(state.flacc);
+  return state.nrs === '' ? null : Number(state.nrs);
+}
+
+export function validatePainNeuro(state: PainNeuroState): string | null {
+  return validatePain(state.painScale, state.nrs, state.flacc) ?? validateGcs(state.gcs);
+}
+
+type NeuroRow = Pick<
+  Tables<'vitals'>,
+  'pain_scale' | 'pain_score' | 'gcs_eye' | 'gcs_verbal' | 'gcs_motor'
+>;
+
+export function painFromRow(row: NeuroRow): PainObservation | null {
+  if (row.pain_score === null || (row.pain_scale !== 'nrs' && row.pain_scale !== 'flacc')) return null;
+  return { scale: row.pain_scale, score: row.pain_score };
+}
+
+export function gcsFromRow(row: NeuroRow): GcsScores {
+  return { eye: row.gcs_eye, verbal: row.gcs_verbal, motor: row.gcs_motor };
+}
@@ -0,0 +1,216 @@
+import type { Tables } from '@/integrations/supabase/types';
+
+// Alert, new Confusion, responds to Voice, responds to Pain, Unresponsive
+export type Consciousness = 'A' | 'C' | 'V' | 'P' | 'U';
+export type Spo2Scale = 1 | 2;
+export type News2Risk = 'low' | 'low-medium' | 'medium' | 'high';
+
+// NEWS2 is validated for adults only; the database leaves younger patients unscored
+export const NEWS2_MIN_AGE = 16;
+
+export const CONSCIOUSNESS_LABELS: Record<Consciousness, string> = {
+  A: 'Alert',
+  C: 'New confusion',
+  V: 'Voice',
+  P: 'Pain',
+  U: 'Unresponsive',
+};
+
+export interface News2Input {
+  respiratoryRate: number | null;
+  spo2: number | null;
+  spo2Scale: Spo2Scale;
+  onOxygen: boolean;
+  systolic: number | null;
+  heartRate: number | null;
+  consciousness: Consciousness;
+  temperature: number | null;
+  // Unknown ages are scored, like the adult fallback of getAgeBand
+  age?: number | null;
+}
+
+export interface News2ParameterScore {
+  parameter: 'respiratory_rate' | 'spo2' | 'oxygen' | 'systolic' | 'heart_rate' | 'consciousness' | 'temperature';
+  label: string;
+  score: number;
+  recorded: boolean;
+}
+
+export interface News2Result {
+  // False under NEWS2_MIN_AGE, where nothing is scored and the total is 0
+  applicable: boolean;
+  total: number;
+  parameters: News2ParameterScore[];
+  // A single parameter scoring 3
+  redFlag: boolean;
+  // Every parameter was recorded
+  complete: boolean;
+  risk: News2Risk;
+  response: string;
+}
+
+export const NEWS2_RESPONSES: Record<News2Risk, string> = {
+  low: 'Continue routine NEWS2 monitoring; assessment by a registered nurse.',
+  'low-medium': 'Urgent ward-based review by a clinician to decide on escalation.',
+  medium: 'Urgent review by a clinician competent in assessing acutely ill patients.',
+  high: 'Emergency assessment by a team with critical care competencies.',
+};
+
+export function news2Applies(age: number | null | undefined): boolean {
+  return age === null || age === undefined || !Number.isFinite(age) || age >= NEWS2_MIN_AGE;
+}
+
+function scoreRespiratoryRate(rr: number): number {
+  if (rr <= 8) return 3;
+  if (rr <= 11) return 1;
+  if (rr <= 20) return 0;
+  if (rr <= 24) return 2;
+  return 3;
+}
+
+// Scale 2 is for patients with hypercapnic respiratory failure and a prescribed 88-92% target
+function scoreSpo2(spo2: number, scale: Spo2Scale, onOxygen: boolean): number {
+  if (scale === 2) {
+    if (spo2 <= 83) return 3;
+    if (spo2 <= 85) return 2;
+    if (spo2 <= 87) return 1;
+    if (spo2 <= 92 || !onOxygen) return 0;
+    if (spo2 <= 94) return 1;
+    if (spo2 <= 96) return 2;
+    return 3;
+  }
+  if (spo2 <= 91) return 3;
+  if (spo2 <= 93) return 2;
+  if (spo2 <= 95) return 1;
+  return 0;
+}
+
+function scoreSystolic(systolic: number): number {
+  if (systolic <= 90) return 3;
+  if (systolic <= 100) return 2;
+  if (systolic <= 110) return 1;
+  if (systolic <= 219) return 0;
+  return 3;
+}
+
+function scoreHeartRate(hr: number): number {
+  if (hr <= 40) return 3;
+  if (hr <= 50) return 1;
+  if (hr <= 90) return 0;
+  if (hr <= 110) return 1;
+  if (hr <= 130) return 2;
+  return 3;
+}
+
+function scoreTemperature(temp: number): number {
+  if (temp <= 35) return 3;
+  if (temp <= 36) return 1;
+  if (temp <= 38) return 0;
+  if (temp <= 39) return 1;
+  return 2;
+}
+
+export function news2Risk(total: number, redFlag: boolean): News2Risk {
+  if (total >= 7) return 'high';
+  if (total >= 5) return 'medium';
+  if (redFlag) return 'low-medium';
+  return 'low';
+}
+
+/**
+ * Scores one set of observations with the NEWS2 chart. Parameters that were
+ * not recorded score 0, so check `complete` before relying on a low score.
+ * The database computes the same score on insert (see calculate_news2).
+ */
+export function calculateNews2(input: News2Input): News2Result {
+  if (!news2Applies(input.age)) {
+    return {
+      applicable: false,
+      total: 0,
+      parameters: [],
+      redFlag: false,
+      complete: false,
+      risk: 'low',
+      response: `NEWS2 is not validated under ${NEWS2_MIN_AGE}; use the paediatric early warning chart.`,
+    };
+  }
+
+  const measured = (
+    parameter: News2ParameterScore['parameter'],
+    label: string,
+    value: number | null,
+    score: (value: number) => number
+  ): News2ParameterScore => ({
+    parameter,
+    label,
+    score: value === null ? 0 : score(value),
+    recorded: value !== null,
+  });
+
+  const parameters: News2ParameterScore[] = [
+    measured('respiratory_rate', 'Respiration rate', input.respiratoryRate, scoreRespiratoryRate),
+    measured('spo2', `SpO₂ (scale ${input.spo2Scale})`, input.spo2, (v) => scoreSpo2(v, input.spo2Scale, input.onOxygen)),
+    { parameter: 'oxygen', label: input.onOxygen ? 'Oxygen' : 'Air', score: input.onOxygen ? 2 : 0, recorded: true },
+    measured('systolic', 'Systolic BP', input.systolic, scoreSystolic),
+    measured('heart_rate', 'Pulse', input.heartRate, scoreHeartRate),
+    {
+      parameter: 'consciousness',
+      label: CONSCIOUSNESS_LABELS[input.consciousness],
+      score: input.consciousness === 'A' ? 0 : 3,
+      recorded: true,
+    },
+    measured('temperature', 'Temperature', input.temperature, scoreTemperature),
+  ];
+
+  const total = parameters.reduce((sum, p) => sum + p.score, 0);
+  const redFlag = parameters.some((p) => p.score === 3);
+  const risk = news2Risk(total, redFlag);
+
+  return {
+    applicable: true,
+    total,
+    parameters,
+    redFlag,
+    complete: parameters.every((p) => p.recorded),
+    risk,
+    response: NEWS2_RESPONSES[risk],
+  };
+}
+
+export function news2RequiresEscalation(result: Pick<News2Result, 'total' | 'redFlag'>): boolean {
+  return result.total >= 5 || result.redFlag;
+}
+
+/**
+ * Minimum observation frequency from the NEWS2 clinical response chart, in
+ * minutes. A score of 7 or more calls for continuous monitoring, which the
+ * ward board treats as observations every 15 minutes. Patients too young for
+ * NEWS2 stay on the routine 12-hourly minimum.
+ */
+export function news2ObservationIntervalMinutes(result: Pick<News2Result, 'applicable' | 'total' | 'redFlag'>): number {
+  if (!result.applicable) return 12 * 60;
+  if (result.total >= 7) return 15;
+  if (news2RequiresEscalation(result)) return 60;
+  if (result.total >= 1) return 4 * 60;
+  return 12 * 60;
+}
+
+type News2Row = Pick<
+  Tables<'vitals'>,
+  'respiratory_rate' | 'spo2' | 'spo2_scale' | 'on_oxygen' | 'blood_pressure_systolic' | 'heart_rate' | 'consciousness' | 'temperature'
+>;
+
+export function news2InputFromRow(row: News2Row, age: number | null | undefined): News2Input {
+  const toNumber = (value: number | null) => (value === null ? null : Number(value));
+  return {
+    respiratoryRate: toNumber(row.respiratory_rate),
+    spo2: toNumber(row.spo2),
+    spo2Scale: row.spo2_scale === 2 ? 2 : 1,
+    onOxygen: row.on_oxygen,
+    systolic: toNumber(row.blood_pressure_systolic),
+    heartRate: toNumber(row.heart_rate),
+    consciousness: (row.consciousness in CONSCIOUSNESS_LABELS ? row.consciousness : 'A') as Consciousness,
+    temperature: toNumber(row.temperature),
+    age,
+  };
+}
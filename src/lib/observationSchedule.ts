@@ -0,0 +1,89 @@
+import { news2ObservationIntervalMinutes, type News2Result } from '@/lib/news2';
+import type { Tables } from '@/integrations/supabase/types';
+
+export interface ObservationStatus {
+  // Minutes since the last observation set; null if none was ever recorded
+  minutesSince: number | null;
+  intervalMinutes: number;
+  dueAt: number | null;
+  overdue: boolean;
+  overdueMinutes: number;
+}
+
+export const DEPARTMENTS = [
+  'Emergency',
+  'General Medicine',
+  'Cardiology',
+  'Respiratory',
+  'Surgery',
+  'Intensive Care',
+  'Paediatrics',
+  'Oncology',
+] as const;
+
+export const OBSERVATION_FREQUENCIES: { minutes: number; label: string }[] = [
+  { minutes: 15, label: 'q15min' },
+  { minutes: 30, label: 'q30min' },
+  { minutes: 60, label: 'q1h' },
+  { minutes: 120, label: 'q2h' },
+  { minutes: 240, label: 'q4h' },
+  { minutes: 360, label: 'q6h' },
+  { minutes: 480, label: 'q8h' },
+  { minutes: 720, label: 'q12h' },
+  { minutes: 1440, label: 'q24h' },
+];
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * A fixed frequency on the patient's schedule wins; otherwise observations
+ * follow the NEWS2 minimum frequency of the latest set. The database applies
+ * the same rule when sending reminders (see send_observation_reminders).
+ */
+export function scheduledIntervalMinutes(
+  schedule: Pick<Tables<'observation_schedules'>, 'interval_minutes'> | null | undefined,
+  news2: Pick<News2Result, 'applicable' | 'total' | 'redFlag'> | null | undefined
+): number {
+  return (
+    schedule?.interval_minutes ??
+    news2ObservationIntervalMinutes(news2 ?? { applicable: true, total: 0, redFlag: false })
+  );
+}
+
+// A patient with no observations at all is always overdue
+export function observationStatus(
+  lastRecordedAt: string | null | undefined,
+  intervalMinutes: number,
+  now: number = Date.now()
+): ObservationStatus {
+  if (!lastRecordedAt) {
+    return { minutesSince: null, intervalMinutes, dueAt: null, overdue: true, overdueMinutes: 0 };
+  }
+
+  const last = new Date(lastRecordedAt).getTime();
+  const minutesSince = Math.max(0, Math.floor((now - last) / MINUTE_MS));
+  const overdueMinutes = Math.max(0, minutesSince - intervalMinutes);
+
+  return {
+    minutesSince,
+    intervalMinutes,
+    dueAt: last + intervalMinutes * MINUTE_MS,
+    overdue: minutesSince > intervalMinutes,
+    overdueMinutes,
+  };
+}
+
+// Compact elapsed time for tiles, e.g. "45m", "3h 20m", "2d 4h"
+export function formatElapsed(minutes: number): string {
+  if (minutes < 60) return `${minutes}m`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return minutes % 60 ? `${hours}h ${minutes % 60}m` : `${hours}h`;
+  const days = Math.floor(hours / 24);
+  return hours % 24 ? `${days}d ${hours % 24}h` : `${days}d`;
+}
+
+export function formatInterval(minutes: number): string {
+  if (minutes < 60) return `every ${minutes} min`;
+  const hours = minutes / 60;
+  return hours === 1 ? 'hourly' : `every ${hours} h`;
+}
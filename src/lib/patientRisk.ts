@@ -0,0 +1,116 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import type { RiskInput, RiskLabInput, RiskScanInput, RiskVitalsInput } from '@/lib/riskEngine';
+
+type VitalsRow = Pick<
+  Tables<'vitals'>,
+  | 'spo2'
+  | 'temperature'
+  | 'heart_rate'
+  | 'respiratory_rate'
+  | 'blood_pressure_systolic'
+  | 'blood_pressure_diastolic'
+  | 'smoking_history'
+  | 'pain_score'
+  | 'gcs_total'
+>;
+type ScanRow = Pick<Tables<'medical_scans'>, 'diagnosis_probability' | 'abnormality_score'>;
+
+interface LabRow {
+  test_type_id: string;
+  status: string;
+  lab_test_types: { name: string } | null;
+}
+
+interface RiskPatient {
+  id: string;
+  age: number | null;
+  chronic_conditions: string[] | null;
+}
+
+const toNumber = (value: number | null) => (value === null ? null : Number(value));
+
+export function riskVitalsFromRow(row: VitalsRow): RiskVitalsInput {
+  return {
+    spo2: toNumber(row.spo2),
+    temperature: toNumber(row.temperature),
+    heartRate: toNumber(row.heart_rate),
+    respiratoryRate: toNumber(row.respiratory_rate),
+    bloodPressureSystolic: toNumber(row.blood_pressure_systolic),
+    bloodPressureDiastolic: toNumber(row.blood_pressure_diastolic),
+    painScore: toNumber(row.pain_score),
+    gcsTotal: toNumber(row.gcs_total),
+  };
+}
+
+export function riskScanFromRow(row: ScanRow): RiskScanInput {
+  return {
+    diagnosisProbability: toNumber(row.diagnosis_probability),
+    abnormalityScore: toNumber(row.abnormality_score),
+  };
+}
+
+const toRiskLab = (row: LabRow): RiskLabInput => ({ name: row.lab_test_types?.name || 'Lab', status: row.status });
+
+export function buildRiskInput(
+  patient: Omit<RiskPatient, 'id'> | null,
+  vitals: VitalsRow | null | undefined,
+  scan: ScanRow | null | undefined,
+  labs: RiskLabInput[]
+): RiskInput {
+  return {
+    age: patient?.age ?? null,
+    chronicConditions: patient?.chronic_conditions ?? [],
+    smokingHistory: vitals?.smoking_history ?? false,
+    vitals: vitals ? riskVitalsFromRow(vitals) : null,
+    scan: scan ? riskScanFromRow(scan) : null,
+    labs,
+  };
+}
+
+// Only the most recent result of each test counts
+export async function fetchLatestLabs(patientId: string): Promise<RiskLabInput[]> {
+  const { data, error } = await supabase
+    .rpc('latest_lab_results', { _patient_ids: [patientId] })
+    .select('test_type_id, status, lab_test_types(name)');
+
+  if (error) {
+    console.error('Error fetching lab results:', error);
+    return [];
+  }
+  return (data || []).map(toRiskLab);
+}
+
+/**
+ * Loads the latest vitals, scan and lab results for each patient and returns
+ * the risk engine input keyed by patient id.
+ */
+export async function fetchRiskInputs(patients: RiskPatient[]): Promise<Record<string, RiskInput>> {
+  if (patients.length === 0) return {};
+  const ids = patients.map((p) => p.id);
+
+  const [vitalsRes, scansRes, labsRes] = await Promise.all([
+    supabase
+      .rpc('latest_vitals', { _patient_ids: ids })
+      .select(
+        'patient_id, spo2, temperature, heart_rate, respiratory_rate, blood_pressure_systolic, blood_pressure_diastolic, smoking_history, pain_score, gcs_total'
+      ),
+    supabase
+      .rpc('latest_medical_scans', { _patient_ids: ids })
+      .select('patient_id, diagnosis_probability, abnormality_score'),
+    supabase
+      .rpc('latest_lab_results', { _patient_ids: ids })
+      .select('patient_id, test_type_id, status, lab_test_types(name)'),
+  ]);
+
+  const error = vitalsRes.error || scansRes.error || labsRes.error;
+  if (error) console.error('Error fetching risk inputs:', error);
+
+  return patients.reduce<Record<string, RiskInput>>((acc, patient) => {
+    const vitals = (vitalsRes.data || []).find((v) => v.patient_id === patient.id);
+    const scan = (scansRes.data || []).find((s) => s.patient_id === patient.id);
+    const labs = (labsRes.data || []).filter((l) => l.patient_id === patient.id).map(toRiskLab);
+    acc[patient.id] = buildRiskInput(patient, vitals, scan, labs);
+    return acc;
+  }, {});
+}
@@ -1,5 +1,25 @@
 import jsPDF from 'jspdf';
 import autoTable from 'jspdf-autotable';
+import {
+  formatGcs,
+  formatPain,
+  gcsSeverity,
+  gcsTotal,
+  painSeverity,
+  type GcsScores,
+  type PainObservation,
+} from '@/lib/neuroObservations';
+import { RISK_DOMAIN_LABELS } from '@/lib/riskEngine';
+import {
+  classifyVital,
+  describeVitalFlag,
+  formatVitalRange,
+  formatVitalValue,
+  getAgeBand,
+  isAbnormalFlag,
+  type VitalParameter,
+} from '@/lib/vitalRanges';
+import type { RiskAssessment, ScanFinding } from '@/types/medical';
 
 interface PatientData {
   name: string;
@@ -18,6 +38,8 @@ interface VitalsData {
   bloodPressureSystolic: number;
   bloodPressureDiastolic: number;
   smokingHistory: boolean;
+  pain?: PainObservation | null;
+  gcs?: GcsScores;
   recordedAt: string;
 }
 
@@ -30,14 +52,15 @@ interface ScanData {
   riskLevel: string;
   aiExplanation: string;
   aiFactors: string[];
+  primaryDiagnosis?: string | null;
+  differentialDiagnoses?: string[];
+  findings?: ScanFinding[];
   createdAt: string;
 }
 
-interface RiskAssessment {
-  overallRisk: string;
-  fusedScore: number;
-  explanation: string;
-  factors: string[];
+// jspdf-autotable records the end of the last table on the document instance
+function getLastTableY(doc: jsPDF): number {
+  return (doc as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable.finalY;
 }
 
 export function generateAnalysisReport(
@@ -105,7 +128,7 @@ export function generateAnalysisReport(
     margin: { left: 20, right: 20 },
   });
 
-  yPos = (doc as any).lastAutoTable.finalY + 15;
+  yPos = getLastTableY(doc) + 15;
 
   // Vitals Section (if available)
   if (vitals) {
@@ -116,18 +139,50 @@ export function generateAnalysisReport(
 
     yPos += 10;
 
+    // Status is judged against the patient's age band; 0 means the value was not recorded
+    const band = getAgeBand(patient.age);
+    const vitalRow = (label: string, parameter: VitalParameter, value: number) => [
+      label,
+      value ? formatVitalValue(parameter, value) : '-',
+      formatVitalRange(parameter, band),
+      describeVitalFlag(classifyVital(parameter, value || null, band), band),
+    ];
+    const systolicFlag = classifyVital('systolic', vitals.bloodPressureSystolic || null, band);
+    const diastolicFlag = classifyVital('diastolic', vitals.bloodPressureDiastolic || null, band);
+    const pain = vitals.pain ?? null;
+    const gcs = vitals.gcs ? gcsTotal(vitals.gcs) : null;
+    const painStatus = pain ? painSeverity(pain.score) : null;
+    const gcsStatus = gcs === null ? null : gcsSeverity(gcs);
+
     const vitalsData = [
-      ['SpO₂', `${vitals.spO2}%`, vitals.spO2 < 94 ? 'LOW' : 'Normal'],
-      ['Temperature', `${vitals.temperature}°C`, vitals.temperature > 38 ? 'ELEVATED' : 'Normal'],
-      ['Heart Rate', `${vitals.heartRate} bpm`, vitals.heartRate > 100 || vitals.heartRate < 60 ? 'ABNORMAL' : 'Normal'],
-      ['Respiratory Rate', `${vitals.respiratoryRate} /min`, vitals.respiratoryRate > 20 ? 'ELEVATED' : 'Normal'],
-      ['Blood Pressure', `${vitals.bloodPressureSystolic}/${vitals.bloodPressureDiastolic} mmHg`, 'Recorded'],
-      ['Smoking History', vitals.smokingHistory ? 'Yes' : 'No', vitals.smokingHistory ? 'Risk Factor' : '-'],
+      vitalRow('SpO₂', 'spo2', vitals.spO2),
+      vitalRow('Temperature', 'temperature', vitals.temperature),
+      vitalRow('Heart Rate', 'heartRate', vitals.heartRate),
+      vitalRow('Respiratory Rate', 'respiratoryRate', vitals.respiratoryRate),
+      [
+        'Blood Pressure',
+        vitals.bloodPressureSystolic ? `${vitals.bloodPressureSystolic}/${vitals.bloodPressureDiastolic} mmHg` : '-',
+        `${band.ranges.systolic.min}-${band.ranges.systolic.max}/${band.ranges.diastolic.min}-${band.ranges.diastolic.max} mmHg`,
+        describeVitalFlag(isAbnormalFlag(systolicFlag) ? systolicFlag : diastolicFlag ?? systolicFlag, band),
+      ],
+      [
+        'Pain',
+        formatPain(pain),
+        '0-3 mild',
+        painStatus === null ? 'Not recorded' : painStatus === 'none' ? 'No pain' : `${painStatus.toUpperCase()} PAIN`,
+      ],
+      [
+        'Glasgow Coma Scale',
+        vitals.gcs ? formatGcs(vitals.gcs) : '-',
+        '15',
+        gcsStatus === null ? 'Not recorded' : gcsStatus === 'normal' ? 'Normal' : `${gcsStatus.toUpperCase()} IMPAIRMENT`,
+      ],
+      ['Smoking History', vitals.smokingHistory ? 'Yes' : 'No', '-', vitals.smokingHistory ? 'Risk Factor' : '-'],
     ];
 
     autoTable(doc, {
       startY: yPos,
-      head: [['Vital Sign', 'Value', 'Status']],
+      head: [['Vital Sign', 'Value', `Reference (${band.label})`, 'Status']],
       body: vitalsData,
       theme: 'striped',
       headStyles: { fillColor: [31, 182, 166], textColor: [255, 255, 255] },
@@ -135,7 +190,7 @@ export function generateAnalysisReport(
       margin: { left: 20, right: 20 },
     });
 
-    yPos = (doc as any).lastAutoTable.finalY + 15;
+    yPos = getLastTableY(doc) + 15;
   }
 
   // AI Analysis Section (if available)
@@ -169,7 +224,56 @@ export function generateAnalysisReport(
       margin: { left: 20, right: 20 },
     });
 
-    yPos = (doc as any).lastAutoTable.finalY + 15;
+    yPos = getLastTableY(doc) + 10;
+
+    if (scan.findings && scan.findings.length > 0) {
+      autoTable(doc, {
+        startY: yPos,
+        head: [['Area', 'Observation', 'Severity']],
+        body: scan.findings.map((f) => [f.area, f.observation, f.severity.toUpperCase()]),
+        theme: 'striped',
+        headStyles: { fillColor: [31, 182, 166], textColor: [255, 255, 255] },
+        styles: { fontSize: 9, cellPadding: 3 },
+        columnStyles: {
+          0: { cellWidth: 40 },
+          2: { cellWidth: 25 },
+        },
+        margin: { left: 20, right: 20 },
+      });
+
+      yPos = getLastTableY(doc) + 10;
+    }
+
+    if (scan.primaryDiagnosis || (scan.differentialDiagnoses && scan.differentialDiagnoses.length > 0)) {
+      const diagnosisData: string[][] = [];
+      if (scan.primaryDiagnosis) diagnosisData.push(['Primary Diagnosis', scan.primaryDiagnosis]);
+      if (scan.differentialDiagnoses && scan.differentialDiagnoses.length > 0) {
+        diagnosisData.push(['Differential Diagnoses', scan.differentialDiagnoses.join('\n')]);
+      }
+
+      autoTable(doc, {
+        startY: yPos,
+        head: [],
+        body: diagnosisData,
+        theme: 'plain',
+        styles: { fontSize: 10, cellPadding: 3 },
+        columnStyles: {
+          0: { fontStyle: 'bold', cellWidth: 60 },
+          1: { cellWidth: 110 },
+        },
+        margin: { left: 20, right: 20 },
+      });
+
+      yPos = getLastTableY(doc) + 10;
+    }
+
+    yPos += 5;
+  }
+
+  // Keep the risk summary and disclaimer together on one page
+  if (yPos > doc.internal.pageSize.getHeight() - 130 - risk.contributions.length * 7) {
+    doc.addPage();
+    yPos = 20;
   }
 
   // Risk Assessment Section
@@ -213,19 +317,33 @@ export function generateAnalysisReport(
 
   yPos += splitExplanation.length * 5 + 10;
 
-  // Risk factors
-  if (risk.factors.length > 0) {
-    doc.setFont('helvetica', 'bold');
-    doc.text('Contributing Factors:', 20, yPos);
-    yPos += 7;
-
-    doc.setFont('helvetica', 'normal');
-    risk.factors.forEach((factor) => {
-      doc.text(`• ${factor}`, 25, yPos);
-      yPos += 6;
+  // Per-factor contributions to the fused score
+  if (risk.contributions.length > 0) {
+    autoTable(doc, {
+      startY: yPos,
+      head: [['Domain', 'Contributing Factor', 'Points']],
+      body: risk.contributions.map((c) => [RISK_DOMAIN_LABELS[c.domain], c.label, `+${c.points}`]),
+      theme: 'striped',
+      headStyles: { fillColor: [31, 182, 166], textColor: [255, 255, 255] },
+      styles: { fontSize: 9, cellPadding: 2 },
+      columnStyles: {
+        0: { cellWidth: 30 },
+        2: { cellWidth: 20, halign: 'right' },
+      },
+      margin: { left: 20, right: 20 },
     });
+
+    yPos = getLastTableY(doc) + 6;
   }
 
+  doc.setTextColor(100, 100, 100);
+  doc.setFontSize(8);
+  doc.text(
+    `Vitals ${risk.vitalsRiskScore}% · Imaging ${risk.imageRiskScore}% · Labs ${risk.labRiskScore}% · Risk engine v${risk.engineVersion}`,
+    20,
+    yPos
+  );
+
   // Clinical Disclaimer
   yPos = doc.internal.pageSize.getHeight() - 50;
 
@@ -243,9 +361,14 @@ export function generateAnalysisReport(
   doc.text(splitDisclaimer, 20, yPos + 10);
 
   // Footer
-  doc.setTextColor(128, 128, 128);
-  doc.setFontSize(8);
-  doc.text(`MedPredict Clinical Report - Confidential - Page 1 of 1`, pageWidth / 2, doc.internal.pageSize.getHeight() - 10, { align: 'center' });
+  const pageCount = doc.getNumberOfPages();
+  for (let page = 1; page <= pageCount; page++) {
+    doc.setPage(page);
+    doc.setTextColor(128, 128, 128);
+    doc.setFontSize(8);
+    doc.setFont('helvetica', 'normal');
+    doc.text(`MedPredict Clinical Report - Confidential - Page ${page} of ${pageCount}`, pageWidth / 2, doc.internal.pageSize.getHeight() - 10, { align: 'center' });
+  }
 
   return doc;
 }
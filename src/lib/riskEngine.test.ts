@@ -0,0 +1,190 @@
+import { describe, expect, it } from 'vitest';
+import { assessRisk, RISK_ENGINE_VERSION, riskLevelForScore, type RiskVitalsInput } from '@/lib/riskEngine';
+
+const NORMAL_ADULT_VITALS: RiskVitalsInput = {
+  spo2: 98,
+  temperature: 37,
+  heartRate: 75,
+  respiratoryRate: 16,
+  bloodPressureSystolic: 120,
+  bloodPressureDiastolic: 80,
+};
+
+const pointsFor = (assessment: ReturnType<typeof assessRisk>, id: string) =>
+  assessment.contributions.find((c) => c.id === id)?.points;
+
+describe('assessRisk', () => {
+  it('scores an empty input as low risk', () => {
+    const assessment = assessRisk({});
+    expect(assessment.fusedScore).toBe(0);
+    expect(assessment.overallRisk).toBe('low');
+    expect(assessment.contributions).toEqual([]);
+    expect(assessment.explanation).toBe('Low risk profile. Continue standard monitoring.');
+  });
+
+  it('stamps the engine version', () => {
+    expect(assessRisk({}).engineVersion).toBe(RISK_ENGINE_VERSION);
+    expect(assessRisk({ vitals: NORMAL_ADULT_VITALS, age: 40 }).engineVersion).toBe(RISK_ENGINE_VERSION);
+  });
+
+  describe('vital signs', () => {
+    it('adds nothing for normal adult vitals', () => {
+      const assessment = assessRisk({ age: 40, vitals: NORMAL_ADULT_VITALS });
+      expect(assessment.vitalsRiskScore).toBe(0);
+      expect(assessment.contributions).toEqual([]);
+    });
+
+    it('scores abnormal and critical readings by direction', () => {
+      const assessment = assessRisk({ age: 40, vitals: { ...NORMAL_ADULT_VITALS, spo2: 88, heartRate: 110 } });
+      expect(pointsFor(assessment, 'spo2')).toBe(40);
+      expect(pointsFor(assessment, 'heartRate')).toBe(15);
+      expect(assessment.vitalsRiskScore).toBe(55);
+      expect(assessment.fusedScore).toBe(55);
+      expect(assessment.contributions[0].label).toBe('Critically low SpO₂ for adult (88%)');
+    });
+
+    it('counts blood pressure once, at the worse of systolic and diastolic', () => {
+      const assessment = assessRisk({
+        age: 40,
+        vitals: { ...NORMAL_ADULT_VITALS, bloodPressureSystolic: 85, bloodPressureDiastolic: 125 },
+      });
+      expect(assessment.contributions.map((c) => c.id)).toEqual(['blood_pressure']);
+      expect(pointsFor(assessment, 'blood_pressure')).toBe(30);
+    });
+
+    it('scores reduced consciousness and pain as vitals', () => {
+      const assessment = assessRisk({ age: 40, vitals: { ...NORMAL_ADULT_VITALS, gcsTotal: 8, painScore: 7 } });
+      expect(pointsFor(assessment, 'gcs')).toBe(35);
+      expect(pointsFor(assessment, 'pain')).toBe(10);
+      expect(assessment.contributions.every((c) => c.domain === 'vitals')).toBe(true);
+    });
+  });
+
+  describe('age bands', () => {
+    it('judges vitals against the patient age band', () => {
+      const vitals = { ...NORMAL_ADULT_VITALS, heartRate: 130, respiratoryRate: 40 };
+
+      const adult = assessRisk({ age: 40, vitals });
+      expect(pointsFor(adult, 'heartRate')).toBe(15);
+      expect(pointsFor(adult, 'respiratoryRate')).toBe(25);
+
+      const toddler = assessRisk({ age: 2, vitals: { ...vitals, bloodPressureSystolic: 95, bloodPressureDiastolic: 60 } });
+      expect(toddler.contributions).toEqual([]);
+    });
+
+    it('uses the elderly fever threshold from 65', () => {
+      const vitals = { ...NORMAL_ADULT_VITALS, temperature: 37.9 };
+      expect(pointsFor(assessRisk({ age: 64, vitals }), 'temperature')).toBeUndefined();
+      expect(pointsFor(assessRisk({ age: 65, vitals }), 'temperature')).toBe(20);
+    });
+
+    it('falls back to adult ranges when the age is unknown', () => {
+      const vitals = { ...NORMAL_ADULT_VITALS, heartRate: 150 };
+      expect(pointsFor(assessRisk({ vitals }), 'heartRate')).toBe(25);
+      expect(pointsFor(assessRisk({ age: 0, vitals }), 'heartRate')).toBeUndefined();
+    });
+  });
+
+  describe('labs', () => {
+    it('scores abnormal and critical results and ignores normal ones', () => {
+      const assessment = assessRisk({
+        labs: [
+          { name: 'Potassium', status: 'critical_high' },
+          { name: 'Sodium', status: 'low' },
+          { name: 'Glucose', status: 'normal' },
+        ],
+      });
+      expect(pointsFor(assessment, 'lab:Potassium')).toBe(20);
+      expect(pointsFor(assessment, 'lab:Sodium')).toBe(5);
+      expect(pointsFor(assessment, 'lab:Glucose')).toBeUndefined();
+      expect(assessment.labRiskScore).toBe(25);
+      expect(assessment.fusedScore).toBe(25);
+    });
+
+    it('caps the lab contribution to the fused score', () => {
+      const assessment = assessRisk({
+        labs: [
+          { name: 'Potassium', status: 'critical_high' },
+          { name: 'Hemoglobin', status: 'critical_low' },
+          { name: 'Sodium', status: 'low' },
+        ],
+      });
+      expect(assessment.labRiskScore).toBe(45);
+      expect(assessment.fusedScore).toBe(30);
+      expect(assessment.contributions.map((c) => c.points)).toEqual([20, 10]);
+    });
+  });
+
+  describe('history', () => {
+    it('scores smoking, chronic conditions and age', () => {
+      expect(pointsFor(assessRisk({ smokingHistory: true }), 'smoking')).toBe(15);
+      expect(pointsFor(assessRisk({ chronicConditions: ['Diabetes'] }), 'chronic_conditions')).toBe(10);
+      expect(pointsFor(assessRisk({ chronicConditions: ['Diabetes', 'COPD'] }), 'chronic_conditions')).toBe(15);
+      expect(pointsFor(assessRisk({ age: 70 }), 'age')).toBe(10);
+      expect(pointsFor(assessRisk({ age: 85 }), 'age')).toBe(15);
+      expect(pointsFor(assessRisk({ age: 50 }), 'age')).toBeUndefined();
+    });
+
+    it('caps the history contribution to the fused score', () => {
+      const assessment = assessRisk({
+        age: 85,
+        smokingHistory: true,
+        chronicConditions: ['Diabetes', 'COPD', 'Heart failure'],
+      });
+      expect(assessment.fusedScore).toBe(25);
+      expect(assessment.contributions.every((c) => c.domain === 'history')).toBe(true);
+    });
+  });
+
+  it('weights the scan into the fused score', () => {
+    const assessment = assessRisk({ scan: { diagnosisProbability: 0.9, abnormalityScore: 0.7 } });
+    expect(assessment.imageRiskScore).toBe(80);
+    expect(pointsFor(assessment, 'scan')).toBe(32);
+    expect(assessment.factors).toEqual(['High AI diagnosis probability']);
+  });
+
+  it('caps the fused score at 100', () => {
+    const assessment = assessRisk({
+      age: 85,
+      smokingHistory: true,
+      chronicConditions: ['COPD'],
+      vitals: {
+        spo2: 80,
+        temperature: 40,
+        heartRate: 150,
+        respiratoryRate: 30,
+        bloodPressureSystolic: 80,
+        bloodPressureDiastolic: 50,
+        gcsTotal: 7,
+      },
+      scan: { diagnosisProbability: 1, abnormalityScore: 1 },
+      labs: [{ name: 'Potassium', status: 'critical_high' }],
+    });
+    expect(assessment.fusedScore).toBe(100);
+    expect(assessment.vitalsRiskScore).toBe(100);
+    expect(assessment.overallRisk).toBe('high');
+  });
+
+  describe('category thresholds', () => {
+    it('maps scores to risk levels', () => {
+      expect(riskLevelForScore(0)).toBe('low');
+      expect(riskLevelForScore(29)).toBe('low');
+      expect(riskLevelForScore(30)).toBe('medium');
+      expect(riskLevelForScore(59)).toBe('medium');
+      expect(riskLevelForScore(60)).toBe('high');
+      expect(riskLevelForScore(100)).toBe('high');
+    });
+
+    it('explains the level from the largest factors', () => {
+      const medium = assessRisk({ age: 40, vitals: { ...NORMAL_ADULT_VITALS, spo2: 92 } });
+      expect(medium.fusedScore).toBe(30);
+      expect(medium.overallRisk).toBe('medium');
+      expect(medium.explanation).toBe('Moderate risk, mainly SpO₂ below adult range (92%). Follow-up assessment advised.');
+
+      const high = assessRisk({ age: 40, vitals: { ...NORMAL_ADULT_VITALS, spo2: 88, respiratoryRate: 25 } });
+      expect(high.fusedScore).toBe(65);
+      expect(high.overallRisk).toBe('high');
+      expect(high.explanation).toMatch(/^High risk driven by critically low SpO₂ for adult \(88%\) and /);
+    });
+  });
+});
@@ -0,0 +1,278 @@
+import {
+  classifyVital,
+  formatVitalValue,
+  getAgeBand,
+  isAbnormalFlag,
+  VITAL_LABELS,
+  type AgeBand,
+  type VitalParameter,
+} from '@/lib/vitalRanges';
+import { gcsSeverity, painSeverity } from '@/lib/neuroObservations';
+import type { RiskAssessment, RiskDomain, RiskFactorContribution } from '@/types/medical';
+
+/**
+ * Bump whenever a weight, threshold or rule changes so stored and exported
+ * assessments can be traced back to the rules that produced them.
+ */
+export const RISK_ENGINE_VERSION = '1.2.0';
+
+export interface RiskVitalsInput {
+  spo2: number | null;
+  temperature: number | null;
+  heartRate: number | null;
+  respiratoryRate: number | null;
+  bloodPressureSystolic: number | null;
+  bloodPressureDiastolic: number | null;
+  // 0-10 on either pain scale
+  painScore?: number | null;
+  // Glasgow Coma Scale, 3-15
+  gcsTotal?: number | null;
+}
+
+export interface RiskScanInput {
+  // Model outputs on a 0-1 scale
+  diagnosisProbability: number | null;
+  abnormalityScore: number | null;
+}
+
+export interface RiskLabInput {
+  name: string;
+  // normal | low | high | critical_low | critical_high
+  status: string;
+}
+
+export interface RiskInput {
+  age?: number | null;
+  chronicConditions?: string[];
+  smokingHistory?: boolean;
+  vitals?: RiskVitalsInput | null;
+  scan?: RiskScanInput | null;
+  labs?: RiskLabInput[];
+}
+
+export const RISK_THRESHOLDS = { high: 60, medium: 30 };
+
+// Share of the imaging score carried into the fused score
+const IMAGING_WEIGHT = 0.4;
+// Caps on how much the supporting domains can add to the fused score
+const LAB_POINTS_CAP = 30;
+const HISTORY_POINTS_CAP = 25;
+
+function present(value: number | null | undefined): value is number {
+  return value !== null && value !== undefined && Number.isFinite(value);
+}
+
+// Points for an [abnormal, critical] reading below and above the age band's range
+const VITAL_POINTS: Record<VitalParameter, { low: [number, number]; high: [number, number] }> = {
+  spo2: { low: [30, 40], high: [0, 0] },
+  temperature: { low: [10, 20], high: [20, 25] },
+  heartRate: { low: [15, 25], high: [15, 25] },
+  respiratoryRate: { low: [10, 25], high: [20, 25] },
+  systolic: { low: [15, 30], high: [0, 20] },
+  diastolic: { low: [0, 0], high: [0, 20] },
+};
+
+function scoreVital(parameter: VitalParameter, value: number | null, band: AgeBand): RiskFactorContribution | null {
+  const flag = classifyVital(parameter, value, band);
+  if (value === null || !isAbnormalFlag(flag)) return null;
+
+  const critical = flag === 'critical_low' || flag === 'critical_high';
+  const direction = flag === 'low' || flag === 'critical_low' ? 'low' : 'high';
+  const points = VITAL_POINTS[parameter][direction][critical ? 1 : 0];
+  if (points === 0) return null;
+
+  const { label } = VITAL_LABELS[parameter];
+  const reading = formatVitalValue(parameter, value);
+  return {
+    id: parameter,
+    domain: 'vitals',
+    label: critical
+      ? `Critically ${direction} ${midSentence(label)} for ${band.label.toLowerCase()} (${reading})`
+      : `${label} ${direction === 'low' ? 'below' : 'above'} ${band.label.toLowerCase()} range (${reading})`,
+    points,
+  };
+}
+
+function scoreGcs(total: number | null | undefined): RiskFactorContribution | null {
+  if (!present(total)) return null;
+  const severity = gcsSeverity(total);
+  if (severity === 'normal') return null;
+  const points = { severe: 35, moderate: 20, mild: 10 }[severity];
+  return {
+    id: 'gcs',
+    domain: 'vitals',
+    label: `${severity === 'mild' ? 'Reduced' : severity === 'moderate' ? 'Moderately reduced' : 'Severely reduced'} consciousness (GCS ${total})`,
+    points,
+  };
+}
+
+function scorePain(score: number | null | undefined): RiskFactorContribution | null {
+  if (!present(score)) return null;
+  const severity = painSeverity(score);
+  if (severity !== 'severe' && severity !== 'moderate') return null;
+  return {
+    id: 'pain',
+    domain: 'vitals',
+    label: `${severity === 'severe' ? 'Severe' : 'Moderate'} pain (${score}/10)`,
+    points: severity === 'severe' ? 10 : 5,
+  };
+}
+
+function scoreVitals(vitals: RiskVitalsInput, band: AgeBand): RiskFactorContribution[] {
+  const scored = [
+    scoreVital('spo2', vitals.spo2, band),
+    scoreVital('temperature', vitals.temperature, band),
+    scoreVital('heartRate', vitals.heartRate, band),
+    scoreVital('respiratoryRate', vitals.respiratoryRate, band),
+  ];
+  // Systolic and diastolic count once, as blood pressure
+  const [bloodPressure] = [
+    scoreVital('systolic', vitals.bloodPressureSystolic, band),
+    scoreVital('diastolic', vitals.bloodPressureDiastolic, band),
+  ]
+    .filter((c): c is RiskFactorContribution => c !== null)
+    .sort((a, b) => b.points - a.points);
+
+  return [
+    ...scored,
+    bloodPressure ? { ...bloodPressure, id: 'blood_pressure' } : null,
+    scoreGcs(vitals.gcsTotal),
+    scorePain(vitals.painScore),
+  ].filter((c): c is RiskFactorContribution => c !== null);
+}
+
+// Mean of the available model outputs, as a percentage
+function scoreScan(scan: RiskScanInput): number {
+  const values = [scan.diagnosisProbability, scan.abnormalityScore].filter(present);
+  if (values.length === 0) return 0;
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  return Math.round(Math.min(1, Math.max(0, mean)) * 100);
+}
+
+function scoreLabs(labs: RiskLabInput[]): RiskFactorContribution[] {
+  return labs
+    .filter((lab) => lab.status !== 'normal')
+    .map((lab) => {
+      const critical = lab.status.includes('critical');
+      return {
+        id: `lab:${lab.name}`,
+        domain: 'labs' as const,
+        label: `${critical ? 'Critical' : 'Abnormal'} ${lab.name} result`,
+        points: critical ? 20 : 5,
+      };
+    })
+    .sort((a, b) => b.points - a.points);
+}
+
+function scoreHistory(input: RiskInput): RiskFactorContribution[] {
+  const result: RiskFactorContribution[] = [];
+  const add = (id: string, label: string, points: number) => result.push({ id, domain: 'history', label, points });
+  const conditions = input.chronicConditions?.length ?? 0;
+
+  if (input.smokingHistory) add('smoking', 'Smoking history', 15);
+  if (conditions > 0) {
+    add(
+      'chronic_conditions',
+      conditions === 1 ? 'Chronic condition present' : `${conditions} chronic conditions`,
+      Math.min(20, 10 + (conditions - 1) * 5)
+    );
+  }
+  if (present(input.age)) {
+    if (input.age >= 80) add('age', 'Age 80 or over', 15);
+    else if (input.age >= 65) add('age', 'Age 65 or over', 10);
+  }
+  return result;
+}
+
+// Trims contributions, largest first, so that together they stay within the cap
+function capContributions(contributions: RiskFactorContribution[], cap: number): RiskFactorContribution[] {
+  let remaining = cap;
+  return contributions
+    .map((c) => {
+      const points = Math.min(c.points, remaining);
+      remaining -= points;
+      return { ...c, points };
+    })
+    .filter((c) => c.points > 0);
+}
+
+function sumPoints(contributions: RiskFactorContribution[]): number {
+  return contributions.reduce((sum, c) => sum + c.points, 0);
+}
+
+// Lower-cases a label for use mid-sentence while keeping acronyms such as SpO2 intact
+function midSentence(label: string): string {
+  return /^[A-Z][a-z]+\b/.test(label) ? label[0].toLowerCase() + label.slice(1) : label;
+}
+
+function explain(overallRisk: RiskAssessment['overallRisk'], factors: string[]): string {
+  if (overallRisk === 'high') {
+    return `High risk driven by ${factors.slice(0, 2).map(midSentence).join(' and ')}. Immediate clinical review recommended.`;
+  }
+  if (overallRisk === 'medium') {
+    return `Moderate risk, mainly ${midSentence(factors[0])}. Follow-up assessment advised.`;
+  }
+  return 'Low risk profile. Continue standard monitoring.';
+}
+
+export function riskLevelForScore(score: number): RiskAssessment['overallRisk'] {
+  if (score >= RISK_THRESHOLDS.high) return 'high';
+  if (score >= RISK_THRESHOLDS.medium) return 'medium';
+  return 'low';
+}
+
+/**
+ * Fuses vitals, the latest scan, lab results and patient history into one
+ * assessment. Every domain is scored as points on a 0-100 scale and the
+ * fused score is the sum of the individual contributions, so each factor's
+ * share of the result can be shown alongside it. Vitals are judged against
+ * the reference ranges for the patient's age band; pain and GCS count as
+ * vitals.
+ */
+export function assessRisk(input: RiskInput): RiskAssessment {
+  const vitalsContributions = input.vitals ? scoreVitals(input.vitals, getAgeBand(input.age)) : [];
+  const imageRiskScore = input.scan ? scoreScan(input.scan) : 0;
+  const labContributions = scoreLabs(input.labs ?? []);
+  const historyContributions = scoreHistory(input);
+
+  const imagingContributions: RiskFactorContribution[] = [];
+  const imagingPoints = Math.round(imageRiskScore * IMAGING_WEIGHT);
+  if (imagingPoints > 0) {
+    imagingContributions.push({
+      id: 'scan',
+      domain: 'imaging',
+      label: (input.scan?.diagnosisProbability ?? 0) > 0.7 ? 'High AI diagnosis probability' : 'AI scan findings',
+      points: imagingPoints,
+    });
+  }
+
+  const contributions = [
+    ...vitalsContributions,
+    ...imagingContributions,
+    ...capContributions(labContributions, LAB_POINTS_CAP),
+    ...capContributions(historyContributions, HISTORY_POINTS_CAP),
+  ].sort((a, b) => b.points - a.points);
+
+  const fusedScore = Math.min(100, sumPoints(contributions));
+  const overallRisk = riskLevelForScore(fusedScore);
+  const factors = contributions.map((c) => c.label);
+
+  return {
+    overallRisk,
+    imageRiskScore,
+    vitalsRiskScore: Math.min(100, sumPoints(vitalsContributions)),
+    labRiskScore: Math.min(100, sumPoints(labContributions)),
+    fusedScore,
+    explanation: explain(overallRisk, factors),
+    factors,
+    contributions,
+    engineVersion: RISK_ENGINE_VERSION,
+  };
+}
+
+export const RISK_DOMAIN_LABELS: Record<RiskDomain, string> = {
+  vitals: 'Vitals',
+  imaging: 'Imaging',
+  labs: 'Labs',
+  history: 'History',
+};
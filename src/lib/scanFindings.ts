@@ -0,0 +1,92 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { FindingSeverity, ScanFinding } from '@/types/medical';
+
+// Ordered from least to most severe
+export const FINDING_SEVERITIES: FindingSeverity[] = ['normal', 'mild', 'moderate', 'severe'];
+
+export function normalizeSeverity(value: unknown): FindingSeverity {
+  const severity = String(value || '').toLowerCase().trim();
+  return FINDING_SEVERITIES.includes(severity as FindingSeverity) ? (severity as FindingSeverity) : 'normal';
+}
+
+export function severitiesAtLeast(minimum: FindingSeverity): FindingSeverity[] {
+  return FINDING_SEVERITIES.slice(FINDING_SEVERITIES.indexOf(minimum));
+}
+
+export function parseFindings(raw: unknown): ScanFinding[] {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter((f) => f && typeof f === 'object' && (f.area || f.observation))
+    .map((f) => ({
+      area: String(f.area || 'General'),
+      observation: String(f.observation || ''),
+      severity: normalizeSeverity(f.severity),
+    }));
+}
+
+export async function saveScanFindings(scanId: string, patientId: string, findings: ScanFinding[]) {
+  if (findings.length === 0) return;
+
+  const { error } = await supabase.from('scan_findings').insert(
+    findings.map((finding, index) => ({
+      scan_id: scanId,
+      patient_id: patientId,
+      area: finding.area,
+      observation: finding.observation,
+      severity: finding.severity,
+      position: index,
+    }))
+  );
+
+  if (error) throw error;
+}
+
+export async function fetchScanFindings(scanIds: string[]): Promise<Record<string, ScanFinding[]>> {
+  if (scanIds.length === 0) return {};
+
+  const { data, error } = await supabase
+    .from('scan_findings')
+    .select('*')
+    .in('scan_id', scanIds)
+    .order('position', { ascending: true });
+
+  if (error) {
+    console.error('Error fetching scan findings:', error);
+    return {};
+  }
+
+  return (data || []).reduce((acc, row) => {
+    if (!acc[row.scan_id]) acc[row.scan_id] = [];
+    acc[row.scan_id].push({
+      id: row.id,
+      scanId: row.scan_id,
+      area: row.area,
+      observation: row.observation,
+      severity: normalizeSeverity(row.severity),
+    });
+    return acc;
+  }, {} as Record<string, ScanFinding[]>);
+}
+
+/**
+ * Returns the ids of patients with at least one finding of the given minimum
+ * severity, optionally restricted to an anatomical area (case-insensitive
+ * substring match, e.g. "lower lobe").
+ */
+export async function findPatientIdsWithFindings(minimum: FindingSeverity, area?: string): Promise<string[]> {
+  let query = supabase
+    .from('scan_findings')
+    .select('patient_id')
+    .in('severity', severitiesAtLeast(minimum));
+
+  if (area?.trim()) {
+    query = query.ilike('area', `%${area.trim()}%`);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    console.error('Error filtering by findings:', error);
+    return [];
+  }
+  return [...new Set((data || []).map((row) => row.patient_id))];
+}
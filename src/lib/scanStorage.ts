@@ -0,0 +1,124 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export const SCAN_BUCKET = 'medical-scans';
+
+// Signed URLs are short-lived so a leaked link stops working soon after
+const SIGNED_URL_TTL_SECONDS = 60 * 60;
+
+const MIME_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'image/bmp': 'bmp',
+  'application/dicom': 'dcm',
+};
+
+export function dataUrlToBlob(dataUrl: string): Blob {
+  const [header, base64] = dataUrl.split(',');
+  const mimeMatch = header.match(/data:([^;]+)/);
+  const mimeType = mimeMatch ? mimeMatch[1] : 'application/octet-stream';
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: mimeType });
+}
+
+/**
+ * Objects are stored as `<patient uuid>/<scan type>/<timestamp>-<random>.<ext>`
+ * so storage policies can scope access by the first folder segment.
+ */
+export function buildScanPath(patientId: string, scanType: string, mimeType: string, suffix = ''): string {
+  const extension = MIME_EXTENSIONS[mimeType] || 'bin';
+  const uniquePart = `${Date.now()}-${crypto.randomUUID().slice(0, 8)}`;
+  return `${patientId}/${scanType}/${uniquePart}${suffix}.${extension}`;
+}
+
+export async function uploadScanImage(
+  patientId: string,
+  scanType: string,
+  image: string | Blob
+): Promise<string> {
+  const blob = typeof image === 'string' ? dataUrlToBlob(image) : image;
+  const path = buildScanPath(patientId, scanType, blob.type);
+
+  const { error } = await supabase.storage.from(SCAN_BUCKET).upload(path, blob, {
+    contentType: blob.type,
+    upsert: false,
+  });
+
+  if (error) throw error;
+  return path;
+}
+
+// The heatmap sits next to its scan image so both can be found from one path
+export async function uploadScanHeatmap(
+  patientId: string,
+  scanType: string,
+  imagePath: string | null,
+  heatmap: Blob
+): Promise<string> {
+  const path = imagePath
+    ? imagePath.replace(/\.[^./]+$/, '-heatmap.png')
+    : buildScanPath(patientId, scanType, 'image/png', '-heatmap');
+
+  const { error } = await supabase.storage.from(SCAN_BUCKET).upload(path, heatmap, {
+    contentType: 'image/png',
+    upsert: false,
+  });
+
+  if (error) throw error;
+  return path;
+}
+
+// Older rows and local previews may already hold a full URL rather than a bucket path
+function isAbsoluteUrl(value: string): boolean {
+  return /^(https?:|data:|blob:)/.test(value);
+}
+
+export async function getSignedScanUrl(path: string | null | undefined): Promise<string | null> {
+  if (!path) return null;
+  if (isAbsoluteUrl(path)) return path;
+
+  const { data, error } = await supabase.storage
+    .from(SCAN_BUCKET)
+    .createSignedUrl(path, SIGNED_URL_TTL_SECONDS);
+
+  if (error) {
+    console.error('Error signing scan URL:', error);
+    return null;
+  }
+  return data.signedUrl;
+}
+
+export async function getSignedScanUrls(paths: (string | null | undefined)[]): Promise<Record<string, string>> {
+  const result: Record<string, string> = {};
+  const storagePaths: string[] = [];
+
+  paths.forEach((path) => {
+    if (!path) return;
+    if (isAbsoluteUrl(path)) {
+      result[path] = path;
+    } else if (!storagePaths.includes(path)) {
+      storagePaths.push(path);
+    }
+  });
+
+  if (storagePaths.length === 0) return result;
+
+  const { data, error } = await supabase.storage
+    .from(SCAN_BUCKET)
+    .createSignedUrls(storagePaths, SIGNED_URL_TTL_SECONDS);
+
+  if (error) {
+    console.error('Error signing scan URLs:', error);
+    return result;
+  }
+
+  (data || []).forEach((entry) => {
+    if (entry.path && entry.signedUrl) result[entry.path] = entry.signedUrl;
+  });
+  return result;
+}
@@ -0,0 +1,185 @@
+export type AgeBandId = 'infant' | 'toddler' | 'child' | 'adolescent' | 'adult' | 'elderly';
+export type VitalParameter = 'spo2' | 'temperature' | 'heartRate' | 'respiratoryRate' | 'systolic' | 'diastolic';
+// Same vocabulary as lab_results.status
+export type VitalFlag = 'normal' | 'low' | 'high' | 'critical_low' | 'critical_high';
+
+export interface VitalRange {
+  min: number;
+  max: number;
+  // Values beyond these need immediate attention
+  criticalMin: number;
+  criticalMax: number;
+}
+
+export interface AgeBand {
+  id: AgeBandId;
+  label: string;
+  // Inclusive lower bound and exclusive upper bound, in whole years
+  minAge: number;
+  maxAge: number;
+  ranges: Record<VitalParameter, VitalRange>;
+  // Heart rate / systolic BP above which shock should be considered; null where no validated cut-off exists
+  shockIndexMax: number | null;
+}
+
+export const VITAL_LABELS: Record<VitalParameter, { label: string; unit: string }> = {
+  spo2: { label: 'SpO₂', unit: '%' },
+  temperature: { label: 'Temperature', unit: '°C' },
+  heartRate: { label: 'Heart rate', unit: 'bpm' },
+  respiratoryRate: { label: 'Respiratory rate', unit: '/min' },
+  systolic: { label: 'Systolic BP', unit: 'mmHg' },
+  diastolic: { label: 'Diastolic BP', unit: 'mmHg' },
+};
+
+const range = (min: number, max: number, criticalMin: number, criticalMax: number): VitalRange => ({
+  min,
+  max,
+  criticalMin,
+  criticalMax,
+});
+
+// Shared by every band that does not need its own target
+const SPO2 = range(94, 100, 90, 100);
+const TEMPERATURE = range(36.1, 38, 35, 39.5);
+
+/**
+ * Awake resting reference ranges by age band, based on the paediatric (PALS)
+ * and adult early-warning charts the wards already use. Ages are whole years,
+ * so "infant" covers everyone under one. Shock index cut-offs follow the
+ * age-adjusted (SIPA) values for children.
+ */
+export const AGE_BANDS: AgeBand[] = [
+  {
+    id: 'infant',
+    label: 'Infant',
+    minAge: 0,
+    maxAge: 1,
+    ranges: {
+      spo2: SPO2,
+      temperature: range(36.5, 37.5, 35.5, 38),
+      heartRate: range(100, 160, 80, 190),
+      respiratoryRate: range(30, 60, 20, 70),
+      systolic: range(70, 100, 60, 120),
+      diastolic: range(45, 70, 30, 90),
+    },
+    shockIndexMax: null,
+  },
+  {
+    id: 'toddler',
+    label: 'Toddler',
+    minAge: 1,
+    maxAge: 3,
+    ranges: {
+      spo2: SPO2,
+      temperature: TEMPERATURE,
+      heartRate: range(90, 150, 70, 180),
+      respiratoryRate: range(24, 40, 16, 50),
+      systolic: range(80, 110, 70, 130),
+      diastolic: range(50, 80, 35, 95),
+    },
+    shockIndexMax: null,
+  },
+  {
+    id: 'child',
+    label: 'Child',
+    minAge: 3,
+    maxAge: 12,
+    ranges: {
+      spo2: SPO2,
+      temperature: TEMPERATURE,
+      heartRate: range(70, 120, 55, 160),
+      respiratoryRate: range(18, 30, 12, 40),
+      systolic: range(90, 115, 75, 140),
+      diastolic: range(55, 80, 35, 100),
+    },
+    shockIndexMax: 1.2,
+  },
+  {
+    id: 'adolescent',
+    label: 'Adolescent',
+    minAge: 12,
+    maxAge: 18,
+    ranges: {
+      spo2: SPO2,
+      temperature: TEMPERATURE,
+      heartRate: range(60, 100, 45, 140),
+      respiratoryRate: range(12, 20, 9, 28),
+      systolic: range(100, 130, 85, 160),
+      diastolic: range(60, 85, 40, 110),
+    },
+    shockIndexMax: 0.9,
+  },
+  {
+    id: 'adult',
+    label: 'Adult',
+    minAge: 18,
+    maxAge: 65,
+    ranges: {
+      spo2: SPO2,
+      temperature: TEMPERATURE,
+      heartRate: range(60, 100, 40, 130),
+      respiratoryRate: range(12, 20, 9, 24),
+      systolic: range(100, 140, 90, 180),
+      diastolic: range(60, 90, 40, 120),
+    },
+    shockIndexMax: 0.9,
+  },
+  {
+    id: 'elderly',
+    label: 'Elderly',
+    minAge: 65,
+    maxAge: Infinity,
+    ranges: {
+      spo2: SPO2,
+      // Older patients mount a lower fever response
+      temperature: range(36, 37.8, 35, 39.5),
+      heartRate: range(60, 100, 40, 130),
+      respiratoryRate: range(12, 20, 9, 24),
+      systolic: range(100, 150, 90, 180),
+      diastolic: range(60, 90, 40, 120),
+    },
+    shockIndexMax: 0.9,
+  },
+];
+
+const ADULT_BAND = AGE_BANDS.find((band) => band.id === 'adult') as AgeBand;
+
+// Falls back to adult ranges when the age is unknown
+export function getAgeBand(age: number | null | undefined): AgeBand {
+  if (age === null || age === undefined || !Number.isFinite(age)) return ADULT_BAND;
+  return AGE_BANDS.find((band) => age >= band.minAge && age < band.maxAge) || ADULT_BAND;
+}
+
+export function classifyVital(parameter: VitalParameter, value: number | null | undefined, band: AgeBand): VitalFlag | null {
+  if (value === null || value === undefined || !Number.isFinite(value)) return null;
+  const { min, max, criticalMin, criticalMax } = band.ranges[parameter];
+  if (value < criticalMin) return 'critical_low';
+  if (value > criticalMax) return 'critical_high';
+  if (value < min) return 'low';
+  if (value > max) return 'high';
+  return 'normal';
+}
+
+export function isAbnormalFlag(flag: VitalFlag | null): boolean {
+  return flag !== null && flag !== 'normal';
+}
+
+const unitSeparator = (unit: string) => (unit === '%' || unit === '°C' ? '' : ' ');
+
+export function formatVitalValue(parameter: VitalParameter, value: number): string {
+  const { unit } = VITAL_LABELS[parameter];
+  return `${value}${unitSeparator(unit)}${unit}`;
+}
+
+export function formatVitalRange(parameter: VitalParameter, band: AgeBand): string {
+  const { min, max } = band.ranges[parameter];
+  const { unit } = VITAL_LABELS[parameter];
+  return `${min}-${max}${unitSeparator(unit)}${unit}`;
+}
+
+// Short status text for tables, e.g. "HIGH (Child)"
+export function describeVitalFlag(flag: VitalFlag | null, band: AgeBand): string {
+  if (flag === null) return 'Not recorded';
+  if (flag === 'normal') return 'Normal';
+  return `${flag.replace('_', ' ').toUpperCase()} (${band.label})`;
+}
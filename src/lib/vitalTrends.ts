@@ -0,0 +1,194 @@
+import { getAgeBand } from '@/lib/vitalRanges';
+
+export type TrendParameter = 'spo2' | 'temperature' | 'heartRate' | 'respiratoryRate' | 'systolic' | 'shockIndex';
+
+export interface VitalsSample {
+  recorded_at: string;
+  spo2: number | null;
+  temperature: number | null;
+  heart_rate: number | null;
+  respiratory_rate: number | null;
+  blood_pressure_systolic: number | null;
+}
+
+export interface TrendRule {
+  parameter: TrendParameter;
+  direction: 'rise' | 'fall';
+  // Change within the trend window that counts as deterioration
+  threshold: number;
+  label: string;
+  unit: string;
+  decimals: number;
+}
+
+export interface ParameterTrend {
+  parameter: TrendParameter;
+  latest: number;
+  // Mean of the readings before the trend window; null without enough history
+  baseline: number | null;
+  // Change across the trend window along the fitted line; null with too few readings
+  windowChange: number | null;
+}
+
+export interface TrendAlert {
+  parameter: TrendParameter;
+  message: string;
+}
+
+export interface TrendAnalysis {
+  trends: Partial<Record<TrendParameter, ParameterTrend>>;
+  shockIndex: number | null;
+  alerts: TrendAlert[];
+  deteriorating: boolean;
+}
+
+const HOUR = 60 * 60 * 1000;
+export const TREND_WINDOW_HOURS = 24;
+export const BASELINE_WINDOW_HOURS = 72;
+// A slope needs a few readings spread over part of the window to mean anything
+const MIN_TREND_READINGS = 3;
+const MIN_TREND_SPAN_HOURS = 4;
+
+export const TREND_RULES: TrendRule[] = [
+  { parameter: 'spo2', direction: 'fall', threshold: 3, label: 'SpO₂', unit: '%', decimals: 1 },
+  { parameter: 'heartRate', direction: 'rise', threshold: 20, label: 'Heart rate', unit: ' bpm', decimals: 0 },
+  { parameter: 'respiratoryRate', direction: 'rise', threshold: 5, label: 'Respiratory rate', unit: '/min', decimals: 0 },
+  { parameter: 'temperature', direction: 'rise', threshold: 1, label: 'Temperature', unit: '°C', decimals: 1 },
+  { parameter: 'systolic', direction: 'fall', threshold: 20, label: 'Systolic BP', unit: ' mmHg', decimals: 0 },
+  { parameter: 'shockIndex', direction: 'rise', threshold: 0.2, label: 'Shock index', unit: '', decimals: 2 },
+];
+
+export function shockIndex(heartRate: number | null, systolic: number | null): number | null {
+  if (!heartRate || !systolic) return null;
+  return Math.round((heartRate / systolic) * 100) / 100;
+}
+
+// Diastolic plus a third of the pulse pressure
+export function meanArterialPressure(systolic: number | null, diastolic: number | null): number | null {
+  if (!systolic || !diastolic) return null;
+  return Math.round(diastolic + (systolic - diastolic) / 3);
+}
+
+export function sampleValue(sample: VitalsSample, parameter: TrendParameter): number | null {
+  const value = {
+    spo2: sample.spo2,
+    temperature: sample.temperature,
+    heartRate: sample.heart_rate,
+    respiratoryRate: sample.respiratory_rate,
+    systolic: sample.blood_pressure_systolic,
+    shockIndex: shockIndex(sample.heart_rate, sample.blood_pressure_systolic),
+  }[parameter];
+  return value === null || value === undefined ? null : Number(value);
+}
+
+interface Point {
+  t: number;
+  value: number;
+}
+
+function seriesFor(samples: VitalsSample[], parameter: TrendParameter): Point[] {
+  return samples
+    .map((s) => ({ t: new Date(s.recorded_at).getTime(), value: sampleValue(s, parameter) }))
+    .filter((p): p is Point => p.value !== null && Number.isFinite(p.t))
+    .sort((a, b) => a.t - b.t);
+}
+
+const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+// Least-squares slope, in units per millisecond
+function slope(points: Point[]): number {
+  const meanT = mean(points.map((p) => p.t));
+  const meanV = mean(points.map((p) => p.value));
+  let num = 0;
+  let den = 0;
+  points.forEach((p) => {
+    num += (p.t - meanT) * (p.value - meanV);
+    den += (p.t - meanT) ** 2;
+  });
+  return den === 0 ? 0 : num / den;
+}
+
+function trendFor(parameter: TrendParameter, points: Point[], now: number): ParameterTrend | null {
+  if (points.length === 0) return null;
+  const windowStart = now - TREND_WINDOW_HOURS * HOUR;
+  const inWindow = points.filter((p) => p.t >= windowStart && p.t <= now);
+  const before = points.filter((p) => p.t < windowStart && p.t >= windowStart - BASELINE_WINDOW_HOURS * HOUR);
+
+  const span = inWindow.length > 0 ? inWindow[inWindow.length - 1].t - inWindow[0].t : 0;
+  const windowChange =
+    inWindow.length >= MIN_TREND_READINGS && span >= MIN_TREND_SPAN_HOURS * HOUR ? slope(inWindow) * span : null;
+
+  return {
+    parameter,
+    latest: points[points.length - 1].value,
+    baseline: before.length > 0 ? mean(before.map((p) => p.value)) : null,
+    windowChange,
+  };
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Rolling mean of each reading's preceding window (the reading itself is
+ * excluded), aligned with `samples`. Used to draw the baseline under a series.
+ */
+export function rollingBaseline(
+  samples: VitalsSample[],
+  parameter: TrendParameter,
+  windowHours = TREND_WINDOW_HOURS
+): (number | null)[] {
+  const points = seriesFor(samples, parameter);
+  return samples.map((sample) => {
+    const t = new Date(sample.recorded_at).getTime();
+    const previous = points.filter((p) => p.t < t && p.t >= t - windowHours * HOUR);
+    return previous.length > 0 ? round(mean(previous.map((p) => p.value))) : null;
+  });
+}
+
+/**
+ * Looks for deterioration in a patient's observation history: a parameter
+ * moving past its rule threshold within the last 24 hours (along the fitted
+ * trend, or against the baseline from the 72 hours before), or a shock index
+ * above the cut-off for the patient's age band. Values can worsen this way
+ * while still inside the normal range.
+ */
+export function analyzeVitalTrends(samples: VitalsSample[], age?: number | null, now?: number): TrendAnalysis {
+  const latestTime = samples.reduce((max, s) => Math.max(max, new Date(s.recorded_at).getTime()), 0);
+  const evaluatedAt = now ?? latestTime;
+  const trends: TrendAnalysis['trends'] = {};
+  const alerts: TrendAlert[] = [];
+
+  TREND_RULES.forEach((rule) => {
+    const trend = trendFor(rule.parameter, seriesFor(samples, rule.parameter), evaluatedAt);
+    if (!trend) return;
+    trends[rule.parameter] = trend;
+
+    const sign = rule.direction === 'rise' ? 1 : -1;
+    const fromBaseline = trend.baseline === null ? null : trend.latest - trend.baseline;
+    const verb = rule.direction === 'rise' ? 'risen' : 'fallen';
+    const format = (value: number) => `${Number(Math.abs(value).toFixed(rule.decimals))}${rule.unit}`;
+
+    if (trend.windowChange !== null && trend.windowChange * sign >= rule.threshold) {
+      alerts.push({
+        parameter: rule.parameter,
+        message: `${rule.label} has ${verb} ${format(trend.windowChange)} over the last ${TREND_WINDOW_HOURS}h`,
+      });
+    } else if (fromBaseline !== null && fromBaseline * sign >= rule.threshold) {
+      alerts.push({
+        parameter: rule.parameter,
+        message: `${rule.label} has ${verb} ${format(fromBaseline)} from its baseline of ${format(trend.baseline as number)}`,
+      });
+    }
+  });
+
+  const latestShockIndex = trends.shockIndex?.latest ?? null;
+  const { shockIndexMax } = getAgeBand(age);
+  if (latestShockIndex !== null && shockIndexMax !== null && latestShockIndex > shockIndexMax) {
+    alerts.push({
+      parameter: 'shockIndex',
+      message: `Shock index ${latestShockIndex} is above ${shockIndexMax}`,
+    });
+  }
+
+  return { trends, shockIndex: latestShockIndex, alerts, deteriorating: alerts.length > 0 };
+}
@@ -0,0 +1,362 @@
+import { isDicomFile, parseDicomBuffer, type DicomMetadata } from '@/lib/dicom';
+
+export type VolumeOrientation = 'axial' | 'coronal' | 'sagittal';
+export type TransferPreset = 'bone' | 'soft-tissue' | 'lung';
+
+export interface ScanVolume {
+  // Columns, rows and slices
+  width: number;
+  height: number;
+  depth: number;
+  // Intensities rescaled to 0-255 over [min, max], laid out x + y * width + z * width * height
+  data: Uint8Array;
+  // Voxel size in mm (column, row, slice); 1 when the source carries no geometry
+  spacing: [number, number, number];
+  min: number;
+  max: number;
+  // CT series are in Hounsfield units, so presets can use absolute thresholds
+  hounsfield: boolean;
+  windowCenter: number;
+  windowWidth: number;
+  metadata: DicomMetadata | null;
+}
+
+interface Ramp {
+  // Opacity rises from low to high and, with a cutoff, falls off again above it
+  low: number;
+  high: number;
+  cutoff?: number;
+}
+
+interface TransferPresetDefinition {
+  label: string;
+  // Hounsfield units for CT
+  hu: Ramp;
+  // Fractions of the intensity range for MRI and image stacks
+  relative: Ramp;
+  // Standard CT display window used for the slice views
+  window: { center: number; width: number };
+  colors: [[number, number, number], [number, number, number]];
+  opacity: number;
+}
+
+export const TRANSFER_PRESETS: Record<TransferPreset, TransferPresetDefinition> = {
+  bone: {
+    label: 'Bone',
+    hu: { low: 150, high: 700 },
+    relative: { low: 0.7, high: 0.9 },
+    window: { center: 500, width: 2000 },
+    colors: [[200, 170, 130], [255, 250, 235]],
+    opacity: 0.9,
+  },
+  'soft-tissue': {
+    label: 'Soft tissue',
+    hu: { low: -100, high: 80, cutoff: 300 },
+    relative: { low: 0.3, high: 0.5, cutoff: 0.8 },
+    window: { center: 40, width: 400 },
+    colors: [[150, 40, 30], [240, 160, 130]],
+    opacity: 0.35,
+  },
+  lung: {
+    label: 'Lung',
+    hu: { low: -950, high: -600, cutoff: -300 },
+    relative: { low: 0.05, high: 0.2, cutoff: 0.35 },
+    window: { center: -600, width: 1500 },
+    colors: [[60, 110, 200], [190, 220, 255]],
+    opacity: 0.25,
+  },
+};
+
+// Keeps the 3D texture within what browsers reliably allocate
+const MAX_VOXELS = 512 * 512 * 512;
+
+interface LoadedSlice {
+  pixels: Float32Array;
+  metadata: DicomMetadata | null;
+  name: string;
+}
+
+function buildVolume(
+  slices: LoadedSlice[],
+  width: number,
+  height: number,
+  options: Pick<ScanVolume, 'spacing' | 'hounsfield' | 'metadata'> & { window?: { center: number; width: number } }
+): ScanVolume {
+  const depth = slices.length;
+  if (width * height * depth > MAX_VOXELS) {
+    throw new Error(`Series is too large to render (${width}x${height}x${depth})`);
+  }
+
+  let min = Infinity;
+  let max = -Infinity;
+  slices.forEach(({ pixels }) => {
+    for (let i = 0; i < pixels.length; i++) {
+      if (pixels[i] < min) min = pixels[i];
+      if (pixels[i] > max) max = pixels[i];
+    }
+  });
+  const range = Math.max(1, max - min);
+
+  const sliceSize = width * height;
+  const data = new Uint8Array(sliceSize * depth);
+  slices.forEach(({ pixels }, z) => {
+    const offset = z * sliceSize;
+    for (let i = 0; i < sliceSize; i++) {
+      data[offset + i] = Math.round(((pixels[i] - min) / range) * 255);
+    }
+  });
+
+  return {
+    width,
+    height,
+    depth,
+    data,
+    spacing: options.spacing,
+    min,
+    max,
+    hounsfield: options.hounsfield,
+    windowCenter: options.window?.center ?? (min + max) / 2,
+    windowWidth: options.window?.width ?? range,
+    metadata: options.metadata,
+  };
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+/**
+ * Orders slices along the axis their image positions vary most on and derives
+ * the slice spacing from those positions, falling back to instance numbers and
+ * slice thickness when the files carry no position.
+ */
+function orderDicomSlices(slices: LoadedSlice[]): { slices: LoadedSlice[]; sliceSpacing: number | null } {
+  const positions = slices.map((s) => s.metadata?.imagePositionPatient);
+  if (positions.every(Boolean)) {
+    const axis = [0, 1, 2].reduce((best, candidate) => {
+      const spread = (a: number) => {
+        const values = positions.map((p) => p![a]);
+        return Math.max(...values) - Math.min(...values);
+      };
+      return spread(candidate) > spread(best) ? candidate : best;
+    }, 2);
+    const ordered = [...slices].sort(
+      (a, b) => a.metadata!.imagePositionPatient![axis] - b.metadata!.imagePositionPatient![axis]
+    );
+    const gaps = ordered.slice(1).map((slice, i) => {
+      const [x1, y1, z1] = ordered[i].metadata!.imagePositionPatient!;
+      const [x2, y2, z2] = slice.metadata!.imagePositionPatient!;
+      return Math.hypot(x2 - x1, y2 - y1, z2 - z1);
+    });
+    const spacing = median(gaps);
+    return { slices: ordered, sliceSpacing: spacing > 0 ? spacing : null };
+  }
+
+  const ordered = [...slices].sort(
+    (a, b) => (a.metadata?.instanceNumber ?? 0) - (b.metadata?.instanceNumber ?? 0) || a.name.localeCompare(b.name, undefined, { numeric: true })
+  );
+  return { slices: ordered, sliceSpacing: null };
+}
+
+async function loadDicomSeries(files: File[]): Promise<ScanVolume> {
+  const slices: LoadedSlice[] = [];
+  let width = 0;
+  let height = 0;
+  let seriesWindow: { center: number; width: number } | undefined;
+
+  // Sequential so only one file buffer is held at a time
+  for (const file of files) {
+    const image = parseDicomBuffer(await file.arrayBuffer());
+    if (image.samplesPerPixel !== 1) {
+      throw new Error(`${file.name} is a colour image; only greyscale series can be rendered in 3D`);
+    }
+    if (slices.length === 0) {
+      width = image.width;
+      height = image.height;
+      seriesWindow = { center: image.windowCenter, width: image.windowWidth };
+    } else if (image.width !== width || image.height !== height) {
+      throw new Error(`${file.name} is ${image.width}x${image.height}, expected ${width}x${height}`);
+    }
+    slices.push({ pixels: image.pixels, metadata: image.metadata, name: file.name });
+  }
+
+  const seriesIds = new Set(slices.map((s) => s.metadata?.seriesInstanceUid).filter(Boolean));
+  if (seriesIds.size > 1) {
+    throw new Error(`Files belong to ${seriesIds.size} different series; select one series at a time`);
+  }
+
+  const { slices: ordered, sliceSpacing } = orderDicomSlices(slices);
+  const first = ordered[0].metadata!;
+  const [rowSpacing, columnSpacing] = first.pixelSpacing ?? [1, 1];
+
+  return buildVolume(ordered, width, height, {
+    spacing: [columnSpacing, rowSpacing, sliceSpacing ?? first.sliceThickness ?? columnSpacing],
+    hounsfield: first.modality?.toUpperCase() === 'CT',
+    metadata: first,
+    window: seriesWindow,
+  });
+}
+
+async function readImageLuminance(file: File): Promise<{ width: number; height: number; pixels: Float32Array }> {
+  const bitmap = await createImageBitmap(file);
+  const canvas = document.createElement('canvas');
+  canvas.width = bitmap.width;
+  canvas.height = bitmap.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not available');
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const pixels = new Float32Array(canvas.width * canvas.height);
+  for (let i = 0; i < pixels.length; i++) {
+    pixels[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  return { width: canvas.width, height: canvas.height, pixels };
+}
+
+// Image stacks carry no geometry, so slices are ordered by file name (slice-2 before slice-10)
+async function loadImageStack(files: File[]): Promise<ScanVolume> {
+  const ordered = [...files].sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+  const slices: LoadedSlice[] = [];
+  let width = 0;
+  let height = 0;
+
+  for (const file of ordered) {
+    const image = await readImageLuminance(file);
+    if (slices.length === 0) {
+      width = image.width;
+      height = image.height;
+    } else if (image.width !== width || image.height !== height) {
+      throw new Error(`${file.name} is ${image.width}x${image.height}, expected ${width}x${height}`);
+    }
+    slices.push({ pixels: image.pixels, metadata: null, name: file.name });
+  }
+
+  return buildVolume(slices, width, height, { spacing: [1, 1, 1], hounsfield: false, metadata: null });
+}
+
+export async function loadVolumeFromFiles(files: File[]): Promise<ScanVolume> {
+  if (files.length < 2) throw new Error('Select at least two slices to build a volume');
+
+  const dicomCount = files.filter(isDicomFile).length;
+  if (dicomCount === files.length) return loadDicomSeries(files);
+  if (dicomCount > 0) throw new Error('Select either DICOM files or images, not both');
+  return loadImageStack(files);
+}
+
+export function getSliceCount(volume: ScanVolume, orientation: VolumeOrientation): number {
+  if (orientation === 'axial') return volume.depth;
+  if (orientation === 'coronal') return volume.height;
+  return volume.width;
+}
+
+// Converts a value in modality units to the 0-255 scale the volume is stored in
+function toStored(volume: ScanVolume, value: number): number {
+  return ((value - volume.min) / Math.max(1, volume.max - volume.min)) * 255;
+}
+
+function rampFor(volume: ScanVolume, preset: TransferPreset): Ramp {
+  const definition = TRANSFER_PRESETS[preset];
+  if (volume.hounsfield) {
+    const { low, high, cutoff } = definition.hu;
+    return {
+      low: toStored(volume, low),
+      high: toStored(volume, high),
+      cutoff: cutoff === undefined ? undefined : toStored(volume, cutoff),
+    };
+  }
+  const { low, high, cutoff } = definition.relative;
+  return { low: low * 255, high: high * 255, cutoff: cutoff === undefined ? undefined : cutoff * 255 };
+}
+
+const smoothstep = (edge0: number, edge1: number, x: number) => {
+  const t = Math.min(1, Math.max(0, (x - edge0) / Math.max(1e-6, edge1 - edge0)));
+  return t * t * (3 - 2 * t);
+};
+
+/**
+ * Builds a 256-entry RGBA lookup from stored intensity to colour and opacity
+ * for the volume renderer.
+ */
+export function buildTransferFunction(volume: ScanVolume, preset: TransferPreset): Uint8Array {
+  const { colors, opacity } = TRANSFER_PRESETS[preset];
+  const ramp = rampFor(volume, preset);
+  const lut = new Uint8Array(256 * 4);
+
+  for (let i = 0; i < 256; i++) {
+    let alpha = smoothstep(ramp.low, ramp.high, i) * opacity;
+    if (ramp.cutoff !== undefined) {
+      alpha *= 1 - smoothstep(ramp.cutoff, ramp.cutoff + (ramp.high - ramp.low), i);
+    }
+    const t = Math.min(1, Math.max(0, (i - ramp.low) / Math.max(1e-6, ramp.high - ramp.low)));
+    for (let c = 0; c < 3; c++) {
+      lut[i * 4 + c] = Math.round(colors[0][c] + (colors[1][c] - colors[0][c]) * t);
+    }
+    lut[i * 4 + 3] = Math.round(alpha * 255);
+  }
+  return lut;
+}
+
+// CT slices use the preset's standard window; other series keep their own default
+export function getSliceWindow(volume: ScanVolume, preset: TransferPreset): { center: number; width: number } {
+  if (volume.hounsfield) return TRANSFER_PRESETS[preset].window;
+  return { center: volume.windowCenter, width: volume.windowWidth };
+}
+
+/**
+ * Draws one multiplanar slice into the canvas. Coronal and sagittal views put
+ * the last slice at the top, which is superior for series ordered by position.
+ * Returns the physical width/height ratio so callers can size the canvas.
+ */
+export function drawVolumeSlice(
+  canvas: HTMLCanvasElement,
+  volume: ScanVolume,
+  orientation: VolumeOrientation,
+  index: number,
+  displayWindow: { center: number; width: number }
+): number {
+  const { width, height, depth, data, spacing } = volume;
+  const columns = orientation === 'sagittal' ? height : width;
+  const rows = orientation === 'axial' ? height : depth;
+  const clamped = Math.min(getSliceCount(volume, orientation) - 1, Math.max(0, index));
+
+  const lower = toStored(volume, displayWindow.center - displayWindow.width / 2);
+  const upper = toStored(volume, displayWindow.center + displayWindow.width / 2);
+  const lut = new Uint8ClampedArray(256);
+  for (let i = 0; i < 256; i++) {
+    lut[i] = ((i - lower) / Math.max(1e-6, upper - lower)) * 255;
+  }
+
+  canvas.width = columns;
+  canvas.height = rows;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not available');
+  const output = ctx.createImageData(columns, rows);
+  const sliceSize = width * height;
+
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      let voxel: number;
+      if (orientation === 'axial') {
+        voxel = column + row * width + clamped * sliceSize;
+      } else if (orientation === 'coronal') {
+        voxel = column + clamped * width + (depth - 1 - row) * sliceSize;
+      } else {
+        voxel = clamped + column * width + (depth - 1 - row) * sliceSize;
+      }
+      const value = lut[data[voxel]];
+      const offset = (row * columns + column) * 4;
+      output.data[offset] = value;
+      output.data[offset + 1] = value;
+      output.data[offset + 2] = value;
+      output.data[offset + 3] = 255;
+    }
+  }
+  ctx.putImageData(output, 0, 0);
+
+  const columnSpacing = orientation === 'sagittal' ? spacing[1] : spacing[0];
+  const rowSpacing = orientation === 'axial' ? spacing[1] : spacing[2];
+  return (columns * columnSpacing) / (rows * rowSpacing);
+}
@@ -6,6 +6,11 @@ import { supabase } from '@/integrations/supabase/client';
 import { RiskBadge } from '@/components/RiskBadge';
 import { PendingApprovalsCard } from '@/components/PendingApprovalsCard';
 import { DashboardAnalytics } from '@/components/DashboardAnalytics';
+import { assessRisk } from '@/lib/riskEngine';
+import { fetchRiskInputs } from '@/lib/patientRisk';
+import { calculateNews2, news2InputFromRow, type News2Result } from '@/lib/news2';
+import { News2Badge } from '@/components/News2Badge';
+import type { RiskAssessment } from '@/types/medical';
 import { Button } from '@/components/ui/button';
 import {
   Users,
@@ -48,6 +53,8 @@ export default function Dashboard() {
     vitalsToday: 0,
   });
   const [recentPatients, setRecentPatients] = useState<RecentPatient[]>([]);
+  const [patientRisks, setPatientRisks] = useState<Record<string, RiskAssessment>>({});
+  const [patientNews2, setPatientNews2] = useState<Record<string, News2Result>>({});
   const [isLoading, setIsLoading] = useState(true);
 
   useEffect(() => {
@@ -92,6 +99,25 @@ export default function Dashboard() {
           .limit(5);
 
         setRecentPatients(patients || []);
+
+        const riskInputs = await fetchRiskInputs(patients || []);
+        setPatientRisks(
+          Object.fromEntries(Object.entries(riskInputs).map(([patientId, input]) => [patientId, assessRisk(input)]))
+        );
+
+        // Latest observation set per patient, newest first
+        const { data: latestVitals } = await supabase
+          .from('vitals')
+          .select('*')
+          .in('patient_id', (patients || []).map((p) => p.id))
+          .order('recorded_at', { ascending: false });
+        const news2ByPatient: Record<string, News2Result> = {};
+        (latestVitals || []).forEach((row) => {
+          if (news2ByPatient[row.patient_id]) return;
+          const age = patients?.find((p) => p.id === row.patient_id)?.age;
+          news2ByPatient[row.patient_id] = calculateNews2(news2InputFromRow(row, age));
+        });
+        setPatientNews2(news2ByPatient);
       } catch (error) {
         console.error('Error fetching dashboard data:', error);
       } finally {
@@ -102,13 +128,6 @@ export default function Dashboard() {
     fetchDashboardData();
   }, []);
 
-  const getRiskLevel = (patient: RecentPatient): 'low' | 'medium' | 'high' => {
-    const riskFactors = patient.allergies.length + patient.chronic_conditions.length;
-    if (riskFactors >= 3) return 'high';
-    if (riskFactors >= 1) return 'medium';
-    return 'low';
-  };
-
   const statCards = [
     {
       label: 'Total Patients',
@@ -238,7 +257,17 @@ export default function Dashboard() {
                         {patient.age} years • {patient.gender} • {patient.blood_group}
                       </p>
                     </div>
-                    <RiskBadge level={getRiskLevel(patient)} size="sm" />
+                    <div className="flex items-center gap-1.5">
+                      {patientNews2[patient.id] && (
+                        <News2Badge
+                          score={patientNews2[patient.id].total}
+                          risk={patientNews2[patient.id].risk}
+                          applicable={patientNews2[patient.id].applicable}
+                          size="sm"
+                        />
+                      )}
+                      {patientRisks[patient.id] && <RiskBadge level={patientRisks[patient.id].overallRisk} size="sm" />}
+                    </div>
                   </Link>
                 ))
               ) : (
@@ -0,0 +1,404 @@
+import { useState, useEffect } from 'react';
+import { formatDistanceToNow } from 'date-fns';
+import { DashboardLayout } from '@/components/layout/DashboardLayout';
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { DEVICE_INGEST_URL, generateDeviceKey } from '@/lib/deviceKeys';
+import { toast } from 'sonner';
+import { MonitorSmartphone, Plus, KeyRound, Pencil, Copy, AlertTriangle, Loader2 } from 'lucide-react';
+
+interface Patient {
+  id: string;
+  name: string;
+}
+
+interface Device {
+  id: string;
+  name: string;
+  device_type: string;
+  patient_id: string | null;
+  bed: string | null;
+  api_key_prefix: string;
+  active: boolean;
+  last_seen_at: string | null;
+  patients: { name: string } | null;
+}
+
+const deviceTypeLabels: Record<string, string> = {
+  bedside_monitor: 'Bedside monitor',
+  gateway: 'Gateway',
+};
+
+const UNASSIGNED = 'unassigned';
+
+const emptyForm = { name: '', device_type: 'bedside_monitor', patient_id: UNASSIGNED, bed: '' };
+
+export default function Devices() {
+  const { user } = useAuth();
+  const [devices, setDevices] = useState<Device[]>([]);
+  const [patients, setPatients] = useState<Patient[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingDevice, setEditingDevice] = useState<Device | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+  const [issuedKey, setIssuedKey] = useState<{ deviceName: string; key: string } | null>(null);
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const fetchData = async () => {
+    setIsLoading(true);
+    try {
+      const [{ data: devicesData, error }, { data: patientsData }] = await Promise.all([
+        supabase
+          .from('devices')
+          .select('id, name, device_type, patient_id, bed, api_key_prefix, active, last_seen_at, patients(name)')
+          .order('name'),
+        supabase.from('patients').select('id, name').order('name'),
+      ]);
+
+      if (error) throw error;
+      setDevices(devicesData || []);
+      setPatients(patientsData || []);
+    } catch (error) {
+      console.error('Error fetching devices:', error);
+      toast.error('Failed to load devices');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const openDialog = (device: Device | null) => {
+    setEditingDevice(device);
+    setFormData(
+      device
+        ? {
+            name: device.name,
+            device_type: device.device_type,
+            patient_id: device.patient_id || UNASSIGNED,
+            bed: device.bed || '',
+          }
+        : emptyForm
+    );
+    setIsDialogOpen(true);
+  };
+
+  const handleSubmit = async () => {
+    if (!formData.name.trim()) {
+      toast.error('Please enter a device name');
+      return;
+    }
+
+    setIsSaving(true);
+    const details = {
+      name: formData.name.trim(),
+      device_type: formData.device_type,
+      patient_id: formData.patient_id === UNASSIGNED ? null : formData.patient_id,
+      bed: formData.bed.trim() || null,
+    };
+
+    try {
+      if (editingDevice) {
+        const { error } = await supabase.from('devices').update(details).eq('id', editingDevice.id);
+        if (error) throw error;
+        toast.success('Device updated');
+      } else {
+        const { key, hash, prefix } = await generateDeviceKey();
+        const { error } = await supabase.from('devices').insert({
+          ...details,
+          api_key_hash: hash,
+          api_key_prefix: prefix,
+          created_by: user?.id,
+        });
+        if (error) throw error;
+        setIssuedKey({ deviceName: details.name, key });
+      }
+
+      setIsDialogOpen(false);
+      fetchData();
+    } catch (error) {
+      console.error('Error saving device:', error);
+      toast.error('Failed to save device', { description: error instanceof Error ? error.message : undefined });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // The old key stops working as soon as the new hash is saved
+  const handleRotateKey = async (device: Device) => {
+    try {
+      const { key, hash, prefix } = await generateDeviceKey();
+      const { error } = await supabase
+        .from('devices')
+        .update({ api_key_hash: hash, api_key_prefix: prefix })
+        .eq('id', device.id);
+      if (error) throw error;
+
+      setIssuedKey({ deviceName: device.name, key });
+      fetchData();
+    } catch (error) {
+      console.error('Error rotating device key:', error);
+      toast.error('Failed to generate a new key', { description: error instanceof Error ? error.message : undefined });
+    }
+  };
+
+  const handleToggleActive = async (device: Device, active: boolean) => {
+    const { error } = await supabase.from('devices').update({ active }).eq('id', device.id);
+    if (error) {
+      toast.error('Failed to update device', { description: error.message });
+      return;
+    }
+    setDevices((prev) => prev.map((d) => (d.id === device.id ? { ...d, active } : d)));
+  };
+
+  const copyToClipboard = async (text: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      toast.success('Copied to clipboard');
+    } catch {
+      toast.error('Could not copy to clipboard');
+    }
+  };
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold tracking-tight">Bedside Devices</h1>
+            <p className="text-muted-foreground">Monitors and gateways that send vitals automatically</p>
+          </div>
+          <Button className="gap-2" onClick={() => openDialog(null)}>
+            <Plus className="w-4 h-4" />
+            Register Device
+          </Button>
+        </div>
+
+        {/* Endpoint */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Ingestion endpoint</CardTitle>
+            <CardDescription>
+              Devices POST JSON readings or HL7 v2 ORU^R01 messages here, with their key in the x-device-key header.
+              Readings are recorded against the device's patient.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="flex items-center gap-2">
+              <code className="flex-1 text-sm bg-muted rounded-md px-3 py-2 truncate">{DEVICE_INGEST_URL}</code>
+              <Button variant="outline" size="icon" onClick={() => copyToClipboard(DEVICE_INGEST_URL)}>
+                <Copy className="w-4 h-4" />
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Devices */}
+        <Card>
+          <CardContent className="pt-6">
+            {isLoading ? (
+              <div className="py-8 flex items-center justify-center">
+                <Loader2 className="w-8 h-8 animate-spin text-primary" />
+              </div>
+            ) : devices.length === 0 ? (
+              <div className="py-8 text-center text-muted-foreground">
+                <MonitorSmartphone className="w-12 h-12 mx-auto mb-4 opacity-50" />
+                <p>No devices registered yet</p>
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Device</TableHead>
+                    <TableHead>Patient</TableHead>
+                    <TableHead>Bed</TableHead>
+                    <TableHead>Key</TableHead>
+                    <TableHead>Last seen</TableHead>
+                    <TableHead>Active</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {devices.map((device) => (
+                    <TableRow key={device.id}>
+                      <TableCell>
+                        <p className="font-medium">{device.name}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {deviceTypeLabels[device.device_type] || device.device_type}
+                        </p>
+                      </TableCell>
+                      <TableCell>
+                        {device.patients?.name || <span className="text-muted-foreground">Unassigned</span>}
+                      </TableCell>
+                      <TableCell>{device.bed || '-'}</TableCell>
+                      <TableCell className="font-mono text-xs">{device.api_key_prefix}…</TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {device.last_seen_at
+                          ? formatDistanceToNow(new Date(device.last_seen_at), { addSuffix: true })
+                          : 'Never'}
+                      </TableCell>
+                      <TableCell>
+                        <Switch
+                          checked={device.active}
+                          onCheckedChange={(checked) => handleToggleActive(device, checked)}
+                        />
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end gap-2">
+                          <Button variant="outline" size="sm" className="gap-1" onClick={() => openDialog(device)}>
+                            <Pencil className="w-3 h-3" />
+                            Edit
+                          </Button>
+                          <Button variant="outline" size="sm" className="gap-1" onClick={() => handleRotateKey(device)}>
+                            <KeyRound className="w-3 h-3" />
+                            New key
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Register / edit */}
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <MonitorSmartphone className="w-5 h-5" />
+              {editingDevice ? 'Edit Device' : 'Register Device'}
+            </DialogTitle>
+          </DialogHeader>
+          <div className="grid gap-4 py-4">
+            <div className="space-y-2">
+              <Label>Name *</Label>
+              <Input
+                value={formData.name}
+                onChange={(e) => setFormData((prev) => ({ ...prev, name: e.target.value }))}
+                placeholder="e.g., Ward 4 Bed A monitor"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Type</Label>
+                <Select
+                  value={formData.device_type}
+                  onValueChange={(value) => setFormData((prev) => ({ ...prev, device_type: value }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(deviceTypeLabels).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Bed</Label>
+                <Input
+                  value={formData.bed}
+                  onChange={(e) => setFormData((prev) => ({ ...prev, bed: e.target.value }))}
+                  placeholder="e.g., 4A"
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Patient</Label>
+              <Select
+                value={formData.patient_id}
+                onValueChange={(value) => setFormData((prev) => ({ ...prev, patient_id: value }))}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select patient" />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+                  {patients.map((patient) => (
+                    <SelectItem key={patient.id} value={patient.id}>
+                      {patient.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">Readings from an unassigned device are refused.</p>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSubmit} disabled={isSaving}>
+              {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {editingDevice ? 'Save Changes' : 'Register'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* One-time key display */}
+      <Dialog open={!!issuedKey} onOpenChange={(open) => !open && setIssuedKey(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <KeyRound className="w-5 h-5" />
+              API key for {issuedKey?.deviceName}
+            </DialogTitle>
+            <DialogDescription>Configure the device with this key.</DialogDescription>
+          </DialogHeader>
+          <div className="flex items-center gap-2">
+            <code className="flex-1 text-sm bg-muted rounded-md px-3 py-2 break-all">{issuedKey?.key}</code>
+            <Button variant="outline" size="icon" onClick={() => issuedKey && copyToClipboard(issuedKey.key)}>
+              <Copy className="w-4 h-4" />
+            </Button>
+          </div>
+          <p className="text-sm text-risk-medium flex items-start gap-2">
+            <AlertTriangle className="w-4 h-4 shrink-0 mt-0.5" />
+            This key will not be shown again. Generate a new one if it is lost.
+          </p>
+          <DialogFooter>
+            <Button onClick={() => setIssuedKey(null)}>Done</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </DashboardLayout>
+  );
+}
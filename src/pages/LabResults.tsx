@@ -8,9 +8,10 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Badge } from '@/components/ui/badge';
+import { LabOrderWorklist } from '@/components/LabOrderWorklist';
+import { CriticalLabAlerts } from '@/components/CriticalLabAlerts';
 import { supabase } from '@/integrations/supabase/client';
-import { useAuth } from '@/contexts/AuthContext';
-import { useNotifications } from '@/hooks/useNotifications';
+import type { Json } from '@/integrations/supabase/types';
 import { useToast } from '@/hooks/use-toast';
 import { format } from 'date-fns';
 import { 
@@ -24,6 +25,10 @@ import {
   Filter
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { labOrderStatusLabel } from '@/lib/labOrders';
+import { calculationLabel, describeCalculationInputs, isCalculatedResult } from '@/lib/labCalculations';
+import { describeDelta } from '@/lib/labAlerts';
+import { formatLabRange, labFlag, selectLabRange, type LabPatient, type LabReferenceRangeRow } from '@/lib/labRanges';
 import {
   LineChart,
   Line,
@@ -39,6 +44,8 @@ import {
 interface Patient {
   id: string;
   name: string;
+  gender: string;
+  age: number;
 }
 
 interface LabTestType {
@@ -52,6 +59,8 @@ interface LabTestType {
   critical_low: number | null;
   critical_high: number | null;
   description: string | null;
+  calculation: string | null;
+  lab_reference_ranges?: LabReferenceRangeRow[] | null;
 }
 
 interface LabResult {
@@ -65,10 +74,25 @@ interface LabResult {
   collected_at: string;
   resulted_at: string | null;
   created_at: string;
+  order_id: string | null;
+  calculation_inputs: Json | null;
+  previous_value: number | null;
+  delta_flag: boolean;
   lab_test_types?: LabTestType;
-  patients?: { name: string };
+  patients?: { name: string } & LabPatient;
+  lab_orders?: { accession_number: string } | null;
 }
 
+interface OpenOrder {
+  id: string;
+  accession_number: string;
+  panel: string;
+  status: string;
+}
+
+// datetime-local wants local time without a zone
+const toLocalInput = (date: Date) => format(date, "yyyy-MM-dd'T'HH:mm");
+
 const getStatusColor = (status: string) => {
   switch (status) {
     case 'critical_low':
@@ -95,13 +119,9 @@ const getStatusIcon = (status: string) => {
   }
 };
 
-const calculateStatus = (value: number, testType: LabTestType): string => {
-  if (testType.critical_low !== null && value < testType.critical_low) return 'critical_low';
-  if (testType.critical_high !== null && value > testType.critical_high) return 'critical_high';
-  if (testType.min_normal !== null && value < testType.min_normal) return 'low';
-  if (testType.max_normal !== null && value > testType.max_normal) return 'high';
-  return 'normal';
-};
+// Flags against the range for the patient's sex and age
+const calculateStatus = (value: number, testType: LabTestType, patient?: LabPatient): string =>
+  labFlag(value, selectLabRange(testType, patient));
 
 export default function LabResults() {
   const [patients, setPatients] = useState<Patient[]>([]);
@@ -112,21 +132,45 @@ export default function LabResults() {
   const [selectedPatient, setSelectedPatient] = useState('');
   const [selectedTestType, setSelectedTestType] = useState('');
   const [testValue, setTestValue] = useState('');
+  // Kept between entries: results sharing a collection time are one sample,
+  // and calculated analytes are derived from them
+  const [collectedAt, setCollectedAt] = useState(() => toLocalInput(new Date()));
   const [notes, setNotes] = useState('');
+  const [openOrders, setOpenOrders] = useState<OpenOrder[]>([]);
+  // 'auto' lets the database attach the result to the oldest open order for its panel
+  const [selectedOrder, setSelectedOrder] = useState('auto');
   const [filterPatient, setFilterPatient] = useState('all');
   const [filterCategory, setFilterCategory] = useState('all');
   const [filterStatus, setFilterStatus] = useState('all');
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedResultForTrend, setSelectedResultForTrend] = useState<string | null>(null);
   const [trendData, setTrendData] = useState<LabResult[]>([]);
-  const { user } = useAuth();
   const { toast } = useToast();
-  const { createNotification } = useNotifications();
 
   useEffect(() => {
     fetchData();
   }, []);
 
+  useEffect(() => {
+    setSelectedOrder('auto');
+    if (!selectedPatient) {
+      setOpenOrders([]);
+      return;
+    }
+
+    const fetchOpenOrders = async () => {
+      const { data } = await supabase
+        .from('lab_orders')
+        .select('id, accession_number, panel, status')
+        .eq('patient_id', selectedPatient)
+        .in('status', ['ordered', 'collected', 'in_lab'])
+        .order('ordered_at');
+      setOpenOrders(data || []);
+    };
+
+    fetchOpenOrders();
+  }, [selectedPatient]);
+
   useEffect(() => {
     if (selectedResultForTrend) {
       fetchTrendData();
@@ -137,12 +181,13 @@ export default function LabResults() {
     setLoading(true);
     
     const [patientsRes, testTypesRes, resultsRes] = await Promise.all([
-      supabase.from('patients').select('id, name').order('name'),
-      supabase.from('lab_test_types').select('*').order('category, name'),
+      supabase.from('patients').select('id, name, gender, age').order('name'),
+      supabase.from('lab_test_types').select('*, lab_reference_ranges(*)').order('category, name'),
       supabase.from('lab_results').select(`
         *,
-        lab_test_types(*),
-        patients:patient_id(name)
+        lab_test_types(*, lab_reference_ranges(*)),
+        patients:patient_id(name, gender, age),
+        lab_orders(accession_number)
       `).order('collected_at', { ascending: false }).limit(100)
     ]);
 
@@ -168,7 +213,7 @@ export default function LabResults() {
   };
 
   const handleAddResult = async () => {
-    if (!selectedPatient || !selectedTestType || !testValue) {
+    if (!selectedPatient || !selectedTestType || !testValue || !collectedAt) {
       toast({
         title: "Missing fields",
         description: "Please fill in all required fields",
@@ -181,18 +226,19 @@ export default function LabResults() {
     if (!testType) return;
 
     const numValue = parseFloat(testValue);
-    const status = calculateStatus(numValue, testType);
+    const status = calculateStatus(numValue, testType, patients.find(p => p.id === selectedPatient));
 
-    const { error } = await supabase.from('lab_results').insert({
+    const { data: inserted, error } = await supabase.from('lab_results').insert({
       patient_id: selectedPatient,
       test_type_id: selectedTestType,
       value: numValue,
       unit: testType.unit,
       status,
       notes: notes || null,
-      ordered_by: user?.id,
+      order_id: selectedOrder === 'auto' ? null : selectedOrder,
+      collected_at: new Date(collectedAt).toISOString(),
       resulted_at: new Date().toISOString()
-    });
+    }).select('delta_flag, previous_value').single();
 
     if (error) {
       console.error('Error adding lab result:', error);
@@ -202,25 +248,17 @@ export default function LabResults() {
         variant: "destructive"
       });
     } else {
+      // The database raises the critical alert to the ordering doctor and runs the delta check
+      const warnings = [
+        status.includes('critical') && 'Critical value: the ordering doctor has been alerted and must acknowledge it.',
+        inserted?.delta_flag && `Delta check: previous result was ${inserted.previous_value} ${testType.unit}.`,
+      ].filter(Boolean);
       toast({
         title: "Lab Result Added",
-        description: `${testType.name}: ${numValue} ${testType.unit}`
+        description: [`${testType.name}: ${numValue} ${testType.unit}`, ...warnings].join(' '),
+        variant: status.includes('critical') ? "destructive" : "default"
       });
 
-      // Create notification for critical values
-      if (status.includes('critical')) {
-        const patient = patients.find(p => p.id === selectedPatient);
-        if (user) {
-          await createNotification(
-            user.id,
-            'Critical Lab Value Alert',
-            `${patient?.name}'s ${testType.name} is ${status === 'critical_high' ? 'critically high' : 'critically low'} at ${numValue} ${testType.unit}`,
-            'test_result',
-            selectedPatient
-          );
-        }
-      }
-
       setDialogOpen(false);
       resetForm();
       fetchData();
@@ -232,6 +270,7 @@ export default function LabResults() {
     setSelectedTestType('');
     setTestValue('');
     setNotes('');
+    setSelectedOrder('auto');
   };
 
   const categories = [...new Set(testTypes.map(t => t.category))];
@@ -253,6 +292,11 @@ export default function LabResults() {
   });
 
   const selectedTestTypeData = testTypes.find(t => t.id === selectedTestType);
+  const selectedPatientData = patients.find(p => p.id === selectedPatient);
+  // The trend shades the range for the patient whose result was picked
+  const trendResult = results.find(r => r.id === selectedResultForTrend);
+  const trendRange = trendResult?.lab_test_types ? selectLabRange(trendResult.lab_test_types, trendResult.patients) : null;
+  const matchingOrders = openOrders.filter(o => o.panel === selectedTestTypeData?.category);
 
   return (
     <DashboardLayout>
@@ -262,7 +306,10 @@ export default function LabResults() {
             <h1 className="text-3xl font-bold tracking-tight">Lab Results</h1>
             <p className="text-muted-foreground">Manage lab test results with reference ranges and trend analysis</p>
           </div>
-          <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+          <Dialog open={dialogOpen} onOpenChange={(open) => {
+            setDialogOpen(open);
+            if (!open) resetForm();
+          }}>
             <DialogTrigger asChild>
               <Button>
                 <Plus className="h-4 w-4 mr-2" />
@@ -292,7 +339,13 @@ export default function LabResults() {
 
                 <div className="space-y-2">
                   <Label>Test Type</Label>
-                  <Select value={selectedTestType} onValueChange={setSelectedTestType}>
+                  <Select
+                    value={selectedTestType}
+                    onValueChange={(value) => {
+                      setSelectedTestType(value);
+                      setSelectedOrder('auto');
+                    }}
+                  >
                     <SelectTrigger>
                       <SelectValue placeholder="Select test" />
                     </SelectTrigger>
@@ -300,7 +353,7 @@ export default function LabResults() {
                       {categories.map(category => (
                         <div key={category}>
                           <div className="px-2 py-1.5 text-xs font-semibold text-muted-foreground">{category}</div>
-                          {testTypes.filter(t => t.category === category).map(test => (
+                          {testTypes.filter(t => t.category === category && !t.calculation).map(test => (
                             <SelectItem key={test.id} value={test.id}>
                               {test.name} ({test.code})
                             </SelectItem>
@@ -316,11 +369,33 @@ export default function LabResults() {
                     <p className="font-medium">{selectedTestTypeData.name}</p>
                     <p className="text-muted-foreground">{selectedTestTypeData.description}</p>
                     <p className="mt-1">
-                      Normal range: {selectedTestTypeData.min_normal} - {selectedTestTypeData.max_normal} {selectedTestTypeData.unit}
+                      Normal range{selectedPatientData && ` for ${selectedPatientData.name}`}:{' '}
+                      {formatLabRange(selectLabRange(selectedTestTypeData, selectedPatientData))} {selectedTestTypeData.unit}
                     </p>
                   </div>
                 )}
 
+                {selectedTestTypeData && (
+                  <div className="space-y-2">
+                    <Label>Order</Label>
+                    <Select value={selectedOrder} onValueChange={setSelectedOrder}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="auto">
+                          {matchingOrders.length > 0 ? 'Oldest open order' : 'No open order (unordered result)'}
+                        </SelectItem>
+                        {matchingOrders.map(order => (
+                          <SelectItem key={order.id} value={order.id}>
+                            {order.accession_number} · {labOrderStatusLabel(order.status)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+
                 <div className="space-y-2">
                   <Label>Value {selectedTestTypeData && `(${selectedTestTypeData.unit})`}</Label>
                   <Input
@@ -332,6 +407,19 @@ export default function LabResults() {
                   />
                 </div>
 
+                <div className="space-y-2">
+                  <Label>Collected</Label>
+                  <Input
+                    type="datetime-local"
+                    value={collectedAt}
+                    max={toLocalInput(new Date())}
+                    onChange={(e) => setCollectedAt(e.target.value)}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Use the same time for every result from one sample so eGFR, anion gap and similar values are calculated.
+                  </p>
+                </div>
+
                 <div className="space-y-2">
                   <Label>Notes (optional)</Label>
                   <Input
@@ -349,206 +437,253 @@ export default function LabResults() {
           </Dialog>
         </div>
 
-        {/* Filters */}
-        <Card>
-          <CardContent className="pt-6">
-            <div className="flex flex-wrap gap-4">
-              <div className="flex-1 min-w-[200px]">
-                <div className="relative">
-                  <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
-                  <Input
-                    placeholder="Search tests or patients..."
-                    value={searchQuery}
-                    onChange={(e) => setSearchQuery(e.target.value)}
-                    className="pl-9"
-                  />
+        <Tabs defaultValue="results" className="space-y-6">
+          <TabsList>
+            <TabsTrigger value="results">Results</TabsTrigger>
+            <TabsTrigger value="orders">Orders</TabsTrigger>
+            <TabsTrigger value="critical">Critical values</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="orders">
+            <LabOrderWorklist patients={patients} />
+          </TabsContent>
+
+          <TabsContent value="critical">
+            <CriticalLabAlerts />
+          </TabsContent>
+
+          <TabsContent value="results" className="space-y-6">
+            {/* Filters */}
+            <Card>
+              <CardContent className="pt-6">
+                <div className="flex flex-wrap gap-4">
+                  <div className="flex-1 min-w-[200px]">
+                    <div className="relative">
+                      <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                      <Input
+                        placeholder="Search tests or patients..."
+                        value={searchQuery}
+                        onChange={(e) => setSearchQuery(e.target.value)}
+                        className="pl-9"
+                      />
+                    </div>
+                  </div>
+                  <Select value={filterPatient} onValueChange={setFilterPatient}>
+                    <SelectTrigger className="w-[180px]">
+                      <SelectValue placeholder="All Patients" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All Patients</SelectItem>
+                      {patients.map(p => (
+                        <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Select value={filterCategory} onValueChange={setFilterCategory}>
+                    <SelectTrigger className="w-[150px]">
+                      <SelectValue placeholder="All Categories" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All Categories</SelectItem>
+                      {categories.map(c => (
+                        <SelectItem key={c} value={c}>{c}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Select value={filterStatus} onValueChange={setFilterStatus}>
+                    <SelectTrigger className="w-[150px]">
+                      <SelectValue placeholder="All Status" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All Status</SelectItem>
+                      <SelectItem value="abnormal">Abnormal Only</SelectItem>
+                      <SelectItem value="critical">Critical Only</SelectItem>
+                    </SelectContent>
+                  </Select>
                 </div>
-              </div>
-              <Select value={filterPatient} onValueChange={setFilterPatient}>
-                <SelectTrigger className="w-[180px]">
-                  <SelectValue placeholder="All Patients" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="all">All Patients</SelectItem>
-                  {patients.map(p => (
-                    <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
-              <Select value={filterCategory} onValueChange={setFilterCategory}>
-                <SelectTrigger className="w-[150px]">
-                  <SelectValue placeholder="All Categories" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="all">All Categories</SelectItem>
-                  {categories.map(c => (
-                    <SelectItem key={c} value={c}>{c}</SelectItem>
-                  ))}
-                </SelectContent>
-              </Select>
-              <Select value={filterStatus} onValueChange={setFilterStatus}>
-                <SelectTrigger className="w-[150px]">
-                  <SelectValue placeholder="All Status" />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="all">All Status</SelectItem>
-                  <SelectItem value="abnormal">Abnormal Only</SelectItem>
-                  <SelectItem value="critical">Critical Only</SelectItem>
-                </SelectContent>
-              </Select>
-            </div>
-          </CardContent>
-        </Card>
-
-        <div className="grid lg:grid-cols-[1fr_400px] gap-6">
-          {/* Results List */}
-          <Card>
-            <CardHeader>
-              <CardTitle className="flex items-center gap-2">
-                <TestTube className="h-5 w-5" />
-                Recent Results
-              </CardTitle>
-              <CardDescription>
-                {filteredResults.length} result{filteredResults.length !== 1 ? 's' : ''} found
-              </CardDescription>
-            </CardHeader>
-            <CardContent>
-              {loading ? (
-                <div className="text-center py-8 text-muted-foreground">Loading results...</div>
-              ) : filteredResults.length === 0 ? (
-                <div className="text-center py-8 text-muted-foreground">No lab results found</div>
-              ) : (
-                <div className="space-y-3">
-                  {filteredResults.map(result => (
-                    <div
-                      key={result.id}
-                      className={cn(
-                        "flex items-center gap-4 p-4 rounded-lg border cursor-pointer transition-colors hover:bg-accent/50",
-                        selectedResultForTrend === result.id && "ring-2 ring-primary"
-                      )}
-                      onClick={() => setSelectedResultForTrend(result.id)}
-                    >
-                      <div className={cn("p-2 rounded-full", getStatusColor(result.status))}>
-                        {getStatusIcon(result.status)}
-                      </div>
-                      <div className="flex-1">
-                        <div className="flex items-center gap-2">
-                          <span className="font-medium">{result.lab_test_types?.name}</span>
-                          <Badge variant="outline" className="text-xs">
-                            {result.lab_test_types?.code}
+              </CardContent>
+            </Card>
+
+            <div className="grid lg:grid-cols-[1fr_400px] gap-6">
+              {/* Results List */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <TestTube className="h-5 w-5" />
+                    Recent Results
+                  </CardTitle>
+                  <CardDescription>
+                    {filteredResults.length} result{filteredResults.length !== 1 ? 's' : ''} found
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {loading ? (
+                    <div className="text-center py-8 text-muted-foreground">Loading results...</div>
+                  ) : filteredResults.length === 0 ? (
+                    <div className="text-center py-8 text-muted-foreground">No lab results found</div>
+                  ) : (
+                    <div className="space-y-3">
+                      {filteredResults.map(result => (
+                        <div
+                          key={result.id}
+                          className={cn(
+                            "flex items-center gap-4 p-4 rounded-lg border cursor-pointer transition-colors hover:bg-accent/50",
+                            selectedResultForTrend === result.id && "ring-2 ring-primary"
+                          )}
+                          onClick={() => setSelectedResultForTrend(result.id)}
+                        >
+                          <div className={cn("p-2 rounded-full", getStatusColor(result.status))}>
+                            {getStatusIcon(result.status)}
+                          </div>
+                          <div className="flex-1">
+                            <div className="flex items-center gap-2">
+                              <span className="font-medium">{result.lab_test_types?.name}</span>
+                              <Badge variant="outline" className="text-xs">
+                                {result.lab_test_types?.code}
+                              </Badge>
+                              {isCalculatedResult(result) && (
+                                <Badge
+                                  variant="secondary"
+                                  className="text-xs"
+                                  title={calculationLabel(result.lab_test_types?.calculation)?.formula}
+                                >
+                                  Calculated
+                                </Badge>
+                              )}
+                              {result.delta_flag && (
+                                <Badge variant="outline" className="text-xs border-risk-medium text-risk-medium">
+                                  Delta {describeDelta(result)}
+                                </Badge>
+                              )}
+                              {result.lab_orders && (
+                                <span className="text-xs font-mono text-muted-foreground">
+                                  {result.lab_orders.accession_number}
+                                </span>
+                              )}
+                            </div>
+                            <p className="text-sm text-muted-foreground">
+                              {result.patients?.name} • {format(new Date(result.collected_at), 'MMM d, yyyy')}
+                            </p>
+                            {isCalculatedResult(result) && (
+                              <p className="text-xs text-muted-foreground">
+                                From {describeCalculationInputs(result.calculation_inputs)}
+                              </p>
+                            )}
+                            {isCalculatedResult(result) && calculationLabel(result.lab_test_types?.calculation)?.caveat && (
+                              <p className="text-xs text-risk-medium">
+                                {calculationLabel(result.lab_test_types?.calculation)?.caveat}
+                              </p>
+                            )}
+                          </div>
+                          <div className="text-right">
+                            <p className="font-mono font-semibold">
+                              {result.value} <span className="text-muted-foreground">{result.unit}</span>
+                            </p>
+                            <p className="text-xs text-muted-foreground">
+                              Range: {result.lab_test_types && formatLabRange(selectLabRange(result.lab_test_types, result.patients))}
+                            </p>
+                          </div>
+                          <Badge className={getStatusColor(result.status)}>
+                            {result.status.replace('_', ' ')}
                           </Badge>
                         </div>
-                        <p className="text-sm text-muted-foreground">
-                          {result.patients?.name} • {format(new Date(result.collected_at), 'MMM d, yyyy')}
-                        </p>
-                      </div>
-                      <div className="text-right">
-                        <p className="font-mono font-semibold">
-                          {result.value} <span className="text-muted-foreground">{result.unit}</span>
-                        </p>
-                        <p className="text-xs text-muted-foreground">
-                          Range: {result.lab_test_types?.min_normal}-{result.lab_test_types?.max_normal}
-                        </p>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+
+              {/* Trend Chart */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <TrendingUp className="h-5 w-5" />
+                    Trend Analysis
+                  </CardTitle>
+                  <CardDescription>
+                    {selectedResultForTrend 
+                      ? `${trendData[0]?.lab_test_types?.name || 'Test'} over time`
+                      : 'Select a result to view trends'
+                    }
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  {selectedResultForTrend && trendData.length > 0 ? (
+                    <div className="h-[300px]">
+                      <ResponsiveContainer width="100%" height="100%">
+                        <LineChart data={trendData}>
+                          <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                          <XAxis 
+                            dataKey="collected_at" 
+                            tickFormatter={(val) => format(new Date(val), 'MM/dd')}
+                            className="text-xs"
+                          />
+                          <YAxis className="text-xs" />
+                          <Tooltip
+                            content={({ active, payload }) => {
+                              if (active && payload?.length) {
+                                const data = payload[0].payload as LabResult;
+                                return (
+                                  <div className="bg-popover border rounded-lg p-3 shadow-lg">
+                                    <p className="font-medium">{data.lab_test_types?.name}</p>
+                                    <p className="text-lg font-mono">{data.value} {data.unit}</p>
+                                    <p className="text-xs text-muted-foreground">
+                                      {format(new Date(data.collected_at), 'PPp')}
+                                    </p>
+                                  </div>
+                                );
+                              }
+                              return null;
+                            }}
+                          />
+                          {trendRange && trendRange.min_normal !== null && trendRange.max_normal !== null && (
+                            <ReferenceArea
+                              y1={trendRange.min_normal}
+                              y2={trendRange.max_normal}
+                              fill="hsl(var(--chart-2))"
+                              fillOpacity={0.1}
+                            />
+                          )}
+                          {trendRange && trendRange.min_normal !== null && (
+                            <ReferenceLine 
+                              y={trendRange.min_normal} 
+                              stroke="hsl(var(--chart-2))"
+                              strokeDasharray="5 5"
+                              label={{ value: 'Min', position: 'left', fontSize: 10 }}
+                            />
+                          )}
+                          {trendRange && trendRange.max_normal !== null && (
+                            <ReferenceLine 
+                              y={trendRange.max_normal} 
+                              stroke="hsl(var(--chart-2))"
+                              strokeDasharray="5 5"
+                              label={{ value: 'Max', position: 'left', fontSize: 10 }}
+                            />
+                          )}
+                          <Line
+                            type="monotone"
+                            dataKey="value"
+                            stroke="hsl(var(--primary))"
+                            strokeWidth={2}
+                            dot={{ fill: 'hsl(var(--primary))', strokeWidth: 2 }}
+                            activeDot={{ r: 6 }}
+                          />
+                        </LineChart>
+                      </ResponsiveContainer>
+                    </div>
+                  ) : (
+                    <div className="h-[300px] flex items-center justify-center text-muted-foreground">
+                      <div className="text-center">
+                        <TrendingUp className="h-12 w-12 mx-auto mb-3 opacity-50" />
+                        <p>Select a lab result to view historical trends</p>
                       </div>
-                      <Badge className={getStatusColor(result.status)}>
-                        {result.status.replace('_', ' ')}
-                      </Badge>
                     </div>
-                  ))}
-                </div>
-              )}
-            </CardContent>
-          </Card>
-
-          {/* Trend Chart */}
-          <Card>
-            <CardHeader>
-              <CardTitle className="flex items-center gap-2">
-                <TrendingUp className="h-5 w-5" />
-                Trend Analysis
-              </CardTitle>
-              <CardDescription>
-                {selectedResultForTrend 
-                  ? `${trendData[0]?.lab_test_types?.name || 'Test'} over time`
-                  : 'Select a result to view trends'
-                }
-              </CardDescription>
-            </CardHeader>
-            <CardContent>
-              {selectedResultForTrend && trendData.length > 0 ? (
-                <div className="h-[300px]">
-                  <ResponsiveContainer width="100%" height="100%">
-                    <LineChart data={trendData}>
-                      <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
-                      <XAxis 
-                        dataKey="collected_at" 
-                        tickFormatter={(val) => format(new Date(val), 'MM/dd')}
-                        className="text-xs"
-                      />
-                      <YAxis className="text-xs" />
-                      <Tooltip
-                        content={({ active, payload }) => {
-                          if (active && payload?.length) {
-                            const data = payload[0].payload as LabResult;
-                            return (
-                              <div className="bg-popover border rounded-lg p-3 shadow-lg">
-                                <p className="font-medium">{data.lab_test_types?.name}</p>
-                                <p className="text-lg font-mono">{data.value} {data.unit}</p>
-                                <p className="text-xs text-muted-foreground">
-                                  {format(new Date(data.collected_at), 'PPp')}
-                                </p>
-                              </div>
-                            );
-                          }
-                          return null;
-                        }}
-                      />
-                      {trendData[0]?.lab_test_types?.min_normal && trendData[0]?.lab_test_types?.max_normal && (
-                        <ReferenceArea
-                          y1={trendData[0].lab_test_types.min_normal}
-                          y2={trendData[0].lab_test_types.max_normal}
-                          fill="hsl(var(--chart-2))"
-                          fillOpacity={0.1}
-                        />
-                      )}
-                      {trendData[0]?.lab_test_types?.min_normal && (
-                        <ReferenceLine 
-                          y={trendData[0].lab_test_types.min_normal} 
-                          stroke="hsl(var(--chart-2))"
-                          strokeDasharray="5 5"
-                          label={{ value: 'Min', position: 'left', fontSize: 10 }}
-                        />
-                      )}
-                      {trendData[0]?.lab_test_types?.max_normal && (
-                        <ReferenceLine 
-                          y={trendData[0].lab_test_types.max_normal} 
-                          stroke="hsl(var(--chart-2))"
-                          strokeDasharray="5 5"
-                          label={{ value: 'Max', position: 'left', fontSize: 10 }}
-                        />
-                      )}
-                      <Line
-                        type="monotone"
-                        dataKey="value"
-                        stroke="hsl(var(--primary))"
-                        strokeWidth={2}
-                        dot={{ fill: 'hsl(var(--primary))', strokeWidth: 2 }}
-                        activeDot={{ r: 6 }}
-                      />
-                    </LineChart>
-                  </ResponsiveContainer>
-                </div>
-              ) : (
-                <div className="h-[300px] flex items-center justify-center text-muted-foreground">
-                  <div className="text-center">
-                    <TrendingUp className="h-12 w-12 mx-auto mb-3 opacity-50" />
-                    <p>Select a lab result to view historical trends</p>
-                  </div>
-                </div>
-              )}
-            </CardContent>
-          </Card>
-        </div>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+          </TabsContent>
+        </Tabs>
       </div>
     </DashboardLayout>
   );
@@ -6,14 +6,28 @@ import { ClinicalDisclaimer } from '@/components/ClinicalDisclaimer';
 import { VitalsChart } from '@/components/VitalsChart';
 import { PatientLinkDialog } from '@/components/PatientLinkDialog';
 import { PatientEditDialog } from '@/components/PatientEditDialog';
+import { ObservationScheduleCard } from '@/components/ObservationScheduleCard';
+import { FluidBalancePanel } from '@/components/FluidBalancePanel';
 import { EnhancedLabPanel } from '@/components/EnhancedLabPanel';
+import { LabOrderWorklist } from '@/components/LabOrderWorklist';
+import { CriticalLabAlerts } from '@/components/CriticalLabAlerts';
 import { ComparativeScanViewer } from '@/components/ComparativeScanViewer';
 import { Scan3DViewer } from '@/components/Scan3DViewer';
 import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
+import { useSignedScanUrl } from '@/hooks/useSignedScanUrl';
 import { generateAnalysisReport, downloadPdf } from '@/lib/pdfGenerator';
+import { fetchScanFindings } from '@/lib/scanFindings';
+import { assessRisk, type RiskLabInput } from '@/lib/riskEngine';
+import { buildRiskInput, fetchLatestLabs } from '@/lib/patientRisk';
+import { RiskFactorBreakdown } from '@/components/RiskFactorBreakdown';
+import { News2Badge } from '@/components/News2Badge';
+import { calculateNews2, news2InputFromRow } from '@/lib/news2';
+import { formatGcs, formatPain, gcsFromRow, painFromRow } from '@/lib/neuroObservations';
+import { classifyVital, formatVitalRange, getAgeBand, isAbnormalFlag, type VitalParameter } from '@/lib/vitalRanges';
+import type { ScanFinding } from '@/types/medical';
 import { toast } from 'sonner';
 import { PatientPrescriptionHistory } from '@/components/PatientPrescriptionHistory';
 import {
@@ -40,6 +54,10 @@ import {
   ArrowLeftRight,
   Box,
   Pill,
+  MonitorSmartphone,
+  BedDouble,
+  Droplet,
+  Scale,
 } from 'lucide-react';
 
 interface Patient {
@@ -55,6 +73,9 @@ interface Patient {
   email: string | null;
   phone: string | null;
   address: string | null;
+  department: string | null;
+  bed: string | null;
+  weight_kg: number | null;
   created_at: string;
 }
 
@@ -69,12 +90,25 @@ interface Vitals {
   blood_pressure_systolic: number | null;
   blood_pressure_diastolic: number | null;
   smoking_history: boolean | null;
+  on_oxygen: boolean;
+  consciousness: string;
+  spo2_scale: number;
+  pain_scale: string | null;
+  pain_score: number | null;
+  gcs_eye: number | null;
+  gcs_verbal: number | null;
+  gcs_motor: number | null;
+  gcs_total: number | null;
+  news2_score: number | null;
+  device_id: string | null;
+  devices: { name: string } | null;
 }
 
 interface MedicalScan {
   id: string;
   patient_id: string;
   scan_type: string;
+  image_url: string | null;
   diagnosis_probability: number | null;
   abnormality_score: number | null;
   confidence_score: number | null;
@@ -82,6 +116,8 @@ interface MedicalScan {
   risk_level: string | null;
   ai_explanation: string | null;
   ai_factors: string[] | null;
+  primary_diagnosis: string | null;
+  differential_diagnoses: string[] | null;
   created_at: string;
 }
 
@@ -101,7 +137,9 @@ export default function PatientDetail() {
   const [patient, setPatient] = useState<Patient | null>(null);
   const [vitals, setVitals] = useState<Vitals[]>([]);
   const [scans, setScans] = useState<MedicalScan[]>([]);
+  const [findingsByScan, setFindingsByScan] = useState<Record<string, ScanFinding[]>>({});
   const [records, setRecords] = useState<MedicalRecord[]>([]);
+  const [labs, setLabs] = useState<RiskLabInput[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isGeneratingPdf, setIsGeneratingPdf] = useState(false);
   const [showLinkDialog, setShowLinkDialog] = useState(false);
@@ -126,7 +164,7 @@ export default function PatientDetail() {
         // Fetch vitals
         const { data: vitalsData } = await supabase
           .from('vitals')
-          .select('*')
+          .select('*, devices(name)')
           .eq('patient_id', id)
           .order('recorded_at', { ascending: false })
           .limit(20);
@@ -139,6 +177,7 @@ export default function PatientDetail() {
           .eq('patient_id', id)
           .order('created_at', { ascending: false });
         setScans(scansData || []);
+        setFindingsByScan(await fetchScanFindings((scansData || []).map((s) => s.id)));
 
         // Fetch records
         const { data: recordsData } = await supabase
@@ -147,6 +186,8 @@ export default function PatientDetail() {
           .eq('patient_id', id)
           .order('date', { ascending: false });
         setRecords(recordsData || []);
+
+        setLabs(await fetchLatestLabs(id));
       } catch (error) {
         console.error('Error fetching patient data:', error);
       } finally {
@@ -160,55 +201,12 @@ export default function PatientDetail() {
   const latestVitals = vitals[0];
   const latestScan = scans[0];
 
-  // Calculate risk assessment
-  const calculateRisk = () => {
-    let score = 0;
-    const factors: string[] = [];
-
-    if (latestVitals) {
-      if (latestVitals.spo2 && latestVitals.spo2 < 94) {
-        score += 30;
-        factors.push('Low oxygen saturation');
-      }
-      if (latestVitals.temperature && latestVitals.temperature > 38) {
-        score += 20;
-        factors.push('Elevated temperature');
-      }
-      if (latestVitals.heart_rate && (latestVitals.heart_rate > 100 || latestVitals.heart_rate < 60)) {
-        score += 15;
-        factors.push('Abnormal heart rate');
-      }
-      if (latestVitals.smoking_history) {
-        score += 15;
-        factors.push('Smoking history');
-      }
-    }
-
-    if (latestScan) {
-      if (latestScan.diagnosis_probability && latestScan.diagnosis_probability > 0.7) {
-        score += 30;
-        factors.push('High AI diagnosis probability');
-      }
-    }
-
-    if (patient) {
-      if (patient.chronic_conditions.length > 0) {
-        score += 10;
-        factors.push('Chronic conditions present');
-      }
-    }
-
-    const overallRisk: 'low' | 'medium' | 'high' = score >= 60 ? 'high' : score >= 30 ? 'medium' : 'low';
-    const explanation = overallRisk === 'high'
-      ? 'High risk detected. Immediate clinical review recommended.'
-      : overallRisk === 'medium'
-      ? 'Moderate risk. Follow-up assessment advised.'
-      : 'Low risk. Continue standard monitoring.';
-
-    return { overallRisk, fusedScore: Math.min(score, 100), explanation, factors };
-  };
-
-  const risk = calculateRisk();
+  const risk = assessRisk(buildRiskInput(patient, latestVitals, latestScan, labs));
+  const news2 = latestVitals ? calculateNews2(news2InputFromRow(latestVitals, patient?.age)) : null;
+  const ageBand = getAgeBand(patient?.age);
+  const vitalStatus = (parameter: VitalParameter, value: number | null) =>
+    isAbnormalFlag(classifyVital(parameter, value === null ? null : Number(value), ageBand)) ? 'warning' : 'normal';
+  const vitalReference = (parameter: VitalParameter) => `${ageBand.label}: ${formatVitalRange(parameter, ageBand)}`;
 
   const handleExportPdf = async () => {
     if (!patient) return;
@@ -232,6 +230,8 @@ export default function PatientDetail() {
           bloodPressureSystolic: latestVitals.blood_pressure_systolic || 0,
           bloodPressureDiastolic: latestVitals.blood_pressure_diastolic || 0,
           smokingHistory: latestVitals.smoking_history || false,
+          pain: painFromRow(latestVitals),
+          gcs: gcsFromRow(latestVitals),
           recordedAt: latestVitals.recorded_at,
         } : null,
         latestScan ? {
@@ -243,6 +243,9 @@ export default function PatientDetail() {
           riskLevel: latestScan.risk_level || 'unknown',
           aiExplanation: latestScan.ai_explanation || '',
           aiFactors: latestScan.ai_factors || [],
+          primaryDiagnosis: latestScan.primary_diagnosis,
+          differentialDiagnoses: latestScan.differential_diagnoses || [],
+          findings: findingsByScan[latestScan.id] || [],
           createdAt: latestScan.created_at,
         } : null,
         risk,
@@ -385,11 +388,24 @@ export default function PatientDetail() {
                 <span className="text-muted-foreground">Blood Group:</span>
                 <span className="font-medium text-foreground">{patient.blood_group}</span>
               </div>
+              <div className="flex items-center gap-2">
+                <Scale className="w-4 h-4 text-muted-foreground" />
+                <span className="text-muted-foreground">Weight:</span>
+                <span className="font-medium text-foreground">{patient.weight_kg ? `${patient.weight_kg} kg` : 'Not recorded'}</span>
+              </div>
               <div className="flex items-center gap-2">
                 <Phone className="w-4 h-4 text-muted-foreground" />
                 <span className="text-muted-foreground">Emergency:</span>
                 <span className="font-medium text-foreground">{patient.emergency_contact}</span>
               </div>
+              <div className="flex items-center gap-2">
+                <BedDouble className="w-4 h-4 text-muted-foreground" />
+                <span className="text-muted-foreground">Ward:</span>
+                <span className="font-medium text-foreground">
+                  {patient.department || 'Unassigned'}
+                  {patient.bed && `, bed ${patient.bed}`}
+                </span>
+              </div>
               <div className="flex items-center gap-2">
                 <Calendar className="w-4 h-4 text-muted-foreground" />
                 <span className="text-muted-foreground">Registered:</span>
@@ -448,9 +464,13 @@ export default function PatientDetail() {
               <div className="inline-flex items-center justify-center w-20 h-20 rounded-full bg-gradient-to-br from-primary/20 to-secondary/20 mb-2">
                 <span className="text-2xl font-display font-bold text-foreground">{risk.fusedScore}%</span>
               </div>
-              <RiskBadge level={risk.overallRisk} size="md" />
+              <div className="flex items-center justify-center gap-2 flex-wrap">
+                {news2 && <News2Badge score={news2.total} risk={news2.risk} applicable={news2.applicable} size="md" />}
+                <RiskBadge level={risk.overallRisk} size="md" />
+              </div>
             </div>
-            <p className="text-xs text-muted-foreground text-center">{risk.explanation}</p>
+            <p className="text-xs text-muted-foreground text-center mb-4">{risk.explanation}</p>
+            <RiskFactorBreakdown risk={risk} />
           </div>
         </div>
 
@@ -465,6 +485,10 @@ export default function PatientDetail() {
               <TrendingUp className="w-4 h-4" />
               Charts
             </TabsTrigger>
+            <TabsTrigger value="fluids" className="gap-2">
+              <Droplet className="w-4 h-4" />
+              Fluids
+            </TabsTrigger>
             <TabsTrigger value="labs" className="gap-2">
               <TestTube className="w-4 h-4" />
               Lab Results
@@ -492,50 +516,81 @@ export default function PatientDetail() {
           </TabsList>
 
           {/* Vitals Tab */}
-          <TabsContent value="vitals" className="animate-fade-in">
+          <TabsContent value="vitals" className="animate-fade-in space-y-4">
             {latestVitals ? (
-              <div className="grid md:grid-cols-2 lg:grid-cols-4 gap-4">
-                <VitalCard
-                  icon={Activity}
-                  label="SpO₂"
-                  value={`${latestVitals.spo2 || '-'}%`}
-                  status={latestVitals.spo2 && latestVitals.spo2 < 94 ? 'warning' : 'normal'}
-                  reference="Normal: 95-100%"
-                />
-                <VitalCard
-                  icon={Thermometer}
-                  label="Temperature"
-                  value={`${latestVitals.temperature || '-'}°C`}
-                  status={latestVitals.temperature && Number(latestVitals.temperature) > 38 ? 'warning' : 'normal'}
-                  reference="Normal: 36.1-37.2°C"
-                />
-                <VitalCard
-                  icon={Heart}
-                  label="Heart Rate"
-                  value={`${latestVitals.heart_rate || '-'} bpm`}
-                  status={latestVitals.heart_rate && latestVitals.heart_rate > 100 ? 'warning' : 'normal'}
-                  reference="Normal: 60-100 bpm"
-                />
-                <VitalCard
-                  icon={Wind}
-                  label="Respiratory Rate"
-                  value={`${latestVitals.respiratory_rate || '-'} /min`}
-                  status={latestVitals.respiratory_rate && latestVitals.respiratory_rate > 20 ? 'warning' : 'normal'}
-                  reference="Normal: 12-20 /min"
-                />
+              <div className="space-y-3">
+                <div className="grid md:grid-cols-2 lg:grid-cols-4 gap-4">
+                  <VitalCard
+                    icon={Activity}
+                    label="SpO₂"
+                    value={`${latestVitals.spo2 || '-'}%`}
+                    status={vitalStatus('spo2', latestVitals.spo2)}
+                    reference={vitalReference('spo2')}
+                  />
+                  <VitalCard
+                    icon={Thermometer}
+                    label="Temperature"
+                    value={`${latestVitals.temperature || '-'}°C`}
+                    status={vitalStatus('temperature', latestVitals.temperature)}
+                    reference={vitalReference('temperature')}
+                  />
+                  <VitalCard
+                    icon={Heart}
+                    label="Heart Rate"
+                    value={`${latestVitals.heart_rate || '-'} bpm`}
+                    status={vitalStatus('heartRate', latestVitals.heart_rate)}
+                    reference={vitalReference('heartRate')}
+                  />
+                  <VitalCard
+                    icon={Wind}
+                    label="Respiratory Rate"
+                    value={`${latestVitals.respiratory_rate || '-'} /min`}
+                    status={vitalStatus('respiratoryRate', latestVitals.respiratory_rate)}
+                    reference={vitalReference('respiratoryRate')}
+                  />
+                </div>
+                {(latestVitals.pain_score !== null || latestVitals.gcs_total !== null) && (
+                  <div className="flex flex-wrap gap-x-6 gap-y-1 text-sm">
+                    <span>
+                      <span className="text-muted-foreground">Pain: </span>
+                      <span className="font-medium text-foreground">{formatPain(painFromRow(latestVitals))}</span>
+                    </span>
+                    <span>
+                      <span className="text-muted-foreground">GCS: </span>
+                      <span className="font-medium text-foreground">{formatGcs(gcsFromRow(latestVitals))}</span>
+                    </span>
+                  </div>
+                )}
+                <p className="text-xs text-muted-foreground flex items-center gap-1.5">
+                  {latestVitals.device_id ? <MonitorSmartphone className="w-3 h-3" /> : <User className="w-3 h-3" />}
+                  Recorded {new Date(latestVitals.recorded_at).toLocaleString()} by{' '}
+                  {latestVitals.device_id ? latestVitals.devices?.name || 'a bedside device' : 'manual entry'}
+                </p>
               </div>
             ) : (
               <EmptyState icon={Activity} message="No vitals recorded yet" />
             )}
+            <ObservationScheduleCard patientId={patient.id} lastRecordedAt={latestVitals?.recorded_at ?? null} news2={news2} />
           </TabsContent>
 
           {/* Charts Tab */}
           <TabsContent value="charts" className="animate-fade-in">
-            <VitalsChart vitals={vitals} />
+            <VitalsChart vitals={vitals} age={patient.age} />
+          </TabsContent>
+
+          {/* Fluids Tab */}
+          <TabsContent value="fluids" className="animate-fade-in">
+            <FluidBalancePanel
+              patientId={patient.id}
+              patientName={patient.name}
+              weightKg={patient.weight_kg === null ? null : Number(patient.weight_kg)}
+            />
           </TabsContent>
 
           {/* Lab Results Tab */}
-          <TabsContent value="labs" className="animate-fade-in">
+          <TabsContent value="labs" className="animate-fade-in space-y-6">
+            {id && <CriticalLabAlerts patientId={id} />}
+            {id && <LabOrderWorklist patientId={id} />}
             {id && <EnhancedLabPanel patientId={id} />}
           </TabsContent>
 
@@ -549,11 +604,30 @@ export default function PatientDetail() {
                       <h3 className="font-semibold text-foreground capitalize">{scan.scan_type} Analysis</h3>
                       {scan.risk_level && <RiskBadge level={scan.risk_level as any} size="sm" />}
                     </div>
+                    {scan.image_url && <ScanImage path={scan.image_url} alt={`${scan.scan_type} scan`} />}
                     <div className="space-y-3">
                       <MetricBar label="Diagnosis Probability" value={Number(scan.diagnosis_probability) || 0} />
                       <MetricBar label="Abnormality Score" value={Number(scan.abnormality_score) || 0} />
                       <MetricBar label="Confidence" value={Number(scan.confidence_score) || 0} />
                     </div>
+                    {scan.primary_diagnosis && (
+                      <p className="mt-4 text-sm">
+                        <span className="text-muted-foreground">Primary diagnosis: </span>
+                        <span className="font-medium text-foreground">{scan.primary_diagnosis}</span>
+                      </p>
+                    )}
+                    {findingsByScan[scan.id]?.length > 0 && (
+                      <ul className="mt-3 space-y-1.5">
+                        {findingsByScan[scan.id].map((finding) => (
+                          <li key={finding.id} className="flex items-start justify-between gap-3 text-sm">
+                            <span className="text-muted-foreground">
+                              <span className="font-medium text-foreground">{finding.area}:</span> {finding.observation}
+                            </span>
+                            <span className="text-xs font-medium capitalize text-muted-foreground shrink-0">{finding.severity}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
                     <div className="mt-4 pt-4 border-t border-border flex items-center justify-between text-sm">
                       <span className="text-muted-foreground flex items-center gap-1.5">
                         <Clock className="w-4 h-4" />
@@ -577,8 +651,8 @@ export default function PatientDetail() {
           {/* 3D View Tab */}
           <TabsContent value="3d" className="animate-fade-in">
             <div className="grid md:grid-cols-2 gap-6">
-              <Scan3DViewer scanType="ct" sliceCount={64} />
-              <Scan3DViewer scanType="mri" sliceCount={48} />
+              <Scan3DViewer scanType="ct" />
+              <Scan3DViewer scanType="mri" />
             </div>
           </TabsContent>
 
@@ -667,6 +741,22 @@ function MetricBar({ label, value }: { label: string; value: number }) {
   );
 }
 
+function ScanImage({ path, alt }: { path: string; alt: string }) {
+  const { url, loading } = useSignedScanUrl(path);
+
+  return (
+    <div className="aspect-video mb-4 rounded-lg overflow-hidden bg-muted flex items-center justify-center">
+      {url ? (
+        <img src={url} alt={alt} className="w-full h-full object-contain" />
+      ) : loading ? (
+        <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+      ) : (
+        <span className="text-sm text-muted-foreground">Image unavailable</span>
+      )}
+    </div>
+  );
+}
+
 function EmptyState({ icon: Icon, message }: { icon: React.ElementType; message: string }) {
   return (
     <div className="bg-card rounded-xl border border-border p-12 text-center">
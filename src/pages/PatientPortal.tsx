@@ -5,6 +5,7 @@ import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
 import { useAuth } from '@/contexts/AuthContext';
 import { ClinicalDisclaimer } from '@/components/ClinicalDisclaimer';
 import { VitalsChart } from '@/components/VitalsChart';
@@ -28,6 +29,8 @@ import {
   ClockIcon
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { describeCalculationInputs, isCalculatedResult } from '@/lib/labCalculations';
+import { formatLabRange, selectLabRange, type LabReferenceRangeRow } from '@/lib/labRanges';
 
 interface PatientData {
   id: string;
@@ -55,11 +58,15 @@ interface LabResult {
   unit: string;
   status: string;
   collected_at: string;
+  calculation_inputs: Json | null;
   lab_test_types: {
     name: string;
     code: string;
     min_normal: number | null;
     max_normal: number | null;
+    critical_low: number | null;
+    critical_high: number | null;
+    lab_reference_ranges: LabReferenceRangeRow[] | null;
   };
 }
 
@@ -184,7 +191,7 @@ export default function PatientPortal() {
           .limit(10),
         supabase
           .from('lab_results')
-          .select('*, lab_test_types(*)')
+          .select('*, lab_test_types(*, lab_reference_ranges(*))')
           .eq('patient_id', patientRecord.id)
           .order('collected_at', { ascending: false })
           .limit(20),
@@ -506,6 +513,7 @@ export default function PatientPortal() {
                           </div>
                           <p className="text-sm text-muted-foreground">
                             {format(new Date(result.collected_at), 'MMM d, yyyy')}
+                            {isCalculatedResult(result) && ` • Calculated from ${describeCalculationInputs(result.calculation_inputs)}`}
                           </p>
                         </div>
                         <div className="text-right">
@@ -513,7 +521,7 @@ export default function PatientPortal() {
                             {result.value} <span className="text-muted-foreground">{result.unit}</span>
                           </p>
                           <p className="text-xs text-muted-foreground">
-                            Range: {result.lab_test_types.min_normal}-{result.lab_test_types.max_normal}
+                            Range: {formatLabRange(selectLabRange(result.lab_test_types, patientData))}
                           </p>
                         </div>
                         <Badge className={getStatusColor(result.status)}>
@@ -579,7 +587,7 @@ export default function PatientPortal() {
                     <p>No vitals recorded yet</p>
                   </div>
                 ) : (
-                  <VitalsChart vitals={vitals} />
+                  <VitalsChart vitals={vitals} age={patientData?.age} />
                 )}
               </CardContent>
             </Card>
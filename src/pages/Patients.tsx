@@ -4,8 +4,11 @@ import { DashboardLayout } from '@/components/layout/DashboardLayout';
 import { PatientRegistrationForm } from '@/components/PatientRegistrationForm';
 import { PatientSearchFilters, PatientFilters } from '@/components/PatientSearchFilters';
 import { supabase } from '@/integrations/supabase/client';
+import { useDebouncedValue } from '@/hooks/useDebouncedValue';
 import { Button } from '@/components/ui/button';
 import { RiskBadge } from '@/components/RiskBadge';
+import { findPatientIdsWithFindings } from '@/lib/scanFindings';
+import type { FindingSeverity } from '@/types/medical';
 import {
   Plus,
   ChevronRight,
@@ -34,7 +37,11 @@ export default function Patients() {
     searchQuery: '',
     bloodGroup: 'all',
     riskLevel: 'all',
+    findingSeverity: 'all',
+    findingArea: '',
   });
+  const [findingPatientIds, setFindingPatientIds] = useState<Set<string> | null>(null);
+  const findingArea = useDebouncedValue(filters.findingArea);
   const [showRegistration, setShowRegistration] = useState(false);
 
   const fetchPatients = async () => {
@@ -58,6 +65,21 @@ export default function Patients() {
     fetchPatients();
   }, []);
 
+  useEffect(() => {
+    if (filters.findingSeverity === 'all') {
+      setFindingPatientIds(null);
+      return;
+    }
+
+    let cancelled = false;
+    findPatientIdsWithFindings(filters.findingSeverity as FindingSeverity, findingArea).then((ids) => {
+      if (!cancelled) setFindingPatientIds(new Set(ids));
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [filters.findingSeverity, findingArea]);
+
   // Calculate risk level based on conditions and allergies
   const getRiskLevel = (patient: Patient): 'low' | 'medium' | 'high' => {
     const riskFactors = patient.allergies.length + patient.chronic_conditions.length;
@@ -83,9 +105,12 @@ export default function Patients() {
       const patientRisk = getRiskLevel(patient);
       const riskMatch = filters.riskLevel === 'all' || patientRisk === filters.riskLevel;
 
-      return searchMatch && bloodGroupMatch && riskMatch;
+      // Scan findings filter
+      const findingsMatch = !findingPatientIds || findingPatientIds.has(patient.id);
+
+      return searchMatch && bloodGroupMatch && riskMatch && findingsMatch;
     });
-  }, [patients, filters]);
+  }, [patients, filters, findingPatientIds]);
 
   return (
     <DashboardLayout>
@@ -189,7 +214,7 @@ export default function Patients() {
               <div className="text-center py-12">
                 <Users className="w-12 h-12 mx-auto text-muted-foreground/50 mb-4" />
                 <p className="text-muted-foreground">
-                  {filters.searchQuery || filters.bloodGroup !== 'all' || filters.riskLevel !== 'all'
+                  {filters.searchQuery || filters.bloodGroup !== 'all' || filters.riskLevel !== 'all' || filters.findingSeverity !== 'all'
                     ? 'No patients found matching your filters'
                     : 'No patients registered yet'}
                 </p>
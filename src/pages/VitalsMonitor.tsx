@@ -13,6 +13,23 @@ import {
 } from '@/components/ui/select';
 import { supabase } from '@/integrations/supabase/client';
 import { RiskBadge } from '@/components/RiskBadge';
+import { RiskFactorBreakdown } from '@/components/RiskFactorBreakdown';
+import { News2Badge } from '@/components/News2Badge';
+import { PainNeuroInputs } from '@/components/PainNeuroInputs';
+import { assessRisk } from '@/lib/riskEngine';
+import { fetchRiskInputs } from '@/lib/patientRisk';
+import { classifyVital, describeVitalFlag, formatVitalRange, getAgeBand, isAbnormalFlag } from '@/lib/vitalRanges';
+import {
+  calculateNews2,
+  news2RequiresEscalation,
+  CONSCIOUSNESS_LABELS,
+  type Consciousness,
+  type News2Result,
+  type Spo2Scale,
+} from '@/lib/news2';
+import { analyzeVitalTrends, BASELINE_WINDOW_HOURS, TREND_WINDOW_HOURS } from '@/lib/vitalTrends';
+import { emptyPainNeuro, gcsTotal, painScoreFromState, validatePainNeuro } from '@/lib/neuroObservations';
+import type { RiskAssessment } from '@/types/medical';
 import { toast } from 'sonner';
 import {
   Activity,
@@ -26,18 +43,14 @@ import {
   TrendingUp,
   AlertTriangle,
   Loader2,
+  Brain,
 } from 'lucide-react';
 
 interface Patient {
   id: string;
   name: string;
-}
-
-interface RiskResult {
-  overallRisk: 'low' | 'medium' | 'high';
-  vitalsRiskScore: number;
-  explanation: string;
-  factors: string[];
+  age: number;
+  chronic_conditions: string[];
 }
 
 export default function VitalsMonitor() {
@@ -53,8 +66,13 @@ export default function VitalsMonitor() {
     bloodPressureSystolic: '',
     bloodPressureDiastolic: '',
     smokingHistory: false,
+    onOxygen: false,
+    consciousness: 'A' as Consciousness,
+    spo2Scale: 1 as Spo2Scale,
   });
-  const [riskResult, setRiskResult] = useState<RiskResult | null>(null);
+  const [painNeuro, setPainNeuro] = useState(emptyPainNeuro);
+  const [riskResult, setRiskResult] = useState<RiskAssessment | null>(null);
+  const [news2Result, setNews2Result] = useState<News2Result | null>(null);
 
   useEffect(() => {
     const fetchPatients = async () => {
@@ -62,7 +80,7 @@ export default function VitalsMonitor() {
       try {
         const { data, error } = await supabase
           .from('patients')
-          .select('id, name')
+          .select('id, name, age, chronic_conditions')
           .order('name');
 
         if (error) throw error;
@@ -77,45 +95,88 @@ export default function VitalsMonitor() {
     fetchPatients();
   }, []);
 
-  const calculateRisk = () => {
-    let score = 0;
-    const factors: string[] = [];
+  // SpO2 scale 2 is a standing clinical decision, so carry it over from the last observation
+  useEffect(() => {
+    if (!selectedPatient) return;
+    setPainNeuro(emptyPainNeuro(patients.find((p) => p.id === selectedPatient)?.age));
 
-    const spO2 = Number(vitals.spO2);
-    const temp = Number(vitals.temperature);
-    const hr = Number(vitals.heartRate);
-    const rr = Number(vitals.respiratoryRate);
+    const fetchSpo2Scale = async () => {
+      const { data } = await supabase
+        .from('vitals')
+        .select('spo2_scale')
+        .eq('patient_id', selectedPatient)
+        .order('recorded_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
 
-    if (spO2 && spO2 < 94) {
-      score += 30;
-      factors.push('Low oxygen saturation (SpO2 < 94%)');
-    }
-    if (temp && temp > 38) {
-      score += 20;
-      factors.push('Elevated temperature (fever)');
-    }
-    if (hr && (hr > 100 || hr < 60)) {
-      score += 15;
-      factors.push('Abnormal heart rate');
-    }
-    if (rr && rr > 20) {
-      score += 20;
-      factors.push('Elevated respiratory rate');
-    }
-    if (vitals.smokingHistory) {
-      score += 15;
-      factors.push('Smoking history increases risk');
-    }
+      setVitals((current) => ({ ...current, spo2Scale: data?.spo2_scale === 2 ? 2 : 1 }));
+    };
+
+    fetchSpo2Scale();
+  }, [selectedPatient, patients]);
 
-    const overallRisk: 'low' | 'medium' | 'high' = score >= 60 ? 'high' : score >= 30 ? 'medium' : 'low';
-    const explanation =
-      overallRisk === 'high'
-        ? 'High risk detected. Immediate clinical review recommended.'
-        : overallRisk === 'medium'
-        ? 'Moderate risk. Follow-up assessment advised.'
-        : 'Low risk profile. Continue standard monitoring.';
+  const toValue = (value: string) => Number(value) || null;
+  const selectedAge = patients.find((p) => p.id === selectedPatient)?.age;
+  const ageBand = getAgeBand(selectedAge);
 
-    return { overallRisk, vitalsRiskScore: Math.min(score, 100), explanation, factors };
+  const news2 = calculateNews2({
+    respiratoryRate: toValue(vitals.respiratoryRate),
+    spo2: toValue(vitals.spO2),
+    spo2Scale: vitals.spo2Scale,
+    onOxygen: vitals.onOxygen,
+    systolic: toValue(vitals.bloodPressureSystolic),
+    heartRate: toValue(vitals.heartRate),
+    consciousness: vitals.consciousness,
+    temperature: toValue(vitals.temperature),
+    age: selectedAge,
+  });
+  const news2Points = Object.fromEntries(news2.parameters.map((p) => [p.parameter, p.score]));
+
+  // Scores the entered vitals together with the patient's latest scan, labs and history
+  const calculateRisk = async (patient: Patient) => {
+    const context = (await fetchRiskInputs([patient]))[patient.id];
+
+    return assessRisk({
+      ...context,
+      smokingHistory: vitals.smokingHistory,
+      vitals: {
+        spo2: toValue(vitals.spO2),
+        temperature: toValue(vitals.temperature),
+        heartRate: toValue(vitals.heartRate),
+        respiratoryRate: toValue(vitals.respiratoryRate),
+        bloodPressureSystolic: toValue(vitals.bloodPressureSystolic),
+        bloodPressureDiastolic: toValue(vitals.bloodPressureDiastolic),
+        painScore: painScoreFromState(painNeuro),
+        gcsTotal: gcsTotal(painNeuro.gcs),
+      },
+    });
+  };
+
+  // Runs the trend rules over the patient's recent history, including the observation just saved
+  const checkTrends = async (patient: Patient) => {
+    const since = new Date(Date.now() - (TREND_WINDOW_HOURS + BASELINE_WINDOW_HOURS) * 60 * 60 * 1000);
+    const { data, error } = await supabase
+      .from('vitals')
+      .select('recorded_at, spo2, temperature, heart_rate, respiratory_rate, blood_pressure_systolic')
+      .eq('patient_id', patient.id)
+      .gte('recorded_at', since.toISOString())
+      .order('recorded_at', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching vitals history:', error);
+      return null;
+    }
+
+    const analysis = analyzeVitalTrends(data || [], patient.age, Date.now());
+    if (analysis.deteriorating) {
+      const { error: notifyError } = await supabase.rpc('raise_care_team_alert', {
+        _patient_id: patient.id,
+        _title: `Deteriorating - ${patient.name}`,
+        _message: analysis.alerts.map((alert) => alert.message).join('. '),
+      });
+      if (notifyError) console.error('Error notifying care team:', notifyError);
+    }
+    return analysis;
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
@@ -126,6 +187,14 @@ export default function VitalsMonitor() {
       return;
     }
 
+    const painNeuroError = validatePainNeuro(painNeuro);
+    if (painNeuroError) {
+      toast.error(painNeuroError);
+      return;
+    }
+    const painScore = painScoreFromState(painNeuro);
+    const flacc = painNeuro.painScale === 'flacc' && painScore !== null ? painNeuro.flacc : null;
+
     setIsSaving(true);
 
     try {
@@ -138,16 +207,42 @@ export default function VitalsMonitor() {
         blood_pressure_systolic: Number(vitals.bloodPressureSystolic) || null,
         blood_pressure_diastolic: Number(vitals.bloodPressureDiastolic) || null,
         smoking_history: vitals.smokingHistory,
+        on_oxygen: vitals.onOxygen,
+        consciousness: vitals.consciousness,
+        spo2_scale: vitals.spo2Scale,
+        pain_scale: painScore === null ? null : painNeuro.painScale,
+        pain_score: painScore,
+        flacc_face: flacc?.face ?? null,
+        flacc_legs: flacc?.legs ?? null,
+        flacc_activity: flacc?.activity ?? null,
+        flacc_cry: flacc?.cry ?? null,
+        flacc_consolability: flacc?.consolability ?? null,
+        gcs_eye: painNeuro.gcs.eye,
+        gcs_verbal: painNeuro.gcs.verbal,
+        gcs_motor: painNeuro.gcs.motor,
       });
 
       if (error) throw error;
 
-      const risk = calculateRisk();
+      const patient = patients.find((p) => p.id === selectedPatient);
+      const risk = patient ? await calculateRisk(patient) : null;
+      const trends = patient ? await checkTrends(patient) : null;
       setRiskResult(risk);
+      setNews2Result(news2);
 
       toast.success('Vitals recorded successfully', {
-        description: `Risk assessment: ${risk.overallRisk.toUpperCase()} (${risk.vitalsRiskScore}%)`,
+        description: risk
+          ? `Risk assessment: ${risk.overallRisk.toUpperCase()} (${risk.fusedScore}%)${news2.applicable ? ` · NEWS2 ${news2.total}` : ''}`
+          : undefined,
       });
+      if (news2RequiresEscalation(news2)) {
+        toast.warning(`NEWS2 ${news2.total}: care team alerted`, { description: news2.response });
+      }
+      if (trends?.deteriorating) {
+        toast.warning('Deteriorating trend: care team alerted', {
+          description: trends.alerts.map((alert) => alert.message).join('. '),
+        });
+      }
     } catch (error: any) {
       console.error('Error saving vitals:', error);
       toast.error('Failed to save vitals', { description: error.message });
@@ -165,16 +260,26 @@ export default function VitalsMonitor() {
       bloodPressureSystolic: '',
       bloodPressureDiastolic: '',
       smokingHistory: false,
+      onOxygen: false,
+      consciousness: 'A',
+      spo2Scale: vitals.spo2Scale,
     });
+    setPainNeuro(emptyPainNeuro(patients.find((p) => p.id === selectedPatient)?.age));
     setRiskResult(null);
+    setNews2Result(null);
   };
 
+  // Input bounds match the database checks; what counts as abnormal depends on the patient's age band
   const vitalInputs = [
-    { key: 'spO2', label: 'SpO₂ (%)', icon: Droplets, placeholder: '95-100', unit: '%', min: 70, max: 100, warning: (v: number) => v < 94 },
-    { key: 'temperature', label: 'Temperature', icon: Thermometer, placeholder: '36.5', unit: '°C', min: 35, max: 42, step: 0.1, warning: (v: number) => v > 38 },
-    { key: 'heartRate', label: 'Heart Rate', icon: Heart, placeholder: '60-100', unit: 'bpm', min: 40, max: 200, warning: (v: number) => v < 60 || v > 100 },
-    { key: 'respiratoryRate', label: 'Respiratory Rate', icon: Wind, placeholder: '12-20', unit: '/min', min: 8, max: 40, warning: (v: number) => v > 20 },
-  ];
+    { key: 'spO2', parameter: 'spo2', news2: 'spo2', label: 'SpO₂ (%)', icon: Droplets, unit: '%', min: 50, max: 100, step: 1 },
+    { key: 'temperature', parameter: 'temperature', news2: 'temperature', label: 'Temperature', icon: Thermometer, unit: '°C', min: 30, max: 45, step: 0.1 },
+    { key: 'heartRate', parameter: 'heartRate', news2: 'heart_rate', label: 'Heart Rate', icon: Heart, unit: 'bpm', min: 20, max: 300, step: 1 },
+    { key: 'respiratoryRate', parameter: 'respiratoryRate', news2: 'respiratory_rate', label: 'Respiratory Rate', icon: Wind, unit: '/min', min: 5, max: 60, step: 1 },
+  ] as const;
+
+  const systolicFlag = classifyVital('systolic', toValue(vitals.bloodPressureSystolic), ageBand);
+  const diastolicFlag = classifyVital('diastolic', toValue(vitals.bloodPressureDiastolic), ageBand);
+  const bloodPressureFlag = isAbnormalFlag(systolicFlag) ? systolicFlag : diastolicFlag;
 
   return (
     <DashboardLayout>
@@ -213,8 +318,11 @@ export default function VitalsMonitor() {
                 </h3>
                 <div className="grid sm:grid-cols-2 gap-4">
                   {vitalInputs.map((input) => {
-                    const value = vitals[input.key as keyof typeof vitals];
-                    const isWarning = value && input.warning(Number(value));
+                    const value = vitals[input.key];
+                    const flag = classifyVital(input.parameter, toValue(value), ageBand);
+                    const points = value ? news2Points[input.news2] : 0;
+                    const isWarning = isAbnormalFlag(flag) || points > 0;
+                    const isCritical = flag?.startsWith('critical') || points === 3;
 
                     return (
                       <div key={input.key} className="space-y-2">
@@ -225,20 +333,29 @@ export default function VitalsMonitor() {
                         <div className="relative">
                           <Input
                             type="number"
-                            placeholder={input.placeholder}
-                            value={value as string}
+                            placeholder={`${ageBand.ranges[input.parameter].min}-${ageBand.ranges[input.parameter].max}`}
+                            value={value}
                             onChange={(e) => setVitals({ ...vitals, [input.key]: e.target.value })}
                             min={input.min}
                             max={input.max}
-                            step={input.step || 1}
-                            className={isWarning ? 'border-risk-medium focus-visible:ring-risk-medium' : ''}
+                            step={input.step}
+                            className={
+                              isCritical
+                                ? 'border-risk-high focus-visible:ring-risk-high'
+                                : isWarning
+                                ? 'border-risk-medium focus-visible:ring-risk-medium'
+                                : ''
+                            }
                           />
                           <span className="absolute right-3 top-1/2 -translate-y-1/2 text-sm text-muted-foreground">{input.unit}</span>
                         </div>
                         {isWarning && (
-                          <p className="text-xs text-risk-medium flex items-center gap-1">
+                          <p className={`text-xs flex items-center gap-1 ${isCritical ? 'text-risk-high' : 'text-risk-medium'}`}>
                             <AlertTriangle className="w-3 h-3" />
-                            Abnormal value
+                            {isAbnormalFlag(flag)
+                              ? `${describeVitalFlag(flag, ageBand)}: ${formatVitalRange(input.parameter, ageBand)}`
+                              : 'Within age range'}
+                            {points > 0 && ` · NEWS2 +${points}`}
                           </p>
                         )}
                       </div>
@@ -255,25 +372,85 @@ export default function VitalsMonitor() {
                   <div className="flex gap-2 items-center">
                     <Input
                       type="number"
-                      placeholder="120"
+                      placeholder={String(ageBand.ranges.systolic.max)}
                       value={vitals.bloodPressureSystolic}
                       onChange={(e) => setVitals({ ...vitals, bloodPressureSystolic: e.target.value })}
-                      min={70}
-                      max={200}
+                      min={50}
+                      max={300}
                       className="w-24"
                     />
                     <span className="text-muted-foreground">/</span>
                     <Input
                       type="number"
-                      placeholder="80"
+                      placeholder={String(ageBand.ranges.diastolic.max)}
                       value={vitals.bloodPressureDiastolic}
                       onChange={(e) => setVitals({ ...vitals, bloodPressureDiastolic: e.target.value })}
-                      min={40}
-                      max={130}
+                      min={30}
+                      max={200}
                       className="w-24"
                     />
                     <span className="text-sm text-muted-foreground">mmHg</span>
                   </div>
+                  {(isAbnormalFlag(bloodPressureFlag) || news2Points.systolic > 0) && (
+                    <p
+                      className={`text-xs flex items-center gap-1 ${
+                        bloodPressureFlag?.startsWith('critical') || news2Points.systolic === 3 ? 'text-risk-high' : 'text-risk-medium'
+                      }`}
+                    >
+                      <AlertTriangle className="w-3 h-3" />
+                      {isAbnormalFlag(bloodPressureFlag)
+                        ? `${describeVitalFlag(bloodPressureFlag, ageBand)}: ${formatVitalRange(isAbnormalFlag(systolicFlag) ? 'systolic' : 'diastolic', ageBand)}`
+                        : 'Within age range'}
+                      {news2Points.systolic > 0 && ` · NEWS2 +${news2Points.systolic}`}
+                    </p>
+                  )}
+                </div>
+
+                {/* Consciousness and oxygen */}
+                <div className="mt-4 grid sm:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label className="text-sm font-medium text-foreground flex items-center gap-2">
+                      <Brain className="w-4 h-4 text-muted-foreground" />
+                      Consciousness (ACVPU)
+                    </Label>
+                    <Select
+                      value={vitals.consciousness}
+                      onValueChange={(value) => setVitals({ ...vitals, consciousness: value as Consciousness })}
+                    >
+                      <SelectTrigger className={vitals.consciousness !== 'A' ? 'border-risk-high' : ''}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(CONSCIOUSNESS_LABELS) as Consciousness[]).map((level) => (
+                          <SelectItem key={level} value={level}>
+                            {level} - {CONSCIOUSNESS_LABELS[level]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-3 pt-1">
+                    <div className="flex items-center gap-3">
+                      <Checkbox
+                        id="on-oxygen"
+                        checked={vitals.onOxygen}
+                        onCheckedChange={(checked) => setVitals({ ...vitals, onOxygen: checked as boolean })}
+                      />
+                      <Label htmlFor="on-oxygen" className="text-sm text-muted-foreground cursor-pointer">
+                        On supplemental oxygen
+                      </Label>
+                    </div>
+                    <div className="flex items-center gap-3">
+                      <Checkbox
+                        id="spo2-scale"
+                        checked={vitals.spo2Scale === 2}
+                        onCheckedChange={(checked) => setVitals({ ...vitals, spo2Scale: checked ? 2 : 1 })}
+                      />
+                      <Label htmlFor="spo2-scale" className="text-sm text-muted-foreground cursor-pointer">
+                        SpO₂ scale 2 (hypercapnic respiratory failure)
+                      </Label>
+                    </div>
+                  </div>
                 </div>
 
                 {/* Smoking history */}
@@ -290,6 +467,8 @@ export default function VitalsMonitor() {
                 </div>
               </div>
 
+              <PainNeuroInputs value={painNeuro} onChange={setPainNeuro} acvpuAlert={vitals.consciousness === 'A'} />
+
               {/* Actions */}
               <div className="flex gap-3 mt-4">
                 <Button type="button" variant="outline" onClick={handleReset} className="flex-1">
@@ -316,46 +495,51 @@ export default function VitalsMonitor() {
           {/* Risk assessment panel */}
           <div className="space-y-4">
             {riskResult ? (
-              <>
-                <div
-                  className={`rounded-xl border p-6 shadow-soft ${
-                    riskResult.overallRisk === 'high'
-                      ? 'bg-risk-high/5 border-risk-high/20'
-                      : riskResult.overallRisk === 'medium'
-                      ? 'bg-risk-medium/5 border-risk-medium/20'
-                      : 'bg-risk-low/5 border-risk-low/20'
-                  }`}
-                >
-                  <div className="flex items-center justify-between mb-4">
-                    <h3 className="font-display font-semibold text-foreground">Risk Assessment</h3>
+              <div
+                className={`rounded-xl border p-6 shadow-soft ${
+                  riskResult.overallRisk === 'high'
+                    ? 'bg-risk-high/5 border-risk-high/20'
+                    : riskResult.overallRisk === 'medium'
+                    ? 'bg-risk-medium/5 border-risk-medium/20'
+                    : 'bg-risk-low/5 border-risk-low/20'
+                }`}
+              >
+                <div className="flex items-center justify-between mb-4">
+                  <h3 className="font-display font-semibold text-foreground">Risk Assessment</h3>
+                  <div className="flex items-center gap-2">
+                    {news2Result && (
+                      <News2Badge score={news2Result.total} risk={news2Result.risk} applicable={news2Result.applicable} size="lg" />
+                    )}
                     <RiskBadge level={riskResult.overallRisk} size="lg" />
                   </div>
-                  <div className="text-center mb-4">
-                    <div className="inline-flex items-center justify-center w-24 h-24 rounded-full bg-gradient-to-br from-primary/20 to-secondary/20">
-                      <span className="text-3xl font-display font-bold text-foreground">{riskResult.vitalsRiskScore}%</span>
-                    </div>
-                    <p className="text-sm text-muted-foreground mt-2">Vitals Risk Score</p>
+                </div>
+                <div className="text-center mb-4">
+                  <div className="inline-flex items-center justify-center w-24 h-24 rounded-full bg-gradient-to-br from-primary/20 to-secondary/20">
+                    <span className="text-3xl font-display font-bold text-foreground">{riskResult.fusedScore}%</span>
                   </div>
-                  <p className="text-sm text-muted-foreground">{riskResult.explanation}</p>
+                  <p className="text-sm text-muted-foreground mt-2">Fused Risk Score</p>
                 </div>
-
-                {riskResult.factors.length > 0 && (
-                  <div className="bg-card rounded-xl border border-border p-5 shadow-soft">
-                    <h3 className="font-display font-semibold text-foreground mb-3 flex items-center gap-2">
-                      <AlertTriangle className="w-5 h-5 text-risk-medium" />
-                      Risk Factors
-                    </h3>
-                    <ul className="space-y-2">
-                      {riskResult.factors.map((factor, i) => (
-                        <li key={i} className="flex items-start gap-2 text-sm text-muted-foreground">
-                          <span className="w-1.5 h-1.5 rounded-full bg-risk-medium mt-2 flex-shrink-0" />
-                          {factor}
+                <p className="text-sm text-muted-foreground mb-4">{riskResult.explanation}</p>
+                <RiskFactorBreakdown risk={riskResult} />
+                {news2Result && (
+                  <div className="mt-4 pt-4 border-t border-border space-y-1.5">
+                    <p className="text-sm font-medium text-foreground">
+                      NEWS2 {news2Result.applicable ? news2Result.total : 'not applicable'}
+                    </p>
+                    <p className="text-xs text-muted-foreground">{news2Result.response}</p>
+                    <ul className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs">
+                      {news2Result.parameters.map((p) => (
+                        <li key={p.parameter} className="flex justify-between">
+                          <span className="text-muted-foreground">{p.label}</span>
+                          <span className={p.score === 3 ? 'font-semibold text-risk-high' : 'font-medium text-foreground'}>
+                            {p.recorded ? p.score : '-'}
+                          </span>
                         </li>
                       ))}
                     </ul>
                   </div>
                 )}
-              </>
+              </div>
             ) : (
               <div className="bg-card rounded-xl border border-border p-12 text-center shadow-soft">
                 <div className="w-20 h-20 rounded-2xl bg-secondary/10 flex items-center justify-center mx-auto mb-4">
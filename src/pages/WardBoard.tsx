@@ -0,0 +1,288 @@
+import { useState, useEffect, useMemo } from 'react';
+import { DashboardLayout } from '@/components/layout/DashboardLayout';
+import { WardPatientTile } from '@/components/WardPatientTile';
+import { OverdueObservationQueue } from '@/components/OverdueObservationQueue';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { assessRisk, type RiskInput } from '@/lib/riskEngine';
+import { fetchRiskInputs, riskVitalsFromRow } from '@/lib/patientRisk';
+import { calculateNews2, news2InputFromRow, type News2Result } from '@/lib/news2';
+import { DEPARTMENTS, observationStatus, scheduledIntervalMinutes } from '@/lib/observationSchedule';
+import { useCareStaff } from '@/hooks/useCareStaff';
+import { AlertTriangle, Clock, LayoutGrid, Loader2, Radio, Users } from 'lucide-react';
+
+type WardPatient = Pick<Tables<'patients'>, 'id' | 'name' | 'age' | 'chronic_conditions' | 'department' | 'bed'>;
+type VitalsRow = Tables<'vitals'>;
+type Schedule = Tables<'observation_schedules'>;
+type SortKey = 'risk' | 'overdue' | 'name';
+
+const ALL_DEPARTMENTS = 'all';
+const UNASSIGNED = 'unassigned';
+
+// Unscored patients have no observations or are too young for NEWS2; they sort below anyone scoring
+const NO_SCORE = -1;
+
+const news2Score = (news2: News2Result | null) => (news2?.applicable ? news2.total : NO_SCORE);
+
+export default function WardBoard() {
+  const [patients, setPatients] = useState<WardPatient[]>([]);
+  const [latestVitals, setLatestVitals] = useState<Record<string, VitalsRow>>({});
+  const [riskInputs, setRiskInputs] = useState<Record<string, RiskInput>>({});
+  const [schedules, setSchedules] = useState<Record<string, Schedule>>({});
+  const [highlighted, setHighlighted] = useState<Set<string>>(new Set());
+  const [department, setDepartment] = useState(ALL_DEPARTMENTS);
+  const [sortBy, setSortBy] = useState<SortKey>('risk');
+  const [now, setNow] = useState(Date.now());
+  const [isLoading, setIsLoading] = useState(true);
+  const [isLive, setIsLive] = useState(false);
+  const { staff } = useCareStaff();
+
+  useEffect(() => {
+    const fetchWard = async () => {
+      setIsLoading(true);
+      try {
+        const { data: patientRows, error } = await supabase
+          .from('patients')
+          .select('id, name, age, chronic_conditions, department, bed')
+          .eq('approval_status', 'approved')
+          .order('name');
+
+        if (error) throw error;
+        const wardPatients = patientRows || [];
+        setPatients(wardPatients);
+
+        const [{ data: vitalsRows }, { data: scheduleRows }, inputs] = await Promise.all([
+          supabase
+            .from('vitals')
+            .select('*')
+            .in('patient_id', wardPatients.map((p) => p.id))
+            .order('recorded_at', { ascending: false }),
+          supabase.from('observation_schedules').select('*'),
+          fetchRiskInputs(wardPatients),
+        ]);
+
+        const latest: Record<string, VitalsRow> = {};
+        (vitalsRows || []).forEach((row) => {
+          if (!latest[row.patient_id]) latest[row.patient_id] = row;
+        });
+        setLatestVitals(latest);
+        setSchedules(Object.fromEntries((scheduleRows || []).map((row) => [row.patient_id, row])));
+        setRiskInputs(inputs);
+      } catch (error) {
+        console.error('Error fetching ward:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchWard();
+  }, []);
+
+  // New observations replace the tile's reading as they are recorded, manually or by a device
+  useEffect(() => {
+    const timeouts: ReturnType<typeof setTimeout>[] = [];
+
+    const channel = supabase
+      .channel('ward-vitals')
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'vitals',
+        },
+        (payload) => {
+          const row = payload.new as VitalsRow;
+
+          setLatestVitals((prev) => {
+            const current = prev[row.patient_id];
+            if (current && new Date(current.recorded_at) > new Date(row.recorded_at)) return prev;
+            return { ...prev, [row.patient_id]: row };
+          });
+          setRiskInputs((prev) => {
+            const input = prev[row.patient_id];
+            if (!input) return prev;
+            return {
+              ...prev,
+              [row.patient_id]: { ...input, smokingHistory: row.smoking_history, vitals: riskVitalsFromRow(row) },
+            };
+          });
+
+          setHighlighted((prev) => new Set(prev).add(row.patient_id));
+          timeouts.push(
+            setTimeout(() => {
+              setHighlighted((prev) => {
+                const next = new Set(prev);
+                next.delete(row.patient_id);
+                return next;
+              });
+            }, 4000)
+          );
+        }
+      )
+      .subscribe((status) => setIsLive(status === 'SUBSCRIBED'));
+
+    return () => {
+      timeouts.forEach(clearTimeout);
+      supabase.removeChannel(channel);
+    };
+  }, []);
+
+  // Keeps "time since last observation" and overdue warnings current
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 30 * 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const tiles = useMemo(() => {
+    return patients
+      .filter((patient) => {
+        if (department === ALL_DEPARTMENTS) return true;
+        if (department === UNASSIGNED) return !patient.department;
+        return patient.department === department;
+      })
+      .map((patient) => {
+        const vitals = latestVitals[patient.id] ?? null;
+        const news2 = vitals ? calculateNews2(news2InputFromRow(vitals, patient.age)) : null;
+        const input = riskInputs[patient.id];
+        const risk = input ? assessRisk(input) : null;
+        const schedule = schedules[patient.id] ?? null;
+        const status = observationStatus(vitals?.recorded_at, scheduledIntervalMinutes(schedule, news2), now);
+        return { patient, vitals, news2, risk, status, schedule };
+      })
+      .sort((a, b) => {
+        if (sortBy === 'name') return a.patient.name.localeCompare(b.patient.name);
+        if (sortBy === 'overdue') {
+          const overdueA = a.status.minutesSince === null ? Infinity : a.status.overdueMinutes;
+          const overdueB = b.status.minutesSince === null ? Infinity : b.status.overdueMinutes;
+          if (overdueA !== overdueB) return overdueB - overdueA;
+        }
+        const news2Diff = news2Score(b.news2) - news2Score(a.news2);
+        if (news2Diff !== 0) return news2Diff;
+        return (b.risk?.fusedScore ?? 0) - (a.risk?.fusedScore ?? 0);
+      });
+  }, [patients, latestVitals, riskInputs, schedules, department, sortBy, now]);
+
+  // Patients never observed and not on a schedule are not expected on the ward
+  const overdueQueue = tiles.filter((t) => t.status.overdue && (t.schedule || t.vitals));
+
+  const summary = [
+    { label: 'Patients', value: tiles.length, icon: Users, color: 'text-primary', bgColor: 'bg-primary/10' },
+    {
+      label: 'NEWS2 5 or more',
+      value: tiles.filter((t) => t.news2 && t.news2.total >= 5).length,
+      icon: AlertTriangle,
+      color: 'text-risk-high',
+      bgColor: 'bg-risk-high/10',
+    },
+    {
+      label: 'Observations overdue',
+      value: overdueQueue.length,
+      icon: Clock,
+      color: 'text-risk-medium',
+      bgColor: 'bg-risk-medium/10',
+    },
+  ];
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6 animate-fade-in">
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4">
+          <div>
+            <h1 className="text-2xl lg:text-3xl font-display font-bold text-foreground flex items-center gap-3">
+              <LayoutGrid className="w-7 h-7 text-primary" />
+              Ward Board
+            </h1>
+            <p className="text-muted-foreground mt-1 flex items-center gap-2">
+              Latest observations for every patient
+              <span className={`inline-flex items-center gap-1 text-xs ${isLive ? 'text-risk-low' : 'text-muted-foreground'}`}>
+                <Radio className="w-3 h-3" />
+                {isLive ? 'Live' : 'Connecting...'}
+              </span>
+            </p>
+          </div>
+
+          <div className="flex gap-3">
+            <Select value={department} onValueChange={setDepartment}>
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_DEPARTMENTS}>All departments</SelectItem>
+                {DEPARTMENTS.map((d) => (
+                  <SelectItem key={d} value={d}>
+                    {d}
+                  </SelectItem>
+                ))}
+                <SelectItem value={UNASSIGNED}>Unassigned</SelectItem>
+              </SelectContent>
+            </Select>
+            <Select value={sortBy} onValueChange={(v) => setSortBy(v as SortKey)}>
+              <SelectTrigger className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="risk">Highest risk first</SelectItem>
+                <SelectItem value="overdue">Most overdue first</SelectItem>
+                <SelectItem value="name">Name</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="grid sm:grid-cols-3 gap-4">
+          {summary.map((stat) => (
+            <div key={stat.label} className="bg-card rounded-xl border border-border p-4 shadow-soft flex items-center gap-3">
+              <div className={`w-10 h-10 rounded-lg ${stat.bgColor} flex items-center justify-center`}>
+                <stat.icon className={`w-5 h-5 ${stat.color}`} />
+              </div>
+              <div>
+                <p className="text-2xl font-bold text-foreground">{stat.value}</p>
+                <p className="text-xs text-muted-foreground">{stat.label}</p>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {!isLoading && (
+          <OverdueObservationQueue
+            items={overdueQueue}
+            staffNames={Object.fromEntries(staff.map((s) => [s.user_id, s.full_name]))}
+          />
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-16">
+            <Loader2 className="w-8 h-8 animate-spin text-primary" />
+          </div>
+        ) : tiles.length === 0 ? (
+          <div className="bg-card rounded-xl border border-border p-12 text-center text-muted-foreground">
+            No patients in this department
+          </div>
+        ) : (
+          <div className="grid sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
+            {tiles.map((tile) => (
+              <WardPatientTile
+                key={tile.patient.id}
+                patient={tile.patient}
+                vitals={tile.vitals}
+                news2={tile.news2}
+                risk={tile.risk}
+                status={tile.status}
+                highlighted={highlighted.has(tile.patient.id)}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+}
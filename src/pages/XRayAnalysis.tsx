@@ -1,4 +1,4 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
 import { DashboardLayout } from '@/components/layout/DashboardLayout';
 import { ClinicalDisclaimer } from '@/components/ClinicalDisclaimer';
 import { RiskBadge } from '@/components/RiskBadge';
@@ -8,6 +8,7 @@ import { Scan3DViewer } from '@/components/Scan3DViewer';
 import { Button } from '@/components/ui/button';
 import { Checkbox } from '@/components/ui/checkbox';
 import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import {
   Select,
@@ -25,6 +26,20 @@ import {
 } from '@/components/ui/dialog';
 import { supabase } from '@/integrations/supabase/client';
 import { generateAnalysisReport, downloadPdf } from '@/lib/pdfGenerator';
+import { uploadScanImage, uploadScanHeatmap } from '@/lib/scanStorage';
+import { renderHeatmap, loadImageDimensions } from '@/lib/heatmapRenderer';
+import { parseFindings, saveScanFindings } from '@/lib/scanFindings';
+import { assessRisk } from '@/lib/riskEngine';
+import { fetchRiskInputs } from '@/lib/patientRisk';
+import {
+  isDicomFile,
+  parseDicomFile,
+  renderDicomImage,
+  scanTypeForModality,
+  dicomPatientMatches,
+  type DicomImage,
+} from '@/lib/dicom';
+import type { ScanRegion, ScanFinding } from '@/types/medical';
 import { useAuth } from '@/contexts/AuthContext';
 import { toast } from 'sonner';
 import {
@@ -43,11 +58,13 @@ import {
   Stethoscope,
   ArrowLeftRight,
   MessageSquare,
+  FileScan,
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
 
 interface Patient {
   id: string;
+  patient_id: string | null;
   name: string;
   age: number;
   gender: string;
@@ -56,7 +73,10 @@ interface Patient {
   chronic_conditions: string[];
 }
 
+type AnalysisStatus = 'complete' | 'partial' | 'failed';
+
 interface AnalysisResult {
+  analysisStatus: AnalysisStatus;
   diagnosisProbability: number;
   abnormalityScore: number;
   confidenceScore: number;
@@ -64,8 +84,20 @@ interface AnalysisResult {
   riskLevel: 'low' | 'medium' | 'high';
   explanation: string;
   factors: string[];
+  regions: ScanRegion[];
+  primaryDiagnosis: string | null;
+  differentialDiagnoses: string[];
+  recommendations: string[];
+  findings: ScanFinding[];
 }
 
+const severityStyles: Record<ScanFinding['severity'], string> = {
+  normal: 'bg-risk-low/10 text-risk-low',
+  mild: 'bg-risk-low/10 text-risk-low',
+  moderate: 'bg-risk-medium/10 text-risk-medium',
+  severe: 'bg-risk-high/10 text-risk-high',
+};
+
 type ScanType = 'xray' | 'ct' | 'mri' | 'ecg' | 'ultrasound';
 
 const scanTypes: { value: ScanType; label: string; icon: React.ElementType; description: string }[] = [
@@ -82,16 +114,26 @@ export default function XRayAnalysis() {
   const [selectedPatient, setSelectedPatient] = useState<string>('');
   const [selectedScanType, setSelectedScanType] = useState<ScanType>('xray');
   const [uploadedImage, setUploadedImage] = useState<string | null>(null);
+  const [dicomImage, setDicomImage] = useState<DicomImage | null>(null);
+  const [dicomWindow, setDicomWindow] = useState<{ center: number; width: number } | null>(null);
   const [consentAccepted, setConsentAccepted] = useState(false);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [analysisResult, setAnalysisResult] = useState<AnalysisResult | null>(null);
   const [showHeatmap, setShowHeatmap] = useState(true);
+  const [heatmapOverlay, setHeatmapOverlay] = useState<string | null>(null);
+  const [heatmapOpacity, setHeatmapOpacity] = useState(0.6);
   const [isExporting, setIsExporting] = useState(false);
   const [showComparison, setShowComparison] = useState(false);
   const [showAnnotations, setShowAnnotations] = useState(false);
   const [latestScanId, setLatestScanId] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  useEffect(() => {
+    return () => {
+      if (heatmapOverlay) URL.revokeObjectURL(heatmapOverlay);
+    };
+  }, [heatmapOverlay]);
+
   useEffect(() => {
     const fetchPatients = async () => {
       const { data } = await supabase.from('patients').select('*').order('name');
@@ -100,16 +142,55 @@ export default function XRayAnalysis() {
     fetchPatients();
   }, []);
 
+  const selectedPatientRecord = patients.find((p) => p.id === selectedPatient);
+  const dicomPatientMatch = useMemo(
+    () => (dicomImage && selectedPatientRecord ? dicomPatientMatches(dicomImage.metadata, selectedPatientRecord) : null),
+    [dicomImage, selectedPatientRecord]
+  );
+
+  const handleDicomUpload = async (file: File) => {
+    try {
+      const image = await parseDicomFile(file);
+      setDicomImage(image);
+      setDicomWindow({ center: image.windowCenter, width: image.windowWidth });
+      setUploadedImage(renderDicomImage(image));
+      setAnalysisResult(null);
+      setHeatmapOverlay(null);
+
+      const detectedType = scanTypeForModality(image.metadata.modality);
+      if (detectedType) setSelectedScanType(detectedType);
+    } catch (error) {
+      console.error('DICOM parsing failed:', error);
+      toast.error('Could not read DICOM file', {
+        description: error instanceof Error ? error.message : 'The file may be corrupt or unsupported.',
+      });
+      if (fileInputRef.current) fileInputRef.current.value = '';
+    }
+  };
+
   const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
-    if (file) {
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        setUploadedImage(reader.result as string);
-        setAnalysisResult(null);
-      };
-      reader.readAsDataURL(file);
+    if (!file) return;
+
+    if (isDicomFile(file)) {
+      handleDicomUpload(file);
+      return;
     }
+
+    const reader = new FileReader();
+    reader.onloadend = () => {
+      setDicomImage(null);
+      setDicomWindow(null);
+      setUploadedImage(reader.result as string);
+      setAnalysisResult(null);
+      setHeatmapOverlay(null);
+    };
+    reader.readAsDataURL(file);
+  };
+
+  const applyDicomWindow = (center: number, width: number) => {
+    if (!dicomImage) return;
+    setUploadedImage(renderDicomImage(dicomImage, center, width));
   };
 
   const handleAnalyze = async () => {
@@ -138,30 +219,89 @@ export default function XRayAnalysis() {
 
       if (error) throw error;
 
+      // Never fill in scores the model did not actually produce
+      if (data.analysisStatus === 'failed') {
+        console.error('AI response failed validation:', data.validationIssues);
+        toast.error('Analysis failed', {
+          description: 'The AI response could not be validated. No results were recorded.',
+        });
+        return;
+      }
+
       const inferenceTime = (Date.now() - startTime) / 1000;
 
       const result: AnalysisResult = {
-        diagnosisProbability: (data.confidenceScore || 70) / 100,
-        abnormalityScore: (data.abnormalityScore || 30) / 100,
-        confidenceScore: (data.confidenceScore || 85) / 100,
+        analysisStatus: data.analysisStatus,
+        diagnosisProbability: data.confidenceScore / 100,
+        abnormalityScore: data.abnormalityScore / 100,
+        confidenceScore: data.confidenceScore / 100,
         inferenceTime,
-        riskLevel: data.riskLevel || 'medium',
+        riskLevel: data.riskLevel,
         explanation: data.aiExplanation || data.primaryDiagnosis || 'Analysis completed',
         factors: data.keyFactors || data.recommendations || [],
+        regions: data.regions || [],
+        primaryDiagnosis: data.primaryDiagnosis || null,
+        differentialDiagnoses: data.differentialDiagnoses || [],
+        recommendations: data.recommendations || [],
+        findings: parseFindings(data.findings),
       };
 
+      // Keep the original upload so comparisons and annotations have a real image
+      let imagePath: string | null = null;
+      try {
+        imagePath = await uploadScanImage(selectedPatient, selectedScanType, uploadedImage);
+      } catch (uploadError) {
+        console.error('Scan upload failed:', uploadError);
+        toast.warning('Scan image not saved', { description: 'The analysis was recorded without the original image.' });
+      }
+
+      let heatmapPath: string | null = null;
+      if (result.regions.length > 0) {
+        try {
+          const { width, height } = await loadImageDimensions(uploadedImage);
+          const heatmap = await renderHeatmap(result.regions, width, height);
+          if (heatmap) {
+            setHeatmapOverlay(URL.createObjectURL(heatmap));
+            heatmapPath = await uploadScanHeatmap(selectedPatient, selectedScanType, imagePath, heatmap);
+          }
+        } catch (heatmapError) {
+          console.error('Heatmap generation failed:', heatmapError);
+        }
+      }
+
       // Save to database
-      await supabase.from('medical_scans').insert({
-        patient_id: selectedPatient,
-        scan_type: selectedScanType,
-        diagnosis_probability: result.diagnosisProbability,
-        abnormality_score: result.abnormalityScore,
-        confidence_score: result.confidenceScore,
-        inference_time: result.inferenceTime,
-        risk_level: result.riskLevel,
-        ai_explanation: result.explanation,
-        ai_factors: result.factors,
-      });
+      const { data: savedScan, error: saveError } = await supabase
+        .from('medical_scans')
+        .insert({
+          patient_id: selectedPatient,
+          scan_type: selectedScanType,
+          image_url: imagePath,
+          heatmap_url: heatmapPath,
+          diagnosis_probability: result.diagnosisProbability,
+          abnormality_score: result.abnormalityScore,
+          confidence_score: result.confidenceScore,
+          inference_time: result.inferenceTime,
+          risk_level: result.riskLevel,
+          analysis_status: result.analysisStatus,
+          ai_explanation: result.explanation,
+          ai_factors: result.factors,
+          primary_diagnosis: result.primaryDiagnosis,
+          differential_diagnoses: result.differentialDiagnoses,
+          recommendations: result.recommendations,
+          pixel_spacing: dicomImage?.metadata.pixelSpacing ?? null,
+          analyzed_by: profile?.user_id,
+        })
+        .select('id')
+        .single();
+
+      if (saveError) throw saveError;
+      setLatestScanId(savedScan.id);
+
+      try {
+        await saveScanFindings(savedScan.id, selectedPatient, result.findings);
+      } catch (findingsError) {
+        console.error('Saving findings failed:', findingsError);
+      }
 
       // Create notification for high-risk results
       if (result.riskLevel === 'high') {
@@ -178,7 +318,11 @@ export default function XRayAnalysis() {
       }
 
       setAnalysisResult(result);
-      toast.success('Analysis complete', { description: `Risk level: ${result.riskLevel.toUpperCase()}` });
+      if (result.analysisStatus === 'partial') {
+        toast.warning('Partial analysis', { description: 'Some fields in the AI response were invalid and have been left out.' });
+      } else {
+        toast.success('Analysis complete', { description: `Risk level: ${result.riskLevel.toUpperCase()}` });
+      }
     } catch (error) {
       console.error('Analysis failed:', error);
       toast.error('Analysis failed', { description: 'Please try again or contact support.' });
@@ -189,8 +333,12 @@ export default function XRayAnalysis() {
 
   const resetAnalysis = () => {
     setUploadedImage(null);
+    setDicomImage(null);
+    setDicomWindow(null);
     setAnalysisResult(null);
+    setHeatmapOverlay(null);
     setConsentAccepted(false);
+    setLatestScanId(null);
     if (fileInputRef.current) fileInputRef.current.value = '';
   };
 
@@ -202,6 +350,15 @@ export default function XRayAnalysis() {
     if (!patient) return;
 
     try {
+      const riskInput = (await fetchRiskInputs([patient]))[patient.id];
+      const risk = assessRisk({
+        ...riskInput,
+        scan: {
+          diagnosisProbability: analysisResult.diagnosisProbability,
+          abnormalityScore: analysisResult.abnormalityScore,
+        },
+      });
+
       const doc = generateAnalysisReport(
         {
           name: patient.name,
@@ -221,14 +378,12 @@ export default function XRayAnalysis() {
           riskLevel: analysisResult.riskLevel,
           aiExplanation: analysisResult.explanation,
           aiFactors: analysisResult.factors,
+          primaryDiagnosis: analysisResult.primaryDiagnosis,
+          differentialDiagnoses: analysisResult.differentialDiagnoses,
+          findings: analysisResult.findings,
           createdAt: new Date().toISOString(),
         },
-        {
-          overallRisk: analysisResult.riskLevel,
-          fusedScore: Math.round((analysisResult.diagnosisProbability + analysisResult.abnormalityScore) * 50),
-          explanation: analysisResult.explanation,
-          factors: analysisResult.factors,
-        },
+        risk,
         profile?.full_name || 'Medical Staff'
       );
 
@@ -286,7 +441,13 @@ export default function XRayAnalysis() {
                 <Label className="text-sm font-medium text-foreground mb-3 block">
                   Upload {scanTypes.find((t) => t.value === selectedScanType)?.label}
                 </Label>
-                <input ref={fileInputRef} type="file" accept="image/*" onChange={handleFileUpload} className="hidden" />
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  accept="image/*,.dcm,.dicom,application/dicom"
+                  onChange={handleFileUpload}
+                  className="hidden"
+                />
                 {!uploadedImage ? (
                   <button
                     onClick={() => fileInputRef.current?.click()}
@@ -303,8 +464,13 @@ export default function XRayAnalysis() {
                 ) : (
                   <div className="relative aspect-square max-h-80 rounded-xl overflow-hidden bg-muted">
                     <img src={uploadedImage} alt="Uploaded scan" className="w-full h-full object-contain" />
-                    {showHeatmap && analysisResult && (
-                      <div className="absolute inset-0 bg-gradient-to-br from-risk-medium/30 via-transparent to-risk-high/40 mix-blend-multiply" />
+                    {showHeatmap && heatmapOverlay && (
+                      <img
+                        src={heatmapOverlay}
+                        alt="Explainability heatmap"
+                        className="absolute inset-0 w-full h-full object-contain pointer-events-none mix-blend-screen"
+                        style={{ opacity: heatmapOpacity }}
+                      />
                     )}
                     {isAnalyzing && (
                       <div className="absolute inset-0 bg-background/80 flex items-center justify-center">
@@ -318,6 +484,90 @@ export default function XRayAnalysis() {
                 )}
               </div>
 
+              {dicomImage && dicomWindow && (
+                <div className="bg-card rounded-xl border border-border p-5 shadow-soft space-y-4">
+                  <h3 className="font-display font-semibold text-foreground flex items-center gap-2">
+                    <FileScan className="w-5 h-5 text-primary" />
+                    DICOM Study
+                  </h3>
+                  <dl className="grid grid-cols-2 gap-x-4 gap-y-2 text-sm">
+                    <DicomField label="Modality" value={dicomImage.metadata.modality} />
+                    <DicomField label="Study Date" value={dicomImage.metadata.studyDate} />
+                    <DicomField label="Body Part" value={dicomImage.metadata.bodyPartExamined} />
+                    <DicomField label="Series" value={dicomImage.metadata.seriesDescription} />
+                    <DicomField label="Patient Name" value={dicomImage.metadata.patientName} />
+                    <DicomField label="Patient ID" value={dicomImage.metadata.patientId} />
+                  </dl>
+
+                  {dicomPatientMatch === false && (
+                    <div className="flex items-start gap-2 p-3 rounded-lg bg-risk-high/10 text-risk-high text-sm">
+                      <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+                      <span>
+                        {dicomImage.metadata.patientId
+                          ? `The DICOM patient ID (${dicomImage.metadata.patientId}) does not match ${selectedPatientRecord?.name}'s MRN (${selectedPatientRecord?.patient_id || 'none'}).`
+                          : `The DICOM patient (${dicomImage.metadata.patientName}) does not match ${selectedPatientRecord?.name}.`}{' '}
+                        Confirm the correct patient before analyzing.
+                      </span>
+                    </div>
+                  )}
+
+                  {dicomImage.samplesPerPixel === 1 && (
+                    <div className="space-y-3">
+                      <div>
+                        <div className="flex justify-between text-sm mb-1.5">
+                          <span className="font-medium text-foreground">Window Level</span>
+                          <span className="text-muted-foreground">{Math.round(dicomWindow.center)}</span>
+                        </div>
+                        <Slider
+                          value={[dicomWindow.center]}
+                          onValueChange={([center]) => setDicomWindow({ ...dicomWindow, center })}
+                          onValueCommit={([center]) => applyDicomWindow(center, dicomWindow.width)}
+                          min={dicomImage.windowCenter - dicomImage.windowWidth * 2}
+                          max={dicomImage.windowCenter + dicomImage.windowWidth * 2}
+                          step={1}
+                          disabled={!!analysisResult}
+                        />
+                      </div>
+                      <div>
+                        <div className="flex justify-between text-sm mb-1.5">
+                          <span className="font-medium text-foreground">Window Width</span>
+                          <span className="text-muted-foreground">{Math.round(dicomWindow.width)}</span>
+                        </div>
+                        <Slider
+                          value={[dicomWindow.width]}
+                          onValueChange={([width]) => setDicomWindow({ ...dicomWindow, width })}
+                          onValueCommit={([width]) => applyDicomWindow(dicomWindow.center, width)}
+                          min={1}
+                          max={dicomImage.windowWidth * 4}
+                          step={1}
+                          disabled={!!analysisResult}
+                        />
+                      </div>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {analysisResult && showHeatmap && heatmapOverlay && (
+                <div className="bg-card rounded-xl border border-border p-4 shadow-soft space-y-2">
+                  <div className="flex justify-between text-sm">
+                    <span className="font-medium text-foreground">Heatmap Opacity</span>
+                    <span className="text-muted-foreground">{Math.round(heatmapOpacity * 100)}%</span>
+                  </div>
+                  <Slider
+                    value={[heatmapOpacity]}
+                    onValueChange={([value]) => setHeatmapOpacity(value)}
+                    min={0}
+                    max={1}
+                    step={0.05}
+                  />
+                </div>
+              )}
+
+              {analysisResult && !heatmapOverlay && (
+                <p className="text-xs text-muted-foreground">No localized regions of concern were reported for this scan.</p>
+              )}
+
               {/* Consent */}
               {uploadedImage && !analysisResult && <ClinicalDisclaimer variant="consent" />}
 
@@ -360,7 +610,7 @@ export default function XRayAnalysis() {
                       <RotateCcw className="w-4 h-4 mr-2" />
                       New Analysis
                     </Button>
-                    <Button variant="outline" onClick={() => setShowHeatmap(!showHeatmap)} className="flex-1">
+                    <Button variant="outline" onClick={() => setShowHeatmap(!showHeatmap)} disabled={!heatmapOverlay} className="flex-1">
                       {showHeatmap ? <EyeOff className="w-4 h-4 mr-2" /> : <Eye className="w-4 h-4 mr-2" />}
                       {showHeatmap ? 'Hide' : 'Show'} Heatmap
                     </Button>
@@ -389,6 +639,12 @@ export default function XRayAnalysis() {
                       <h3 className="font-display font-semibold text-foreground">Analysis Result</h3>
                       <RiskBadge level={analysisResult.riskLevel} size="lg" />
                     </div>
+                    {analysisResult.analysisStatus === 'partial' && (
+                      <p className="text-xs font-medium text-risk-medium mb-2 flex items-center gap-1.5">
+                        <AlertTriangle className="w-3.5 h-3.5" />
+                        Partial analysis - some AI output failed validation
+                      </p>
+                    )}
                     <p className="text-sm text-muted-foreground mb-4">{analysisResult.explanation}</p>
                     <div className="flex items-center gap-4 text-sm">
                       <div className="flex items-center gap-1.5 text-muted-foreground">
@@ -411,6 +667,47 @@ export default function XRayAnalysis() {
                     </div>
                   </div>
 
+                  {(analysisResult.primaryDiagnosis || analysisResult.findings.length > 0) && (
+                    <div className="bg-card rounded-xl border border-border p-5 shadow-soft space-y-4">
+                      {analysisResult.primaryDiagnosis && (
+                        <div>
+                          <p className="text-xs font-medium text-muted-foreground uppercase tracking-wider mb-1">Primary Diagnosis</p>
+                          <p className="font-semibold text-foreground">{analysisResult.primaryDiagnosis}</p>
+                        </div>
+                      )}
+                      {analysisResult.findings.length > 0 && (
+                        <div>
+                          <p className="text-xs font-medium text-muted-foreground uppercase tracking-wider mb-2">Findings</p>
+                          <ul className="space-y-2">
+                            {analysisResult.findings.map((finding, i) => (
+                              <li key={i} className="flex items-start justify-between gap-3 text-sm">
+                                <div>
+                                  <span className="font-medium text-foreground">{finding.area}</span>
+                                  <p className="text-muted-foreground">{finding.observation}</p>
+                                </div>
+                                <span className={cn('px-2 py-0.5 rounded text-xs font-medium capitalize shrink-0', severityStyles[finding.severity])}>
+                                  {finding.severity}
+                                </span>
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
+                      )}
+                      {analysisResult.differentialDiagnoses.length > 0 && (
+                        <div>
+                          <p className="text-xs font-medium text-muted-foreground uppercase tracking-wider mb-2">Differential Diagnoses</p>
+                          <div className="flex flex-wrap gap-2">
+                            {analysisResult.differentialDiagnoses.map((diagnosis) => (
+                              <span key={diagnosis} className="px-2 py-1 rounded-md bg-muted text-xs font-medium text-foreground">
+                                {diagnosis}
+                              </span>
+                            ))}
+                          </div>
+                        </div>
+                      )}
+                    </div>
+                  )}
+
                   {analysisResult.factors.length > 0 && (
                     <div className="bg-card rounded-xl border border-border p-5 shadow-soft">
                       <h3 className="font-display font-semibold text-foreground mb-3 flex items-center gap-2">
@@ -445,6 +742,7 @@ export default function XRayAnalysis() {
                           <CollaborativeAnnotation 
                             scanId={latestScanId || ''} 
                             imageUrl={uploadedImage || undefined} 
+                            pixelSpacing={dicomImage?.metadata.pixelSpacing}
                           />
                         </DialogContent>
                       </Dialog>
@@ -469,7 +767,7 @@ export default function XRayAnalysis() {
                         </DialogContent>
                       </Dialog>
 
-                      <Scan3DViewer scanType={selectedScanType} sliceCount={selectedScanType === 'ct' ? 64 : 48} />
+                      <Scan3DViewer scanType={selectedScanType} />
                     </div>
                   )}
                 </>
@@ -492,6 +790,15 @@ export default function XRayAnalysis() {
   );
 }
 
+function DicomField({ label, value }: { label: string; value: string | null }) {
+  return (
+    <div>
+      <dt className="text-xs text-muted-foreground">{label}</dt>
+      <dd className="font-medium text-foreground truncate">{value || '-'}</dd>
+    </div>
+  );
+}
+
 function MetricBar({ label, value }: { label: string; value: number }) {
   const percentage = Math.round(value * 100);
   const getColor = () => {
@@ -59,11 +59,73 @@ export interface MedicalRecord {
   notes?: string;
 }
 
+export type RiskDomain = 'vitals' | 'imaging' | 'labs' | 'history';
+
+export interface RiskFactorContribution {
+  id: string;
+  domain: RiskDomain;
+  label: string;
+  // Points added to the fused score (0-100 scale)
+  points: number;
+}
+
 export interface RiskAssessment {
   overallRisk: 'low' | 'medium' | 'high';
   imageRiskScore: number;
   vitalsRiskScore: number;
+  labRiskScore: number;
   fusedScore: number;
   explanation: string;
   factors: string[];
+  contributions: RiskFactorContribution[];
+  engineVersion: string;
+}
+
+export interface ScanRegion {
+  label: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  score: number;
+}
+
+export type FindingSeverity = 'normal' | 'mild' | 'moderate' | 'severe';
+
+export interface ScanFinding {
+  id?: string;
+  scanId?: string;
+  area: string;
+  observation: string;
+  severity: FindingSeverity;
+}
+
+export interface StructuredScanAnalysis {
+  primaryDiagnosis: string | null;
+  differentialDiagnoses: string[];
+  recommendations: string[];
+  findings: ScanFinding[];
+}
+
+// Percent of the image width/height, like the other scan annotation coordinates
+export interface AnnotationPoint {
+  x: number;
+  y: number;
+}
+
+export type MeasurementKind = 'ruler' | 'angle' | 'ellipse';
+
+export interface MeasurementPayload {
+  kind: MeasurementKind;
+  // Ruler: both ends; angle: arm, vertex, arm; ellipse: opposite corners of the bounding box
+  points: AnnotationPoint[];
+  value: number;
+  unit: 'mm' | 'px' | 'mm²' | 'px²' | '°';
+  // Mean grey value (0-255) inside an ellipse ROI
+  meanIntensity?: number;
+}
+
+// Freehand strokes and polygons
+export interface ShapePayload {
+  points: AnnotationPoint[];
 }
@@ -0,0 +1,98 @@
+export type AckCode = "AA" | "AE" | "AR";
+
+export class Hl7Error extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "Hl7Error";
+  }
+}
+
+export interface Hl7Header {
+  fieldSeparator: string;
+  componentSeparator: string;
+  repetitionSeparator: string;
+  // MSH-1 is the separator itself, so MSH-n sits at index n - 1
+  mshFields: string[];
+  messageType: string;
+  controlId: string;
+  sendingApplication: string;
+  messageTime: string | null;
+  // Every segment after MSH, split into fields
+  segments: string[][];
+}
+
+// Result statuses that mean the value must not be charted
+export const WITHDRAWN_STATUSES = ["D", "W", "X"];
+
+export const isHl7 = (req: Request, body: string) =>
+  (req.headers.get("content-type") ?? "").includes("hl7") || body.trimStart().startsWith("MSH");
+
+const splitSegments = (message: string) => message.split(/\r\n|\r|\n/).filter((segment) => segment.trim());
+
+/**
+ * Converts an HL7 DTM (YYYY[MM[DD[HH[MM[SS[.S+]]]]]][+/-ZZZZ]) to ISO 8601.
+ * Times without an offset are taken as UTC.
+ */
+export function parseHl7Timestamp(value: string | undefined): string | null {
+  const match = value?.trim().match(/^(\d{4})(\d{2})?(\d{2})?(\d{2})?(\d{2})?(\d{2})?(\.\d+)?([+-]\d{4})?$/);
+  if (!match) return null;
+  const [, year, month = "01", day = "01", hour = "00", minute = "00", second = "00", fraction = "", offset] = match;
+  const zone = offset ? `${offset.slice(0, 3)}:${offset.slice(3)}` : "Z";
+  const date = new Date(`${year}-${month}-${day}T${hour}:${minute}:${second}${fraction.slice(0, 4)}${zone}`);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+/** Splits a message into segments and reads the MSH header, requiring the given message type. */
+export function parseHeader(message: string, expectedType: string): Hl7Header {
+  const [msh, ...rest] = splitSegments(message);
+  if (!msh?.startsWith("MSH")) throw new Hl7Error("Message does not start with an MSH segment");
+
+  const fieldSeparator = msh[3];
+  const componentSeparator = msh[4] ?? "^";
+  const repetitionSeparator = msh[5] ?? "~";
+  const mshFields = msh.split(fieldSeparator);
+  const messageType = (mshFields[8] ?? "").split(componentSeparator).slice(0, 2).join("^");
+  if (messageType !== expectedType) throw new Hl7Error(`Unsupported message type ${messageType || "(none)"}`);
+
+  return {
+    fieldSeparator,
+    componentSeparator,
+    repetitionSeparator,
+    mshFields,
+    messageType,
+    controlId: mshFields[9] ?? "",
+    sendingApplication: (mshFields[2] ?? "").split(componentSeparator)[0],
+    messageTime: parseHl7Timestamp(mshFields[6]),
+    segments: rest.map((segment) => segment.split(fieldSeparator)),
+  };
+}
+
+/**
+ * Builds the ACK returned to the sender. `original` may be unparseable, in
+ * which case the control id is left empty.
+ */
+export function buildAck(original: string, code: AckCode, text = ""): string {
+  const msh = splitSegments(original)[0] ?? "";
+  const separator = msh.startsWith("MSH") ? msh[3] : "|";
+  const fields = msh.startsWith("MSH") ? msh.split(separator) : [];
+  const timestamp = new Date().toISOString().replace(/[-:T]/g, "").slice(0, 14);
+  const controlId = fields[9] ?? "";
+
+  return [
+    [
+      "MSH",
+      fields[1] ?? "^~\\&",
+      "MEDPREDICT",
+      "",
+      fields[2] ?? "",
+      fields[3] ?? "",
+      timestamp,
+      "",
+      "ACK^R01^ACK",
+      `ACK${timestamp}`,
+      "P",
+      fields[11] ?? "2.6",
+    ].join(separator),
+    ["MSA", code, controlId, text.replace(new RegExp(`[${separator}\\r\\n]`, "g"), " ")].join(separator),
+  ].join("\r");
+}
@@ -0,0 +1,192 @@
+export interface InferenceRequest {
+  scanType: string;
+  systemPrompt: string;
+  userMessage: string;
+  imageDataUrl: string;
+}
+
+export interface InferenceProvider {
+  name: string;
+  model: string;
+  // Returns the raw text content produced by the model
+  complete(request: InferenceRequest): Promise<string>;
+}
+
+export class ProviderError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "ProviderError";
+    this.status = status;
+  }
+}
+
+const LOVABLE_GATEWAY_URL = "https://ai.gateway.lovable.dev/v1/chat/completions";
+const DEFAULT_GATEWAY_MODEL = "google/gemini-2.5-flash";
+
+// Any endpoint speaking the OpenAI chat completions protocol with image_url content parts
+function createChatCompletionsProvider(name: string, url: string, apiKey: string, model: string): InferenceProvider {
+  return {
+    name,
+    model,
+    async complete({ systemPrompt, userMessage, imageDataUrl }) {
+      const response = await fetch(url, {
+        method: "POST",
+        headers: {
+          Authorization: `Bearer ${apiKey}`,
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          model,
+          messages: [
+            { role: "system", content: systemPrompt },
+            {
+              role: "user",
+              content: [
+                { type: "text", text: userMessage },
+                { type: "image_url", image_url: { url: imageDataUrl } },
+              ],
+            },
+          ],
+        }),
+      });
+
+      if (!response.ok) {
+        if (response.status === 429) {
+          throw new ProviderError("Rate limit exceeded. Please try again later.", 429);
+        }
+        if (response.status === 402) {
+          throw new ProviderError("Payment required. Please add credits to continue.", 402);
+        }
+        const errorText = await response.text();
+        console.error(`${name} provider error:`, response.status, errorText);
+        throw new ProviderError(`${name} provider error: ${response.status}`, 502);
+      }
+
+      const data = await response.json();
+      return data.choices?.[0]?.message?.content ?? "";
+    },
+  };
+}
+
+async function sha256Bytes(value: string): Promise<Uint8Array> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(value));
+  return new Uint8Array(digest);
+}
+
+const MOCK_AREAS: Record<string, string[]> = {
+  xray: ["Right lower lobe", "Left lower lobe", "Right upper lobe", "Cardiac silhouette", "Costophrenic angles"],
+  ct: ["Right lower lobe", "Mediastinum", "Liver", "Left kidney", "Pleural space"],
+  mri: ["Frontal lobe", "Temporal lobe", "Basal ganglia", "Cerebellum", "Ventricles"],
+  ecg: ["Lead II rhythm strip", "Precordial leads", "QT interval", "ST segment", "P wave morphology"],
+  ultrasound: ["Gallbladder", "Liver parenchyma", "Right kidney", "Common bile duct", "Spleen"],
+};
+
+const MOCK_DIAGNOSES = ["No acute abnormality", "Consolidation", "Small effusion", "Nodular opacity", "Inflammatory change"];
+const MOCK_SEVERITIES = ["normal", "mild", "moderate", "severe"];
+const MOCK_RISK_LEVELS = ["low", "medium", "high"];
+
+function scanTypeKey(scanType: string): string {
+  const lower = scanType.toLowerCase();
+  if (lower.includes("ct")) return "ct";
+  if (lower.includes("mri")) return "mri";
+  if (lower.includes("ecg")) return "ecg";
+  if (lower.includes("ultrasound")) return "ultrasound";
+  return "xray";
+}
+
+/**
+ * Offline provider for local development and CI. The output is derived from a
+ * hash of the image, so the same upload always produces the same analysis,
+ * and it follows the same JSON shape the real models are asked for.
+ */
+function createMockProvider(): InferenceProvider {
+  return {
+    name: "mock",
+    model: "mock-deterministic-v1",
+    async complete({ scanType, imageDataUrl }) {
+      const bytes = await sha256Bytes(imageDataUrl);
+      const pick = <T>(list: T[], index: number) => list[bytes[index] % list.length];
+      const areas = MOCK_AREAS[scanTypeKey(scanType)];
+
+      const riskLevel = pick(MOCK_RISK_LEVELS, 0);
+      const riskIndex = MOCK_RISK_LEVELS.indexOf(riskLevel);
+      const abnormalityScore = 10 + riskIndex * 30 + (bytes[1] % 20);
+      const confidenceScore = 60 + (bytes[2] % 36);
+      const findingCount = 1 + (bytes[3] % 3);
+
+      const findings = Array.from({ length: findingCount }, (_, i) => ({
+        area: areas[(bytes[4 + i] + i) % areas.length],
+        observation: `Deterministic mock observation ${bytes[8 + i] % 100} for offline testing`,
+        severity: MOCK_SEVERITIES[Math.min(MOCK_SEVERITIES.length - 1, (bytes[12 + i] % 2) + riskIndex)],
+      }));
+
+      const regions = riskLevel === "low" ? [] : findings.map((finding, i) => {
+        const width = 0.15 + (bytes[16 + i] % 20) / 100;
+        const height = 0.15 + (bytes[20 + i] % 20) / 100;
+        return {
+          label: finding.area,
+          x: ((bytes[24 + i] % 100) / 100) * (1 - width),
+          y: ((bytes[28 + i] % 100) / 100) * (1 - height),
+          width,
+          height,
+          score: 0.4 + (bytes[16 + i] % 60) / 100,
+        };
+      });
+
+      const primaryDiagnosis = riskLevel === "low" ? MOCK_DIAGNOSES[0] : pick(MOCK_DIAGNOSES.slice(1), 5);
+
+      return JSON.stringify({
+        findings,
+        primaryDiagnosis,
+        differentialDiagnoses: MOCK_DIAGNOSES.filter((d) => d !== primaryDiagnosis).slice(0, 2),
+        confidenceScore,
+        riskLevel,
+        recommendations: ["Mock analysis - verify with a radiologist"],
+        abnormalityScore,
+        aiExplanation: `Mock ${scanType} analysis generated without a model for offline testing.`,
+        keyFactors: findings.map((f) => `${f.area}: ${f.severity}`),
+        regions,
+      });
+    },
+  };
+}
+
+/**
+ * Selects the provider from INFERENCE_PROVIDER:
+ *  - "lovable" (default): Lovable AI gateway, needs LOVABLE_API_KEY
+ *  - "openai": any OpenAI-compatible endpoint, needs INFERENCE_API_URL and INFERENCE_API_KEY
+ *  - "mock": deterministic offline results, needs nothing
+ * INFERENCE_MODEL picks the model: optional for "lovable", required for "openai".
+ */
+export function createInferenceProvider(env: { get(key: string): string | undefined }): InferenceProvider {
+  const providerName = (env.get("INFERENCE_PROVIDER") || "lovable").toLowerCase();
+  const model = env.get("INFERENCE_MODEL");
+
+  switch (providerName) {
+    case "mock":
+      return createMockProvider();
+    case "openai": {
+      const url = env.get("INFERENCE_API_URL");
+      const apiKey = env.get("INFERENCE_API_KEY");
+      if (!url || !apiKey) {
+        throw new Error("INFERENCE_API_URL and INFERENCE_API_KEY must be configured for the openai provider");
+      }
+      if (!model) {
+        throw new Error("INFERENCE_MODEL must be configured for the openai provider");
+      }
+      const endpoint = url.endsWith("/chat/completions") ? url : `${url.replace(/\/$/, "")}/chat/completions`;
+      return createChatCompletionsProvider("openai", endpoint, apiKey, model);
+    }
+    case "lovable": {
+      const apiKey = env.get("LOVABLE_API_KEY");
+      if (!apiKey) {
+        throw new Error("LOVABLE_API_KEY is not configured");
+      }
+      return createChatCompletionsProvider("lovable", LOVABLE_GATEWAY_URL, apiKey, model || DEFAULT_GATEWAY_MODEL);
+    }
+    default:
+      throw new Error(`Unknown INFERENCE_PROVIDER: ${providerName}`);
+  }
+}
@@ -0,0 +1,147 @@
+import { z } from "https://deno.land/x/zod@v3.23.8/mod.ts";
+
+export type AnalysisStatus = "complete" | "partial" | "failed";
+
+// medical_scans.risk_level only allows low/medium/high
+const RISK_LEVEL_ALIASES: Record<string, "low" | "medium" | "high"> = {
+  none: "low",
+  minimal: "low",
+  normal: "low",
+  low: "low",
+  moderate: "medium",
+  medium: "medium",
+  intermediate: "medium",
+  high: "high",
+  severe: "high",
+  critical: "high",
+  urgent: "high",
+};
+
+const SEVERITY_ALIASES: Record<string, "normal" | "mild" | "moderate" | "severe"> = {
+  none: "normal",
+  normal: "normal",
+  minimal: "mild",
+  mild: "mild",
+  low: "mild",
+  moderate: "moderate",
+  medium: "moderate",
+  severe: "severe",
+  high: "severe",
+  critical: "severe",
+};
+
+const normalizeKey = (value: unknown) => String(value ?? "").toLowerCase().trim();
+
+// Accepts numbers or numeric strings (e.g. "85%") and clamps them into range
+const scoreSchema = (max: number) =>
+  z.preprocess((value) => {
+    if (value === null || value === undefined || value === "") return undefined;
+    const parsed = typeof value === "number" ? value : parseFloat(String(value));
+    return Number.isFinite(parsed) ? Math.min(max, Math.max(0, parsed)) : Number.NaN;
+  }, z.number().finite());
+
+const stringList = z.preprocess(
+  (value) => (Array.isArray(value) ? value.filter((v) => typeof v === "string" && v.trim()) : value),
+  z.array(z.string())
+);
+
+const findingSchema = z.object({
+  area: z.string().min(1),
+  observation: z.string().default(""),
+  severity: z.preprocess((value) => SEVERITY_ALIASES[normalizeKey(value)] ?? value, z.enum(["normal", "mild", "moderate", "severe"])),
+});
+
+const regionSchema = z
+  .object({
+    label: z.string().default("Region of concern"),
+    x: scoreSchema(1),
+    y: scoreSchema(1),
+    width: scoreSchema(1),
+    height: scoreSchema(1),
+    score: scoreSchema(1),
+  })
+  .transform((r) => ({
+    ...r,
+    width: Math.min(r.width, 1 - r.x),
+    height: Math.min(r.height, 1 - r.y),
+  }))
+  .refine((r) => r.width > 0 && r.height > 0 && r.score > 0);
+
+export const analysisSchema = z.object({
+  findings: z.array(findingSchema),
+  primaryDiagnosis: z.string().min(1),
+  differentialDiagnoses: stringList.default([]),
+  confidenceScore: scoreSchema(100),
+  riskLevel: z.preprocess((value) => RISK_LEVEL_ALIASES[normalizeKey(value)] ?? value, z.enum(["low", "medium", "high"])),
+  recommendations: stringList.default([]),
+  abnormalityScore: scoreSchema(100),
+  aiExplanation: z.string().default(""),
+  keyFactors: stringList.default([]),
+  // Malformed boxes are dropped rather than failing the whole analysis
+  regions: z.preprocess(
+    (value) => (Array.isArray(value) ? value.filter((r) => regionSchema.safeParse(r).success) : []),
+    z.array(regionSchema)
+  ),
+});
+
+export type AnalysisResult = z.infer<typeof analysisSchema>;
+
+// Without these the result cannot be used for risk decisions at all
+const REQUIRED_FIELDS = ["riskLevel", "confidenceScore", "abnormalityScore"] as const;
+
+export interface ValidatedAnalysis {
+  status: AnalysisStatus;
+  result: Partial<AnalysisResult>;
+  issues: string[];
+}
+
+export function extractJson(content: string): unknown {
+  const jsonMatch = content.match(/```(?:json)?\s*([\s\S]*?)```/);
+  const jsonStr = jsonMatch ? jsonMatch[1].trim() : content.trim();
+  return JSON.parse(jsonStr);
+}
+
+/**
+ * Validates raw model output. Fields that fail validation are left out rather
+ * than replaced with made-up values; the status tells the caller whether the
+ * remaining result is usable.
+ */
+export function validateAnalysis(content: string): ValidatedAnalysis {
+  let raw: unknown;
+  try {
+    raw = extractJson(content);
+  } catch (error) {
+    return { status: "failed", result: {}, issues: [`Response is not valid JSON: ${(error as Error).message}`] };
+  }
+
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    return { status: "failed", result: {}, issues: ["Response is not a JSON object"] };
+  }
+
+  const parsed = analysisSchema.safeParse(raw);
+  if (parsed.success) {
+    return { status: "complete", result: parsed.data, issues: [] };
+  }
+
+  const issues = parsed.error.issues.map((issue) => `${issue.path.join(".") || "root"}: ${issue.message}`);
+
+  // Keep every field that validates on its own
+  const result: Partial<AnalysisResult> = {};
+  const shape = analysisSchema.shape;
+  (Object.keys(shape) as (keyof typeof shape)[]).forEach((key) => {
+    const fieldResult = shape[key].safeParse((raw as Record<string, unknown>)[key]);
+    if (fieldResult.success) {
+      (result as Record<string, unknown>)[key] = fieldResult.data;
+    }
+  });
+
+  const hasRequired = REQUIRED_FIELDS.every((key) => result[key] !== undefined);
+  return { status: hasRequired ? "partial" : "failed", result, issues };
+}
+
+export function buildRepairMessage(issues: string[]): string {
+  return `Your previous response did not match the required JSON structure:
+${issues.map((issue) => `- ${issue}`).join("\n")}
+
+Respond again with ONLY the JSON object described in the instructions. Use numbers for scores, "low", "medium" or "high" for riskLevel, and "normal", "mild", "moderate" or "severe" for each finding severity.`;
+}
@@ -0,0 +1,195 @@
+import { z } from "https://deno.land/x/zod@v3.23.8/mod.ts";
+import {
+  fallbackExternalId,
+  PATIENT_ID_PATTERN,
+  type LabObservation,
+  type RejectedLabObservation,
+} from "./results.ts";
+
+export type IssueSeverity = "fatal" | "error" | "warning" | "information";
+
+export interface OperationOutcomeIssue {
+  severity: IssueSeverity;
+  code: string;
+  diagnostics: string;
+}
+
+export class FhirError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "FhirError";
+  }
+}
+
+const identifierSchema = z.object({ system: z.string().optional(), value: z.string().optional() });
+
+const referenceSchema = z.object({
+  reference: z.string().optional(),
+  identifier: identifierSchema.optional(),
+});
+
+const observationSchema = z.object({
+  resourceType: z.literal("Observation"),
+  id: z.string().optional(),
+  identifier: z.array(identifierSchema).optional(),
+  basedOn: z.array(referenceSchema).optional(),
+  status: z.string(),
+  code: z.object({ coding: z.array(z.object({ system: z.string().optional(), code: z.string().optional() })).optional() }),
+  subject: referenceSchema.optional(),
+  effectiveDateTime: z.string().optional(),
+  effectivePeriod: z.object({ start: z.string().optional() }).optional(),
+  issued: z.string().optional(),
+  valueQuantity: z
+    .object({
+      value: z.number().optional(),
+      comparator: z.string().optional(),
+      unit: z.string().optional(),
+      code: z.string().optional(),
+    })
+    .optional(),
+});
+
+const diagnosticReportSchema = z.object({
+  resourceType: z.literal("DiagnosticReport"),
+  basedOn: z.array(referenceSchema).optional(),
+  subject: referenceSchema.optional(),
+  effectiveDateTime: z.string().optional(),
+  issued: z.string().optional(),
+  result: z.array(referenceSchema).optional(),
+  contained: z.array(z.record(z.unknown())).optional(),
+});
+
+const patientSchema = z.object({
+  resourceType: z.literal("Patient"),
+  id: z.string().optional(),
+  identifier: z.array(identifierSchema).optional(),
+});
+
+const bundleSchema = z.object({
+  resourceType: z.literal("Bundle"),
+  entry: z
+    .array(z.object({ fullUrl: z.string().optional(), resource: z.record(z.unknown()) }))
+    .min(1)
+    .max(1000),
+});
+
+type Observation = z.infer<typeof observationSchema>;
+type DiagnosticReport = z.infer<typeof diagnosticReportSchema>;
+
+// Statuses with a usable value; anything else (registered, cancelled, entered-in-error) is skipped
+const REPORTABLE_STATUSES = ["final", "amended", "corrected", "preliminary"];
+
+const toIso = (value: string | undefined) => {
+  if (!value) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+};
+
+const patientIdFrom = (identifiers: { value?: string }[] | undefined) => {
+  const values = (identifiers ?? []).map((i) => i.value?.trim()).filter((v): v is string => !!v);
+  return values.find((v) => PATIENT_ID_PATTERN.test(v)) ?? values[0] ?? null;
+};
+
+/**
+ * Reads lab results from a FHIR R4 Bundle of Observations and
+ * DiagnosticReports, a single DiagnosticReport with contained Observations,
+ * or a single Observation. Observations listed in a report take its subject
+ * and times when they have none of their own. The patient comes from
+ * subject.identifier or from a Patient resource in the bundle, and the
+ * order from a basedOn identifier carrying our accession number.
+ */
+export function parseFhirLabs(body: unknown): { observations: LabObservation[]; skipped: RejectedLabObservation[] } {
+  const resourceType = (body as { resourceType?: unknown } | null)?.resourceType;
+  const entries =
+    resourceType === "Bundle"
+      ? bundleSchema.parse(body).entry
+      : [{ fullUrl: undefined, resource: z.record(z.unknown()).parse(body) }];
+
+  // Resources by every way a reference may point at them
+  const byReference = new Map<string, Record<string, unknown>>();
+  entries.forEach(({ fullUrl, resource }) => {
+    if (fullUrl) byReference.set(fullUrl, resource);
+    if (typeof resource.id === "string") byReference.set(`${resource.resourceType}/${resource.id}`, resource);
+  });
+
+  const reports = entries
+    .filter(({ resource }) => resource.resourceType === "DiagnosticReport")
+    .map(({ resource }) => diagnosticReportSchema.parse(resource));
+  // Contained resources are referenced as "#id"
+  reports.forEach((report) =>
+    (report.contained ?? []).forEach((resource) => {
+      if (typeof resource.id === "string") byReference.set(`#${resource.id}`, resource);
+    })
+  );
+
+  const reportFor = new Map<Record<string, unknown>, DiagnosticReport>();
+  const observations = new Set<Record<string, unknown>>();
+  reports.forEach((report) =>
+    (report.result ?? []).forEach((ref) => {
+      const resource = ref.reference ? byReference.get(ref.reference) : undefined;
+      if (resource) {
+        reportFor.set(resource, report);
+        observations.add(resource);
+      }
+    })
+  );
+  entries.forEach(({ resource }) => {
+    if (resource.resourceType === "Observation") observations.add(resource);
+  });
+
+  const resolvePatient = (subject: Observation["subject"]) => {
+    if (!subject) return null;
+    if (subject.identifier?.value) return subject.identifier.value.trim();
+    const patient = subject.reference ? byReference.get(subject.reference) : undefined;
+    return patient ? patientIdFrom(patientSchema.parse(patient).identifier) : null;
+  };
+
+  const result: LabObservation[] = [];
+  const skipped: RejectedLabObservation[] = [];
+
+  observations.forEach((resource) => {
+    const observation = observationSchema.parse(resource);
+    const report = reportFor.get(resource);
+    const codes = (observation.code.coding ?? []).map((c) => c.code).filter((c): c is string => !!c);
+    const code = codes[0] ?? "";
+    const patientId = resolvePatient(observation.subject ?? report?.subject);
+    const quantity = observation.valueQuantity;
+    const basedOn = [...(observation.basedOn ?? []), ...(report?.basedOn ?? [])];
+    const collectedAt =
+      toIso(observation.effectiveDateTime) ??
+      toIso(observation.effectivePeriod?.start) ??
+      toIso(report?.effectiveDateTime) ??
+      toIso(observation.issued ?? report?.issued);
+
+    if (!REPORTABLE_STATUSES.includes(observation.status)) {
+      skipped.push({ code, patientId, reason: `Observation status ${observation.status}` });
+    } else if (quantity?.value === undefined) {
+      skipped.push({ code, patientId, reason: "No valueQuantity" });
+    } else if (!collectedAt) {
+      skipped.push({ code, patientId, reason: "No effective time" });
+    } else {
+      const identifier = observation.identifier?.find((i) => i.value);
+      result.push({
+        patientId,
+        codes,
+        value: quantity.value,
+        comparator: quantity.comparator ?? null,
+        unit: quantity.unit ?? quantity.code ?? null,
+        collectedAt,
+        resultedAt: toIso(observation.issued ?? report?.issued),
+        preliminary: observation.status === "preliminary",
+        externalId: identifier
+          ? `${identifier.system ?? ""}|${identifier.value}`
+          : fallbackExternalId(patientId, code, collectedAt),
+        placerOrderNumber: basedOn.find((ref) => ref.identifier?.value)?.identifier?.value?.trim() ?? null,
+      });
+    }
+  });
+
+  if (result.length === 0 && skipped.length === 0) throw new FhirError("No Observation resources found");
+  return { observations: result, skipped };
+}
+
+export function operationOutcome(issues: OperationOutcomeIssue[]) {
+  return { resourceType: "OperationOutcome", issue: issues };
+}
@@ -0,0 +1,95 @@
+import { parseHeader, parseHl7Timestamp, WITHDRAWN_STATUSES } from "../_shared/hl7.ts";
+import {
+  fallbackExternalId,
+  parseLabValue,
+  PATIENT_ID_PATTERN,
+  type LabObservation,
+  type RejectedLabObservation,
+} from "./results.ts";
+
+export interface LabHl7Message {
+  controlId: string;
+  sendingApplication: string;
+  observations: LabObservation[];
+  skipped: RejectedLabObservation[];
+}
+
+// Value types that can carry a numeric result; SN is sent as comparator^number
+const NUMERIC_VALUE_TYPES = ["NM", "SN", "ST", ""];
+
+/**
+ * Reads lab results out of an ORU^R01 message. A message may carry several
+ * patients, each PID applying to the OBR/OBX groups that follow it.
+ *
+ * - Patient: the PID-3 identifier shaped like MED-YYYY-NNNNN, else the first one
+ * - Collected: OBX-14, else OBR-7, else MSH-7
+ * - Resulted: OBX-19, else OBR-22, else MSH-7
+ * - Identity: sending application, filler order number (OBR-3) and test code
+ * - Order: placer order number (OBR-2), our lab_orders accession number
+ */
+export function parseLabOru(message: string): LabHl7Message {
+  const header = parseHeader(message, "ORU^R01");
+  const { componentSeparator, repetitionSeparator, messageTime, sendingApplication } = header;
+  const components = (field: string | undefined) => (field ?? "").split(componentSeparator);
+
+  let patientId: string | null = null;
+  let orderNumber: string | null = null;
+  let placerOrderNumber: string | null = null;
+  let collectedTime: string | null = null;
+  let resultedTime: string | null = null;
+  const observations: LabObservation[] = [];
+  const skipped: RejectedLabObservation[] = [];
+
+  header.segments.forEach((fields) => {
+    if (fields[0] === "PID") {
+      const ids = [fields[3], fields[2]]
+        .flatMap((field) => (field ?? "").split(repetitionSeparator))
+        .map((id) => id.split(componentSeparator)[0].trim())
+        .filter(Boolean);
+      patientId = ids.find((id) => PATIENT_ID_PATTERN.test(id)) ?? ids[0] ?? null;
+      return;
+    }
+    if (fields[0] === "OBR") {
+      placerOrderNumber = components(fields[2])[0] || null;
+      orderNumber = components(fields[3])[0] || placerOrderNumber;
+      collectedTime = parseHl7Timestamp(fields[7]);
+      resultedTime = parseHl7Timestamp(fields[22]);
+      return;
+    }
+    if (fields[0] !== "OBX") return;
+
+    // CE/CWE: identifier^text^system^alternate identifier^alternate text^alternate system
+    const identifier = components(fields[3]);
+    const codes = [identifier[0], identifier[3]].filter(Boolean);
+    const code = codes[0] ?? identifier[1] ?? "";
+    const valueType = fields[2] ?? "";
+    const raw = valueType === "SN" ? components(fields[5]).slice(0, 2).join("") : fields[5] ?? "";
+    const parsed = NUMERIC_VALUE_TYPES.includes(valueType) ? parseLabValue(raw) : null;
+    const resultStatus = fields[11] ?? "";
+    const collectedAt = parseHl7Timestamp(fields[14]) ?? collectedTime ?? messageTime;
+
+    if (WITHDRAWN_STATUSES.includes(resultStatus)) {
+      skipped.push({ code, patientId, reason: `Result status ${resultStatus}` });
+    } else if (!parsed) {
+      skipped.push({ code, patientId, reason: "Value is not numeric" });
+    } else if (!collectedAt) {
+      skipped.push({ code, patientId, reason: "No collection time" });
+    } else {
+      observations.push({
+        patientId,
+        codes,
+        ...parsed,
+        unit: components(fields[6])[0] || null,
+        collectedAt,
+        resultedAt: parseHl7Timestamp(fields[19]) ?? resultedTime ?? messageTime,
+        preliminary: resultStatus === "P",
+        externalId: orderNumber
+          ? `${sendingApplication}|${orderNumber}|${code}`
+          : fallbackExternalId(patientId, code, collectedAt),
+        placerOrderNumber,
+      });
+    }
+  });
+
+  return { controlId: header.controlId, sendingApplication, observations, skipped };
+}
@@ -0,0 +1,209 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { ZodError } from "https://deno.land/x/zod@v3.23.8/mod.ts";
+import { buildAck, Hl7Error, isHl7, type AckCode } from "../_shared/hl7.ts";
+import { FhirError, operationOutcome, parseFhirLabs, type OperationOutcomeIssue } from "./fhir.ts";
+import { parseLabOru } from "./hl7.ts";
+import {
+  buildCodeIndex,
+  labStatus,
+  resolveTestType,
+  selectLabRange,
+  unitsMatch,
+  type LabObservation,
+  type LabTestType,
+  type RejectedLabObservation,
+} from "./results.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-lis-key',
+};
+
+class IngestError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "IngestError";
+    this.status = status;
+  }
+}
+
+async function sha256Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * The lab system authenticates with the LIS_API_KEY secret in an x-lis-key
+ * header. Staff importing a file from the app send their session token instead.
+ * Returns a label for the sender, for the log.
+ */
+async function authorize(req: Request, supabase: SupabaseClient): Promise<string> {
+  const lisKey = req.headers.get("x-lis-key");
+  if (lisKey) {
+    const expected = Deno.env.get("LIS_API_KEY");
+    // Compare digests so the comparison time does not depend on the key
+    if (!expected || (await sha256Hex(lisKey.trim())) !== (await sha256Hex(expected))) {
+      throw new IngestError("Invalid lab system key", 401);
+    }
+    return "lab system";
+  }
+
+  const authorization = req.headers.get("authorization");
+  const token = authorization?.startsWith("Bearer ") ? authorization.slice(7).trim() : null;
+  if (!token) throw new IngestError("Missing lab system key", 401);
+
+  const { data: { user } } = await supabase.auth.getUser(token);
+  if (!user) throw new IngestError("Missing lab system key", 401);
+
+  const { data: roles } = await supabase.from("user_roles").select("role").eq("user_id", user.id).in("role", ["doctor", "nurse"]);
+  if (!roles?.length) throw new IngestError("Only staff can import lab results", 403);
+  return user.email ?? user.id;
+}
+
+const resultNotes = (observation: LabObservation) =>
+  [
+    observation.comparator && `Reported as ${observation.comparator}${observation.value}`,
+    observation.preliminary && "Preliminary result",
+  ]
+    .filter(Boolean)
+    .join("; ") || null;
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const body = req.method === "POST" ? await req.text() : "";
+  const hl7 = isHl7(req, body);
+
+  const respond = (status: number, ack: AckCode, issues: OperationOutcomeIssue[]) =>
+    hl7
+      ? new Response(buildAck(body, ack, issues.map((i) => i.diagnostics).join("; ")), {
+          status,
+          headers: { ...corsHeaders, "Content-Type": "x-application/hl7-v2+er7" },
+        })
+      : new Response(JSON.stringify(operationOutcome(issues)), {
+          status,
+          headers: { ...corsHeaders, "Content-Type": "application/fhir+json" },
+        });
+
+  try {
+    if (req.method !== "POST") throw new IngestError("Use POST", 405);
+
+    const supabase = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+    const sender = await authorize(req, supabase);
+
+    const message = hl7 ? parseLabOru(body) : parseFhirLabs(JSON.parse(body));
+    const rejected: RejectedLabObservation[] = [...message.skipped];
+
+    const { data: types, error: typesError } = await supabase
+      .from("lab_test_types")
+      .select(
+        "id, code, name, unit, loinc_codes, min_normal, max_normal, critical_low, critical_high, " +
+          "lab_reference_ranges(sex, min_age_years, max_age_years, min_normal, max_normal, critical_low, critical_high)"
+      );
+    if (typesError) throw typesError;
+    const codeIndex = buildCodeIndex((types ?? []) as LabTestType[]);
+
+    const patientIds = [...new Set(message.observations.map((o) => o.patientId).filter((id): id is string => !!id))];
+    const { data: patients, error: patientsError } = patientIds.length
+      ? await supabase.from("patients").select("id, patient_id, gender, age").in("patient_id", patientIds)
+      : { data: [], error: null };
+    if (patientsError) throw patientsError;
+    const patientById = new Map((patients ?? []).map((p) => [p.patient_id as string, p]));
+
+    // Results quoting one of our accession numbers go to that order; the rest
+    // are attached to the patient's oldest open order for the panel by the database
+    const accessions = [
+      ...new Set(message.observations.map((o) => o.placerOrderNumber).filter((n): n is string => !!n)),
+    ];
+    const { data: orders, error: ordersError } = accessions.length
+      ? await supabase.from("lab_orders").select("id, patient_id, accession_number").in("accession_number", accessions)
+      : { data: [], error: null };
+    if (ordersError) throw ordersError;
+    const orderByAccession = new Map((orders ?? []).map((o) => [o.accession_number as string, o]));
+
+    // Keyed by external id: a batch repeating a result keeps the last one
+    const rows = new Map<string, Record<string, unknown>>();
+    const storedFor = new Map<string, number>();
+    message.observations.forEach((observation) => {
+      const code = observation.codes[0] ?? "";
+      const reject = (reason: string) => rejected.push({ code, patientId: observation.patientId, reason });
+      const patient = observation.patientId ? patientById.get(observation.patientId) : undefined;
+      const type = resolveTestType(codeIndex, observation.codes);
+
+      if (!observation.patientId) return reject("No patient identifier");
+      if (!patient) return reject(`Unknown patient ${observation.patientId}`);
+      if (!type) return reject(`No test mapped to code ${observation.codes.join(", ") || "(none)"}`);
+      if (!unitsMatch(observation.unit, type.unit)) return reject(`Unit ${observation.unit} does not match ${type.unit}`);
+
+      const order = observation.placerOrderNumber ? orderByAccession.get(observation.placerOrderNumber) : undefined;
+      if (order && order.patient_id !== patient.id) {
+        return reject(`Order ${observation.placerOrderNumber} belongs to another patient`);
+      }
+
+      rows.set(observation.externalId, {
+        patient_id: patient.id,
+        test_type_id: type.id,
+        value: observation.value,
+        unit: type.unit,
+        // Flagged against the range for the patient's sex and age
+        status: labStatus(observation.value, selectLabRange(type, patient.gender, patient.age)),
+        notes: resultNotes(observation),
+        collected_at: observation.collectedAt,
+        resulted_at: observation.resultedAt ?? new Date().toISOString(),
+        external_id: observation.externalId,
+        order_id: order?.id ?? null,
+      });
+      storedFor.set(observation.patientId, (storedFor.get(observation.patientId) ?? 0) + 1);
+    });
+
+    let stored = 0;
+    if (rows.size > 0) {
+      // Resends and corrected results replace the earlier row
+      const { data: upserted, error: upsertError } = await supabase
+        .from("lab_results")
+        .upsert([...rows.values()], { onConflict: "external_id" })
+        .select("id");
+      if (upsertError) throw upsertError;
+      stored = upserted?.length ?? 0;
+    }
+
+    console.log(`Lab results from ${sender}: ${stored} stored, ${rejected.length} rejected`);
+
+    const nothingStored = stored === 0 && rejected.length > 0;
+    const issues: OperationOutcomeIssue[] = [
+      {
+        severity: nothingStored ? "error" : "information",
+        code: nothingStored ? "processing" : "informational",
+        diagnostics: `${stored} stored, ${rejected.length} rejected`,
+      },
+      ...[...storedFor].map(([patientId, count]): OperationOutcomeIssue => ({
+        severity: "information",
+        code: "informational",
+        diagnostics: `${count} result${count === 1 ? "" : "s"} for ${patientId}`,
+      })),
+      ...rejected.map((r): OperationOutcomeIssue => ({
+        severity: "warning",
+        code: "processing",
+        diagnostics: `${r.code || "(no code)"}${r.patientId ? ` for ${r.patientId}` : ""}: ${r.reason}`,
+      })),
+    ];
+    return respond(200, nothingStored ? "AE" : "AA", issues);
+  } catch (error) {
+    if (error instanceof IngestError) {
+      const code = error.status === 405 ? "not-supported" : "security";
+      return respond(error.status, "AR", [{ severity: "error", code, diagnostics: error.message }]);
+    }
+    if (error instanceof Hl7Error || error instanceof FhirError || error instanceof ZodError || error instanceof SyntaxError) {
+      const message = error instanceof ZodError ? error.issues.map((i) => `${i.path.join(".") || "body"}: ${i.message}`).join("; ") : error.message;
+      return respond(400, "AR", [{ severity: "error", code: "structure", diagnostics: message }]);
+    }
+    console.error("Error in ingest-labs function:", error);
+    const errorMessage = error instanceof Error ? error.message : "Ingestion failed";
+    return respond(500, "AE", [{ severity: "fatal", code: "exception", diagnostics: errorMessage }]);
+  }
+});
@@ -0,0 +1,128 @@
+export type LabStatus = "normal" | "low" | "high" | "critical_low" | "critical_high";
+
+// A single coded result as sent by the lab system, before it is matched to a patient and test type
+export interface LabObservation {
+  // Patient identifier as sent; expected to be a MedPredict patient id
+  patientId: string | null;
+  // Candidate codes in the order sent, LOINC or our own lab_test_types.code
+  codes: string[];
+  value: number;
+  // "<" or ">" when the lab reported a value outside its measuring range
+  comparator: string | null;
+  unit: string | null;
+  collectedAt: string;
+  resultedAt: string | null;
+  preliminary: boolean;
+  // Stable id from the sender, so resends and corrections update the same row
+  externalId: string;
+  // Our lab_orders accession number when the lab echoes it back (placer order number)
+  placerOrderNumber: string | null;
+}
+
+export interface RejectedLabObservation {
+  code: string;
+  patientId: string | null;
+  reason: string;
+}
+
+export interface LabRange {
+  min_normal: number | null;
+  max_normal: number | null;
+  critical_low: number | null;
+  critical_high: number | null;
+}
+
+// A row of lab_reference_ranges; ages are whole years, upper bound exclusive
+export interface LabReferenceRange extends LabRange {
+  sex: string;
+  min_age_years: number;
+  max_age_years: number | null;
+}
+
+export interface LabTestType extends LabRange {
+  id: string;
+  code: string;
+  name: string;
+  unit: string;
+  loinc_codes: string[];
+  lab_reference_ranges: LabReferenceRange[] | null;
+}
+
+export const PATIENT_ID_PATTERN = /^MED-\d{4}-\d{5}$/;
+
+// Spellings of the same unit seen from lab systems, keyed by the spelling used in lab_test_types
+const UNIT_ALIASES: Record<string, string[]> = {
+  "meq/l": ["mmol/l"],
+  "k/ul": ["10*3/ul", "10^3/ul", "x10e3/ul", "10*9/l", "10^9/l"],
+  "ml/min": ["ml/min/1.73m2", "ml/min/{1.73_m2}"],
+  "u/l": ["iu/l"],
+};
+
+const normalizeUnit = (unit: string) => unit.toLowerCase().replace(/\s+/g, "");
+
+export function unitsMatch(sent: string | null, expected: string): boolean {
+  if (!sent) return true;
+  const unit = normalizeUnit(sent);
+  const target = normalizeUnit(expected);
+  return unit === target || (UNIT_ALIASES[target] ?? []).includes(unit);
+}
+
+/** Indexes test types by their own code and each LOINC code, case-insensitively. */
+export function buildCodeIndex(types: LabTestType[]): Map<string, LabTestType> {
+  const index = new Map<string, LabTestType>();
+  types.forEach((type) => {
+    index.set(type.code.toUpperCase(), type);
+    (type.loinc_codes ?? []).forEach((code) => index.set(code.toUpperCase(), type));
+  });
+  return index;
+}
+
+export function resolveTestType(index: Map<string, LabTestType>, codes: string[]): LabTestType | undefined {
+  for (const code of codes) {
+    const type = index.get(code.trim().toUpperCase());
+    if (type) return type;
+  }
+  return undefined;
+}
+
+/** Reads "5.2", "<0.1" or ">= 400". Returns null for anything else. */
+export function parseLabValue(raw: string): { value: number; comparator: string | null } | null {
+  const match = raw.trim().match(/^([<>]=?)?\s*(-?\d+(?:\.\d+)?)$/);
+  if (!match) return null;
+  return { value: Number(match[2]), comparator: match[1] ?? null };
+}
+
+/**
+ * The range for a patient of this sex and age: sex-specific before 'all',
+ * then the narrowest age band, else the test type's own limits. Mirrors
+ * selectLabRange in src/lib/labRanges.ts.
+ */
+export function selectLabRange(type: LabTestType, sex: string | null, age: number | null): LabRange {
+  const match = (type.lab_reference_ranges ?? [])
+    .filter((row) => row.sex === "all" || row.sex === sex)
+    .filter((row) =>
+      age === null
+        ? row.min_age_years === 0 && row.max_age_years === null
+        : age >= row.min_age_years && (row.max_age_years === null || age < row.max_age_years)
+    )
+    .sort(
+      (a, b) =>
+        Number(a.sex === "all") - Number(b.sex === "all") ||
+        b.min_age_years - a.min_age_years ||
+        (a.max_age_years ?? Infinity) - (b.max_age_years ?? Infinity)
+    )[0];
+  return match ?? type;
+}
+
+// Critical limits win over the normal range; a missing limit is not checked
+export function labStatus(value: number, range: LabRange): LabStatus {
+  if (range.critical_low !== null && value < Number(range.critical_low)) return "critical_low";
+  if (range.critical_high !== null && value > Number(range.critical_high)) return "critical_high";
+  if (range.min_normal !== null && value < Number(range.min_normal)) return "low";
+  if (range.max_normal !== null && value > Number(range.max_normal)) return "high";
+  return "normal";
+}
+
+// Used when the sender gives no order or observation id
+export const fallbackExternalId = (patientId: string | null, code: string, collectedAt: string) =>
+  `${patientId ?? "unknown"}|${code}|${collectedAt}`;
@@ -0,0 +1,136 @@
+export type VitalColumn =
+  | "spo2"
+  | "heart_rate"
+  | "respiratory_rate"
+  | "temperature"
+  | "blood_pressure_systolic"
+  | "blood_pressure_diastolic";
+
+// A single coded value as sent by a device, before it is mapped to a vitals column
+export interface DeviceObservation {
+  code: string;
+  value: number;
+  unit: string | null;
+  // ISO 8601 time the device took the measurement
+  observedAt: string;
+}
+
+export interface RejectedObservation {
+  code: string;
+  observedAt: string | null;
+  reason: string;
+}
+
+export type VitalsReading = Partial<Record<VitalColumn, number>> & { observedAt: string };
+
+const VITAL_COLUMNS: VitalColumn[] = [
+  "spo2",
+  "heart_rate",
+  "respiratory_rate",
+  "temperature",
+  "blood_pressure_systolic",
+  "blood_pressure_diastolic",
+];
+
+const LOINC_CODES: Record<string, VitalColumn> = {
+  "59408-5": "spo2", // Oxygen saturation in arterial blood by pulse oximetry
+  "2708-6": "spo2", // Oxygen saturation in arterial blood
+  "8867-4": "heart_rate",
+  "9279-1": "respiratory_rate",
+  "8310-5": "temperature", // Body temperature
+  "8331-1": "temperature", // Oral temperature
+  "8480-6": "blood_pressure_systolic",
+  "8462-4": "blood_pressure_diastolic",
+};
+
+// ISO/IEEE 11073 nomenclature, as sent by IHE PCD-01 monitors: numeric code and reference id
+const MDC_CODES: Record<string, VitalColumn> = {
+  "150456": "spo2",
+  MDC_PULS_OXIM_SAT_O2: "spo2",
+  "147842": "heart_rate",
+  MDC_ECG_HEART_RATE: "heart_rate",
+  "149530": "heart_rate",
+  MDC_PULS_OXIM_PULS_RATE: "heart_rate",
+  "151562": "respiratory_rate",
+  MDC_RESP_RATE: "respiratory_rate",
+  "150364": "temperature",
+  MDC_TEMP_BODY: "temperature",
+  "150021": "blood_pressure_systolic",
+  MDC_PRESS_BLD_NONINV_SYS: "blood_pressure_systolic",
+  "150022": "blood_pressure_diastolic",
+  MDC_PRESS_BLD_NONINV_DIA: "blood_pressure_diastolic",
+  "150017": "blood_pressure_systolic",
+  MDC_PRESS_BLD_ART_SYS: "blood_pressure_systolic",
+  "150018": "blood_pressure_diastolic",
+  MDC_PRESS_BLD_ART_DIA: "blood_pressure_diastolic",
+};
+
+// Same limits as the CHECK constraints on public.vitals
+const COLUMN_LIMITS: Record<VitalColumn, [number, number]> = {
+  spo2: [0, 100],
+  heart_rate: [20, 300],
+  respiratory_rate: [5, 60],
+  temperature: [30, 45],
+  blood_pressure_systolic: [50, 300],
+  blood_pressure_diastolic: [30, 200],
+};
+
+const FAHRENHEIT_UNITS = ["[degf]", "degf", "°f", "f"];
+const KPA_UNITS = ["kpa"];
+
+// Accepts LOINC codes, MDC codes or reference ids, and plain vitals column names
+export function resolveColumn(code: string): VitalColumn | null {
+  const key = code.trim();
+  if ((VITAL_COLUMNS as string[]).includes(key)) return key as VitalColumn;
+  return LOINC_CODES[key] ?? MDC_CODES[key] ?? MDC_CODES[key.toUpperCase()] ?? null;
+}
+
+// Converts the units monitors commonly send into the ones the vitals table stores
+export function normalizeValue(column: VitalColumn, value: number, unit: string | null): number {
+  const normalizedUnit = (unit ?? "").trim().toLowerCase();
+  let converted = value;
+  if (column === "temperature" && FAHRENHEIT_UNITS.includes(normalizedUnit)) {
+    converted = ((value - 32) * 5) / 9;
+  } else if (column.startsWith("blood_pressure") && KPA_UNITS.includes(normalizedUnit)) {
+    converted = value * 7.50062;
+  } else if (column === "spo2" && normalizedUnit === "1" && value <= 1) {
+    converted = value * 100;
+  }
+  return column === "temperature" ? Math.round(converted * 10) / 10 : Math.round(converted);
+}
+
+/**
+ * Turns a device's coded observations into one vitals reading per
+ * measurement time. Unknown codes and out-of-range values are reported back
+ * rather than stored; when a batch repeats a parameter for the same time the
+ * last value wins.
+ */
+export function groupReadings(observations: DeviceObservation[]): {
+  readings: VitalsReading[];
+  rejected: RejectedObservation[];
+} {
+  const byTime = new Map<string, VitalsReading>();
+  const rejected: RejectedObservation[] = [];
+
+  observations.forEach((observation) => {
+    const column = resolveColumn(observation.code);
+    if (!column) {
+      rejected.push({ code: observation.code, observedAt: observation.observedAt, reason: "Unsupported observation code" });
+      return;
+    }
+
+    const value = normalizeValue(column, observation.value, observation.unit);
+    const [min, max] = COLUMN_LIMITS[column];
+    if (!Number.isFinite(value) || value < min || value > max) {
+      rejected.push({ code: observation.code, observedAt: observation.observedAt, reason: `${column} ${value} is outside ${min}-${max}` });
+      return;
+    }
+
+    const reading = byTime.get(observation.observedAt) ?? { observedAt: observation.observedAt };
+    reading[column] = value;
+    byTime.set(observation.observedAt, reading);
+  });
+
+  const readings = [...byTime.values()].sort((a, b) => a.observedAt.localeCompare(b.observedAt));
+  return { readings, rejected };
+}
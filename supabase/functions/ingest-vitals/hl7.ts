@@ -0,0 +1,57 @@
+import { parseHeader, parseHl7Timestamp, WITHDRAWN_STATUSES } from "../_shared/hl7.ts";
+import { resolveColumn, type DeviceObservation } from "./codes.ts";
+
+export interface Hl7Message {
+  controlId: string;
+  messageType: string;
+  sendingApplication: string;
+  observations: DeviceObservation[];
+  // OBX segments that could not be read as a numeric observation
+  skipped: { code: string; reason: string }[];
+}
+
+/**
+ * Reads the observations out of an ORU^R01 message. Each OBX takes its time
+ * from OBX-14, falling back to the enclosing OBR-7 and then MSH-7.
+ */
+export function parseOruR01(message: string): Hl7Message {
+  const { componentSeparator, controlId, messageType, messageTime, segments, sendingApplication } = parseHeader(
+    message,
+    "ORU^R01"
+  );
+
+  let requestTime: string | null = null;
+  const observations: DeviceObservation[] = [];
+  const skipped: Hl7Message["skipped"] = [];
+
+  segments.forEach((fields) => {
+    if (fields[0] === "OBR") {
+      requestTime = parseHl7Timestamp(fields[7]);
+      return;
+    }
+    if (fields[0] !== "OBX") return;
+
+    const [identifier = "", text = ""] = (fields[3] ?? "").split(componentSeparator);
+    // Some monitors send a vendor code first and the standard code or MDC reference id as the text
+    const code = !resolveColumn(identifier) && resolveColumn(text) ? text : identifier || text;
+    const value = parseFloat(fields[5] ?? "");
+    const observedAt = parseHl7Timestamp(fields[14]) ?? requestTime ?? messageTime;
+
+    if (WITHDRAWN_STATUSES.includes(fields[11] ?? "")) {
+      skipped.push({ code, reason: `Result status ${fields[11]}` });
+    } else if (!Number.isFinite(value)) {
+      skipped.push({ code, reason: "Value is not numeric" });
+    } else if (!observedAt) {
+      skipped.push({ code, reason: "No observation time" });
+    } else {
+      observations.push({
+        code,
+        value,
+        unit: (fields[6] ?? "").split(componentSeparator)[0] || null,
+        observedAt,
+      });
+    }
+  });
+
+  return { controlId, messageType, sendingApplication, observations, skipped };
+}
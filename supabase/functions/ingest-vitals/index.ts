@@ -0,0 +1,153 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { ZodError } from "https://deno.land/x/zod@v3.23.8/mod.ts";
+import { groupReadings, type DeviceObservation, type RejectedObservation } from "./codes.ts";
+import { buildAck, Hl7Error, isHl7, type AckCode } from "../_shared/hl7.ts";
+import { parseOruR01 } from "./hl7.ts";
+import { observationsFromJson } from "./payload.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-device-key',
+};
+
+// Readings stamped further ahead than this are a misconfigured device clock
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+class IngestError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "IngestError";
+    this.status = status;
+  }
+}
+
+async function sha256Hex(value: string): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+function deviceKey(req: Request): string | null {
+  const header = req.headers.get("x-device-key");
+  if (header) return header.trim();
+  const authorization = req.headers.get("authorization");
+  return authorization?.startsWith("Bearer ") ? authorization.slice(7).trim() : null;
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const body = req.method === "POST" ? await req.text() : "";
+  const hl7 = isHl7(req, body);
+
+  const respond = (status: number, result: Record<string, unknown>, ack: AckCode, ackText: string) =>
+    hl7
+      ? new Response(buildAck(body, ack, ackText), {
+          status,
+          headers: { ...corsHeaders, "Content-Type": "x-application/hl7-v2+er7" },
+        })
+      : new Response(JSON.stringify(result), {
+          status,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+
+  try {
+    if (req.method !== "POST") throw new IngestError("Use POST", 405);
+
+    const key = deviceKey(req);
+    if (!key) throw new IngestError("Missing device API key", 401);
+
+    const supabase = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!);
+
+    const { data: device, error: deviceError } = await supabase
+      .from("devices")
+      .select("id, name, patient_id, active")
+      .eq("api_key_hash", await sha256Hex(key))
+      .maybeSingle();
+
+    if (deviceError) throw deviceError;
+    if (!device || !device.active) throw new IngestError("Unknown or inactive device", 401);
+    if (!device.patient_id) throw new IngestError(`Device ${device.name} is not assigned to a patient`, 409);
+
+    let observations: DeviceObservation[];
+    const rejected: RejectedObservation[] = [];
+    if (hl7) {
+      const message = parseOruR01(body);
+      observations = message.observations;
+      rejected.push(...message.skipped.map((s) => ({ code: s.code, observedAt: null, reason: s.reason })));
+    } else {
+      observations = observationsFromJson(JSON.parse(body));
+    }
+
+    const grouped = groupReadings(observations);
+    rejected.push(...grouped.rejected);
+
+    const latestAllowed = Date.now() + MAX_CLOCK_SKEW_MS;
+    const readings = grouped.readings.filter((reading) => {
+      if (new Date(reading.observedAt).getTime() <= latestAllowed) return true;
+      rejected.push({ code: "*", observedAt: reading.observedAt, reason: "Timestamp is in the future" });
+      return false;
+    });
+
+    // Oxygen and the SpO2 scale are set at the bedside; keep them so NEWS2 scores device readings correctly
+    const { data: previous } = await supabase
+      .from("vitals")
+      .select("on_oxygen, spo2_scale")
+      .eq("patient_id", device.patient_id)
+      .order("recorded_at", { ascending: false })
+      .limit(1)
+      .maybeSingle();
+
+    let stored = 0;
+    if (readings.length > 0) {
+      const rows = readings.map(({ observedAt, ...values }) => ({
+        ...values,
+        patient_id: device.patient_id,
+        device_id: device.id,
+        device_timestamp: observedAt,
+        recorded_at: observedAt,
+        on_oxygen: previous?.on_oxygen ?? false,
+        spo2_scale: previous?.spo2_scale ?? 1,
+      }));
+
+      const { data: inserted, error: insertError } = await supabase
+        .from("vitals")
+        .upsert(rows, { onConflict: "device_id,device_timestamp", ignoreDuplicates: true })
+        .select("id");
+
+      if (insertError) throw insertError;
+      stored = inserted?.length ?? 0;
+    }
+
+    await supabase.from("devices").update({ last_seen_at: new Date().toISOString() }).eq("id", device.id);
+
+    const duplicates = readings.length - stored;
+    console.log(`Device ${device.name}: ${stored} stored, ${duplicates} duplicate, ${rejected.length} rejected`);
+
+    const result = {
+      device: { id: device.id, name: device.name },
+      patientId: device.patient_id,
+      readings: readings.length,
+      stored,
+      duplicates,
+      rejected,
+    };
+    const ack: AckCode = readings.length === 0 && rejected.length > 0 ? "AE" : "AA";
+    return respond(200, result, ack, `${stored} stored, ${duplicates} duplicate, ${rejected.length} rejected`);
+  } catch (error) {
+    if (error instanceof IngestError) {
+      return respond(error.status, { error: error.message }, "AR", error.message);
+    }
+    if (error instanceof Hl7Error || error instanceof ZodError || error instanceof SyntaxError) {
+      const message = error instanceof ZodError ? error.issues.map((i) => `${i.path.join(".") || "body"}: ${i.message}`).join("; ") : error.message;
+      return respond(400, { error: message }, "AR", message);
+    }
+    console.error("Error in ingest-vitals function:", error);
+    const errorMessage = error instanceof Error ? error.message : "Ingestion failed";
+    return respond(500, { error: errorMessage }, "AE", errorMessage);
+  }
+});
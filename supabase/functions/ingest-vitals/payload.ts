@@ -0,0 +1,40 @@
+import { z } from "https://deno.land/x/zod@v3.23.8/mod.ts";
+import type { DeviceObservation } from "./codes.ts";
+
+const timestampSchema = z
+  .string()
+  .refine((value) => !Number.isNaN(new Date(value).getTime()), "Invalid timestamp")
+  .transform((value) => new Date(value).toISOString());
+
+const observationSchema = z.object({
+  code: z.string().min(1),
+  value: z.coerce.number().finite(),
+  unit: z.string().nullish(),
+});
+
+const readingSchema = z
+  .object({
+    timestamp: timestampSchema,
+    // Coded values: LOINC, MDC or vitals column names
+    observations: z.array(observationSchema).default([]),
+    // Shorthand for gateways that already speak vitals columns, e.g. { "heart_rate": 72 }
+    values: z.record(z.coerce.number().finite()).default({}),
+  })
+  .refine((r) => r.observations.length > 0 || Object.keys(r.values).length > 0, "Reading has no values");
+
+/**
+ * A JSON batch is either { "readings": [...] } or a single reading object.
+ * See scripts/fixtures/monitor-feed.json for an example.
+ */
+export const batchSchema = z.preprocess(
+  (body) => (body && typeof body === "object" && !Array.isArray(body) && !("readings" in body) ? { readings: [body] } : body),
+  z.object({ readings: z.array(readingSchema).min(1).max(500) })
+);
+
+export function observationsFromJson(body: unknown): DeviceObservation[] {
+  const { readings } = batchSchema.parse(body);
+  return readings.flatMap((reading) => [
+    ...reading.observations.map((o) => ({ code: o.code, value: o.value, unit: o.unit ?? null, observedAt: reading.timestamp })),
+    ...Object.entries(reading.values).map(([code, value]) => ({ code, value, unit: null, observedAt: reading.timestamp })),
+  ]);
+}
@@ -0,0 +1,18 @@
+-- Scan images are stored as <patient uuid>/<scan type>/<file> in the medical-scans bucket
+
+-- Patients can view images of their own scans
+CREATE POLICY "Patients can view their own scan images"
+  ON storage.objects FOR SELECT
+  USING (
+    bucket_id = 'medical-scans' AND
+    EXISTS (
+      SELECT 1 FROM public.patients p
+      WHERE p.id::text = (storage.foldername(name))[1]
+        AND p.created_by = auth.uid()
+    )
+  );
+
+-- Doctors can remove scan images (e.g. uploads attached to the wrong patient)
+CREATE POLICY "Doctors can delete medical scans"
+  ON storage.objects FOR DELETE
+  USING (bucket_id = 'medical-scans' AND public.has_role(auth.uid(), 'doctor'));
@@ -0,0 +1,44 @@
+-- Structured output of the AI scan analysis
+ALTER TABLE public.medical_scans
+  ADD COLUMN IF NOT EXISTS primary_diagnosis TEXT,
+  ADD COLUMN IF NOT EXISTS differential_diagnoses TEXT[] DEFAULT '{}',
+  ADD COLUMN IF NOT EXISTS recommendations TEXT[] DEFAULT '{}';
+
+-- One row per finding returned by analyze-scan
+CREATE TABLE public.scan_findings (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  scan_id UUID NOT NULL REFERENCES public.medical_scans(id) ON DELETE CASCADE,
+  patient_id UUID NOT NULL REFERENCES public.patients(id) ON DELETE CASCADE,
+  area TEXT NOT NULL,
+  observation TEXT NOT NULL,
+  severity TEXT NOT NULL DEFAULT 'normal' CHECK (severity IN ('normal', 'mild', 'moderate', 'severe')),
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_scan_findings_scan_id ON public.scan_findings(scan_id);
+CREATE INDEX idx_scan_findings_patient_severity ON public.scan_findings(patient_id, severity);
+
+-- Enable RLS
+ALTER TABLE public.scan_findings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view scan findings"
+ON public.scan_findings FOR SELECT
+USING (public.has_role(auth.uid(), 'doctor') OR public.has_role(auth.uid(), 'nurse'));
+
+CREATE POLICY "Staff can insert scan findings"
+ON public.scan_findings FOR INSERT
+WITH CHECK (public.has_role(auth.uid(), 'doctor') OR public.has_role(auth.uid(), 'nurse'));
+
+CREATE POLICY "Staff can update scan findings"
+ON public.scan_findings FOR UPDATE
+USING (public.has_role(auth.uid(), 'doctor') OR public.has_role(auth.uid(), 'nurse'));
+
+CREATE POLICY "Patients can view their own scan findings"
+ON public.scan_findings FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.patients p
+    WHERE p.id = patient_id AND p.created_by = auth.uid()
+  )
+);
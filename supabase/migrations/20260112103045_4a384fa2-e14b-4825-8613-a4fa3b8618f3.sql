@@ -0,0 +1,4 @@
+-- Record whether the AI output passed schema validation in full
+ALTER TABLE public.medical_scans
+  ADD COLUMN IF NOT EXISTS analysis_status TEXT NOT NULL DEFAULT 'complete'
+  CHECK (analysis_status IN ('failed', 'partial', 'complete'));
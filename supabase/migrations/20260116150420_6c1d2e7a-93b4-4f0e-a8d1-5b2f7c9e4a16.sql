@@ -0,0 +1,5 @@
+-- Structured annotation data (measurement geometry and results)
+ALTER TABLE public.scan_annotations ADD COLUMN payload JSONB;
+
+-- Row and column spacing in mm, from DICOM pixel spacing or manual calibration
+ALTER TABLE public.medical_scans ADD COLUMN pixel_spacing DOUBLE PRECISION[];
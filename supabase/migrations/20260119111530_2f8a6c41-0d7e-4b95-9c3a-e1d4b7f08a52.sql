@@ -0,0 +1,4 @@
+-- Annotation types the client can draw; freehand and polygon keep their points in payload
+ALTER TABLE public.scan_annotations
+  ADD CONSTRAINT scan_annotations_type_check
+  CHECK (annotation_type IN ('marker', 'region', 'text', 'freehand', 'polygon', 'measurement'));
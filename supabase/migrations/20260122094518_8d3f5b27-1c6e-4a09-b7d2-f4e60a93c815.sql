@@ -0,0 +1,132 @@
+-- NEWS2 inputs that the original vitals form did not capture
+ALTER TABLE public.vitals
+  ADD COLUMN IF NOT EXISTS on_oxygen BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS consciousness TEXT NOT NULL DEFAULT 'A'
+    CHECK (consciousness IN ('A', 'C', 'V', 'P', 'U')),
+  ADD COLUMN IF NOT EXISTS spo2_scale SMALLINT NOT NULL DEFAULT 1
+    CHECK (spo2_scale IN (1, 2)),
+  ADD COLUMN IF NOT EXISTS news2_score INTEGER,
+  ADD COLUMN IF NOT EXISTS news2_red_flag BOOLEAN NOT NULL DEFAULT false;
+
+-- Scores a vitals row with the Royal College of Physicians NEWS2 chart.
+-- Parameters that were not recorded score 0.
+CREATE OR REPLACE FUNCTION public.calculate_news2()
+RETURNS TRIGGER AS $$
+DECLARE
+  scores INTEGER[];
+BEGIN
+  scores := ARRAY[
+    -- Respiration rate
+    CASE
+      WHEN NEW.respiratory_rate IS NULL THEN 0
+      WHEN NEW.respiratory_rate <= 8 THEN 3
+      WHEN NEW.respiratory_rate <= 11 THEN 1
+      WHEN NEW.respiratory_rate <= 20 THEN 0
+      WHEN NEW.respiratory_rate <= 24 THEN 2
+      ELSE 3
+    END,
+    -- SpO2 scale 1, or scale 2 for hypercapnic respiratory failure
+    CASE
+      WHEN NEW.spo2 IS NULL THEN 0
+      WHEN NEW.spo2_scale = 2 THEN
+        CASE
+          WHEN NEW.spo2 <= 83 THEN 3
+          WHEN NEW.spo2 <= 85 THEN 2
+          WHEN NEW.spo2 <= 87 THEN 1
+          WHEN NEW.spo2 <= 92 OR NOT NEW.on_oxygen THEN 0
+          WHEN NEW.spo2 <= 94 THEN 1
+          WHEN NEW.spo2 <= 96 THEN 2
+          ELSE 3
+        END
+      WHEN NEW.spo2 <= 91 THEN 3
+      WHEN NEW.spo2 <= 93 THEN 2
+      WHEN NEW.spo2 <= 95 THEN 1
+      ELSE 0
+    END,
+    -- Air or oxygen
+    CASE WHEN NEW.on_oxygen THEN 2 ELSE 0 END,
+    -- Systolic blood pressure
+    CASE
+      WHEN NEW.blood_pressure_systolic IS NULL THEN 0
+      WHEN NEW.blood_pressure_systolic <= 90 THEN 3
+      WHEN NEW.blood_pressure_systolic <= 100 THEN 2
+      WHEN NEW.blood_pressure_systolic <= 110 THEN 1
+      WHEN NEW.blood_pressure_systolic <= 219 THEN 0
+      ELSE 3
+    END,
+    -- Pulse
+    CASE
+      WHEN NEW.heart_rate IS NULL THEN 0
+      WHEN NEW.heart_rate <= 40 THEN 3
+      WHEN NEW.heart_rate <= 50 THEN 1
+      WHEN NEW.heart_rate <= 90 THEN 0
+      WHEN NEW.heart_rate <= 110 THEN 1
+      WHEN NEW.heart_rate <= 130 THEN 2
+      ELSE 3
+    END,
+    -- Consciousness (ACVPU)
+    CASE WHEN NEW.consciousness = 'A' THEN 0 ELSE 3 END,
+    -- Temperature
+    CASE
+      WHEN NEW.temperature IS NULL THEN 0
+      WHEN NEW.temperature <= 35.0 THEN 3
+      WHEN NEW.temperature <= 36.0 THEN 1
+      WHEN NEW.temperature <= 38.0 THEN 0
+      WHEN NEW.temperature <= 39.0 THEN 1
+      ELSE 2
+    END
+  ];
+
+  NEW.news2_score := (SELECT SUM(s) FROM unnest(scores) AS s);
+  NEW.news2_red_flag := 3 = ANY(scores);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS calculate_news2_trigger ON public.vitals;
+CREATE TRIGGER calculate_news2_trigger
+  BEFORE INSERT OR UPDATE ON public.vitals
+  FOR EACH ROW
+  EXECUTE FUNCTION public.calculate_news2();
+
+-- Alerts every doctor and nurse when a new observation set needs an urgent response:
+-- an aggregate score of 5 or more, or a single parameter scoring 3
+CREATE OR REPLACE FUNCTION public.notify_news2_escalation()
+RETURNS TRIGGER AS $$
+DECLARE
+  patient_name TEXT;
+BEGIN
+  IF NEW.news2_score < 5 AND NOT NEW.news2_red_flag THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT name INTO patient_name FROM public.patients WHERE id = NEW.patient_id;
+
+  INSERT INTO public.notifications (user_id, title, message, type, patient_id)
+  SELECT
+    ur.user_id,
+    'NEWS2 ' || NEW.news2_score || ' - ' || COALESCE(patient_name, 'Patient'),
+    CASE
+      WHEN NEW.news2_score >= 7 THEN 'High clinical risk. Emergency assessment by a clinical team with critical care competencies required.'
+      WHEN NEW.news2_score >= 5 THEN 'Medium clinical risk. Urgent review by a clinician competent in assessing acutely ill patients required.'
+      ELSE 'A single parameter scored 3. Urgent ward-based review required.'
+    END,
+    'high_risk_alert',
+    NEW.patient_id
+  FROM public.user_roles ur
+  WHERE ur.role IN ('doctor', 'nurse');
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS notify_news2_escalation_trigger ON public.vitals;
+CREATE TRIGGER notify_news2_escalation_trigger
+  AFTER INSERT ON public.vitals
+  FOR EACH ROW
+  EXECUTE FUNCTION public.notify_news2_escalation();
+
+-- Score observations recorded before NEWS2 was introduced. The value set here is
+-- never stored: touching each row fires calculate_news2_trigger (BEFORE UPDATE),
+-- which overwrites news2_score and news2_red_flag with the calculated ones.
+UPDATE public.vitals SET news2_score = NULL;
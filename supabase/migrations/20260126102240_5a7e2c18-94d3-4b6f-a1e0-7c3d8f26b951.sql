@@ -0,0 +1,66 @@
+-- Sends a notification to every doctor and nurse. Clients cannot read other users'
+-- roles, so alerts raised in the browser go through this function. An identical
+-- alert for the same patient within the dedupe window is not sent again.
+CREATE OR REPLACE FUNCTION public.notify_care_team(
+  _patient_id UUID,
+  _title TEXT,
+  _message TEXT,
+  _type TEXT DEFAULT 'high_risk_alert',
+  _dedupe_window INTERVAL DEFAULT INTERVAL '6 hours'
+)
+RETURNS INTEGER AS $$
+DECLARE
+  sent INTEGER;
+BEGIN
+  IF auth.uid() IS NOT NULL
+    AND NOT (public.has_role(auth.uid(), 'doctor') OR public.has_role(auth.uid(), 'nurse')) THEN
+    RAISE EXCEPTION 'Only staff can notify the care team';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.notifications
+    WHERE patient_id IS NOT DISTINCT FROM _patient_id
+      AND type = _type
+      AND title = _title
+      AND created_at > now() - _dedupe_window
+  ) THEN
+    RETURN 0;
+  END IF;
+
+  INSERT INTO public.notifications (user_id, title, message, type, patient_id)
+  SELECT ur.user_id, _title, _message, _type, _patient_id
+  FROM public.user_roles ur
+  WHERE ur.role IN ('doctor', 'nurse');
+
+  GET DIAGNOSTICS sent = ROW_COUNT;
+  RETURN sent;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- NEWS2 escalation now goes through the shared helper
+CREATE OR REPLACE FUNCTION public.notify_news2_escalation()
+RETURNS TRIGGER AS $$
+DECLARE
+  patient_name TEXT;
+BEGIN
+  IF NEW.news2_score < 5 AND NOT NEW.news2_red_flag THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT name INTO patient_name FROM public.patients WHERE id = NEW.patient_id;
+
+  PERFORM public.notify_care_team(
+    NEW.patient_id,
+    'NEWS2 ' || NEW.news2_score || ' - ' || COALESCE(patient_name, 'Patient'),
+    CASE
+      WHEN NEW.news2_score >= 7 THEN 'High clinical risk. Emergency assessment by a clinical team with critical care competencies required.'
+      WHEN NEW.news2_score >= 5 THEN 'Medium clinical risk. Urgent review by a clinician competent in assessing acutely ill patients required.'
+      ELSE 'A single parameter scored 3. Urgent ward-based review required.'
+    END,
+    'high_risk_alert',
+    INTERVAL '0 seconds'
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,83 @@
+-- Bedside monitors and gateways that post observations to the ingest-vitals function
+CREATE TABLE public.devices (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  device_type TEXT NOT NULL DEFAULT 'bedside_monitor'
+    CHECK (device_type IN ('bedside_monitor', 'gateway')),
+  patient_id UUID REFERENCES public.patients(id) ON DELETE SET NULL,
+  bed TEXT,
+  -- SHA-256 of the API key; the key itself is only shown once, when it is generated
+  api_key_hash TEXT NOT NULL UNIQUE,
+  -- First characters of the key, so staff can tell keys apart
+  api_key_prefix TEXT NOT NULL,
+  active BOOLEAN NOT NULL DEFAULT true,
+  last_seen_at TIMESTAMP WITH TIME ZONE,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.devices ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view devices"
+  ON public.devices
+  FOR SELECT
+  USING (public.has_role(auth.uid(), 'doctor') OR public.has_role(auth.uid(), 'nurse'));
+
+CREATE POLICY "Staff can register devices"
+  ON public.devices
+  FOR INSERT
+  WITH CHECK (
+    auth.uid() = created_by AND
+    (public.has_role(auth.uid(), 'doctor') OR public.has_role(auth.uid(), 'nurse'))
+  );
+
+CREATE POLICY "Staff can update devices"
+  ON public.devices
+  FOR UPDATE
+  USING (public.has_role(auth.uid(), 'doctor') OR public.has_role(auth.uid(), 'nurse'));
+
+CREATE POLICY "Doctors can delete devices"
+  ON public.devices
+  FOR DELETE
+  USING (public.has_role(auth.uid(), 'doctor'));
+
+CREATE TRIGGER update_devices_updated_at
+  BEFORE UPDATE ON public.devices
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Device readings keep the monitor's own timestamp so a resent batch is not stored twice.
+-- Manual entries leave both columns null, which the unique constraint ignores.
+ALTER TABLE public.vitals
+  ADD COLUMN IF NOT EXISTS device_id UUID REFERENCES public.devices(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS device_timestamp TIMESTAMP WITH TIME ZONE,
+  ADD CONSTRAINT vitals_device_reading_key UNIQUE (device_id, device_timestamp);
+
+-- Monitors can post a reading every minute; alert on a device score at most hourly
+CREATE OR REPLACE FUNCTION public.notify_news2_escalation()
+RETURNS TRIGGER AS $$
+DECLARE
+  patient_name TEXT;
+BEGIN
+  IF NEW.news2_score < 5 AND NOT NEW.news2_red_flag THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT name INTO patient_name FROM public.patients WHERE id = NEW.patient_id;
+
+  PERFORM public.notify_care_team(
+    NEW.patient_id,
+    'NEWS2 ' || NEW.news2_score || ' - ' || COALESCE(patient_name, 'Patient'),
+    CASE
+      WHEN NEW.news2_score >= 7 THEN 'High clinical risk. Emergency assessment by a clinical team with critical care competencies required.'
+      WHEN NEW.news2_score >= 5 THEN 'Medium clinical risk. Urgent review by a clinician competent in assessing acutely ill patients required.'
+      ELSE 'A single parameter scored 3. Urgent ward-based review required.'
+    END,
+    'high_risk_alert',
+    CASE WHEN NEW.device_id IS NULL THEN INTERVAL '0 seconds' ELSE INTERVAL '1 hour' END
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
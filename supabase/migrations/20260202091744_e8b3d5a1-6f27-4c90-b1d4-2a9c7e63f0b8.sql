@@ -0,0 +1,12 @@
+-- Where the patient is on the ward, for the census board
+ALTER TABLE public.patients
+  ADD COLUMN IF NOT EXISTS department TEXT,
+  ADD COLUMN IF NOT EXISTS bed TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_patients_department ON public.patients(department);
+
+-- Latest observation per patient is looked up for every tile
+CREATE INDEX IF NOT EXISTS idx_vitals_patient_recorded_at ON public.vitals(patient_id, recorded_at DESC);
+
+-- The ward board updates as observations are recorded
+ALTER PUBLICATION supabase_realtime ADD TABLE public.vitals;
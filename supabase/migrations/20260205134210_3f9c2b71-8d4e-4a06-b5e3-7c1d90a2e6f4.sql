@@ -0,0 +1,168 @@
+-- Observation reminders are their own notification type
+ALTER TABLE public.notifications DROP CONSTRAINT IF EXISTS notifications_type_check;
+ALTER TABLE public.notifications
+  ADD CONSTRAINT notifications_type_check
+  CHECK (type IN ('high_risk_alert', 'appointment_reminder', 'test_result', 'system', 'observation_overdue'));
+
+-- How often a patient's observations are due and who is chased when they are late.
+-- A NULL interval follows the NEWS2 minimum frequency of the latest observation set.
+CREATE TABLE public.observation_schedules (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  patient_id UUID NOT NULL UNIQUE REFERENCES public.patients(id) ON DELETE CASCADE,
+  interval_minutes INTEGER CHECK (interval_minutes IS NULL OR interval_minutes BETWEEN 15 AND 1440),
+  assigned_nurse_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  responsible_doctor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  escalation_grace_minutes INTEGER NOT NULL DEFAULT 30 CHECK (escalation_grace_minutes BETWEEN 0 AND 720),
+  -- When the current late observation was last chased; older than the latest vitals means a new episode
+  reminded_at TIMESTAMP WITH TIME ZONE,
+  escalated_at TIMESTAMP WITH TIME ZONE,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.observation_schedules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view observation schedules"
+ON public.observation_schedules FOR SELECT
+USING (public.has_role(auth.uid(), 'doctor') OR public.has_role(auth.uid(), 'nurse'));
+
+CREATE POLICY "Staff can create observation schedules"
+ON public.observation_schedules FOR INSERT
+WITH CHECK (
+  (public.has_role(auth.uid(), 'doctor') OR public.has_role(auth.uid(), 'nurse'))
+  AND created_by = auth.uid()
+);
+
+CREATE POLICY "Staff can update observation schedules"
+ON public.observation_schedules FOR UPDATE
+USING (public.has_role(auth.uid(), 'doctor') OR public.has_role(auth.uid(), 'nurse'));
+
+CREATE POLICY "Staff can delete observation schedules"
+ON public.observation_schedules FOR DELETE
+USING (public.has_role(auth.uid(), 'doctor') OR public.has_role(auth.uid(), 'nurse'));
+
+DROP TRIGGER IF EXISTS update_observation_schedules_updated_at ON public.observation_schedules;
+CREATE TRIGGER update_observation_schedules_updated_at
+BEFORE UPDATE ON public.observation_schedules
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Staff cannot read each other's roles, so the nurse and doctor pickers list them through here
+CREATE OR REPLACE FUNCTION public.list_care_staff()
+RETURNS TABLE (user_id UUID, full_name TEXT, role public.app_role, department TEXT) AS $$
+BEGIN
+  IF NOT (public.has_role(auth.uid(), 'doctor') OR public.has_role(auth.uid(), 'nurse')) THEN
+    RAISE EXCEPTION 'Only staff can list the care team';
+  END IF;
+
+  RETURN QUERY
+  SELECT p.user_id, p.full_name, ur.role, p.department
+  FROM public.profiles p
+  JOIN public.user_roles ur ON ur.user_id = p.user_id
+  WHERE ur.role IN ('doctor', 'nurse')
+  ORDER BY p.full_name;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Minimum observation frequency from the NEWS2 clinical response chart; mirrors
+-- news2ObservationIntervalMinutes in src/lib/news2.ts
+CREATE OR REPLACE FUNCTION public.news2_observation_interval(_score INTEGER, _red_flag BOOLEAN)
+RETURNS INTEGER AS $$
+  SELECT CASE
+    WHEN _score >= 7 THEN 15
+    WHEN _score >= 5 OR COALESCE(_red_flag, false) THEN 60
+    WHEN _score >= 1 THEN 240
+    ELSE 720
+  END;
+$$ LANGUAGE sql IMMUTABLE SET search_path = public;
+
+-- Reminds the assigned nurse (or every nurse) once per late observation, then
+-- escalates to the responsible doctor (or every doctor) after the grace period.
+-- A patient scheduled without any observations is due straight away.
+CREATE OR REPLACE FUNCTION public.send_observation_reminders()
+RETURNS INTEGER AS $$
+DECLARE
+  due RECORD;
+  due_at TIMESTAMP WITH TIME ZONE;
+  late_minutes INTEGER;
+  sent INTEGER := 0;
+  inserted INTEGER;
+BEGIN
+  IF auth.uid() IS NOT NULL
+    AND NOT (public.has_role(auth.uid(), 'doctor') OR public.has_role(auth.uid(), 'nurse')) THEN
+    RAISE EXCEPTION 'Only staff can send observation reminders';
+  END IF;
+
+  FOR due IN
+    SELECT
+      s.*,
+      p.name AS patient_name,
+      v.recorded_at AS last_recorded_at,
+      COALESCE(s.interval_minutes, public.news2_observation_interval(v.news2_score, v.news2_red_flag)) AS effective_interval
+    FROM public.observation_schedules s
+    JOIN public.patients p ON p.id = s.patient_id
+    LEFT JOIN LATERAL (
+      SELECT recorded_at, news2_score, news2_red_flag
+      FROM public.vitals
+      WHERE patient_id = s.patient_id
+      ORDER BY recorded_at DESC
+      LIMIT 1
+    ) v ON true
+  LOOP
+    due_at := CASE
+      WHEN due.last_recorded_at IS NULL THEN due.created_at
+      ELSE due.last_recorded_at + make_interval(mins => due.effective_interval)
+    END;
+    CONTINUE WHEN now() <= due_at;
+
+    late_minutes := floor(extract(epoch FROM now() - due_at) / 60);
+
+    IF due.reminded_at IS NULL OR (due.last_recorded_at IS NOT NULL AND due.reminded_at < due.last_recorded_at) THEN
+      INSERT INTO public.notifications (user_id, title, message, type, patient_id)
+      SELECT recipient, 'Observations due - ' || due.patient_name,
+        CASE
+          WHEN due.last_recorded_at IS NULL THEN 'No observations recorded since the schedule was set.'
+          ELSE 'Observations are ' || late_minutes || ' min late (due every ' || due.effective_interval || ' min).'
+        END,
+        'observation_overdue', due.patient_id
+      FROM (
+        SELECT due.assigned_nurse_id AS recipient WHERE due.assigned_nurse_id IS NOT NULL
+        UNION
+        SELECT ur.user_id FROM public.user_roles ur WHERE ur.role = 'nurse' AND due.assigned_nurse_id IS NULL
+      ) recipients;
+
+      GET DIAGNOSTICS inserted = ROW_COUNT;
+      sent := sent + inserted;
+      UPDATE public.observation_schedules SET reminded_at = now() WHERE id = due.id;
+    END IF;
+
+    IF now() > due_at + make_interval(mins => due.escalation_grace_minutes)
+      AND (due.escalated_at IS NULL OR (due.last_recorded_at IS NOT NULL AND due.escalated_at < due.last_recorded_at)) THEN
+      INSERT INTO public.notifications (user_id, title, message, type, patient_id)
+      SELECT recipient, 'Observations overdue - ' || due.patient_name,
+        'Observations are ' || late_minutes || ' min late and were not recorded after the nurse reminder.',
+        'observation_overdue', due.patient_id
+      FROM (
+        SELECT due.responsible_doctor_id AS recipient WHERE due.responsible_doctor_id IS NOT NULL
+        UNION
+        SELECT ur.user_id FROM public.user_roles ur WHERE ur.role = 'doctor' AND due.responsible_doctor_id IS NULL
+      ) recipients;
+
+      GET DIAGNOSTICS inserted = ROW_COUNT;
+      sent := sent + inserted;
+      UPDATE public.observation_schedules SET escalated_at = now() WHERE id = due.id;
+    END IF;
+  END LOOP;
+
+  RETURN sent;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Check for late observations every five minutes
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+SELECT cron.unschedule('send-observation-reminders')
+WHERE EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'send-observation-reminders');
+
+SELECT cron.schedule('send-observation-reminders', '*/5 * * * *', 'SELECT public.send_observation_reminders()');
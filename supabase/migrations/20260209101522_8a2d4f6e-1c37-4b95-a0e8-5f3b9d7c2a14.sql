@@ -0,0 +1,97 @@
+-- Needed to judge urine output per kilogram
+ALTER TABLE public.patients
+  ADD COLUMN IF NOT EXISTS weight_kg NUMERIC(5,2) CHECK (weight_kg IS NULL OR (weight_kg > 0 AND weight_kg < 500));
+
+-- Intake/output charting. Direction follows from the category so totals cannot disagree with it.
+CREATE TABLE public.fluid_entries (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  patient_id UUID NOT NULL REFERENCES public.patients(id) ON DELETE CASCADE,
+  recorded_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  category TEXT NOT NULL CHECK (category IN ('oral', 'iv', 'urine', 'drain', 'emesis')),
+  direction TEXT GENERATED ALWAYS AS (CASE WHEN category IN ('oral', 'iv') THEN 'intake' ELSE 'output' END) STORED,
+  volume_ml NUMERIC(6,1) NOT NULL CHECK (volume_ml > 0 AND volume_ml <= 5000),
+  notes TEXT,
+  recorded_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_fluid_entries_patient_recorded_at ON public.fluid_entries(patient_id, recorded_at DESC);
+
+ALTER TABLE public.fluid_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view fluid entries"
+ON public.fluid_entries FOR SELECT
+USING (public.has_role(auth.uid(), 'doctor') OR public.has_role(auth.uid(), 'nurse'));
+
+CREATE POLICY "Staff can record fluid entries"
+ON public.fluid_entries FOR INSERT
+WITH CHECK (
+  (public.has_role(auth.uid(), 'doctor') OR public.has_role(auth.uid(), 'nurse'))
+  AND recorded_by = auth.uid()
+);
+
+CREATE POLICY "Staff can correct fluid entries"
+ON public.fluid_entries FOR UPDATE
+USING (public.has_role(auth.uid(), 'doctor') OR public.has_role(auth.uid(), 'nurse'));
+
+CREATE POLICY "Staff can delete fluid entries"
+ON public.fluid_entries FOR DELETE
+USING (public.has_role(auth.uid(), 'doctor') OR public.has_role(auth.uid(), 'nurse'));
+
+DROP TRIGGER IF EXISTS update_fluid_entries_updated_at ON public.fluid_entries;
+CREATE TRIGGER update_fluid_entries_updated_at
+BEFORE UPDATE ON public.fluid_entries
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Alerts the care team when urine output over the last six hours is below
+-- 0.5 mL/kg/h (KDIGO oliguria). Only patients with urine charted before the
+-- window and within the last day are judged, so a window that has not been
+-- fully monitored does not count as no output. Mirrors src/lib/fluidBalance.ts.
+CREATE OR REPLACE FUNCTION public.check_urine_output()
+RETURNS INTEGER AS $$
+DECLARE
+  pt RECORD;
+  alerted INTEGER := 0;
+BEGIN
+  IF auth.uid() IS NOT NULL
+    AND NOT (public.has_role(auth.uid(), 'doctor') OR public.has_role(auth.uid(), 'nurse')) THEN
+    RAISE EXCEPTION 'Only staff can check urine output';
+  END IF;
+
+  FOR pt IN
+    SELECT
+      p.id,
+      p.name,
+      p.weight_kg,
+      COALESCE(SUM(f.volume_ml) FILTER (WHERE f.recorded_at > now() - INTERVAL '6 hours'), 0) AS urine_ml
+    FROM public.patients p
+    JOIN public.fluid_entries f ON f.patient_id = p.id AND f.category = 'urine'
+    WHERE p.weight_kg IS NOT NULL
+    GROUP BY p.id
+    HAVING MAX(f.recorded_at) > now() - INTERVAL '24 hours'
+      AND MIN(f.recorded_at) <= now() - INTERVAL '6 hours'
+  LOOP
+    CONTINUE WHEN pt.urine_ml / pt.weight_kg / 6 >= 0.5;
+
+    IF public.notify_care_team(
+      pt.id,
+      'Low urine output - ' || pt.name,
+      'Urine output ' || round(pt.urine_ml / pt.weight_kg / 6, 2) || ' mL/kg/h over the last 6 hours (' ||
+        round(pt.urine_ml) || ' mL). Below 0.5 mL/kg/h: review fluid status and renal function.',
+      'high_risk_alert',
+      INTERVAL '6 hours'
+    ) > 0 THEN
+      alerted := alerted + 1;
+    END IF;
+  END LOOP;
+
+  RETURN alerted;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+SELECT cron.unschedule('check-urine-output')
+WHERE EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'check-urine-output');
+
+SELECT cron.schedule('check-urine-output', '0 * * * *', 'SELECT public.check_urine_output()');
@@ -0,0 +1,27 @@
+-- Pain and Glasgow Coma Scale are recorded with the observation set
+ALTER TABLE public.vitals
+  ADD COLUMN IF NOT EXISTS pain_scale TEXT CHECK (pain_scale IN ('nrs', 'flacc')),
+  ADD COLUMN IF NOT EXISTS pain_score SMALLINT CHECK (pain_score BETWEEN 0 AND 10),
+  ADD COLUMN IF NOT EXISTS flacc_face SMALLINT CHECK (flacc_face BETWEEN 0 AND 2),
+  ADD COLUMN IF NOT EXISTS flacc_legs SMALLINT CHECK (flacc_legs BETWEEN 0 AND 2),
+  ADD COLUMN IF NOT EXISTS flacc_activity SMALLINT CHECK (flacc_activity BETWEEN 0 AND 2),
+  ADD COLUMN IF NOT EXISTS flacc_cry SMALLINT CHECK (flacc_cry BETWEEN 0 AND 2),
+  ADD COLUMN IF NOT EXISTS flacc_consolability SMALLINT CHECK (flacc_consolability BETWEEN 0 AND 2),
+  ADD COLUMN IF NOT EXISTS gcs_eye SMALLINT CHECK (gcs_eye BETWEEN 1 AND 4),
+  ADD COLUMN IF NOT EXISTS gcs_verbal SMALLINT CHECK (gcs_verbal BETWEEN 1 AND 5),
+  ADD COLUMN IF NOT EXISTS gcs_motor SMALLINT CHECK (gcs_motor BETWEEN 1 AND 6);
+
+ALTER TABLE public.vitals
+  ADD COLUMN IF NOT EXISTS gcs_total SMALLINT GENERATED ALWAYS AS (gcs_eye + gcs_verbal + gcs_motor) STORED;
+
+-- A score needs its scale, and a FLACC score must be the sum of all five categories
+ALTER TABLE public.vitals
+  ADD CONSTRAINT vitals_pain_scale_check CHECK ((pain_score IS NULL) = (pain_scale IS NULL)),
+  ADD CONSTRAINT vitals_flacc_check CHECK (
+    pain_scale IS DISTINCT FROM 'flacc'
+    OR pain_score = flacc_face + flacc_legs + flacc_activity + flacc_cry + flacc_consolability
+  ),
+  ADD CONSTRAINT vitals_gcs_complete_check CHECK (
+    (gcs_eye IS NULL AND gcs_verbal IS NULL AND gcs_motor IS NULL)
+    OR (gcs_eye IS NOT NULL AND gcs_verbal IS NOT NULL AND gcs_motor IS NOT NULL)
+  );
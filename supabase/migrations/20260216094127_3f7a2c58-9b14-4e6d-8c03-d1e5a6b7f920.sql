@@ -0,0 +1,34 @@
+-- Lab systems send LOINC codes; each test type lists the codes it accepts
+ALTER TABLE public.lab_test_types
+  ADD COLUMN IF NOT EXISTS loinc_codes TEXT[] NOT NULL DEFAULT '{}';
+
+UPDATE public.lab_test_types t
+SET loinc_codes = m.loinc_codes
+FROM (VALUES
+  ('HGB', ARRAY['718-7']),
+  ('WBC', ARRAY['6690-2']),
+  ('PLT', ARRAY['777-3']),
+  ('HCT', ARRAY['4544-3']),
+  ('GLU', ARRAY['1558-6', '2345-7']),
+  ('A1C', ARRAY['4548-4']),
+  ('CREAT', ARRAY['2160-0']),
+  ('BUN', ARRAY['3094-0']),
+  ('EGFR', ARRAY['98979-8', '62238-1', '33914-3']),
+  ('CHOL', ARRAY['2093-3']),
+  ('LDL', ARRAY['13457-7', '18262-6']),
+  ('HDL', ARRAY['2085-9']),
+  ('TRIG', ARRAY['2571-8']),
+  ('AST', ARRAY['1920-8']),
+  ('ALT', ARRAY['1742-6']),
+  ('TBIL', ARRAY['1975-2']),
+  ('TSH', ARRAY['3016-3']),
+  ('NA', ARRAY['2951-2']),
+  ('K', ARRAY['2823-3']),
+  ('CA', ARRAY['17861-6'])
+) AS m(code, loinc_codes)
+WHERE t.code = m.code;
+
+-- The sender's id for a result (order number and test, or FHIR identifier), so
+-- resent and corrected results update the row instead of adding another
+ALTER TABLE public.lab_results
+  ADD COLUMN IF NOT EXISTS external_id TEXT UNIQUE;
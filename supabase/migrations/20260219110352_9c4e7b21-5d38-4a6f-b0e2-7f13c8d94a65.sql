@@ -0,0 +1,186 @@
+-- Lab orders: one panel (a lab_test_types category) per order, tracked from
+-- ordering through specimen collection and the lab to a reviewed result
+CREATE SEQUENCE IF NOT EXISTS public.lab_order_accession_seq;
+
+CREATE TABLE public.lab_orders (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  patient_id UUID NOT NULL REFERENCES public.patients(id) ON DELETE CASCADE,
+  -- Sent to the lab as the placer order number (HL7 OBR-2), so results can find their order
+  accession_number TEXT NOT NULL UNIQUE
+    DEFAULT 'LAB' || to_char(now(), 'YYMMDD') || '-' || lpad(nextval('public.lab_order_accession_seq')::TEXT, 5, '0'),
+  panel TEXT NOT NULL,
+  priority TEXT NOT NULL DEFAULT 'routine' CHECK (priority IN ('routine', 'urgent', 'stat')),
+  status TEXT NOT NULL DEFAULT 'ordered'
+    CHECK (status IN ('ordered', 'collected', 'in_lab', 'resulted', 'reviewed', 'cancelled')),
+  notes TEXT,
+  ordered_by UUID REFERENCES auth.users(id),
+  ordered_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  collected_at TIMESTAMP WITH TIME ZONE,
+  collected_by UUID REFERENCES auth.users(id),
+  received_at TIMESTAMP WITH TIME ZONE,
+  resulted_at TIMESTAMP WITH TIME ZONE,
+  reviewed_at TIMESTAMP WITH TIME ZONE,
+  reviewed_by UUID REFERENCES auth.users(id),
+  cancelled_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_lab_orders_patient_status ON public.lab_orders(patient_id, status);
+CREATE INDEX idx_lab_orders_outstanding ON public.lab_orders(ordered_at)
+  WHERE status IN ('ordered', 'collected', 'in_lab', 'resulted');
+
+ALTER TABLE public.lab_orders ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Staff can view lab orders"
+ON public.lab_orders FOR SELECT
+USING (public.has_role(auth.uid(), 'doctor') OR public.has_role(auth.uid(), 'nurse'));
+
+CREATE POLICY "Staff can place lab orders"
+ON public.lab_orders FOR INSERT
+WITH CHECK (
+  (public.has_role(auth.uid(), 'doctor') OR public.has_role(auth.uid(), 'nurse'))
+  AND ordered_by = auth.uid()
+);
+
+CREATE POLICY "Staff can update lab orders"
+ON public.lab_orders FOR UPDATE
+USING (public.has_role(auth.uid(), 'doctor') OR public.has_role(auth.uid(), 'nurse'));
+
+DROP TRIGGER IF EXISTS update_lab_orders_updated_at ON public.lab_orders;
+CREATE TRIGGER update_lab_orders_updated_at
+BEFORE UPDATE ON public.lab_orders
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Orders only move forward (steps may be skipped, e.g. a specimen sent straight
+-- to the lab) and each step is stamped with when and by whom it happened.
+-- Reviewed and cancelled orders are final; resulted orders cannot be cancelled.
+CREATE OR REPLACE FUNCTION public.lab_order_transition()
+RETURNS TRIGGER AS $$
+DECLARE
+  steps CONSTANT TEXT[] := ARRAY['ordered', 'collected', 'in_lab', 'resulted', 'reviewed'];
+BEGIN
+  IF NEW.status = OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF OLD.status IN ('reviewed', 'cancelled') THEN
+    RAISE EXCEPTION 'Lab order % is already %', OLD.accession_number, OLD.status;
+  END IF;
+
+  IF NEW.status = 'cancelled' THEN
+    IF OLD.status = 'resulted' THEN
+      RAISE EXCEPTION 'Lab order % has results and cannot be cancelled', OLD.accession_number;
+    END IF;
+    NEW.cancelled_at := now();
+    RETURN NEW;
+  END IF;
+
+  IF array_position(steps, NEW.status) < array_position(steps, OLD.status) THEN
+    RAISE EXCEPTION 'Lab order % cannot move back from % to %', OLD.accession_number, OLD.status, NEW.status;
+  END IF;
+
+  IF array_position(steps, NEW.status) >= 2 AND NEW.collected_at IS NULL THEN
+    NEW.collected_at := now();
+    NEW.collected_by := COALESCE(NEW.collected_by, auth.uid());
+  END IF;
+  IF array_position(steps, NEW.status) >= 3 AND NEW.received_at IS NULL THEN
+    NEW.received_at := now();
+  END IF;
+  IF array_position(steps, NEW.status) >= 4 AND NEW.resulted_at IS NULL THEN
+    NEW.resulted_at := now();
+  END IF;
+  IF NEW.status = 'reviewed' THEN
+    NEW.reviewed_at := now();
+    NEW.reviewed_by := COALESCE(auth.uid(), NEW.reviewed_by);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS lab_order_transition ON public.lab_orders;
+CREATE TRIGGER lab_order_transition
+BEFORE UPDATE OF status ON public.lab_orders
+FOR EACH ROW
+EXECUTE FUNCTION public.lab_order_transition();
+
+-- Results belong to the order they were requested on
+ALTER TABLE public.lab_results
+  ADD COLUMN IF NOT EXISTS order_id UUID REFERENCES public.lab_orders(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_lab_results_order_id ON public.lab_results(order_id);
+
+-- A result without an order goes to the patient's oldest open order for the
+-- test's panel, and a resend without one keeps the order it already has.
+-- ordered_by always comes from the order, not from whoever entered the value.
+CREATE OR REPLACE FUNCTION public.attach_lab_result_to_order()
+RETURNS TRIGGER AS $$
+DECLARE
+  ord RECORD;
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.order_id IS NULL THEN
+    NEW.order_id := OLD.order_id;
+  END IF;
+
+  IF NEW.order_id IS NULL THEN
+    SELECT o.id INTO NEW.order_id
+    FROM public.lab_orders o
+    JOIN public.lab_test_types t ON t.category = o.panel
+    WHERE o.patient_id = NEW.patient_id
+      AND t.id = NEW.test_type_id
+      AND o.status IN ('ordered', 'collected', 'in_lab')
+    ORDER BY o.ordered_at
+    LIMIT 1;
+  END IF;
+
+  IF NEW.order_id IS NOT NULL THEN
+    SELECT patient_id, ordered_by INTO ord FROM public.lab_orders WHERE id = NEW.order_id;
+    IF ord.patient_id <> NEW.patient_id THEN
+      RAISE EXCEPTION 'Lab order belongs to another patient';
+    END IF;
+    NEW.ordered_by := ord.ordered_by;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS attach_lab_result_to_order ON public.lab_results;
+CREATE TRIGGER attach_lab_result_to_order
+BEFORE INSERT OR UPDATE OF order_id ON public.lab_results
+FOR EACH ROW
+EXECUTE FUNCTION public.attach_lab_result_to_order();
+
+-- Once every test in the panel has a result, the order is resulted. Partial
+-- panels stay open so the worklist still shows what the lab owes.
+CREATE OR REPLACE FUNCTION public.complete_lab_order()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.order_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE public.lab_orders o
+  SET status = 'resulted'
+  WHERE o.id = NEW.order_id
+    AND o.status IN ('ordered', 'collected', 'in_lab')
+    AND NOT EXISTS (
+      SELECT 1
+      FROM public.lab_test_types t
+      WHERE t.category = o.panel
+        AND NOT EXISTS (SELECT 1 FROM public.lab_results r WHERE r.order_id = o.id AND r.test_type_id = t.id)
+    );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS complete_lab_order ON public.lab_results;
+CREATE TRIGGER complete_lab_order
+AFTER INSERT OR UPDATE OF order_id ON public.lab_results
+FOR EACH ROW
+EXECUTE FUNCTION public.complete_lab_order();
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.lab_orders;
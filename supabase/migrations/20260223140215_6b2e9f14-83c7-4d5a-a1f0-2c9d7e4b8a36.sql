@@ -0,0 +1,64 @@
+-- Reference ranges by sex and age band. A test may have several; the most
+-- specific match for the patient wins (sex-specific over 'all', then the
+-- narrowest age band). Ages are whole years, matching patients.age.
+CREATE TABLE public.lab_reference_ranges (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  test_type_id UUID NOT NULL REFERENCES public.lab_test_types(id) ON DELETE CASCADE,
+  sex TEXT NOT NULL DEFAULT 'all' CHECK (sex IN ('all', 'male', 'female')),
+  -- Inclusive lower bound and exclusive upper bound; NULL means no upper bound
+  min_age_years INTEGER NOT NULL DEFAULT 0 CHECK (min_age_years >= 0),
+  max_age_years INTEGER CHECK (max_age_years IS NULL OR max_age_years > min_age_years),
+  min_normal NUMERIC,
+  max_normal NUMERIC,
+  critical_low NUMERIC,
+  critical_high NUMERIC,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE NULLS NOT DISTINCT (test_type_id, sex, min_age_years, max_age_years)
+);
+
+CREATE INDEX idx_lab_reference_ranges_test_type ON public.lab_reference_ranges(test_type_id);
+
+ALTER TABLE public.lab_reference_ranges ENABLE ROW LEVEL SECURITY;
+
+-- Read by the patient portal as well as staff, like lab_test_types
+CREATE POLICY "Authenticated users can view lab reference ranges"
+ON public.lab_reference_ranges FOR SELECT
+USING (auth.uid() IS NOT NULL);
+
+CREATE POLICY "Doctors can manage lab reference ranges"
+ON public.lab_reference_ranges FOR ALL
+USING (public.has_role(auth.uid(), 'doctor'))
+WITH CHECK (public.has_role(auth.uid(), 'doctor'));
+
+DROP TRIGGER IF EXISTS update_lab_reference_ranges_updated_at ON public.lab_reference_ranges;
+CREATE TRIGGER update_lab_reference_ranges_updated_at
+BEFORE UPDATE ON public.lab_reference_ranges
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Every existing test keeps its current range as the default for everyone
+INSERT INTO public.lab_reference_ranges (test_type_id, sex, min_age_years, min_normal, max_normal, critical_low, critical_high)
+SELECT id, 'all', 0, min_normal, max_normal, critical_low, critical_high
+FROM public.lab_test_types
+ON CONFLICT (test_type_id, sex, min_age_years, max_age_years) DO NOTHING;
+
+-- Sex- and age-specific ranges for the tests where the default misleads
+INSERT INTO public.lab_reference_ranges (test_type_id, sex, min_age_years, max_age_years, min_normal, max_normal, critical_low, critical_high)
+SELECT t.id, r.sex, r.min_age_years, r.max_age_years, r.min_normal, r.max_normal, r.critical_low, r.critical_high
+FROM (VALUES
+  ('HGB', 'all', 0, 1, 9.5, 13.5, 7.0, 20.0),
+  ('HGB', 'all', 1, 12, 11.0, 14.5, 7.0, 20.0),
+  ('HGB', 'male', 12, NULL, 13.5, 17.5, 7.0, 20.0),
+  ('HGB', 'female', 12, NULL, 12.0, 15.5, 7.0, 20.0),
+  ('HCT', 'all', 1, 12, 33, 43, 20, 60),
+  ('HCT', 'male', 12, NULL, 41, 50, 20, 60),
+  ('HCT', 'female', 12, NULL, 36, 44, 20, 60),
+  ('CREAT', 'all', 1, 12, 0.3, 0.7, 0.1, 10.0),
+  ('CREAT', 'male', 12, NULL, 0.74, 1.35, 0.3, 10.0),
+  ('CREAT', 'female', 12, NULL, 0.59, 1.04, 0.3, 10.0),
+  ('WBC', 'all', 1, 12, 5.0, 14.5, 2.0, 30.0),
+  ('PLT', 'all', 1, 12, 150, 450, 50, 1000)
+) AS r(code, sex, min_age_years, max_age_years, min_normal, max_normal, critical_low, critical_high)
+JOIN public.lab_test_types t ON t.code = r.code
+ON CONFLICT (test_type_id, sex, min_age_years, max_age_years) DO NOTHING;
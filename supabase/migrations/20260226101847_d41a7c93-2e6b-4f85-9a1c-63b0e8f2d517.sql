@@ -0,0 +1,237 @@
+-- Calculated analytes: derived in the database from results collected at the
+-- same time, so manual entry and the lab interface both get them. The method
+-- names match LAB_CALCULATIONS in src/lib/labCalculations.ts.
+ALTER TABLE public.lab_test_types
+  ADD COLUMN IF NOT EXISTS calculation TEXT
+    CHECK (calculation IN ('ckd_epi_2021', 'anion_gap', 'friedewald_ldl', 'corrected_calcium'));
+
+-- The input values a calculated result was derived from; NULL for measured results
+ALTER TABLE public.lab_results
+  ADD COLUMN IF NOT EXISTS calculation_inputs JSONB;
+
+-- Inputs the seed data lacked, and the calculated analytes themselves
+INSERT INTO public.lab_test_types (name, code, unit, category, min_normal, max_normal, critical_low, critical_high, description, loinc_codes)
+VALUES
+  ('Chloride', 'CL', 'mEq/L', 'Electrolytes', 98, 107, 80, 120, 'Electrolyte balance', ARRAY['2075-0']),
+  ('Bicarbonate', 'HCO3', 'mEq/L', 'Electrolytes', 22, 29, 10, 40, 'Acid-base balance', ARRAY['1963-8', '2028-9']),
+  ('Albumin', 'ALB', 'g/dL', 'Liver', 3.5, 5.0, 1.5, NULL, 'Main plasma protein', ARRAY['1751-7']),
+  ('Anion Gap', 'AGAP', 'mEq/L', 'Electrolytes', 8, 16, 3, 30, 'Unmeasured anions, calculated from Na, Cl and HCO3', ARRAY['33037-3']),
+  ('Corrected Calcium', 'CACOR', 'mg/dL', 'Electrolytes', 8.5, 10.5, 6.0, 14.0, 'Calcium adjusted for albumin', ARRAY['29265-6']),
+  ('LDL Cholesterol (calculated)', 'LDLC', 'mg/dL', 'Lipid Panel', 0, 100, 0, 300, 'LDL estimated from total cholesterol, HDL and triglycerides', ARRAY['13457-7'])
+ON CONFLICT (code) DO NOTHING;
+
+-- 13457-7 is the calculated LDL code; direct LDL keeps 18262-6
+UPDATE public.lab_test_types SET loinc_codes = array_remove(loinc_codes, '13457-7') WHERE code = 'LDL';
+
+UPDATE public.lab_test_types t
+SET calculation = m.calculation
+FROM (VALUES
+  ('EGFR', 'ckd_epi_2021'),
+  ('AGAP', 'anion_gap'),
+  ('CACOR', 'corrected_calcium'),
+  ('LDLC', 'friedewald_ldl')
+) AS m(code, calculation)
+WHERE t.code = m.code;
+
+INSERT INTO public.lab_reference_ranges (test_type_id, sex, min_age_years, min_normal, max_normal, critical_low, critical_high)
+SELECT id, 'all', 0, min_normal, max_normal, critical_low, critical_high
+FROM public.lab_test_types
+WHERE code IN ('CL', 'HCO3', 'ALB', 'AGAP', 'CACOR', 'LDLC')
+ON CONFLICT (test_type_id, sex, min_age_years, max_age_years) DO NOTHING;
+
+-- The status for a value, against the range for the patient's sex and age.
+-- Mirrors selectLabRange and labFlag in src/lib/labRanges.ts.
+CREATE OR REPLACE FUNCTION public.lab_result_status(_test_type_id UUID, _patient_id UUID, _value NUMERIC)
+RETURNS TEXT AS $$
+DECLARE
+  pat RECORD;
+  rng RECORD;
+BEGIN
+  SELECT gender::TEXT AS gender, age INTO pat FROM public.patients WHERE id = _patient_id;
+
+  SELECT r.min_normal, r.max_normal, r.critical_low, r.critical_high INTO rng
+  FROM public.lab_reference_ranges r
+  WHERE r.test_type_id = _test_type_id
+    AND r.sex IN ('all', pat.gender)
+    AND CASE
+      WHEN pat.age IS NULL THEN r.min_age_years = 0 AND r.max_age_years IS NULL
+      ELSE pat.age >= r.min_age_years AND (r.max_age_years IS NULL OR pat.age < r.max_age_years)
+    END
+  ORDER BY (r.sex = 'all'), r.min_age_years DESC, r.max_age_years NULLS LAST
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    SELECT t.min_normal, t.max_normal, t.critical_low, t.critical_high INTO rng
+    FROM public.lab_test_types t WHERE t.id = _test_type_id;
+  END IF;
+
+  RETURN CASE
+    WHEN _value < rng.critical_low THEN 'critical_low'
+    WHEN _value > rng.critical_high THEN 'critical_high'
+    WHEN _value < rng.min_normal THEN 'low'
+    WHEN _value > rng.max_normal THEN 'high'
+    ELSE 'normal'
+  END;
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Stores one calculated result, replacing an earlier calculation for the same
+-- collection. Skipped when the lab already reported the analyte itself.
+CREATE OR REPLACE FUNCTION public.store_calculated_lab_result(
+  _patient_id UUID,
+  _collected_at TIMESTAMP WITH TIME ZONE,
+  _code TEXT,
+  _value NUMERIC,
+  _inputs JSONB
+)
+RETURNS void AS $$
+DECLARE
+  test_type RECORD;
+BEGIN
+  SELECT id, unit INTO test_type FROM public.lab_test_types WHERE code = _code;
+  IF NOT FOUND OR EXISTS (
+    SELECT 1 FROM public.lab_results
+    WHERE patient_id = _patient_id
+      AND test_type_id = test_type.id
+      AND collected_at = _collected_at
+      AND calculation_inputs IS NULL
+  ) THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.lab_results (patient_id, test_type_id, value, unit, status, collected_at, resulted_at, external_id, calculation_inputs)
+  VALUES (
+    _patient_id, test_type.id, _value, test_type.unit,
+    public.lab_result_status(test_type.id, _patient_id, _value),
+    _collected_at, now(),
+    'calc|' || _patient_id || '|' || _code || '|' || _collected_at,
+    _inputs
+  )
+  ON CONFLICT (external_id) DO UPDATE
+  SET value = EXCLUDED.value,
+      status = EXCLUDED.status,
+      resulted_at = EXCLUDED.resulted_at,
+      calculation_inputs = EXCLUDED.calculation_inputs;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Derives every calculated analyte whose inputs were all collected at this time:
+--   eGFR (CKD-EPI 2021, race-free): adults with a recorded sex of male or female
+--   Anion gap: Na - (Cl + HCO3)
+--   Corrected calcium: Ca + 0.8 x (4.0 - albumin)
+--   LDL (Friedewald): total cholesterol - HDL - triglycerides / 5, only below 400 mg/dL triglycerides.
+--     Friedewald is the only LDL method derived; Martin/Hopkins needs the published
+--     180-cell factor table and is not implemented. The estimate is unreliable with
+--     high triglycerides or LDL below 70 mg/dL, where a direct LDL should be requested.
+CREATE OR REPLACE FUNCTION public.derive_lab_results(_patient_id UUID, _collected_at TIMESTAMP WITH TIME ZONE)
+RETURNS void AS $$
+DECLARE
+  v JSONB;
+  pat RECORD;
+  female BOOLEAN;
+  kappa NUMERIC;
+  scr NUMERIC;
+BEGIN
+  -- Latest measured value of each test in this collection, keyed by code
+  SELECT jsonb_object_agg(code, value) INTO v
+  FROM (
+    SELECT DISTINCT ON (t.code) t.code, r.value
+    FROM public.lab_results r
+    JOIN public.lab_test_types t ON t.id = r.test_type_id
+    WHERE r.patient_id = _patient_id
+      AND r.collected_at = _collected_at
+      AND r.calculation_inputs IS NULL
+      AND t.calculation IS NULL
+    ORDER BY t.code, r.resulted_at DESC NULLS LAST
+  ) measured;
+
+  IF v IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT gender::TEXT AS gender, age INTO pat FROM public.patients WHERE id = _patient_id;
+
+  IF v ? 'CREAT' AND pat.gender IN ('male', 'female') AND pat.age >= 18 AND (v->>'CREAT')::NUMERIC > 0 THEN
+    female := pat.gender = 'female';
+    kappa := CASE WHEN female THEN 0.7 ELSE 0.9 END;
+    scr := (v->>'CREAT')::NUMERIC;
+    PERFORM public.store_calculated_lab_result(
+      _patient_id, _collected_at, 'EGFR',
+      round(
+        142
+        * power(least(scr / kappa, 1), CASE WHEN female THEN -0.241 ELSE -0.302 END)
+        * power(greatest(scr / kappa, 1), -1.200)
+        * power(0.9938, pat.age)
+        * CASE WHEN female THEN 1.012 ELSE 1 END
+      ),
+      jsonb_build_object('CREAT', v->'CREAT', 'age', pat.age, 'sex', pat.gender)
+    );
+  END IF;
+
+  IF v ?& ARRAY['NA', 'CL', 'HCO3'] THEN
+    PERFORM public.store_calculated_lab_result(
+      _patient_id, _collected_at, 'AGAP',
+      round((v->>'NA')::NUMERIC - (v->>'CL')::NUMERIC - (v->>'HCO3')::NUMERIC, 1),
+      jsonb_build_object('NA', v->'NA', 'CL', v->'CL', 'HCO3', v->'HCO3')
+    );
+  END IF;
+
+  IF v ?& ARRAY['CA', 'ALB'] THEN
+    PERFORM public.store_calculated_lab_result(
+      _patient_id, _collected_at, 'CACOR',
+      round((v->>'CA')::NUMERIC + 0.8 * (4.0 - (v->>'ALB')::NUMERIC), 1),
+      jsonb_build_object('CA', v->'CA', 'ALB', v->'ALB')
+    );
+  END IF;
+
+  IF v ?& ARRAY['CHOL', 'HDL', 'TRIG'] AND (v->>'TRIG')::NUMERIC < 400 THEN
+    PERFORM public.store_calculated_lab_result(
+      _patient_id, _collected_at, 'LDLC',
+      round((v->>'CHOL')::NUMERIC - (v->>'HDL')::NUMERIC - (v->>'TRIG')::NUMERIC / 5),
+      jsonb_build_object('CHOL', v->'CHOL', 'HDL', v->'HDL', 'TRIG', v->'TRIG')
+    );
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.derive_lab_results_on_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  -- Calculated rows are outputs, never inputs
+  IF NEW.calculation_inputs IS NULL THEN
+    PERFORM public.derive_lab_results(NEW.patient_id, NEW.collected_at);
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS derive_lab_results ON public.lab_results;
+CREATE TRIGGER derive_lab_results
+AFTER INSERT OR UPDATE OF value, collected_at ON public.lab_results
+FOR EACH ROW
+EXECUTE FUNCTION public.derive_lab_results_on_change();
+
+-- Orders complete on their measured tests; calculated ones follow from them
+-- and may never appear (e.g. eGFR for a child)
+CREATE OR REPLACE FUNCTION public.complete_lab_order()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.order_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  UPDATE public.lab_orders o
+  SET status = 'resulted'
+  WHERE o.id = NEW.order_id
+    AND o.status IN ('ordered', 'collected', 'in_lab')
+    AND NOT EXISTS (
+      SELECT 1
+      FROM public.lab_test_types t
+      WHERE t.category = o.panel
+        AND t.calculation IS NULL
+        AND NOT EXISTS (SELECT 1 FROM public.lab_results r WHERE r.order_id = o.id AND r.test_type_id = t.id)
+    );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,236 @@
+-- Critical lab values are their own notification type
+ALTER TABLE public.notifications DROP CONSTRAINT IF EXISTS notifications_type_check;
+ALTER TABLE public.notifications
+  ADD CONSTRAINT notifications_type_check
+  CHECK (type IN ('high_risk_alert', 'appointment_reminder', 'test_result', 'system', 'observation_overdue', 'critical_lab'));
+
+-- Delta check thresholds: a result is flagged when it moved at least this far
+-- from the patient's previous result for the test. Either may be NULL.
+ALTER TABLE public.lab_test_types
+  ADD COLUMN IF NOT EXISTS delta_absolute NUMERIC CHECK (delta_absolute IS NULL OR delta_absolute > 0),
+  ADD COLUMN IF NOT EXISTS delta_percent NUMERIC CHECK (delta_percent IS NULL OR delta_percent > 0);
+
+UPDATE public.lab_test_types t
+SET delta_absolute = m.delta_absolute, delta_percent = m.delta_percent
+FROM (VALUES
+  ('HGB', 2.0, 20),
+  ('HCT', 6, 20),
+  ('WBC', NULL, 50),
+  ('PLT', NULL, 50),
+  ('GLU', NULL, 50),
+  ('CREAT', 0.3, 50),
+  ('BUN', NULL, 50),
+  ('EGFR', NULL, 25),
+  ('NA', 8, NULL),
+  ('K', 1.0, NULL),
+  ('CL', 8, NULL),
+  ('HCO3', 6, NULL),
+  ('CA', 1.5, NULL),
+  ('CACOR', 1.5, NULL),
+  ('AST', NULL, 100),
+  ('ALT', NULL, 100),
+  ('TBIL', NULL, 50),
+  ('TSH', NULL, 100)
+) AS m(code, delta_absolute, delta_percent)
+WHERE t.code = m.code;
+
+-- The previous result the delta check compared against
+ALTER TABLE public.lab_results
+  ADD COLUMN IF NOT EXISTS previous_value NUMERIC,
+  ADD COLUMN IF NOT EXISTS delta_flag BOOLEAN NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS idx_lab_results_patient_test_collected
+  ON public.lab_results(patient_id, test_type_id, collected_at DESC);
+
+CREATE OR REPLACE FUNCTION public.check_lab_delta()
+RETURNS TRIGGER AS $$
+DECLARE
+  thresholds RECORD;
+  change NUMERIC;
+BEGIN
+  SELECT r.value INTO NEW.previous_value
+  FROM public.lab_results r
+  WHERE r.patient_id = NEW.patient_id
+    AND r.test_type_id = NEW.test_type_id
+    AND r.collected_at < NEW.collected_at
+    AND r.id <> NEW.id
+  ORDER BY r.collected_at DESC
+  LIMIT 1;
+
+  SELECT delta_absolute, delta_percent INTO thresholds FROM public.lab_test_types WHERE id = NEW.test_type_id;
+  change := abs(NEW.value - NEW.previous_value);
+
+  NEW.delta_flag := COALESCE(
+    change >= thresholds.delta_absolute
+      OR (NEW.previous_value <> 0 AND change / abs(NEW.previous_value) * 100 >= thresholds.delta_percent),
+    false
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS check_lab_delta ON public.lab_results;
+CREATE TRIGGER check_lab_delta
+BEFORE INSERT OR UPDATE OF value, collected_at ON public.lab_results
+FOR EACH ROW
+EXECUTE FUNCTION public.check_lab_delta();
+
+-- One alert per critical result, closed by a read-back acknowledgment
+CREATE TABLE public.lab_critical_alerts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  lab_result_id UUID NOT NULL UNIQUE REFERENCES public.lab_results(id) ON DELETE CASCADE,
+  patient_id UUID NOT NULL REFERENCES public.patients(id) ON DELETE CASCADE,
+  -- The ordering doctor; NULL when nobody ordered it and every doctor was told
+  notified_user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  notified_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  escalated_at TIMESTAMP WITH TIME ZONE,
+  acknowledged_by UUID REFERENCES auth.users(id),
+  acknowledged_at TIMESTAMP WITH TIME ZONE,
+  -- The value as read back by the person acknowledging; must match the result
+  read_back_value NUMERIC,
+  comment TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_lab_critical_alerts_open ON public.lab_critical_alerts(notified_at) WHERE acknowledged_at IS NULL;
+CREATE INDEX idx_lab_critical_alerts_patient ON public.lab_critical_alerts(patient_id, notified_at DESC);
+
+ALTER TABLE public.lab_critical_alerts ENABLE ROW LEVEL SECURITY;
+
+-- Read-only to clients: alerts are raised by trigger and closed through acknowledge_critical_lab()
+CREATE POLICY "Staff can view critical lab alerts"
+ON public.lab_critical_alerts FOR SELECT
+USING (public.has_role(auth.uid(), 'doctor') OR public.has_role(auth.uid(), 'nurse'));
+
+-- Raises the alert when a result first becomes critical and tells the
+-- ordering doctor, or every doctor when the result has no orderer
+CREATE OR REPLACE FUNCTION public.raise_critical_lab_alert()
+RETURNS TRIGGER AS $$
+DECLARE
+  alert_id UUID;
+  doctor_id UUID;
+  patient_name TEXT;
+  test_name TEXT;
+BEGIN
+  IF NEW.status NOT IN ('critical_low', 'critical_high')
+    OR (TG_OP = 'UPDATE' AND OLD.status IN ('critical_low', 'critical_high')) THEN
+    RETURN NEW;
+  END IF;
+
+  IF public.has_role(NEW.ordered_by, 'doctor') THEN
+    doctor_id := NEW.ordered_by;
+  END IF;
+
+  INSERT INTO public.lab_critical_alerts (lab_result_id, patient_id, notified_user_id)
+  VALUES (NEW.id, NEW.patient_id, doctor_id)
+  ON CONFLICT (lab_result_id) DO NOTHING
+  RETURNING id INTO alert_id;
+
+  IF alert_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT name INTO patient_name FROM public.patients WHERE id = NEW.patient_id;
+  SELECT name INTO test_name FROM public.lab_test_types WHERE id = NEW.test_type_id;
+
+  INSERT INTO public.notifications (user_id, title, message, type, patient_id)
+  SELECT recipient, 'Critical lab value - ' || COALESCE(patient_name, 'Patient'),
+    test_name || ' is ' || CASE WHEN NEW.status = 'critical_high' THEN 'critically high' ELSE 'critically low' END
+      || ' at ' || NEW.value || ' ' || NEW.unit || '. Read-back acknowledgment required.',
+    'critical_lab', NEW.patient_id
+  FROM (
+    SELECT doctor_id AS recipient WHERE doctor_id IS NOT NULL
+    UNION
+    SELECT ur.user_id FROM public.user_roles ur WHERE ur.role = 'doctor' AND doctor_id IS NULL
+  ) recipients;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS raise_critical_lab_alert ON public.lab_results;
+CREATE TRIGGER raise_critical_lab_alert
+AFTER INSERT OR UPDATE OF status ON public.lab_results
+FOR EACH ROW
+EXECUTE FUNCTION public.raise_critical_lab_alert();
+
+-- Closes an alert. The caller reads the value back; a mismatch is refused so
+-- a critical cannot be acknowledged without being read.
+CREATE OR REPLACE FUNCTION public.acknowledge_critical_lab(_alert_id UUID, _read_back_value NUMERIC, _comment TEXT DEFAULT NULL)
+RETURNS void AS $$
+DECLARE
+  alert RECORD;
+BEGIN
+  IF NOT (public.has_role(auth.uid(), 'doctor') OR public.has_role(auth.uid(), 'nurse')) THEN
+    RAISE EXCEPTION 'Only staff can acknowledge critical lab values';
+  END IF;
+
+  SELECT a.acknowledged_at, r.value INTO alert
+  FROM public.lab_critical_alerts a
+  JOIN public.lab_results r ON r.id = a.lab_result_id
+  WHERE a.id = _alert_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Critical lab alert not found';
+  END IF;
+  IF alert.acknowledged_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Critical lab value already acknowledged';
+  END IF;
+  IF _read_back_value IS DISTINCT FROM alert.value THEN
+    RAISE EXCEPTION 'Read-back value % does not match the result', _read_back_value;
+  END IF;
+
+  UPDATE public.lab_critical_alerts
+  SET acknowledged_by = auth.uid(),
+      acknowledged_at = now(),
+      read_back_value = _read_back_value,
+      comment = NULLIF(trim(_comment), '')
+  WHERE id = _alert_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Escalates critical values nobody acknowledged within _after_minutes to the
+-- whole care team, once per alert
+CREATE OR REPLACE FUNCTION public.escalate_critical_lab_alerts(_after_minutes INTEGER DEFAULT 30)
+RETURNS INTEGER AS $$
+DECLARE
+  overdue RECORD;
+  sent INTEGER := 0;
+BEGIN
+  IF auth.uid() IS NOT NULL
+    AND NOT (public.has_role(auth.uid(), 'doctor') OR public.has_role(auth.uid(), 'nurse')) THEN
+    RAISE EXCEPTION 'Only staff can escalate critical lab values';
+  END IF;
+
+  FOR overdue IN
+    SELECT a.id, a.patient_id, a.notified_at, p.name AS patient_name, t.name AS test_name, r.value, r.unit
+    FROM public.lab_critical_alerts a
+    JOIN public.lab_results r ON r.id = a.lab_result_id
+    JOIN public.lab_test_types t ON t.id = r.test_type_id
+    JOIN public.patients p ON p.id = a.patient_id
+    WHERE a.acknowledged_at IS NULL
+      AND a.escalated_at IS NULL
+      AND a.notified_at < now() - make_interval(mins => _after_minutes)
+  LOOP
+    sent := sent + public.notify_care_team(
+      overdue.patient_id,
+      'Unacknowledged critical lab - ' || overdue.patient_name,
+      overdue.test_name || ' ' || overdue.value || ' ' || overdue.unit || ' has not been acknowledged after '
+        || floor(extract(epoch FROM now() - overdue.notified_at) / 60) || ' min.',
+      'critical_lab',
+      INTERVAL '0 seconds'
+    );
+    UPDATE public.lab_critical_alerts SET escalated_at = now() WHERE id = overdue.id;
+  END LOOP;
+
+  RETURN sent;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+SELECT cron.unschedule('escalate-critical-lab-alerts')
+WHERE EXISTS (SELECT 1 FROM cron.job WHERE jobname = 'escalate-critical-lab-alerts');
+
+SELECT cron.schedule('escalate-critical-lab-alerts', '*/5 * * * *', 'SELECT public.escalate_critical_lab_alerts()');
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.lab_critical_alerts;
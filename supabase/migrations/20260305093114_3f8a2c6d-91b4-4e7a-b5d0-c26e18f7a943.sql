@@ -0,0 +1,29 @@
+-- Latest rows per patient for the risk engine. Filtering in the database keeps
+-- the response small and out of reach of the API row limit. SECURITY INVOKER,
+-- so the callers' row level security still applies.
+CREATE INDEX IF NOT EXISTS idx_medical_scans_patient_created_at ON public.medical_scans(patient_id, created_at DESC);
+
+CREATE OR REPLACE FUNCTION public.latest_vitals(_patient_ids UUID[])
+RETURNS SETOF public.vitals AS $$
+  SELECT DISTINCT ON (patient_id) *
+  FROM public.vitals
+  WHERE patient_id = ANY(_patient_ids)
+  ORDER BY patient_id, recorded_at DESC
+$$ LANGUAGE sql STABLE SECURITY INVOKER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.latest_medical_scans(_patient_ids UUID[])
+RETURNS SETOF public.medical_scans AS $$
+  SELECT DISTINCT ON (patient_id) *
+  FROM public.medical_scans
+  WHERE patient_id = ANY(_patient_ids)
+  ORDER BY patient_id, created_at DESC
+$$ LANGUAGE sql STABLE SECURITY INVOKER SET search_path = public;
+
+-- The most recent result of each test
+CREATE OR REPLACE FUNCTION public.latest_lab_results(_patient_ids UUID[])
+RETURNS SETOF public.lab_results AS $$
+  SELECT DISTINCT ON (patient_id, test_type_id) *
+  FROM public.lab_results
+  WHERE patient_id = ANY(_patient_ids)
+  ORDER BY patient_id, test_type_id, collected_at DESC
+$$ LANGUAGE sql STABLE SECURITY INVOKER SET search_path = public;
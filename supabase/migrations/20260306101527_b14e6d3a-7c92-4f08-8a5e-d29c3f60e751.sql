@@ -0,0 +1,118 @@
+-- NEWS2 is validated for adults only. Patients under 16 (NEWS2_MIN_AGE in
+-- src/lib/news2.ts) are left unscored and never escalated on NEWS2; their
+-- vitals are judged against the paediatric bands instead.
+CREATE OR REPLACE FUNCTION public.calculate_news2()
+RETURNS TRIGGER AS $$
+DECLARE
+  scores INTEGER[];
+  patient_age INTEGER;
+BEGIN
+  SELECT age INTO patient_age FROM public.patients WHERE id = NEW.patient_id;
+  IF patient_age < 16 THEN
+    NEW.news2_score := NULL;
+    NEW.news2_red_flag := false;
+    RETURN NEW;
+  END IF;
+
+  scores := ARRAY[
+    -- Respiration rate
+    CASE
+      WHEN NEW.respiratory_rate IS NULL THEN 0
+      WHEN NEW.respiratory_rate <= 8 THEN 3
+      WHEN NEW.respiratory_rate <= 11 THEN 1
+      WHEN NEW.respiratory_rate <= 20 THEN 0
+      WHEN NEW.respiratory_rate <= 24 THEN 2
+      ELSE 3
+    END,
+    -- SpO2 scale 1, or scale 2 for hypercapnic respiratory failure
+    CASE
+      WHEN NEW.spo2 IS NULL THEN 0
+      WHEN NEW.spo2_scale = 2 THEN
+        CASE
+          WHEN NEW.spo2 <= 83 THEN 3
+          WHEN NEW.spo2 <= 85 THEN 2
+          WHEN NEW.spo2 <= 87 THEN 1
+          WHEN NEW.spo2 <= 92 OR NOT NEW.on_oxygen THEN 0
+          WHEN NEW.spo2 <= 94 THEN 1
+          WHEN NEW.spo2 <= 96 THEN 2
+          ELSE 3
+        END
+      WHEN NEW.spo2 <= 91 THEN 3
+      WHEN NEW.spo2 <= 93 THEN 2
+      WHEN NEW.spo2 <= 95 THEN 1
+      ELSE 0
+    END,
+    -- Air or oxygen
+    CASE WHEN NEW.on_oxygen THEN 2 ELSE 0 END,
+    -- Systolic blood pressure
+    CASE
+      WHEN NEW.blood_pressure_systolic IS NULL THEN 0
+      WHEN NEW.blood_pressure_systolic <= 90 THEN 3
+      WHEN NEW.blood_pressure_systolic <= 100 THEN 2
+      WHEN NEW.blood_pressure_systolic <= 110 THEN 1
+      WHEN NEW.blood_pressure_systolic <= 219 THEN 0
+      ELSE 3
+    END,
+    -- Pulse
+    CASE
+      WHEN NEW.heart_rate IS NULL THEN 0
+      WHEN NEW.heart_rate <= 40 THEN 3
+      WHEN NEW.heart_rate <= 50 THEN 1
+      WHEN NEW.heart_rate <= 90 THEN 0
+      WHEN NEW.heart_rate <= 110 THEN 1
+      WHEN NEW.heart_rate <= 130 THEN 2
+      ELSE 3
+    END,
+    -- Consciousness (ACVPU)
+    CASE WHEN NEW.consciousness = 'A' THEN 0 ELSE 3 END,
+    -- Temperature
+    CASE
+      WHEN NEW.temperature IS NULL THEN 0
+      WHEN NEW.temperature <= 35.0 THEN 3
+      WHEN NEW.temperature <= 36.0 THEN 1
+      WHEN NEW.temperature <= 38.0 THEN 0
+      WHEN NEW.temperature <= 39.0 THEN 1
+      ELSE 2
+    END
+  ];
+
+  NEW.news2_score := (SELECT SUM(s) FROM unnest(scores) AS s);
+  NEW.news2_red_flag := 3 = ANY(scores);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.notify_news2_escalation()
+RETURNS TRIGGER AS $$
+DECLARE
+  patient_name TEXT;
+BEGIN
+  IF NEW.news2_score IS NULL OR (NEW.news2_score < 5 AND NOT NEW.news2_red_flag) THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT name INTO patient_name FROM public.patients WHERE id = NEW.patient_id;
+
+  PERFORM public.notify_care_team(
+    NEW.patient_id,
+    'NEWS2 ' || NEW.news2_score || ' - ' || COALESCE(patient_name, 'Patient'),
+    CASE
+      WHEN NEW.news2_score >= 7 THEN 'High clinical risk. Emergency assessment by a clinical team with critical care competencies required.'
+      WHEN NEW.news2_score >= 5 THEN 'Medium clinical risk. Urgent review by a clinician competent in assessing acutely ill patients required.'
+      ELSE 'A single parameter scored 3. Urgent ward-based review required.'
+    END,
+    'high_risk_alert',
+    CASE WHEN NEW.device_id IS NULL THEN INTERVAL '0 seconds' ELSE INTERVAL '1 hour' END
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Clear the scores already stored for children
+UPDATE public.vitals v
+SET news2_score = NULL, news2_red_flag = false
+FROM public.patients p
+WHERE p.id = v.patient_id
+  AND p.age < 16
+  AND v.news2_score IS NOT NULL;
@@ -0,0 +1,13 @@
+-- Patients under 16 have no NEWS2 score (see calculate_news2), so a
+-- NEWS2-driven schedule keeps them on the routine 12-hourly minimum.
+-- Mirrors news2ObservationIntervalMinutes in src/lib/news2.ts
+CREATE OR REPLACE FUNCTION public.news2_observation_interval(_score INTEGER, _red_flag BOOLEAN)
+RETURNS INTEGER AS $$
+  SELECT CASE
+    WHEN _score IS NULL THEN 720
+    WHEN _score >= 7 THEN 15
+    WHEN _score >= 5 OR COALESCE(_red_flag, false) THEN 60
+    WHEN _score >= 1 THEN 240
+    ELSE 720
+  END;
+$$ LANGUAGE sql IMMUTABLE SET search_path = public;
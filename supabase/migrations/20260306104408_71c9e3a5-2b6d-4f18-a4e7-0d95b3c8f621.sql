@@ -0,0 +1,20 @@
+-- notify_care_team is only for the other SECURITY DEFINER functions and cron
+-- jobs; clients could otherwise send any notification type with no dedupe.
+REVOKE EXECUTE ON FUNCTION public.notify_care_team(UUID, TEXT, TEXT, TEXT, INTERVAL) FROM PUBLIC, anon, authenticated;
+
+-- Alerts raised in the browser (deteriorating vitals trends, low urine output):
+-- staff only, always a high-risk alert with the six-hour dedupe
+CREATE OR REPLACE FUNCTION public.raise_care_team_alert(_patient_id UUID, _title TEXT, _message TEXT)
+RETURNS INTEGER AS $$
+BEGIN
+  IF NOT (public.has_role(auth.uid(), 'doctor') OR public.has_role(auth.uid(), 'nurse')) THEN
+    RAISE EXCEPTION 'Only staff can alert the care team';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.patients WHERE id = _patient_id) THEN
+    RAISE EXCEPTION 'Patient not found';
+  END IF;
+
+  RETURN public.notify_care_team(_patient_id, _title, _message, 'high_risk_alert', INTERVAL '6 hours');
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
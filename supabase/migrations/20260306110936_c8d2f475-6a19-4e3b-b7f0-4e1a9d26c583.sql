@@ -0,0 +1,48 @@
+-- An order can only be reviewed once its results are in
+CREATE OR REPLACE FUNCTION public.lab_order_transition()
+RETURNS TRIGGER AS $$
+DECLARE
+  steps CONSTANT TEXT[] := ARRAY['ordered', 'collected', 'in_lab', 'resulted', 'reviewed'];
+BEGIN
+  IF NEW.status = OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF OLD.status IN ('reviewed', 'cancelled') THEN
+    RAISE EXCEPTION 'Lab order % is already %', OLD.accession_number, OLD.status;
+  END IF;
+
+  IF NEW.status = 'cancelled' THEN
+    IF OLD.status = 'resulted' THEN
+      RAISE EXCEPTION 'Lab order % has results and cannot be cancelled', OLD.accession_number;
+    END IF;
+    NEW.cancelled_at := now();
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = 'reviewed' AND OLD.status <> 'resulted' THEN
+    RAISE EXCEPTION 'Lab order % has no results to review yet', OLD.accession_number;
+  END IF;
+
+  IF array_position(steps, NEW.status) < array_position(steps, OLD.status) THEN
+    RAISE EXCEPTION 'Lab order % cannot move back from % to %', OLD.accession_number, OLD.status, NEW.status;
+  END IF;
+
+  IF array_position(steps, NEW.status) >= 2 AND NEW.collected_at IS NULL THEN
+    NEW.collected_at := now();
+    NEW.collected_by := COALESCE(NEW.collected_by, auth.uid());
+  END IF;
+  IF array_position(steps, NEW.status) >= 3 AND NEW.received_at IS NULL THEN
+    NEW.received_at := now();
+  END IF;
+  IF array_position(steps, NEW.status) >= 4 AND NEW.resulted_at IS NULL THEN
+    NEW.resulted_at := now();
+  END IF;
+  IF NEW.status = 'reviewed' THEN
+    NEW.reviewed_at := now();
+    NEW.reviewed_by := COALESCE(auth.uid(), NEW.reviewed_by);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
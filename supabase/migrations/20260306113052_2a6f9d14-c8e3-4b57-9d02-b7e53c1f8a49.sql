@@ -0,0 +1,93 @@
+-- The delta check of one result against the patient's previous result of the
+-- same test, shared by the check on write and the refresh of later results
+CREATE OR REPLACE FUNCTION public.lab_delta(
+  _patient_id UUID,
+  _test_type_id UUID,
+  _result_id UUID,
+  _value NUMERIC,
+  _collected_at TIMESTAMP WITH TIME ZONE
+)
+RETURNS TABLE (previous_value NUMERIC, delta_flag BOOLEAN) AS $$
+  SELECT
+    prev.value,
+    COALESCE(
+      abs(_value - prev.value) >= t.delta_absolute
+        OR (prev.value <> 0 AND abs(_value - prev.value) / abs(prev.value) * 100 >= t.delta_percent),
+      false
+    )
+  FROM public.lab_test_types t
+  LEFT JOIN LATERAL (
+    SELECT r.value
+    FROM public.lab_results r
+    WHERE r.patient_id = _patient_id
+      AND r.test_type_id = _test_type_id
+      AND r.collected_at < _collected_at
+      AND r.id <> _result_id
+    ORDER BY r.collected_at DESC
+    LIMIT 1
+  ) prev ON true
+  WHERE t.id = _test_type_id;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.check_lab_delta()
+RETURNS TRIGGER AS $$
+BEGIN
+  SELECT d.previous_value, d.delta_flag INTO NEW.previous_value, NEW.delta_flag
+  FROM public.lab_delta(NEW.patient_id, NEW.test_type_id, NEW.id, NEW.value, NEW.collected_at) d;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Re-checks the first result collected after _after, whose previous result
+-- may just have been inserted, moved, changed or deleted
+CREATE OR REPLACE FUNCTION public.refresh_lab_delta_after(
+  _patient_id UUID,
+  _test_type_id UUID,
+  _after TIMESTAMP WITH TIME ZONE,
+  _changed_id UUID
+)
+RETURNS void AS $$
+  UPDATE public.lab_results r
+  SET previous_value = d.previous_value,
+      delta_flag = d.delta_flag
+  FROM (
+    SELECT n.id, n.value, n.collected_at
+    FROM public.lab_results n
+    WHERE n.patient_id = _patient_id
+      AND n.test_type_id = _test_type_id
+      AND n.collected_at > _after
+      AND n.id <> _changed_id
+    ORDER BY n.collected_at
+    LIMIT 1
+  ) later
+  CROSS JOIN LATERAL public.lab_delta(_patient_id, _test_type_id, later.id, later.value, later.collected_at) d
+  WHERE r.id = later.id
+    AND (r.previous_value IS DISTINCT FROM d.previous_value OR r.delta_flag IS DISTINCT FROM d.delta_flag);
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_lab_delta_after(UUID, UUID, TIMESTAMP WITH TIME ZONE, UUID) FROM PUBLIC, anon, authenticated;
+
+-- Results can arrive out of collection order (backdated entry, a late lab
+-- message), so the next result's delta is refreshed after every change.
+-- Updating only previous_value and delta_flag fires none of the lab_results triggers.
+CREATE OR REPLACE FUNCTION public.refresh_following_lab_delta()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP <> 'DELETE' THEN
+    PERFORM public.refresh_lab_delta_after(NEW.patient_id, NEW.test_type_id, NEW.collected_at, NEW.id);
+  END IF;
+  -- The result that followed the old position
+  IF TG_OP <> 'INSERT' THEN
+    PERFORM public.refresh_lab_delta_after(OLD.patient_id, OLD.test_type_id, OLD.collected_at, OLD.id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS refresh_following_lab_delta ON public.lab_results;
+CREATE TRIGGER refresh_following_lab_delta
+AFTER INSERT OR DELETE OR UPDATE OF value, collected_at ON public.lab_results
+FOR EACH ROW
+EXECUTE FUNCTION public.refresh_following_lab_delta();
@@ -0,0 +1,6 @@
+-- Calculated results are only written by the derive_lab_results trigger, and
+-- lab_result_status reads patient demographics with owner rights; none of
+-- them are for clients
+REVOKE EXECUTE ON FUNCTION public.store_calculated_lab_result(UUID, TIMESTAMP WITH TIME ZONE, TEXT, NUMERIC, JSONB) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.derive_lab_results(UUID, TIMESTAMP WITH TIME ZONE) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.lab_result_status(UUID, UUID, NUMERIC) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,38 @@
+-- Escalation runs from the escalate-critical-lab-alerts cron job only. The
+-- window is fixed here so no caller can shorten the acknowledgment time.
+DROP FUNCTION IF EXISTS public.escalate_critical_lab_alerts(INTEGER);
+
+CREATE OR REPLACE FUNCTION public.escalate_critical_lab_alerts()
+RETURNS INTEGER AS $$
+DECLARE
+  -- CRITICAL_ESCALATION_MINUTES in src/lib/labAlerts.ts
+  after_minutes CONSTANT INTEGER := 30;
+  overdue RECORD;
+  sent INTEGER := 0;
+BEGIN
+  FOR overdue IN
+    SELECT a.id, a.patient_id, a.notified_at, p.name AS patient_name, t.name AS test_name, r.value, r.unit
+    FROM public.lab_critical_alerts a
+    JOIN public.lab_results r ON r.id = a.lab_result_id
+    JOIN public.lab_test_types t ON t.id = r.test_type_id
+    JOIN public.patients p ON p.id = a.patient_id
+    WHERE a.acknowledged_at IS NULL
+      AND a.escalated_at IS NULL
+      AND a.notified_at < now() - make_interval(mins => after_minutes)
+  LOOP
+    sent := sent + public.notify_care_team(
+      overdue.patient_id,
+      'Unacknowledged critical lab - ' || overdue.patient_name,
+      overdue.test_name || ' ' || overdue.value || ' ' || overdue.unit || ' has not been acknowledged after '
+        || floor(extract(epoch FROM now() - overdue.notified_at) / 60) || ' min.',
+      'critical_lab',
+      INTERVAL '0 seconds'
+    );
+    UPDATE public.lab_critical_alerts SET escalated_at = now() WHERE id = overdue.id;
+  END LOOP;
+
+  RETURN sent;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.escalate_critical_lab_alerts() FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,3 @@
+-- Reminders are sent by the send-observation-reminders cron job only. The staff
+-- check inside the function let anonymous callers through (auth.uid() is NULL).
+REVOKE EXECUTE ON FUNCTION public.send_observation_reminders() FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,3 @@
+-- The hourly check-urine-output cron job is the only caller. The staff check
+-- inside the function let anonymous callers through (auth.uid() is NULL).
+REVOKE EXECUTE ON FUNCTION public.check_urine_output() FROM PUBLIC, anon, authenticated;
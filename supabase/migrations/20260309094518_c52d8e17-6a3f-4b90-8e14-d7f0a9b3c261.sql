@@ -0,0 +1,48 @@
+-- Care team alerts go to the patient's assigned nurse and responsible doctor
+-- from the observation schedule, and to every doctor and nurse only when
+-- nobody is assigned. Clients cannot call this (see 20260306104408), so the
+-- staff check is left to raise_care_team_alert.
+CREATE OR REPLACE FUNCTION public.notify_care_team(
+  _patient_id UUID,
+  _title TEXT,
+  _message TEXT,
+  _type TEXT DEFAULT 'high_risk_alert',
+  _dedupe_window INTERVAL DEFAULT INTERVAL '6 hours'
+)
+RETURNS INTEGER AS $$
+DECLARE
+  sent INTEGER;
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM public.notifications
+    WHERE patient_id IS NOT DISTINCT FROM _patient_id
+      AND type = _type
+      AND title = _title
+      AND created_at > now() - _dedupe_window
+  ) THEN
+    RETURN 0;
+  END IF;
+
+  INSERT INTO public.notifications (user_id, title, message, type, patient_id)
+  SELECT recipient, _title, _message, _type, _patient_id
+  FROM (
+    SELECT assigned.recipient
+    FROM public.observation_schedules s
+    CROSS JOIN LATERAL (VALUES (s.assigned_nurse_id), (s.responsible_doctor_id)) AS assigned(recipient)
+    WHERE s.patient_id = _patient_id
+      AND assigned.recipient IS NOT NULL
+    UNION
+    SELECT ur.user_id
+    FROM public.user_roles ur
+    WHERE ur.role IN ('doctor', 'nurse')
+      AND NOT EXISTS (
+        SELECT 1 FROM public.observation_schedules s
+        WHERE s.patient_id = _patient_id
+          AND (s.assigned_nurse_id IS NOT NULL OR s.responsible_doctor_id IS NOT NULL)
+      )
+  ) recipients;
+
+  GET DIAGNOSTICS sent = ROW_COUNT;
+  RETURN sent;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;